@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { bucketFor, buildAgingReport, daysOverdue } from './aging';
+import { Converter } from './currency';
+import { createBalanceOf } from './lateFees';
+import { payment, receivable } from './testFixtures';
+
+// Rupiah only; any other currency has no rate.
+const convert: Converter = (amount, currency) => (currency === 'IDR' ? amount : null);
+
+describe('daysOverdue', () => {
+  it('counts whole calendar days', () => {
+    expect(daysOverdue('2025-01-31', '2025-03-01')).toBe(29);
+    expect(daysOverdue('2025-03-01', '2025-01-31')).toBe(-29);
+  });
+});
+
+describe('bucketFor', () => {
+  it.each([
+    [-5, 'current'], [0, 'current'], [1, 'days1to30'], [30, 'days1to30'], [31, 'days31to60'],
+    [60, 'days31to60'], [61, 'days61to90'], [90, 'days61to90'], [91, 'days90plus'],
+  ])('puts %d days in %s', (days, bucket) => {
+    expect(bucketFor(days)).toBe(bucket);
+  });
+});
+
+describe('buildAgingReport', () => {
+  const asOf = '2025-03-31';
+
+  it('buckets outstanding balances by days past due', () => {
+    const report = buildAgingReport([
+      receivable({ id: 'a', due_date: '2025-04-15' }),
+      receivable({ id: 'b', due_date: '2025-03-10', total_amount: 500 }),
+      receivable({ id: 'c', due_date: '2024-12-01', customer_id: 'c2', total_amount: 2000, issue_date: '2024-11-01' }),
+    ], createBalanceOf([], null), asOf, convert);
+
+    expect(report.rows.map(row => [row.receivable.id, row.bucket])).toEqual([
+      ['c', 'days90plus'], ['b', 'days1to30'], ['a', 'current'],
+    ]);
+    expect(report.totals).toEqual({ current: 1000, days1to30: 500, days31to60: 0, days61to90: 0, days90plus: 2000 });
+    expect(report.grandTotal).toBe(3500);
+    expect(report.byCustomer.map(c => [c.customerId, c.total])).toEqual([['c2', 2000], ['c1', 1500]]);
+  });
+
+  it('only counts payments made on or before the report date', () => {
+    const report = buildAgingReport([receivable({})], createBalanceOf([
+      payment({ id: 'p1', amount: 300, paid_at: '2025-02-10' }),
+      payment({ id: 'p2', amount: 400, paid_at: '2025-04-02' }),
+      payment({ id: 'p3', amount: 200, paid_at: '2025-02-11', voided_at: '2025-02-12T00:00:00Z' }),
+    ], null), asOf, convert);
+    expect(report.rows[0].outstanding).toBe(700);
+  });
+
+  it('settles late fees before principal', () => {
+    const flatFee = { kind: 'flat' as const, rate: 50, grace_days: 0, cap_percent: null };
+    const report = buildAgingReport([receivable({})], createBalanceOf([payment({ amount: 1000, paid_at: '2025-02-10' })], flatFee), asOf, convert);
+    expect(report.rows[0].outstanding).toBe(50);
+  });
+
+  it('leaves out fully paid receivables', () => {
+    const report = buildAgingReport([receivable({})], createBalanceOf([payment({ amount: 1000 })], null), asOf, convert);
+    expect(report.rows).toEqual([]);
+    expect(report.grandTotal).toBe(0);
+  });
+
+  it('leaves out receivables booked after the report date', () => {
+    const report = buildAgingReport([
+      receivable({ id: 'old' }),
+      receivable({ id: 'future', issue_date: '2025-04-05', due_date: '2025-05-05' }),
+      receivable({ id: 'undated', issue_date: null, due_date: '2025-04-20' }),
+    ], createBalanceOf([], null), asOf, convert);
+    expect(report.rows.map(row => row.receivable.id)).toEqual(['old']);
+  });
+
+  it('reports currencies without a rate instead of adding them to the totals', () => {
+    const report = buildAgingReport([receivable({ id: 'usd', currency: 'USD' }), receivable({ id: 'idr' })], createBalanceOf([], null), asOf, convert);
+    expect(report.rows).toHaveLength(2);
+    expect(report.grandTotal).toBe(1000);
+    expect(report.missingCurrencies).toEqual(['USD']);
+  });
+});
@@ -0,0 +1,105 @@
+import { Receivable } from './types';
+import { Converter, bookingDate, carryingAmount } from './currency';
+import { BalanceOf } from './lateFees';
+import { daysBetween } from './dates';
+
+// Accounts-receivable aging: groups each receivable's outstanding balance by how many
+// days it is past its due date on a given "as of" date. Totals are in the base currency,
+// at the rate each receivable was booked at.
+
+export type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'days90plus';
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Belum Jatuh Tempo' },
+  { key: 'days1to30', label: '1–30 Hari' },
+  { key: 'days31to60', label: '31–60 Hari' },
+  { key: 'days61to90', label: '61–90 Hari' },
+  { key: 'days90plus', label: '> 90 Hari' },
+];
+
+export type BucketTotals = Record<AgingBucket, number>;
+
+export interface AgingRow {
+  receivable: Receivable;
+  // Principal and late fees, in the receivable's own currency.
+  outstanding: number;
+  // In the base currency; null when there is no rate, which leaves the row out of the totals.
+  baseOutstanding: number | null;
+  daysOverdue: number;
+  bucket: AgingBucket;
+}
+
+export interface CustomerAging {
+  customerId: string | null;
+  buckets: BucketTotals;
+  total: number;
+}
+
+export interface AgingReport {
+  rows: AgingRow[];
+  byCustomer: CustomerAging[];
+  totals: BucketTotals;
+  grandTotal: number;
+  // Currencies of rows left out of the totals for lack of a rate.
+  missingCurrencies: string[];
+}
+
+const emptyTotals = (): BucketTotals => ({
+  current: 0,
+  days1to30: 0,
+  days31to60: 0,
+  days61to90: 0,
+  days90plus: 0,
+});
+
+export const daysOverdue = (dueDate: string, asOf: string): number => daysBetween(dueDate, asOf);
+
+export const bucketFor = (days: number): AgingBucket => {
+  if (days <= 0) return 'current';
+  if (days <= 30) return 'days1to30';
+  if (days <= 60) return 'days31to60';
+  if (days <= 90) return 'days61to90';
+  return 'days90plus';
+};
+
+// Balances are taken as of the report date, so a report for a past month-end
+// reproduces what was outstanding, fees included, at that time.
+export const buildAgingReport = (receivables: Receivable[], balanceOf: BalanceOf, asOf: string, convert: Converter): AgingReport => {
+  const rows: AgingRow[] = [];
+  receivables.forEach(receivable => {
+    // Receivables booked after the report date did not exist yet.
+    if (bookingDate(receivable) > asOf) return;
+    const { outstanding } = balanceOf(receivable, asOf);
+    if (outstanding <= 0) return;
+    const days = receivable.due_date ? daysOverdue(receivable.due_date, asOf) : 0;
+    const baseOutstanding = carryingAmount(convert, receivable, outstanding);
+    rows.push({ receivable, outstanding, baseOutstanding, daysOverdue: days, bucket: bucketFor(days) });
+  });
+  rows.sort((a, b) => b.daysOverdue - a.daysOverdue);
+
+  const totals = emptyTotals();
+  const customers = new Map<string | null, CustomerAging>();
+  const missing = new Set<string>();
+  let grandTotal = 0;
+  rows.forEach(row => {
+    if (row.baseOutstanding === null) {
+      missing.add(row.receivable.currency);
+      return;
+    }
+    totals[row.bucket] += row.baseOutstanding;
+    grandTotal += row.baseOutstanding;
+    const key = row.receivable.customer_id;
+    const entry = customers.get(key) ?? { customerId: key, buckets: emptyTotals(), total: 0 };
+    entry.buckets[row.bucket] += row.baseOutstanding;
+    entry.total += row.baseOutstanding;
+    customers.set(key, entry);
+  });
+
+  return {
+    rows,
+    byCustomer: [...customers.values()].sort((a, b) => b.total - a.total),
+    totals,
+    grandTotal,
+    missingCurrencies: [...missing].sort(),
+  };
+};
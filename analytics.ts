@@ -0,0 +1,266 @@
+import { Customer, Payment, Receivable, Revenue } from './types';
+import { Converter, bookingDate, carryingAmount } from './currency';
+import { BalanceOf } from './lateFees';
+import { addDays, daysBetween } from './dates';
+
+// Figures for the overview tab, all in the base currency. Receivable-side figures (issued,
+// collected, balances) use the rate each receivable was booked at, so they add up with
+// the receivables summary; revenue is converted at its own date. Balances include the
+// late fees owed, as the summary's do. Periods are whole
+// calendar months so the monthly charts and the totals always cover the same days.
+
+export type AnalyticsPeriod = 'month' | 'quarter' | 'halfYear' | 'year' | 'last12Months';
+
+export const ANALYTICS_PERIODS: { key: AnalyticsPeriod; label: string }[] = [
+  { key: 'month', label: 'Bulan Ini' },
+  { key: 'quarter', label: 'Kuartal Ini' },
+  { key: 'halfYear', label: '6 Bulan Terakhir' },
+  { key: 'year', label: 'Tahun Ini' },
+  { key: 'last12Months', label: '12 Bulan Terakhir' },
+];
+
+// Inclusive 'YYYY-MM-DD' bounds.
+export interface PeriodRange {
+  from: string;
+  to: string;
+}
+
+export interface MonthlyPoint {
+  // 'YYYY-MM'
+  month: string;
+  revenue: number;
+  issued: number;
+  collected: number;
+}
+
+export interface PeriodMetrics {
+  revenue: number;
+  issued: number;
+  collected: number;
+  // Outstanding at the start and the end of the period.
+  openingBalance: number;
+  closingBalance: number;
+  // Share of what was collectable (opening balance plus new receivables) that came in; null when nothing was.
+  collectionRate: number | null;
+  // Days sales outstanding: the closing balance expressed in days of the period's sales; null without sales.
+  dso: number | null;
+}
+
+export interface Debtor {
+  customerId: string;
+  name: string;
+  outstanding: number;
+  overdue: number;
+}
+
+export interface ProjectionPoint {
+  // 'YYYY-MM', or 'overdue' for balances already past their due date.
+  month: string;
+  expected: number;
+}
+
+export interface AnalyticsReport {
+  range: PeriodRange;
+  previousRange: PeriodRange;
+  monthly: MonthlyPoint[];
+  current: PeriodMetrics;
+  previous: PeriodMetrics;
+  topDebtors: Debtor[];
+  projection: ProjectionPoint[];
+}
+
+export const TOP_DEBTOR_COUNT = 5;
+export const PROJECTION_MONTHS = 6;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const monthKey = (year: number, month: number) => {
+  // Normalizes month overflow in either direction, e.g. (2025, 13) -> '2026-01'.
+  const date = new Date(Date.UTC(year, month - 1, 1));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}`;
+};
+
+const parseMonth = (key: string) => key.split('-').map(Number) as [number, number];
+
+const lastDayOf = (key: string) => {
+  const [year, month] = parseMonth(key);
+  return `${key}-${pad(new Date(Date.UTC(year, month, 0)).getUTCDate())}`;
+};
+
+const addMonths = (key: string, months: number) => {
+  const [year, month] = parseMonth(key);
+  return monthKey(year, month + months);
+};
+
+export const monthsIn = (range: PeriodRange) => {
+  const months: string[] = [];
+  for (let key = range.from.slice(0, 7); key <= range.to.slice(0, 7); key = addMonths(key, 1)) months.push(key);
+  return months;
+};
+
+export const periodRange = (period: AnalyticsPeriod, today: string): PeriodRange => {
+  const current = today.slice(0, 7);
+  const [year, month] = parseMonth(current);
+  const firstMonth = {
+    month: current,
+    quarter: monthKey(year, month - ((month - 1) % 3)),
+    halfYear: addMonths(current, -5),
+    year: `${year}-01`,
+    last12Months: addMonths(current, -11),
+  }[period];
+  // Periods that run to the end of the year or quarter still stop at the current month.
+  return { from: `${firstMonth}-01`, to: lastDayOf(current) };
+};
+
+// The same number of months immediately before the range.
+export const previousPeriod = (range: PeriodRange): PeriodRange => {
+  const length = monthsIn(range).length;
+  const firstMonth = addMonths(range.from.slice(0, 7), -length);
+  return { from: `${firstMonth}-01`, to: lastDayOf(addMonths(firstMonth, length - 1)) };
+};
+
+const daysIn = (range: PeriodRange) => daysBetween(range.from, range.to) + 1;
+
+const inRange = (date: string, range: PeriodRange) => date >= range.from && date <= range.to;
+
+// Payments that still count: not voided and against a receivable that is still active.
+const livePayments = (receivables: Receivable[], payments: Payment[]) => {
+  const byId = new Map(receivables.map(r => [r.id, r]));
+  return payments
+    .filter(p => !p.voided_at && byId.has(p.receivable_id))
+    .map(payment => ({ payment, receivable: byId.get(payment.receivable_id)! }));
+};
+
+// What was outstanding at the end of `date`, in the base currency.
+const balanceAt = (convert: Converter, receivables: Receivable[], balanceOf: BalanceOf, date: string) =>
+  receivables
+    .filter(r => bookingDate(r) <= date)
+    .reduce((sum, r) => sum + (carryingAmount(convert, r, balanceOf(r, date).outstanding) ?? 0), 0);
+
+const dayBefore = (date: string) => addDays(date, -1);
+
+export const periodMetrics = (
+  convert: Converter,
+  receivables: Receivable[],
+  payments: Payment[],
+  balanceOf: BalanceOf,
+  revenues: Revenue[],
+  range: PeriodRange,
+): PeriodMetrics => {
+  const revenue = revenues
+    .filter(r => inRange(r.date, range))
+    .reduce((sum, r) => sum + (convert(r.amount, r.currency, r.date) ?? 0), 0);
+  const issued = receivables
+    .filter(r => inRange(bookingDate(r), range))
+    .reduce((sum, r) => sum + (carryingAmount(convert, r, r.total_amount) ?? 0), 0);
+  const collected = livePayments(receivables, payments)
+    .filter(({ payment }) => inRange(payment.paid_at, range))
+    .reduce((sum, { payment, receivable }) => sum + (carryingAmount(convert, receivable, payment.amount) ?? 0), 0);
+  const openingBalance = balanceAt(convert, receivables, balanceOf, dayBefore(range.from));
+  const closingBalance = balanceAt(convert, receivables, balanceOf, range.to);
+  const collectable = openingBalance + issued;
+
+  return {
+    revenue,
+    issued,
+    collected,
+    openingBalance,
+    closingBalance,
+    collectionRate: collectable > 0 ? collected / collectable : null,
+    dso: issued > 0 ? (closingBalance / issued) * daysIn(range) : null,
+  };
+};
+
+export const monthlySeries = (
+  convert: Converter,
+  receivables: Receivable[],
+  payments: Payment[],
+  revenues: Revenue[],
+  range: PeriodRange,
+): MonthlyPoint[] => {
+  const points = new Map(monthsIn(range).map(month => [month, { month, revenue: 0, issued: 0, collected: 0 }]));
+  const add = (date: string, field: 'revenue' | 'issued' | 'collected', amount: number | null) => {
+    const point = inRange(date, range) ? points.get(date.slice(0, 7)) : undefined;
+    if (point && amount !== null) point[field] += amount;
+  };
+  revenues.forEach(r => add(r.date, 'revenue', convert(r.amount, r.currency, r.date)));
+  receivables.forEach(r => add(bookingDate(r), 'issued', carryingAmount(convert, r, r.total_amount)));
+  livePayments(receivables, payments).forEach(({ payment, receivable }) =>
+    add(payment.paid_at, 'collected', carryingAmount(convert, receivable, payment.amount)));
+  return [...points.values()];
+};
+
+// Receivables are expected to be paid on their due date; anything already overdue is
+// shown separately because there is no date to expect it on.
+export const cashProjection = (
+  convert: Converter,
+  receivables: Receivable[],
+  balanceOf: BalanceOf,
+  today: string,
+  months = PROJECTION_MONTHS,
+): ProjectionPoint[] => {
+  const firstMonth = today.slice(0, 7);
+  const points = new Map<string, ProjectionPoint>([['overdue', { month: 'overdue', expected: 0 }]]);
+  for (let i = 0; i < months; i++) {
+    const month = addMonths(firstMonth, i);
+    points.set(month, { month, expected: 0 });
+  }
+  receivables.forEach(r => {
+    const outstanding = carryingAmount(convert, r, balanceOf(r, today).outstanding);
+    if (!outstanding || outstanding <= 0 || !r.due_date) return;
+    const point = points.get(r.due_date < today ? 'overdue' : r.due_date.slice(0, 7));
+    if (point) point.expected += outstanding;
+  });
+  return [...points.values()];
+};
+
+export const topDebtors = (
+  convert: Converter,
+  receivables: Receivable[],
+  balanceOf: BalanceOf,
+  customers: Customer[],
+  today: string,
+  count = TOP_DEBTOR_COUNT,
+): Debtor[] => {
+  const names = new Map(customers.map(c => [c.id, c.name]));
+  const debtors = new Map<string, Debtor>();
+  receivables.forEach(r => {
+    if (!r.customer_id) return;
+    const outstanding = carryingAmount(convert, r, balanceOf(r, today).outstanding);
+    if (!outstanding || outstanding <= 0) return;
+    const debtor = debtors.get(r.customer_id)
+      ?? { customerId: r.customer_id, name: names.get(r.customer_id) ?? '(pelanggan dihapus)', outstanding: 0, overdue: 0 };
+    debtor.outstanding += outstanding;
+    if (r.due_date && r.due_date < today) debtor.overdue += outstanding;
+    debtors.set(r.customer_id, debtor);
+  });
+  return [...debtors.values()].sort((a, b) => b.outstanding - a.outstanding).slice(0, count);
+};
+
+// `receivables` exclude the trash.
+export const buildAnalytics = (
+  convert: Converter,
+  receivables: Receivable[],
+  payments: Payment[],
+  balanceOf: BalanceOf,
+  revenues: Revenue[],
+  customers: Customer[],
+  period: AnalyticsPeriod,
+  today: string,
+): AnalyticsReport => {
+  const range = periodRange(period, today);
+  const previousRange = previousPeriod(range);
+  return {
+    range,
+    previousRange,
+    monthly: monthlySeries(convert, receivables, payments, revenues, range),
+    current: periodMetrics(convert, receivables, payments, balanceOf, revenues, range),
+    previous: periodMetrics(convert, receivables, payments, balanceOf, revenues, previousRange),
+    topDebtors: topDebtors(convert, receivables, balanceOf, customers, today),
+    projection: cashProjection(convert, receivables, balanceOf, today),
+  };
+};
+
+// Relative change from the previous period; null when there is nothing to compare with.
+export const percentChange = (current: number | null, previous: number | null) =>
+  current === null || previous === null || previous === 0 ? null : (current - previous) / Math.abs(previous);
@@ -0,0 +1,182 @@
+import { AuditAction, AuditEntity, AuditEntry, LateFeeRule, PeriodClose } from './types';
+import { CachedTable } from './offlineStore';
+import { formatCurrency, formatDate, formatDateTime } from './formatters';
+import { describeLateFeeRule } from './lateFees';
+import { describePeriod } from './periods';
+
+// Building and presenting activity log entries. An entry keeps the row as it was before
+// and after the change, so edits can be shown as a diff.
+
+type Row = Record<string, unknown>;
+
+export const ENTITY_BY_TABLE: Record<CachedTable | 'period_closes', AuditEntity> = {
+  receivables: 'receivable',
+  revenues: 'revenue',
+  payments: 'payment',
+  customers: 'customer',
+  payables: 'payable',
+  payable_payments: 'payable_payment',
+  expenses: 'expense',
+  period_closes: 'period',
+};
+
+export const ENTITY_LABELS: Record<AuditEntity, string> = {
+  receivable: 'Piutang',
+  revenue: 'Pendapatan',
+  payment: 'Pembayaran',
+  customer: 'Pelanggan',
+  payable: 'Hutang',
+  payable_payment: 'Pembayaran Hutang',
+  expense: 'Biaya',
+  period: 'Periode Buku',
+};
+
+export const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Dibuat',
+  update: 'Diubah',
+  delete: 'Dihapus',
+  void: 'Dibatalkan',
+  trash: 'Dipindah ke Sampah',
+  restore: 'Dipulihkan',
+  close: 'Ditutup',
+  reopen: 'Dibuka Kembali',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  customer_id: 'Pelanggan',
+  supplier: 'Pemasok',
+  description: 'Keterangan',
+  currency: 'Mata Uang',
+  total_amount: 'Jumlah Piutang',
+  paid_amount: 'Sudah Dibayar',
+  issue_date: 'Tanggal Transaksi',
+  due_date: 'Jatuh Tempo',
+  amount: 'Jumlah',
+  date: 'Tanggal',
+  paid_at: 'Tanggal Bayar',
+  method: 'Metode',
+  note: 'Catatan',
+  voided_at: 'Dibatalkan',
+  deleted_at: 'Dihapus',
+  occurrence_date: 'Jadwal',
+  category_id: 'Kategori',
+  tags: 'Tag',
+  late_fee_rule: 'Aturan Denda',
+  name: 'Nama',
+  phone: 'Telepon',
+  email: 'Email',
+  address: 'Alamat',
+  notes: 'Catatan',
+  adjustment_reason: 'Alasan Penyesuaian',
+  period_start: 'Awal Periode',
+  period_end: 'Akhir Periode',
+  reopened_at: 'Dibuka Kembali',
+  reopen_reason: 'Alasan Dibuka Kembali',
+};
+
+const AMOUNT_FIELDS = new Set(['total_amount', 'paid_amount', 'amount']);
+const DATE_FIELDS = new Set(['issue_date', 'due_date', 'date', 'paid_at', 'occurrence_date', 'period_start', 'period_end']);
+// Bookkeeping columns that say nothing about what changed.
+const HIDDEN_FIELDS = new Set([
+  'id', 'user_id', 'workspace_id', 'created_at', 'updated_at', 'receivable_id', 'payment_id', 'recurring_id', 'payable_id', 'payable_payment_id', 'adjusts_id',
+  'snapshot', 'closed_at', 'closed_by_email', 'reopened_by_email', 'kind',
+]);
+
+export type AuditedTable = keyof typeof ENTITY_BY_TABLE;
+
+export interface AuditedChange {
+  table: AuditedTable;
+  op: 'insert' | 'update' | 'delete';
+  before: Row | null;
+  after: Row | null;
+  // No id for changes made without a signed-in user.
+  actor: { id: string | null; email: string };
+  // The description of the receivable or payable a payment was recorded against.
+  parentDescription?: string | null;
+}
+
+// Updates that set or clear a marker column are named after it.
+export const auditAction = ({ table, op, before, after }: Pick<AuditedChange, 'table' | 'op' | 'before' | 'after'>): AuditAction => {
+  if (op === 'insert') return table === 'period_closes' ? 'close' : 'create';
+  if (op === 'delete') return 'delete';
+  const set = (column: string) => before?.[column] == null && after?.[column] != null;
+  if (set('voided_at')) return 'void';
+  if (set('deleted_at')) return 'trash';
+  if (before?.deleted_at != null && after?.deleted_at == null) return 'restore';
+  if (set('reopened_at')) return 'reopen';
+  return 'update';
+};
+
+// What the entry is listed as: the row's description or name, the entry a payment was
+// recorded against, or the period.
+export const auditSummary = (table: AuditedTable, row: Row, parentDescription?: string | null) => {
+  if (table === 'period_closes') return describePeriod(row as unknown as PeriodClose);
+  const name = table === 'payments' || table === 'payable_payments' ? parentDescription : row.description ?? row.name;
+  return `"${name ?? ''}"`;
+};
+
+// The entry the database writes for a change to an audited table, in the same
+// transaction and in the name of the signed-in user (record_audit_entry in
+// supabase/migrations/0004_audit_trigger.sql). The local backend writes the same.
+// Updates that change nothing but updated_at leave no entry.
+export const auditEntryFor = (change: AuditedChange): AuditEntry | null => {
+  const { before, after } = change;
+  const row = (after ?? before)!;
+  if (change.op === 'update' && Object.keys({ ...before, ...after })
+    .every(field => field === 'updated_at' || comparable(before?.[field]) === comparable(after?.[field]))) return null;
+  // Payments and posted entries belong to the receivable or payable they were recorded against.
+  const parent = (row?.receivable_id ?? row?.payable_id ?? null) as string | null;
+  return {
+    id: crypto.randomUUID(),
+    workspace_id: String(row.workspace_id),
+    actor_id: change.actor.id,
+    actor_email: change.actor.email,
+    entity: ENTITY_BY_TABLE[change.table],
+    entity_id: String(row.id),
+    parent_id: parent,
+    action: auditAction(change),
+    summary: auditSummary(change.table, row, change.parentDescription),
+    before,
+    after,
+    occurred_at: new Date().toISOString(),
+  };
+};
+
+export interface AuditChange {
+  field: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Objects (JSON columns) compare by content.
+const comparable = (value: unknown) => typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+
+// Columns whose value differs between before and after. For creates and deletes that is
+// every column that was set.
+export const auditChanges = (entry: AuditEntry): AuditChange[] => {
+  const fields = new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})]);
+  return [...fields]
+    .filter(field => !HIDDEN_FIELDS.has(field))
+    .map(field => ({ field, label: FIELD_LABELS[field] ?? field, before: entry.before?.[field] ?? null, after: entry.after?.[field] ?? null }))
+    .filter(change => comparable(change.before) !== comparable(change.after));
+};
+
+// Amounts are shown in `currency`, the currency of the record (or its receivable).
+export const formatAuditValue = (
+  field: string,
+  value: unknown,
+  customerNames?: Map<string, string>,
+  currency = 'IDR',
+  categoryNames?: Map<string, string>,
+) => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '-';
+  if (field === 'late_fee_rule') return describeLateFeeRule(value as LateFeeRule, currency, formatCurrency);
+  if (AMOUNT_FIELDS.has(field)) return formatCurrency(Number(value), currency);
+  if (DATE_FIELDS.has(field)) return formatDate(String(value));
+  if (field === 'voided_at' || field === 'deleted_at' || field === 'reopened_at') return formatDateTime(String(value));
+  if (field === 'customer_id') return customerNames?.get(String(value)) ?? '(pelanggan dihapus)';
+  if (field === 'category_id') return categoryNames?.get(String(value)) ?? '(kategori dihapus)';
+  return String(value);
+};
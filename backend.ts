@@ -0,0 +1,36 @@
+import { Backend, BackendKind } from './repository';
+import { createSupabaseBackend } from './supabaseBackend';
+import { createLocalBackend, createMemoryStore } from './localBackend';
+
+// Picks the data backend from the Vite environment (.env.local):
+//   VITE_DATA_BACKEND       supabase | local | memory
+//   VITE_SUPABASE_URL       project URL from the Supabase dashboard
+//   VITE_SUPABASE_ANON_KEY  the project's anon (public) API key
+// Without a backend setting, Supabase is used when both credentials are present. Anything
+// else is a configuration mistake and stops the app at start-up, rather than quietly
+// keeping a user's data in this browser or in a client that cannot reach any project.
+
+const BACKENDS: BackendKind[] = ['supabase', 'local', 'memory'];
+
+export const selectBackend = (env: ImportMetaEnv): Backend => {
+  const url = env.VITE_SUPABASE_URL ?? '';
+  const anonKey = env.VITE_SUPABASE_ANON_KEY ?? '';
+  const requested = env.VITE_DATA_BACKEND as BackendKind | undefined;
+  if (requested && !BACKENDS.includes(requested)) {
+    throw new Error(`Unknown VITE_DATA_BACKEND "${requested}"; expected one of ${BACKENDS.join(', ')}.`);
+  }
+  const kind = requested ?? (url && anonKey ? 'supabase' : undefined);
+  if (!kind) {
+    throw new Error('No data backend is configured: set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY, or VITE_DATA_BACKEND=local for the browser-only demo.');
+  }
+
+  if (kind === 'supabase') {
+    if (!url || !anonKey) {
+      throw new Error('VITE_DATA_BACKEND is supabase but VITE_SUPABASE_URL or VITE_SUPABASE_ANON_KEY is not set in .env.local.');
+    }
+    return createSupabaseBackend(url, anonKey);
+  }
+  return kind === 'memory' ? createLocalBackend(createMemoryStore(), 'memory') : createLocalBackend(window.localStorage, 'local');
+};
+
+export const backend = selectBackend(import.meta.env);
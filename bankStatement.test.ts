@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { findHeaderRow, guessBankMapping, parseStatement, readStatement } from './bankStatement';
+
+// A KlikBCA export: account details, a blank line, then the transactions.
+const BCA = [
+  ['Informasi Rekening - Mutasi Rekening'],
+  ['No. rekening', '1234567890'],
+  ['Nama', 'PT CONTOH'],
+  [],
+  ['Tanggal Transaksi', 'Keterangan', 'Cabang', 'Jumlah', 'Saldo'],
+  ['17/08/2025', 'TRSF E-BANKING CR 1708/FTSCY/WS95051 PT MAJU JAYA', '0000', '1,500,000.00 CR', '2,000,000.00'],
+  ['17/08/2025', 'BIAYA ADM', '0000', '10,000.00 DB', '1,990,000.00'],
+  [],
+  ['18/08/2025', 'TRSF E-BANKING CR SETORAN', '0000', 'banyak CR', '1,990,000.00'],
+  ['Saldo Akhir', '', '', '', '1,990,000.00'],
+  ['19/08/2025', 'TRSF E-BANKING CR 1708/FTSCY/WS95051 PT MAJU JAYA', '0000', '1,500,000.00 CR', '3,490,000.00'],
+  ['19/08/2025', 'TRSF E-BANKING CR 1708/FTSCY/WS95051 PT MAJU JAYA', '0000', '1,500,000.00 CR', '4,990,000.00'],
+];
+
+describe('findHeaderRow', () => {
+  it('skips the account details above the headers', () => {
+    expect(findHeaderRow(BCA, 'bca')).toBe(4);
+  });
+
+  it('falls back to the first row', () => {
+    expect(findHeaderRow([['a', 'b'], ['1', '2']], 'bca')).toBe(0);
+  });
+});
+
+describe('parseStatement', () => {
+  const sheet = readStatement(BCA, 'bca');
+  const mapping = guessBankMapping('bca', sheet.headers);
+  const statement = parseStatement(sheet, mapping);
+
+  it('maps the preset headers', () => {
+    expect(mapping).toMatchObject({ date: 0, description: 1, amount: 3, credit: null, debit: null });
+  });
+
+  it('keeps incoming lines and counts the rest', () => {
+    expect(statement.lines.map(line => [line.date, line.amount])).toEqual([
+      ['2025-08-17', 1500000], ['2025-08-19', 1500000], ['2025-08-19', 1500000],
+    ]);
+    expect(statement.outgoing).toBe(1);
+    expect(statement.skipped).toBe(1);
+  });
+
+  it('reports rows by their line number in the file, below the account details and blank rows', () => {
+    expect(statement.lines.map(line => line.rowNumber)).toEqual([6, 11, 12]);
+    expect(statement.errors).toEqual([{ rowNumber: 9, message: 'Jumlah bukan angka yang valid' }]);
+  });
+
+  it('tells identical lines apart by their order', () => {
+    const [, first, second] = statement.lines;
+    expect(first.fingerprint).not.toBe(second.fingerprint);
+    expect(parseStatement(sheet, mapping).lines.map(line => line.fingerprint))
+      .toEqual(statement.lines.map(line => line.fingerprint));
+  });
+
+  it('reads separate debit and credit columns', () => {
+    const mandiri = readStatement([
+      ['Account No', 'Date', 'Description', 'Reference No.', 'Debit', 'Credit'],
+      ['123', '2025-08-17 10:22:33', 'TRANSFER DARI CV SENTOSA', 'REF1', '', '250.000'],
+      ['123', '2025-08-17 11:00:00', 'TARIK TUNAI', 'REF2', '100.000', ''],
+    ], 'mandiri');
+    const parsed = parseStatement(mandiri, guessBankMapping('mandiri', mandiri.headers));
+    expect(parsed.lines).toMatchObject([
+      { rowNumber: 2, date: '2025-08-17', description: 'TRANSFER DARI CV SENTOSA', reference: 'REF1', amount: 250000 },
+    ]);
+    expect(parsed.outgoing).toBe(1);
+  });
+});
@@ -0,0 +1,182 @@
+import { Cell, ParsedSheet, cellText, normalizeHeader, parseIndonesianDate, parseIndonesianNumber, toSheet } from './importParser';
+
+// Bank mutation files. Every bank exports its own layout, usually with a few lines of
+// account details above the column headers. The presets only differ in the header names
+// they recognise; every column can still be remapped by hand. Only incoming money is kept,
+// since those are the lines that can pay a receivable.
+
+export type BankPreset = 'bca' | 'mandiri' | 'bri' | 'other';
+
+// Incoming amounts come either from a credit column, or from one amount column whose
+// direction is a CR/DB marker (in its own column or after the number) or a minus sign.
+export type BankField = 'date' | 'description' | 'reference' | 'credit' | 'debit' | 'amount' | 'direction';
+
+export const BANK_FIELDS: { key: BankField; label: string }[] = [
+  { key: 'date', label: 'Tanggal' },
+  { key: 'description', label: 'Keterangan' },
+  { key: 'reference', label: 'No. Referensi' },
+  { key: 'credit', label: 'Kredit (Masuk)' },
+  { key: 'debit', label: 'Debet (Keluar)' },
+  { key: 'amount', label: 'Jumlah (dengan CR/DB)' },
+  { key: 'direction', label: 'Jenis (CR/DB)' },
+];
+
+type Aliases = Partial<Record<BankField, string[]>>;
+
+const PRESET_ALIASES: Record<Exclude<BankPreset, 'other'>, Aliases> = {
+  // KlikBCA: "Tanggal Transaksi, Keterangan, Cabang, Jumlah, Saldo", amounts like "1,500,000.00 CR".
+  bca: {
+    date: ['tanggaltransaksi', 'tanggal', 'tgl'],
+    description: ['keterangan', 'keterangantransaksi'],
+    amount: ['jumlah', 'mutasi', 'nominal'],
+    direction: ['dbcr', 'crdb', 'jenis', 'jenistransaksi'],
+  },
+  // Mandiri: "Account No, Date, Val. Date, Transaction Code, Description, Reference No., Debit, Credit".
+  mandiri: {
+    date: ['date', 'postingdate', 'tanggal', 'valdate'],
+    description: ['description', 'remarks', 'keterangan'],
+    reference: ['referenceno', 'reference', 'noreferensi'],
+    debit: ['debit', 'debet'],
+    credit: ['credit', 'kredit'],
+  },
+  // BRI: "TGL_TRAN, DESK_TRAN, MUTASI_DEBET, MUTASI_KREDIT, SALDO_AKHIR_MUTASI".
+  bri: {
+    date: ['tgltran', 'tanggaltransaksi', 'tanggal'],
+    description: ['desktran', 'uraiantransaksi', 'keterangan'],
+    reference: ['nomorreferensi', 'reffno', 'noreferensi'],
+    debit: ['mutasidebet', 'debet'],
+    credit: ['mutasikredit', 'kredit'],
+  },
+};
+
+export const BANK_PRESETS: { key: BankPreset; label: string }[] = [
+  { key: 'bca', label: 'BCA' },
+  { key: 'mandiri', label: 'Mandiri' },
+  { key: 'bri', label: 'BRI' },
+  { key: 'other', label: 'Lainnya' },
+];
+
+// "Lainnya" recognises the headers of every preset.
+const aliasesFor = (preset: BankPreset): Aliases => {
+  if (preset !== 'other') return PRESET_ALIASES[preset];
+  const merged: Aliases = {};
+  Object.values(PRESET_ALIASES).forEach(aliases => (Object.keys(aliases) as BankField[]).forEach(field => {
+    merged[field] = [...new Set([...(merged[field] ?? []), ...aliases[field]!])];
+  }));
+  return merged;
+};
+
+export type BankMapping = Record<BankField, number | null>;
+
+// The account details above the headers are skipped: the header row is the first one,
+// among the first few, that names both a date and an incoming amount column.
+const HEADER_SEARCH_ROWS = 20;
+
+export const findHeaderRow = (matrix: Cell[][], preset: BankPreset) => {
+  const aliases = aliasesFor(preset);
+  const has = (row: Cell[], field: BankField) => row.some(cell => aliases[field]?.includes(normalizeHeader(cellText(cell))));
+  const index = matrix
+    .slice(0, HEADER_SEARCH_ROWS)
+    .findIndex(row => has(row, 'date') && (has(row, 'credit') || has(row, 'amount')));
+  return Math.max(0, index);
+};
+
+export const readStatement = (matrix: Cell[][], preset: BankPreset): ParsedSheet => {
+  const headerRow = findHeaderRow(matrix, preset);
+  return toSheet(matrix.slice(headerRow), headerRow);
+};
+
+export const guessBankMapping = (preset: BankPreset, headers: string[]): BankMapping => {
+  const aliases = aliasesFor(preset);
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as BankMapping;
+  BANK_FIELDS.forEach(({ key }) => {
+    const index = (aliases[key] ?? [])
+      .map(alias => normalized.findIndex((header, i) => header === alias && !used.has(i)))
+      .find(i => i >= 0);
+    mapping[key] = index ?? null;
+    if (index !== undefined) used.add(index);
+  });
+  return mapping;
+};
+
+export interface BankStatementLine {
+  rowNumber: number;
+  date: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+  // Identifies the line across imports, so overlapping statements add nothing twice.
+  fingerprint: string;
+}
+
+export interface ParsedStatement {
+  lines: BankStatementLine[];
+  // Debits, which pay nothing we are owed.
+  outgoing: number;
+  // Rows that are not transactions, such as opening and closing balances.
+  skipped: number;
+  errors: { rowNumber: number; message: string }[];
+}
+
+const DIRECTION_SUFFIX = /\s*(CR|DB|K|D)\.?\s*$/i;
+
+const isDebitMarker = (text: string) => /^(DB|D|DEBET|DEBIT)$/i.test(text.trim());
+
+// Bank exports often add the time to the date, e.g. "2025-08-17 10:22:33".
+const parseBankDate = (value: Cell) =>
+  parseIndonesianDate(value) ?? parseIndonesianDate(cellText(value).split(/\s+/)[0]);
+
+// The amount of money coming in on the row: positive for credits, negative for debits,
+// null when the row carries no amount.
+const signedAmount = (row: Cell[], mapping: BankMapping): number | null | 'invalid' => {
+  const cell = (field: BankField) => mapping[field] === null ? null : row[mapping[field]!];
+  if (mapping.credit !== null || mapping.debit !== null) {
+    const credit = cellText(cell('credit')) ? parseIndonesianNumber(cell('credit')) : 0;
+    const debit = cellText(cell('debit')) ? parseIndonesianNumber(cell('debit')) : 0;
+    if (credit === null || debit === null) return 'invalid';
+    if (credit > 0) return credit;
+    if (debit > 0) return -debit;
+    return null;
+  }
+  const raw = cell('amount');
+  const text = cellText(raw);
+  if (!text) return null;
+  const suffix = typeof raw === 'number' ? null : text.match(DIRECTION_SUFFIX)?.[1] ?? null;
+  const amount = parseIndonesianNumber(suffix ? text.replace(DIRECTION_SUFFIX, '') : raw);
+  if (amount === null) return 'invalid';
+  const marker = suffix ?? cellText(cell('direction'));
+  return isDebitMarker(marker) ? -Math.abs(amount) : amount;
+};
+
+export const parseStatement = (sheet: ParsedSheet, mapping: BankMapping): ParsedStatement => {
+  const result: ParsedStatement = { lines: [], outgoing: 0, skipped: 0, errors: [] };
+  const seen = new Map<string, number>();
+
+  sheet.rows.forEach((row, index) => {
+    const rowNumber = sheet.rowNumbers[index];
+    const date = mapping.date === null ? null : parseBankDate(row[mapping.date]);
+    const amount = signedAmount(row, mapping);
+    if (!date || amount === null) {
+      result.skipped++;
+      return;
+    }
+    if (amount === 'invalid') {
+      result.errors.push({ rowNumber, message: 'Jumlah bukan angka yang valid' });
+      return;
+    }
+    if (amount <= 0) {
+      result.outgoing++;
+      return;
+    }
+    const description = mapping.description === null ? '' : cellText(row[mapping.description]).replace(/\s+/g, ' ');
+    const reference = mapping.reference === null ? null : cellText(row[mapping.reference]) || null;
+    // Identical lines on the same day are told apart by their order in the file.
+    const key = [date, amount.toFixed(2), description.toLowerCase(), reference ?? ''].join('|');
+    const occurrence = (seen.get(key) ?? 0) + 1;
+    seen.set(key, occurrence);
+    result.lines.push({ rowNumber, date, description, reference, amount, fingerprint: `${key}|${occurrence}` });
+  });
+  return result;
+};
@@ -0,0 +1,129 @@
+import { Category, Receivable, Revenue } from './types';
+import { Converter, bookingDate, carryingAmount } from './currency';
+import { PeriodRange, monthsIn } from './analytics';
+
+// Categories and tags on receivables and revenues. Categories are a managed list; tags
+// are typed on the row itself, so the tags in use are the only list of them there is.
+// Tags compare case-insensitively: "Sewa" and "sewa" are the same tag.
+
+export const UNCATEGORIZED_LABEL = 'Tanpa Kategori';
+
+const tagKey = (tag: string) => tag.trim().toLocaleLowerCase('id');
+
+export const sameTag = (a: string, b: string) => tagKey(a) === tagKey(b);
+
+export const hasTag = (tags: string[], tag: string) => tags.some(t => sameTag(t, tag));
+
+// Trimmed, without empties and without duplicates; the first spelling of a tag wins.
+export const uniqueTags = (tags: string[]) => {
+  const seen = new Set<string>();
+  return tags.map(tag => tag.trim()).filter(tag => {
+    const key = tagKey(tag);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// "sewa, Proyek A ,sewa" -> ['sewa', 'Proyek A']. Commas cannot appear inside a tag.
+export const parseTags = (input: string) => uniqueTags(input.split(','));
+
+export const formatTags = (tags: string[]) => tags.join(', ');
+
+export const renameTag = (tags: string[], from: string, to: string) =>
+  uniqueTags(tags.flatMap(tag => sameTag(tag, from) ? parseTags(to) : [tag]));
+
+export const removeTag = (tags: string[], tag: string) => tags.filter(t => !sameTag(t, tag));
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+// Every tag in use with the number of rows carrying it, alphabetically.
+export const tagUsage = (rows: { tags: string[] }[]): TagUsage[] => {
+  const usage = new Map<string, TagUsage>();
+  rows.forEach(row => uniqueTags(row.tags).forEach(tag => {
+    const entry = usage.get(tagKey(tag)) ?? { tag, count: 0 };
+    entry.count += 1;
+    usage.set(tagKey(tag), entry);
+  }));
+  return [...usage.values()].sort((a, b) => a.tag.localeCompare(b.tag, 'id'));
+};
+
+export const categoryName = (categoryNames: Map<string, string>, categoryId: string | null) =>
+  categoryId ? categoryNames.get(categoryId) ?? '(kategori dihapus)' : null;
+
+export type BreakdownSource = 'revenues' | 'receivables';
+
+export const BREAKDOWN_SOURCES: { key: BreakdownSource; label: string }[] = [
+  { key: 'revenues', label: 'Pendapatan' },
+  { key: 'receivables', label: 'Piutang Terbit' },
+];
+
+export interface BreakdownRow {
+  // null for rows without a category.
+  categoryId: string | null;
+  name: string;
+  accountCode: string | null;
+  // One total per month of the range, in order.
+  months: number[];
+  total: number;
+}
+
+export interface CategoryBreakdown {
+  // 'YYYY-MM'
+  months: string[];
+  rows: BreakdownRow[];
+  monthTotals: number[];
+  total: number;
+  // Currencies without a rate on some row's date; those rows are left out.
+  missingCurrencies: string[];
+}
+
+// Totals per category per month in the base currency, converted as analytics.ts does:
+// revenue at its own date, receivables at their booking rate by booking date. Every
+// category is listed, even without entries, so the report maps onto the full chart of
+// accounts; the uncategorized row only appears when something falls into it.
+export const categoryBreakdown = (
+  convert: Converter,
+  source: BreakdownSource,
+  receivables: Receivable[],
+  revenues: Revenue[],
+  categories: Category[],
+  range: PeriodRange,
+): CategoryBreakdown => {
+  const months = monthsIn(range);
+  const monthIndex = new Map(months.map((month, index) => [month, index]));
+  const entries = source === 'revenues'
+    ? revenues.map(r => ({ categoryId: r.category_id, currency: r.currency, date: r.date, amount: convert(r.amount, r.currency, r.date) }))
+    : receivables.map(r => ({
+        categoryId: r.category_id, currency: r.currency, date: bookingDate(r), amount: carryingAmount(convert, r, r.total_amount),
+      }));
+  const inRange = entries.filter(entry => entry.date >= range.from && entry.date <= range.to);
+
+  const known = new Set(categories.map(c => c.id));
+  const rows = new Map<string | null, BreakdownRow>(
+    [...categories]
+      .sort((a, b) => a.name.localeCompare(b.name, 'id'))
+      .map(c => [c.id, { categoryId: c.id, name: c.name, accountCode: c.account_code, months: months.map(() => 0), total: 0 }]),
+  );
+  inRange.forEach(({ categoryId, date, amount }) => {
+    if (amount === null) return;
+    // Rows whose category was deleted count as uncategorized.
+    const key = categoryId && known.has(categoryId) ? categoryId : null;
+    const row = rows.get(key) ?? { categoryId: null, name: UNCATEGORIZED_LABEL, accountCode: null, months: months.map(() => 0), total: 0 };
+    row.months[monthIndex.get(date.slice(0, 7))!] += amount;
+    row.total += amount;
+    rows.set(key, row);
+  });
+
+  const list = [...rows.values()];
+  return {
+    months,
+    rows: list,
+    monthTotals: months.map((_, index) => list.reduce((sum, row) => sum + row.months[index], 0)),
+    total: list.reduce((sum, row) => sum + row.total, 0),
+    missingCurrencies: [...new Set(inRange.filter(entry => entry.amount === null).map(entry => entry.currency))].sort(),
+  };
+};
@@ -0,0 +1,78 @@
+import { ExchangeRate, Payment, Receivable } from './types';
+
+// Currencies and conversion to the workspace's base currency. Rates are entered by hand
+// with the date they apply from; an amount is converted with the latest rate on or
+// before its own transaction date, so reports for past periods keep their values.
+
+export const DEFAULT_BASE_CURRENCY = 'IDR';
+
+export const CURRENCIES: { code: string; label: string }[] = [
+  { code: 'IDR', label: 'Rupiah' },
+  { code: 'USD', label: 'Dolar Amerika' },
+  { code: 'SGD', label: 'Dolar Singapura' },
+  { code: 'EUR', label: 'Euro' },
+  { code: 'MYR', label: 'Ringgit Malaysia' },
+  { code: 'AUD', label: 'Dolar Australia' },
+  { code: 'JPY', label: 'Yen Jepang' },
+  { code: 'CNY', label: 'Yuan Tiongkok' },
+];
+
+export const isCurrencyCode = (value: string) => /^[A-Z]{3}$/.test(value);
+
+export const currencyLabel = (code: string) => CURRENCIES.find(c => c.code === code)?.label ?? code;
+
+// A rate reads "1 `currency` = `rate` `base_currency`". When only the opposite pair was
+// entered, its inverse is used.
+export const rateOn = (rates: ExchangeRate[], from: string, to: string, date: string): number | null => {
+  if (from === to) return 1;
+  let best: { date: string; rate: number } | null = null;
+  for (const r of rates) {
+    if (r.rate_date > date || !(r.rate > 0)) continue;
+    const rate = r.currency === from && r.base_currency === to ? r.rate
+      : r.currency === to && r.base_currency === from ? 1 / r.rate
+      : null;
+    if (rate !== null && (!best || r.rate_date > best.date)) best = { date: r.rate_date, rate };
+  }
+  return best?.rate ?? null;
+};
+
+// Null when no rate is known for the currency on that date.
+export type Converter = (amount: number, currency: string, date: string) => number | null;
+
+export const createConverter = (rates: ExchangeRate[], base: string): Converter => (amount, currency, date) => {
+  const rate = rateOn(rates, currency, base, date);
+  return rate === null ? null : amount * rate;
+};
+
+// The date a receivable is converted at. Receivables recorded before issue dates existed
+// fall back to their due date.
+export const bookingDate = (receivable: Pick<Receivable, 'issue_date' | 'due_date'>) =>
+  receivable.issue_date || receivable.due_date;
+
+// A receivable's amounts in the base currency, at the rate it was booked at. Payments
+// are carried at the same rate, so a fully paid receivable always nets to zero and the
+// exchange difference shows up as realized gain or loss instead.
+export const carryingAmount = (convert: Converter, receivable: Pick<Receivable, 'currency' | 'issue_date' | 'due_date'>, amount: number) =>
+  convert(amount, receivable.currency, bookingDate(receivable));
+
+// What a payment was worth on the day it arrived minus what it was booked at, in the
+// base currency. Positive is a gain. Null when either rate is missing.
+export const realizedFx = (convert: Converter, receivable: Receivable, payment: Pick<Payment, 'amount' | 'paid_at'>) => {
+  const received = convert(payment.amount, receivable.currency, payment.paid_at);
+  const booked = carryingAmount(convert, receivable, payment.amount);
+  return received === null || booked === null ? null : received - booked;
+};
+
+export const totalRealizedFx = (convert: Converter, receivables: Receivable[], payments: Payment[]) => {
+  const byId = new Map(receivables.map(r => [r.id, r]));
+  return payments.reduce((total, payment) => {
+    const receivable = byId.get(payment.receivable_id);
+    if (payment.voided_at || !receivable) return total;
+    return total + (realizedFx(convert, receivable, payment) ?? 0);
+  }, 0);
+};
+
+// Currencies used by the given amounts that have no rate on the date they need one,
+// i.e. the amounts that are left out of converted totals.
+export const missingRates = (convert: Converter, items: { currency: string; date: string }[]) =>
+  [...new Set(items.filter(item => convert(1, item.currency, item.date) === null).map(item => item.currency))].sort();
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, addMonths, daysBetween } from './dates';
+
+describe('addDays', () => {
+  it('crosses month and year ends', () => {
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+  });
+});
+
+describe('addMonths', () => {
+  it('clamps the day to the target month', () => {
+    expect(addMonths('2024-01-31', 1)).toBe('2024-02-29');
+    expect(addMonths('2025-01-31', 1)).toBe('2025-02-28');
+    expect(addMonths('2024-11-30', 3)).toBe('2025-02-28');
+    expect(addMonths('2024-03-31', -1)).toBe('2024-02-29');
+  });
+});
+
+describe('daysBetween', () => {
+  it('counts whole days, negative going backwards', () => {
+    expect(daysBetween('2024-02-28', '2024-03-01')).toBe(2);
+    expect(daysBetween('2024-03-31', '2024-03-30')).toBe(-1);
+    expect(daysBetween('2024-10-26', '2024-10-28')).toBe(2);
+  });
+});
@@ -0,0 +1,30 @@
+// Calendar arithmetic on 'YYYY-MM-DD' strings. Date parses them as UTC midnight, so
+// every difference is a whole number of days and no timezone or daylight-saving shift
+// can move a date to another day.
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const parse = (date: string) => date.split('-').map(Number) as [number, number, number];
+
+const format = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+
+export const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+export const addDays = (date: string, days: number) =>
+  new Date(new Date(date).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+// Moves by whole months and clamps the day to the target month's length:
+// addMonths('2024-01-31', 1) === '2024-02-29'.
+export const addMonths = (date: string, months: number) => {
+  const [year, month, day] = parse(date);
+  const index = year * 12 + (month - 1) + months;
+  const targetYear = Math.floor(index / 12);
+  const targetMonth = index - targetYear * 12 + 1;
+  return format(targetYear, targetMonth, Math.min(day, daysInMonth(targetYear, targetMonth)));
+};
+
+// Negative when `to` comes before `from`.
+export const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
@@ -0,0 +1,147 @@
+import { BusinessProfile, Customer, DocumentType, Payment, Receivable } from './types';
+import { escapeHtml, formatCurrency, formatDate } from './formatters';
+import { terbilangCurrency, terbilangRupiah } from './terbilang';
+import { currencyLabel } from './currency';
+import { ReceivableBalance } from './lateFees';
+
+// Invoice and receipt (kwitansi) rendering. Documents are numbered per type and year,
+// e.g. INV/2025/0007 and KW/2025/0012, and rendered as standalone print-ready HTML.
+
+const PREFIXES: Record<DocumentType, string> = {
+  invoice: 'INV',
+  receipt: 'KW',
+};
+
+export const documentNumberPrefix = (type: DocumentType, year: number) => `${PREFIXES[type]}/${year}/`;
+
+export const formatDocumentNumber = (type: DocumentType, year: number, sequence: number) =>
+  `${documentNumberPrefix(type, year)}${String(sequence).padStart(4, '0')}`;
+
+// Given the highest number already issued this year (or null), returns the next one.
+export const nextDocumentNumber = (type: DocumentType, year: number, lastNumber: string | null) => {
+  const prefix = documentNumberPrefix(type, year);
+  const lastSequence = lastNumber?.startsWith(prefix) ? parseInt(lastNumber.slice(prefix.length), 10) : 0;
+  return formatDocumentNumber(type, year, (Number.isNaN(lastSequence) ? 0 : lastSequence) + 1);
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const spellAmount = (amount: number, currency: string) =>
+  capitalize(currency === 'IDR' ? terbilangRupiah(amount) : terbilangCurrency(amount, currencyLabel(currency)));
+
+const multiline = (value: string | null) => value ? escapeHtml(value).replace(/\n/g, '<br>') : '';
+
+const letterhead = (profile: BusinessProfile) => `
+<header class="letterhead">
+  <h1>${escapeHtml(profile.business_name || 'Nama Usaha')}</h1>
+  <p>${[profile.address, profile.city].filter(Boolean).map(v => escapeHtml(v!)).join(', ')}</p>
+  <p>${[profile.phone, profile.email].filter(Boolean).map(v => escapeHtml(v!)).join(' · ')}</p>
+</header>`;
+
+const signature = (profile: BusinessProfile, date: string) => `
+<div class="signature">
+  <p>${profile.city ? `${escapeHtml(profile.city)}, ` : ''}${formatDate(date)}</p>
+  <div class="signature-space"></div>
+  <p><strong>${escapeHtml(profile.signatory || profile.business_name || '')}</strong></p>
+</div>`;
+
+const page = (title: string, body: string) => `<!DOCTYPE html>
+<html lang="id">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: 'Plus Jakarta Sans', Arial, sans-serif; color: #333; margin: 2rem auto; max-width: 760px; font-size: 0.95rem; }
+  .letterhead { border-bottom: 3px double #333; padding-bottom: 0.75rem; margin-bottom: 1.5rem; }
+  .letterhead h1 { margin: 0 0 0.25rem; font-size: 1.5rem; }
+  .letterhead p { margin: 0; color: #555; }
+  h2 { text-align: center; letter-spacing: 0.2em; margin: 0 0 0.25rem; }
+  .doc-number { text-align: center; margin: 0 0 1.5rem; color: #555; }
+  .meta { display: flex; justify-content: space-between; gap: 2rem; margin-bottom: 1.5rem; }
+  .meta h4 { margin: 0 0 0.25rem; font-size: 0.8rem; text-transform: uppercase; color: #777; }
+  .meta p { margin: 0; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 1rem; }
+  th, td { padding: 0.6rem; border-bottom: 1px solid #ddd; text-align: left; }
+  th { font-size: 0.8rem; text-transform: uppercase; color: #777; }
+  .num { text-align: right; }
+  .totals td { font-weight: 700; }
+  .words { font-style: italic; background: #f5f5f5; padding: 0.75rem; border-radius: 6px; }
+  .receipt-row { display: flex; padding: 0.6rem 0; border-bottom: 1px dotted #999; }
+  .receipt-row span:first-child { width: 200px; flex-shrink: 0; color: #555; }
+  .amount-box { display: inline-block; border: 2px solid #333; padding: 0.5rem 1.25rem; font-size: 1.3rem; font-weight: 700; margin-top: 1.5rem; }
+  .instructions { margin-top: 1.5rem; }
+  .instructions h4 { margin: 0 0 0.25rem; }
+  .signature { width: 240px; margin-left: auto; margin-top: 2rem; text-align: center; }
+  .signature-space { height: 70px; }
+  @media print { body { margin: 0 auto; } }
+</style>
+</head>
+<body>${body}</body>
+</html>`;
+
+export interface InvoiceData {
+  number: string;
+  issuedAt: string;
+  profile: BusinessProfile;
+  customer: Customer | null;
+  receivable: Receivable;
+  // As of the invoice date.
+  balance: Pick<ReceivableBalance, 'paid' | 'feesAccrued' | 'outstanding'>;
+}
+
+export const renderInvoiceHtml = ({ number, issuedAt, profile, customer, receivable, balance }: InvoiceData) => {
+  const { outstanding } = balance;
+  const fees = balance.feesAccrued > 0
+    ? `<tr><td class="num">Denda Keterlambatan</td><td class="num">${formatCurrency(balance.feesAccrued, receivable.currency)}</td></tr>`
+    : '';
+  return page(`Invoice ${number}`, `
+${letterhead(profile)}
+<h2>INVOICE</h2>
+<p class="doc-number">No. ${escapeHtml(number)}</p>
+<div class="meta">
+  <div>
+    <h4>Ditagihkan kepada</h4>
+    <p><strong>${escapeHtml(customer?.name ?? '-')}</strong></p>
+    <p>${multiline(customer?.address ?? null)}</p>
+    <p>${escapeHtml(customer?.phone ?? '')}</p>
+  </div>
+  <div>
+    <h4>Tanggal Invoice</h4>
+    <p>${formatDate(issuedAt)}</p>
+    <h4 style="margin-top: 0.75rem">Jatuh Tempo</h4>
+    <p>${formatDate(receivable.due_date)}</p>
+  </div>
+</div>
+<table>
+  <thead><tr><th>Keterangan</th><th class="num">Jumlah</th></tr></thead>
+  <tbody><tr><td>${escapeHtml(receivable.description)}</td><td class="num">${formatCurrency(receivable.total_amount, receivable.currency)}</td></tr></tbody>
+  <tfoot>
+    <tr><td class="num">Total</td><td class="num">${formatCurrency(receivable.total_amount, receivable.currency)}</td></tr>
+    ${fees}
+    <tr><td class="num">Sudah Dibayar</td><td class="num">${formatCurrency(balance.paid, receivable.currency)}</td></tr>
+    <tr class="totals"><td class="num">Sisa Tagihan</td><td class="num">${formatCurrency(outstanding, receivable.currency)}</td></tr>
+  </tfoot>
+</table>
+<p class="words">Terbilang: ${spellAmount(outstanding, receivable.currency)}</p>
+${profile.payment_instructions ? `<div class="instructions"><h4>Cara Pembayaran</h4><p>${multiline(profile.payment_instructions)}</p></div>` : ''}
+${signature(profile, issuedAt)}`);
+};
+
+export interface ReceiptData {
+  number: string;
+  profile: BusinessProfile;
+  customer: Customer | null;
+  receivable: Receivable;
+  payment: Payment;
+}
+
+export const renderReceiptHtml = ({ number, profile, customer, receivable, payment }: ReceiptData) =>
+  page(`Kwitansi ${number}`, `
+${letterhead(profile)}
+<h2>KWITANSI</h2>
+<p class="doc-number">No. ${escapeHtml(number)}</p>
+<div class="receipt-row"><span>Telah terima dari</span><span><strong>${escapeHtml(customer?.name ?? '-')}</strong></span></div>
+<div class="receipt-row"><span>Uang sejumlah</span><span class="words">${spellAmount(payment.amount, payment.currency)}</span></div>
+<div class="receipt-row"><span>Untuk pembayaran</span><span>${escapeHtml(receivable.description)}${payment.note ? ` (${escapeHtml(payment.note)})` : ''}</span></div>
+<div class="amount-box">${formatCurrency(payment.amount, payment.currency)}</div>
+${signature(profile, payment.paid_at)}`);
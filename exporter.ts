@@ -0,0 +1,177 @@
+import * as XLSX from 'xlsx';
+import { escapeHtml, formatCurrency, formatDate, todayISO } from './formatters';
+
+// Writes a table of rows to CSV, XLSX or a printable page (saved as PDF from the
+// browser's print dialog). Callers describe the table once; every format renders it.
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export type ExportCell = string | number | null;
+
+export interface ExportColumn {
+  header: string;
+  type: 'text' | 'amount' | 'date' | 'number';
+  // For amounts: the index of the column holding each row's currency code. Without it
+  // the amount is in the table's currency.
+  currencyColumn?: number;
+}
+
+export interface ExportTable {
+  title: string;
+  subtitle?: string;
+  // The currency of the summary and of amounts without a currency column; IDR by default.
+  currency?: string;
+  summary: { label: string; value: number }[];
+  columns: ExportColumn[];
+  rows: ExportCell[][];
+  footer?: ExportCell[];
+}
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const cellCurrency = (table: ExportTable, column: ExportColumn | undefined, row: ExportCell[]) => {
+  const code = column?.currencyColumn !== undefined ? row[column.currencyColumn] : null;
+  return typeof code === 'string' && code ? code : table.currency ?? 'IDR';
+};
+
+const displayCell = (value: ExportCell, column: ExportColumn, currency: string) => {
+  if (value === null || value === '') return '-';
+  if (column.type === 'amount') return formatCurrency(Number(value), currency);
+  if (column.type === 'date') return formatDate(String(value));
+  return String(value);
+};
+
+// Indonesian-locale Excel expects ';' as the list separator and ',' as the decimal mark.
+const csvCell = (value: ExportCell) => {
+  if (value === null) return '';
+  const text = typeof value === 'number' ? String(value).replace('.', ',') : value;
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCSV = (table: ExportTable) => {
+  const lines = [table.columns.map(c => c.header), ...table.rows];
+  if (table.footer) lines.push(table.footer);
+  // The BOM makes Excel open the file as UTF-8.
+  return '\uFEFF' + lines.map(line => line.map(csvCell).join(';')).join('\r\n');
+};
+
+const toWorkbook = (table: ExportTable) => {
+  const dateCell = (value: ExportCell) => {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value)) return value;
+    const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+    return new Date(year, month - 1, day);
+  };
+  const convert = (row: ExportCell[]) => row.map((value, i) => table.columns[i]?.type === 'date' ? dateCell(value) : value);
+
+  const preamble: (string | number)[][] = [[table.title]];
+  if (table.subtitle) preamble.push([table.subtitle]);
+  table.summary.forEach(item => preamble.push([item.label, item.value]));
+  preamble.push([]);
+
+  const headerRowIndex = preamble.length;
+  const rows = [...preamble, table.columns.map(c => c.header), ...table.rows.map(convert)];
+  if (table.footer) rows.push(convert(table.footer));
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows, { cellDates: true, dateNF: 'dd/mm/yyyy' });
+  // Number formats so the accountant gets real numbers and dates, not text. Rupiah has
+  // no decimals; other currencies keep their cents.
+  const amountFormat = (currency: string) => currency === 'IDR' ? '#,##0' : '#,##0.00';
+  rows.forEach((row, r) => {
+    row.forEach((_value, c) => {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+      if (!cell) return;
+      const type = r > headerRowIndex ? table.columns[c]?.type : undefined;
+      if (cell.t === 'n' && type === 'amount') cell.z = amountFormat(cellCurrency(table, table.columns[c], row as ExportCell[]));
+      if (cell.t === 'n' && r < headerRowIndex && c === 1) cell.z = amountFormat(table.currency ?? 'IDR');
+      if (type === 'date' && cell.t === 'd') cell.z = 'dd/mm/yyyy';
+    });
+  });
+  sheet['!cols'] = table.columns.map(column => ({ wch: column.type === 'text' ? 32 : 16 }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, table.title.slice(0, 31));
+  return workbook;
+};
+
+const toPrintableHtml = (table: ExportTable) => {
+  const cells = (row: ExportCell[], tag: 'td' | 'th') =>
+    row.map((value, i) => {
+      const column = table.columns[i];
+      const align = column && column.type !== 'text' ? ' class="num"' : '';
+      return `<${tag}${align}>${escapeHtml(column ? displayCell(value, column, cellCurrency(table, column, row)) : String(value ?? ''))}</${tag}>`;
+    }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="id">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(table.title)}</title>
+<style>
+  body { font-family: 'Plus Jakarta Sans', Arial, sans-serif; color: #333; margin: 2rem; }
+  h1 { font-size: 1.4rem; margin: 0 0 0.25rem; }
+  .subtitle { color: #777; margin: 0 0 1.5rem; }
+  .summary { display: flex; gap: 1rem; margin-bottom: 1.5rem; }
+  .card { flex: 1; border: 1px solid #e0e0e0; border-radius: 8px; padding: 0.75rem 1rem; }
+  .card span { display: block; font-size: 0.8rem; color: #777; }
+  .card strong { font-size: 1.1rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+  th, td { padding: 0.5rem; border-bottom: 1px solid #e0e0e0; text-align: left; }
+  th { text-transform: uppercase; font-size: 0.75rem; color: #777; }
+  .num { text-align: right; }
+  tfoot td { font-weight: 700; border-top: 2px solid #e0e0e0; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(table.title)}</h1>
+<p class="subtitle">${escapeHtml(table.subtitle ?? `Dicetak ${formatDate(todayISO())}`)}</p>
+<div class="summary">
+${table.summary.map(item => `<div class="card"><span>${escapeHtml(item.label)}</span><strong>${escapeHtml(formatCurrency(item.value, table.currency))}</strong></div>`).join('\n')}
+</div>
+<table>
+<thead><tr>${table.columns.map(c => `<th${c.type !== 'text' ? ' class="num"' : ''}>${escapeHtml(c.header)}</th>`).join('')}</tr></thead>
+<tbody>
+${table.rows.map(row => `<tr>${cells(row, 'td')}</tr>`).join('\n')}
+</tbody>
+${table.footer ? `<tfoot><tr>${cells(table.footer, 'td')}</tr></tfoot>` : ''}
+</table>
+</body>
+</html>`;
+};
+
+// Must be called synchronously from a click handler, otherwise pop-up blockers step in.
+// Callers that need to await data first open the window up front and pass it along.
+export const openPrintWindow = () => window.open('', '_blank');
+
+// Writes the HTML into a new (or pre-opened) window and triggers the print dialog.
+export const printHtml = (html: string, printWindow: Window | null = openPrintWindow()) => {
+  if (!printWindow) {
+    alert('Jendela cetak diblokir oleh browser. Izinkan pop-up untuk situs ini.');
+    return;
+  }
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
+
+export const exportTable = (table: ExportTable, format: ExportFormat, baseName: string) => {
+  const fileName = `${baseName}-${todayISO()}`;
+  if (format === 'csv') {
+    download(new Blob([toCSV(table)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+  } else if (format === 'xlsx') {
+    XLSX.writeFile(toWorkbook(table), `${fileName}.xlsx`);
+  } else {
+    printHtml(toPrintableHtml(table));
+  }
+};
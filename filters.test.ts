@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_RECEIVABLE_FILTERS, DEFAULT_REVENUE_FILTERS, RECEIVABLE_FILTER_RULES, REVENUE_FILTER_RULES, ReceivableFilters,
+  readFiltersFromParams, writeFiltersToParams,
+} from './filters';
+
+const receivableFilters = (query: string) =>
+  readFiltersFromParams(new URLSearchParams(query), 'r_', DEFAULT_RECEIVABLE_FILTERS, RECEIVABLE_FILTER_RULES);
+
+describe('readFiltersFromParams', () => {
+  it('reads back what writeFiltersToParams wrote', () => {
+    const filters: ReceivableFilters = {
+      ...DEFAULT_RECEIVABLE_FILTERS, q: 'sewa', status: 'overdue', from: '2024-01-01', minAmount: '1500.5', sort: 'remaining', dir: 'desc',
+    };
+    const params = new URLSearchParams();
+    writeFiltersToParams(params, 'r_', filters, DEFAULT_RECEIVABLE_FILTERS);
+    expect(receivableFilters(params.toString())).toEqual(filters);
+  });
+
+  it('keeps the default for values a key does not allow', () => {
+    expect(receivableFilters('r_status=bogus&r_sort=amount&r_dir=up')).toEqual(DEFAULT_RECEIVABLE_FILTERS);
+    expect(readFiltersFromParams(new URLSearchParams('rev_sort=remaining'), 'rev_', DEFAULT_REVENUE_FILTERS, REVENUE_FILTER_RULES))
+      .toEqual(DEFAULT_REVENUE_FILTERS);
+  });
+
+  it('keeps the default for amounts that are not numbers', () => {
+    expect(receivableFilters('r_minAmount=abc&r_maxAmount=%20')).toEqual(DEFAULT_RECEIVABLE_FILTERS);
+    expect(receivableFilters('r_maxAmount=2e6').maxAmount).toBe('2e6');
+  });
+
+  it('keeps the default for dates that do not exist or are not YYYY-MM-DD', () => {
+    expect(receivableFilters('r_from=2024-02-30&r_to=31-12-2024')).toEqual(DEFAULT_RECEIVABLE_FILTERS);
+    expect(receivableFilters('r_from=2024-02-29').from).toBe('2024-02-29');
+  });
+
+  it('takes free text as it is and ignores unknown keys', () => {
+    expect(receivableFilters('r_q=%3Cscript%3E&r_tag=sewa&r_bogus=1')).toEqual({ ...DEFAULT_RECEIVABLE_FILTERS, q: '<script>', tag: 'sewa' });
+  });
+});
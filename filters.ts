@@ -0,0 +1,243 @@
+import { Receivable, Revenue } from './types';
+import { hasTag } from './categories';
+import { BalanceOf, ReceivableBalance } from './lateFees';
+
+// Filter and sort state for the receivable and revenue tables, plus its round trip
+// through the URL query string so a filtered view can be bookmarked.
+
+export type SortDirection = 'asc' | 'desc';
+
+export type ReceivableStatusFilter = 'all' | 'paid' | 'unpaid' | 'overdue';
+
+export type ReceivableSortKey = 'default' | 'customer' | 'description' | 'due_date' | 'total_amount' | 'remaining' | 'status';
+export type RevenueSortKey = 'default' | 'description' | 'date' | 'amount';
+
+// The category filter value that matches rows without a category.
+export const NO_CATEGORY = 'none';
+
+export interface ListFilters<K extends string> {
+  q: string;
+  // A category id, NO_CATEGORY, or '' for any.
+  category: string;
+  tag: string;
+  from: string;
+  to: string;
+  minAmount: string;
+  maxAmount: string;
+  sort: K;
+  dir: SortDirection;
+}
+
+export interface ReceivableFilters extends ListFilters<ReceivableSortKey> {
+  status: ReceivableStatusFilter;
+}
+
+export type RevenueFilters = ListFilters<RevenueSortKey>;
+
+export const DEFAULT_RECEIVABLE_FILTERS: ReceivableFilters = {
+  q: '', category: '', tag: '', status: 'all', from: '', to: '', minAmount: '', maxAmount: '', sort: 'default', dir: 'asc',
+};
+
+export const DEFAULT_REVENUE_FILTERS: RevenueFilters = {
+  q: '', category: '', tag: '', from: '', to: '', minAmount: '', maxAmount: '', sort: 'default', dir: 'desc',
+};
+
+// Paid once principal and late fees are both settled.
+export const receivableStatus = (
+  receivable: Receivable,
+  balance: Pick<ReceivableBalance, 'outstanding'>,
+  today: string,
+): Exclude<ReceivableStatusFilter, 'all'> => {
+  if (balance.outstanding <= 0) return 'paid';
+  if (receivable.due_date && receivable.due_date < today) return 'overdue';
+  return 'unpaid';
+};
+
+const inRange = (value: number, min: string, max: string) =>
+  (min === '' || value >= Number(min)) && (max === '' || value <= Number(max));
+
+const inDateRange = (date: string, from: string, to: string) =>
+  (!from || (!!date && date >= from)) && (!to || (!!date && date <= to));
+
+const matchesText = (query: string, ...fields: (string | null | undefined)[]) => {
+  const needle = query.trim().toLowerCase();
+  return !needle || fields.some(field => field?.toLowerCase().includes(needle));
+};
+
+const matchesCategory = (filter: string, categoryId: string | null) =>
+  !filter || (filter === NO_CATEGORY ? !categoryId : categoryId === filter);
+
+const matchesTag = (filter: string, tags: string[]) => !filter || hasTag(tags, filter);
+
+const compare = (a: string | number, b: string | number) =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b), 'id');
+
+// "Overdue" counts as unpaid too: it is a narrower view of the same receivables.
+// Balances are taken as of `today`, so the status, the "remaining" sort and the
+// original dashboard ordering (unpaid first, then by due date) all follow the late-fee
+// allocation.
+export const filterReceivables = (
+  receivables: Receivable[],
+  balanceOf: BalanceOf,
+  filters: ReceivableFilters,
+  today: string,
+  customerNames: Map<string, string> = new Map(),
+) => {
+  const customerName = (r: Receivable) => (r.customer_id && customerNames.get(r.customer_id)) || '';
+  const status = (r: Receivable) => receivableStatus(r, balanceOf(r, today), today);
+  const filtered = receivables.filter(r => {
+    if (filters.status === 'paid' && status(r) !== 'paid') return false;
+    if (filters.status === 'unpaid' && status(r) === 'paid') return false;
+    if (filters.status === 'overdue' && status(r) !== 'overdue') return false;
+    return matchesText(filters.q, r.description, customerName(r))
+      && matchesCategory(filters.category, r.category_id)
+      && matchesTag(filters.tag, r.tags)
+      && inDateRange(r.due_date, filters.from, filters.to)
+      && inRange(r.total_amount, filters.minAmount, filters.maxAmount);
+  });
+
+  if (filters.sort === 'default') {
+    return filtered.sort((a, b) => {
+      const openA = balanceOf(a, today).outstanding > 0;
+      const openB = balanceOf(b, today).outstanding > 0;
+      if (openA !== openB) return openA ? -1 : 1;
+      if (!a.due_date) return 1;
+      if (!b.due_date) return -1;
+      return new Date(a.due_date).getTime() - new Date(b.due_date).getTime();
+    });
+  }
+
+  const key = (r: Receivable): string | number => {
+    switch (filters.sort) {
+      case 'customer': return customerName(r);
+      case 'description': return r.description;
+      case 'due_date': return r.due_date ?? '';
+      case 'total_amount': return r.total_amount;
+      // The "Sisa Piutang" column: principal only, fees have their own column.
+      case 'remaining': return balanceOf(r, today).outstandingPrincipal;
+      case 'status': return status(r);
+      default: return 0;
+    }
+  };
+  const sign = filters.dir === 'asc' ? 1 : -1;
+  return filtered.sort((a, b) => sign * compare(key(a), key(b)));
+};
+
+export const filterRevenues = (revenues: Revenue[], filters: RevenueFilters) => {
+  const filtered = revenues.filter(r =>
+    matchesText(filters.q, r.description)
+      && matchesCategory(filters.category, r.category_id)
+      && matchesTag(filters.tag, r.tags)
+      && inDateRange(r.date, filters.from, filters.to)
+      && inRange(r.amount, filters.minAmount, filters.maxAmount));
+
+  const sort = filters.sort === 'default' ? 'date' : filters.sort;
+  const sign = (filters.sort === 'default' ? 'desc' : filters.dir) === 'asc' ? 1 : -1;
+  const key = (r: Revenue): string | number => sort === 'amount' ? r.amount : sort === 'description' ? r.description : r.date ?? '';
+  return filtered.sort((a, b) => sign * compare(key(a), key(b)));
+};
+
+// Clicking the active column flips its direction; clicking a new one starts ascending.
+export const toggleSort = <K extends string>(filters: ListFilters<K>, key: K): Pick<ListFilters<K>, 'sort' | 'dir'> =>
+  filters.sort === key
+    ? { sort: key, dir: filters.dir === 'asc' ? 'desc' : 'asc' }
+    : { sort: key, dir: 'asc' };
+
+// Only values that differ from the defaults are written, keeping bookmarked URLs short.
+export const writeFiltersToParams = <T extends object>(params: URLSearchParams, prefix: string, filters: T, defaults: T) => {
+  (Object.keys(defaults) as (keyof T)[]).forEach(key => {
+    const name = `${prefix}${String(key)}`;
+    if (filters[key] !== defaults[key]) params.set(name, String(filters[key]));
+    else params.delete(name);
+  });
+};
+
+// What the query string may set each key to: one of a list of values, free text, a
+// 'YYYY-MM-DD' date or a number. URLs are typed and edited by hand, so anything else
+// keeps the default rather than producing an invalid status or a NaN amount.
+type ParamRule = readonly string[] | 'text' | 'date' | 'amount';
+
+export type FilterParamRules<T> = Record<keyof T, ParamRule>;
+
+const LIST_PARAM_RULES = {
+  q: 'text', category: 'text', tag: 'text', from: 'date', to: 'date', minAmount: 'amount', maxAmount: 'amount', dir: ['asc', 'desc'],
+} as const;
+
+export const RECEIVABLE_FILTER_RULES: FilterParamRules<ReceivableFilters> = {
+  ...LIST_PARAM_RULES,
+  status: ['all', 'paid', 'unpaid', 'overdue'] satisfies ReceivableStatusFilter[],
+  sort: ['default', 'customer', 'description', 'due_date', 'total_amount', 'remaining', 'status'] satisfies ReceivableSortKey[],
+};
+
+export const REVENUE_FILTER_RULES: FilterParamRules<RevenueFilters> = {
+  ...LIST_PARAM_RULES,
+  sort: ['default', 'description', 'date', 'amount'] satisfies RevenueSortKey[],
+};
+
+const isDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value);
+
+const allowed = (rule: ParamRule, value: string) => {
+  if (rule === 'text') return true;
+  if (rule === 'date') return value === '' || isDate(value);
+  if (rule === 'amount') return value === '' || (value.trim() !== '' && Number.isFinite(Number(value)));
+  return rule.includes(value);
+};
+
+export const readFiltersFromParams = <T extends object>(params: URLSearchParams, prefix: string, defaults: T, rules: FilterParamRules<T>): T => {
+  const result = { ...defaults };
+  (Object.keys(defaults) as (keyof T)[]).forEach(key => {
+    const value = params.get(`${prefix}${String(key)}`);
+    if (value !== null && allowed(rules[key], value)) (result as Record<keyof T, unknown>)[key] = value;
+  });
+  return result;
+};
+
+export const hasActiveFilters = <T extends object>(filters: T, defaults: T) =>
+  (Object.keys(defaults) as (keyof T)[]).some(key => key !== 'sort' && key !== 'dir' && filters[key] !== defaults[key]);
+
+const optionalNumber = (value: string) => value === '' ? null : Number(value);
+
+// Arguments for the receivables_summary database function, which totals the same
+// filtered set on the server instead of reducing every loaded row in the browser.
+// Like the tables, both summary functions leave out rows in the trash (deleted_at set),
+// and p_category takes the same values as the filter, NO_CATEGORY included.
+export const receivableSummaryArgs = (filters: ReceivableFilters, today: string) => ({
+  p_query: filters.q.trim() || null,
+  p_category: filters.category || null,
+  p_tag: filters.tag || null,
+  p_status: filters.status,
+  p_due_from: filters.from || null,
+  p_due_to: filters.to || null,
+  p_min_amount: optionalNumber(filters.minAmount),
+  p_max_amount: optionalNumber(filters.maxAmount),
+  p_today: today,
+});
+
+export const revenueSummaryArgs = (filters: RevenueFilters) => ({
+  p_query: filters.q.trim() || null,
+  p_category: filters.category || null,
+  p_tag: filters.tag || null,
+  p_date_from: filters.from || null,
+  p_date_to: filters.to || null,
+  p_min_amount: optionalNumber(filters.minAmount),
+  p_max_amount: optionalNumber(filters.maxAmount),
+});
+
+// Arguments for receivables_page and revenues_page: the summary arguments, the order and
+// an inclusive row range.
+export const receivablePageArgs = (filters: ReceivableFilters, today: string, [from, to]: [number, number]) => ({
+  ...receivableSummaryArgs(filters, today),
+  p_sort: filters.sort,
+  p_dir: filters.dir,
+  p_offset: from,
+  p_limit: to - from + 1,
+});
+
+export const revenuePageArgs = (filters: RevenueFilters, [from, to]: [number, number]) => ({
+  ...revenueSummaryArgs(filters),
+  p_sort: filters.sort,
+  p_dir: filters.dir,
+  p_offset: from,
+  p_limit: to - from + 1,
+});
@@ -0,0 +1,47 @@
+// id-ID display helpers shared by the UI, exports and printed documents.
+// Rupiah amounts are shown without decimals; other currencies keep their usual cents.
+export const formatCurrency = (amount: number, currency = 'IDR') => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: currency === 'IDR' ? 0 : undefined,
+  }).format(amount);
+};
+
+export const formatDate = (dateString: string) => {
+  if (!dateString) return '-';
+  // Using new Date() with a 'YYYY-MM-DD' string creates a date at UTC midnight.
+  // By specifying timeZone: 'UTC' in the formatter, we prevent the date from shifting
+  // due to the user's local timezone.
+  const date = new Date(dateString);
+  return new Intl.DateTimeFormat('id-ID', {
+    day: '2-digit',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  }).format(date);
+};
+
+// 'YYYY-MM' -> "Jan 2025".
+export const formatMonth = (month: string) =>
+  new Intl.DateTimeFormat('id-ID', { month: 'short', year: 'numeric', timeZone: 'UTC' }).format(new Date(`${month}-01`));
+
+// A fraction as a percentage: 0.256 -> "25,6%".
+export const formatPercent = (value: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'percent', maximumFractionDigits: 1 }).format(value);
+
+// Timestamps (not plain dates) are shown in the viewer's own timezone.
+export const formatDateTime = (timestamp: string | number) =>
+  new Intl.DateTimeFormat('id-ID', { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(timestamp));
+
+// Local calendar date as 'YYYY-MM-DD'; toISOString() would give yesterday's date
+// in Indonesia before 07:00 because it is UTC.
+export const todayISO = () => {
+  const now = new Date();
+  return [now.getFullYear(), now.getMonth() + 1, now.getDate()]
+    .map((part, i) => i === 0 ? String(part) : String(part).padStart(2, '0'))
+    .join('-');
+};
+
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  guessMapping, parseCSV, parseIndonesianDate, parseIndonesianNumber, parseWorkbook, toSheet, validateRows,
+} from './importParser';
+
+const workbookWith = (rows: unknown[][], format?: string): ArrayBuffer => {
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  if (format) {
+    Object.keys(sheet).filter(address => !address.startsWith('!') && typeof sheet[address].v === 'number')
+      .forEach(address => { sheet[address].z = format; });
+  }
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Data');
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+};
+
+describe('parseCSV', () => {
+  it('detects the semicolon delimiter written by Indonesian-locale Excel', () => {
+    expect(parseCSV('Keterangan;Jumlah\n"Sewa; gudang";1.500.000\n')).toEqual([
+      ['Keterangan', 'Jumlah'],
+      ['Sewa; gudang', '1.500.000'],
+    ]);
+  });
+
+  it('unescapes doubled quotes and handles CRLF line endings', () => {
+    expect(parseCSV('a,b\r\n"say ""hi""",2')).toEqual([['a', 'b'], ['say "hi"', '2']]);
+  });
+});
+
+describe('parseIndonesianNumber', () => {
+  it.each([
+    ['1.500.000', 1500000],
+    ['1.500.000,50', 1500000.5],
+    ['Rp 1.500.000', 1500000],
+    ['IDR 250000', 250000],
+    ['12,5', 12.5],
+    ['1,500,000.25', 1500000.25],
+    [42, 42],
+  ])('reads %s', (input, expected) => {
+    expect(parseIndonesianNumber(input)).toBe(expected);
+  });
+
+  it('rejects text that is not a number', () => {
+    expect(parseIndonesianNumber('dua juta')).toBeNull();
+    expect(parseIndonesianNumber('')).toBeNull();
+  });
+});
+
+describe('parseIndonesianDate', () => {
+  it.each([
+    ['17/08/2025', '2025-08-17'],
+    ['17-08-2025', '2025-08-17'],
+    ['17.08.25', '2025-08-17'],
+    ['2025-08-17', '2025-08-17'],
+    ['17 Agustus 2025', '2025-08-17'],
+    ['1 Des 2024', '2024-12-01'],
+    [45886, '2025-08-17'],
+  ])('reads %s', (input, expected) => {
+    expect(parseIndonesianDate(input)).toBe(expected);
+  });
+
+  it('rejects impossible dates instead of rolling them over', () => {
+    expect(parseIndonesianDate('31/02/2025')).toBeNull();
+    expect(parseIndonesianDate('17 Foo 2025')).toBeNull();
+  });
+});
+
+describe('parseWorkbook', () => {
+  it('keeps the calendar day of date cells east of UTC', () => {
+    const previous = process.env.TZ;
+    process.env.TZ = 'Asia/Jakarta';
+    try {
+      const matrix = parseWorkbook(workbookWith([['Tanggal'], [45886]], 'dd/mm/yyyy'));
+      expect(matrix[1][0]).toBe('2025-08-17');
+    } finally {
+      process.env.TZ = previous;
+    }
+  });
+
+  it('leaves plain numbers alone', () => {
+    const matrix = parseWorkbook(workbookWith([['Jumlah'], [45886]]));
+    expect(matrix[1][0]).toBe(45886);
+  });
+});
+
+describe('validateRows', () => {
+  const sheet = toSheet([
+    ['Pelanggan', 'Keterangan', 'Total', 'Jatuh Tempo', 'Mata Uang'],
+    ['PT Maju', 'Invoice 1', '1.500.000', '17/08/2025', 'idr'],
+    ['PT Lain', '', '-5', '31/02/2025', 'Rupiah'],
+  ]);
+  const mapping = guessMapping('receivables', sheet.headers);
+  const rows = validateRows('receivables', sheet, mapping, [{ id: 'c1', name: 'PT Maju' }]);
+
+  it('maps headers by their aliases', () => {
+    expect(mapping).toMatchObject({ customer: 0, description: 1, total_amount: 2, due_date: 3, currency: 4, issue_date: null });
+  });
+
+  it('normalizes a valid row', () => {
+    expect(rows[0]).toEqual({
+      rowNumber: 2,
+      record: {
+        customer_id: 'c1', description: 'Invoice 1', total_amount: 1500000,
+        due_date: '2025-08-17', issue_date: null, currency: 'IDR',
+      },
+      errors: [],
+    });
+  });
+
+  it('reports every problem in an invalid row with its spreadsheet row number', () => {
+    expect(rows[1].rowNumber).toBe(3);
+    expect(rows[1].errors).toEqual([
+      'Pelanggan "PT Lain" tidak ditemukan',
+      'Keterangan wajib diisi',
+      'Total Piutang tidak boleh negatif',
+      'Jatuh Tempo "31/02/2025" bukan tanggal yang valid',
+      'Mata Uang "Rupiah" bukan kode mata uang (contoh: IDR, USD)',
+    ]);
+  });
+});
+
+describe('toSheet', () => {
+  it('numbers rows by their place in the file, skipping blank rows around the headers', () => {
+    const sheet = toSheet([[], ['Keterangan', 'Jumlah'], ['Sewa', 100], [null, ''], ['Listrik', 50]]);
+    expect(sheet.headers).toEqual(['Keterangan', 'Jumlah']);
+    expect(sheet.rows).toEqual([['Sewa', 100], ['Listrik', 50]]);
+    expect(sheet.rowNumbers).toEqual([3, 5]);
+  });
+});
@@ -0,0 +1,290 @@
+import * as XLSX from 'xlsx';
+import { Customer } from './types';
+import { isCurrencyCode } from './currency';
+
+// Parsing and validation for spreadsheet imports. Nothing in here talks to Supabase:
+// the UI reads a file into a sheet, maps its columns, and inserts whatever
+// `validateRows` reports as valid.
+
+export type ImportTarget = 'receivables' | 'revenues';
+
+export type Cell = string | number | boolean | Date | null | undefined;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: Cell[][];
+  // The 1-based spreadsheet row each entry of `rows` came from, for error messages.
+  rowNumbers: number[];
+}
+
+type FieldType = 'text' | 'amount' | 'date' | 'currency';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  type: FieldType;
+  required: boolean;
+  // Normalized header names that are mapped to this field automatically.
+  aliases: string[];
+}
+
+// An unmapped or empty currency is left null; the importer fills in the base currency.
+export const IMPORT_FIELDS: Record<ImportTarget, ImportField[]> = {
+  receivables: [
+    { key: 'customer', label: 'Pelanggan', type: 'text', required: false, aliases: ['pelanggan', 'customer', 'debitur', 'nama'] },
+    { key: 'description', label: 'Keterangan', type: 'text', required: true, aliases: ['keterangan', 'deskripsi', 'description', 'uraian'] },
+    { key: 'total_amount', label: 'Total Piutang', type: 'amount', required: true, aliases: ['totalpiutang', 'total', 'jumlah', 'nominal', 'amount', 'piutang'] },
+    { key: 'due_date', label: 'Jatuh Tempo', type: 'date', required: true, aliases: ['jatuhtempo', 'tanggaljatuhtempo', 'duedate', 'tempo', 'tanggal'] },
+    { key: 'issue_date', label: 'Tanggal Transaksi', type: 'date', required: false, aliases: ['tanggaltransaksi', 'tanggalinvoice', 'tglinvoice', 'issuedate', 'invoicedate'] },
+    { key: 'currency', label: 'Mata Uang', type: 'currency', required: false, aliases: ['matauang', 'currency', 'kurs', 'valuta'] },
+  ],
+  revenues: [
+    { key: 'description', label: 'Keterangan', type: 'text', required: true, aliases: ['keterangan', 'deskripsi', 'description', 'uraian'] },
+    { key: 'amount', label: 'Jumlah', type: 'amount', required: true, aliases: ['jumlah', 'nominal', 'amount', 'pendapatan', 'total'] },
+    { key: 'date', label: 'Tanggal', type: 'date', required: true, aliases: ['tanggal', 'date', 'tgl'] },
+    { key: 'currency', label: 'Mata Uang', type: 'currency', required: false, aliases: ['matauang', 'currency', 'kurs', 'valuta'] },
+  ],
+};
+
+// Field key -> column index in the sheet, or null when the field is not mapped.
+export type ColumnMapping = Record<string, number | null>;
+
+export type ImportRecord = Record<string, string | number | null>;
+
+export interface ImportRow {
+  rowNumber: number;
+  record: ImportRecord;
+  errors: string[];
+}
+
+const MONTHS: Record<string, number> = {
+  januari: 1, jan: 1,
+  februari: 2, feb: 2,
+  maret: 3, mar: 3,
+  april: 4, apr: 4,
+  mei: 5,
+  juni: 6, jun: 6,
+  juli: 7, jul: 7,
+  agustus: 8, agu: 8, agt: 8, ags: 8,
+  september: 9, sep: 9, sept: 9,
+  oktober: 10, okt: 10,
+  november: 11, nov: 11, nop: 11,
+  desember: 12, des: 12,
+};
+
+export const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toISODate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects impossible dates such as 31/02 instead of letting Date roll them over.
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+export const cellText = (value: Cell) => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return toISODate(value.getFullYear(), value.getMonth() + 1, value.getDate()) ?? '';
+  return String(value).trim();
+};
+
+// Splits CSV text into rows, honouring quoted fields. The delimiter is detected from
+// the first line because Indonesian-locale Excel writes ';' instead of ','.
+export const parseCSV = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [';', '\t', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Reads the first worksheet of an XLSX/XLS file from cell A1, blank rows included, so
+// each row's index is its spreadsheet row number minus one. Numbers stay numbers, and cells with a
+// date format are turned into 'YYYY-MM-DD' text straight from the serial number.
+// Letting SheetJS build Date objects instead goes through the local time zone, which
+// shifts the day east of UTC (serial 45886 came back as 16 August in Asia/Jakarta).
+export const parseWorkbook = (data: ArrayBuffer): Cell[][] => {
+  const workbook = XLSX.read(data, { type: 'array', cellDates: false, cellNF: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904);
+  Object.keys(sheet).forEach(address => {
+    if (address.startsWith('!')) return;
+    const cell = sheet[address] as XLSX.CellObject;
+    if (cell.t !== 'n' || typeof cell.v !== 'number' || !cell.z || !XLSX.SSF.is_date(cell.z)) return;
+    const parts = XLSX.SSF.parse_date_code(cell.v, { date1904 });
+    const iso = parts ? toISODate(parts.y, parts.m, parts.d) : null;
+    if (iso) sheet[address] = { t: 's', v: iso };
+  });
+  if (!sheet['!ref']) return [];
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  range.s = { r: 0, c: 0 };
+  return XLSX.utils.sheet_to_json<Cell[]>(sheet, { header: 1, raw: true, defval: null, blankrows: true, range });
+};
+
+// `offset` is how many spreadsheet rows come before `matrix`. The header row is its
+// first non-blank row; blank rows are dropped after their row numbers are taken.
+export const toSheet = (matrix: Cell[][], offset = 0): ParsedSheet => {
+  const isBlank = (row: Cell[]) => row.every(cell => cellText(cell) === '');
+  const headerIndex = Math.max(0, matrix.findIndex(row => !isBlank(row)));
+  const [headerRow = [], ...rows] = matrix.slice(headerIndex);
+  // +2: spreadsheet rows are 1-based and the data starts below the header row.
+  const numbered = rows
+    .map((row, index) => ({ row, rowNumber: offset + headerIndex + index + 2 }))
+    .filter(({ row }) => !isBlank(row));
+  return {
+    headers: headerRow.map(cellText),
+    rows: numbered.map(({ row }) => row),
+    rowNumbers: numbered.map(({ rowNumber }) => rowNumber),
+  };
+};
+
+export const guessMapping = (target: ImportTarget, headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS[target].forEach(field => {
+    const index = field.aliases
+      .map(alias => normalized.findIndex((header, i) => header === alias && !used.has(i)))
+      .find(i => i >= 0);
+    mapping[field.key] = index ?? null;
+    if (index !== undefined) used.add(index);
+  });
+  return mapping;
+};
+
+// Accepts "1.500.000", "1.500.000,50", "Rp 1.500.000", "1500000" and plain numeric cells.
+export const parseIndonesianNumber = (value: Cell): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = cellText(value).replace(/^(rp\.?|idr)\s*/i, '').replace(/\s/g, '');
+  if (!text) return null;
+
+  let normalized: string;
+  if (/^-?\d{1,3}(\.\d{3})+(,\d+)?$/.test(text)) {
+    normalized = text.replace(/\./g, '').replace(',', '.');
+  } else if (/^-?\d+,\d+$/.test(text)) {
+    normalized = text.replace(',', '.');
+  } else if (/^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(text)) {
+    normalized = text.replace(/,/g, '');
+  } else if (/^-?\d+(\.\d+)?$/.test(text)) {
+    normalized = text;
+  } else {
+    return null;
+  }
+  return parseFloat(normalized);
+};
+
+// Accepts "17/08/2025", "17-08-2025", "17.08.25", "2025-08-17", "17 Agustus 2025",
+// Date cells and Excel serial numbers. Returns 'YYYY-MM-DD' or null.
+export const parseIndonesianDate = (value: Cell): string | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : toISODate(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  }
+  if (typeof value === 'number') {
+    // Excel serial dates count days from 1899-12-30.
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.round(value) * 24 * 60 * 60 * 1000);
+    return toISODate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  }
+  const text = cellText(value).toLowerCase();
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return toISODate(+match[1], +match[2], +match[3]);
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + +match[3] : +match[3];
+    return toISODate(year, +match[2], +match[1]);
+  }
+
+  match = text.match(/^(\d{1,2})[\s-]+([a-z]+)[\s-]+(\d{4})$/);
+  if (match && MONTHS[match[2]]) return toISODate(+match[3], MONTHS[match[2]], +match[1]);
+
+  return null;
+};
+
+export const validateRows = (
+  target: ImportTarget,
+  sheet: ParsedSheet,
+  mapping: ColumnMapping,
+  customers: Pick<Customer, 'id' | 'name'>[] = [],
+): ImportRow[] => {
+  const customerIds = new Map(customers.map(c => [c.name.trim().toLowerCase(), c.id]));
+  const fields = IMPORT_FIELDS[target];
+
+  return sheet.rows.map((row, index) => {
+    const errors: string[] = [];
+    const record: ImportRecord = {};
+
+    fields.forEach(field => {
+      const column = mapping[field.key];
+      const raw = column === null || column === undefined ? null : row[column];
+      const text = cellText(raw);
+
+      if (!text) {
+        if (field.required) errors.push(`${field.label} wajib diisi`);
+        if (field.key === 'customer') record.customer_id = null;
+        else record[field.key] = null;
+        return;
+      }
+
+      if (field.type === 'amount') {
+        const amount = parseIndonesianNumber(raw);
+        if (amount === null) errors.push(`${field.label} "${text}" bukan angka yang valid`);
+        else if (amount < 0) errors.push(`${field.label} tidak boleh negatif`);
+        record[field.key] = amount;
+      } else if (field.type === 'date') {
+        const date = parseIndonesianDate(raw);
+        if (date === null) errors.push(`${field.label} "${text}" bukan tanggal yang valid`);
+        record[field.key] = date;
+      } else if (field.type === 'currency') {
+        const code = text.toUpperCase();
+        if (!isCurrencyCode(code)) errors.push(`${field.label} "${text}" bukan kode mata uang (contoh: IDR, USD)`);
+        record[field.key] = code;
+      } else if (field.key === 'customer') {
+        const customerId = customerIds.get(text.toLowerCase()) ?? null;
+        if (!customerId) errors.push(`Pelanggan "${text}" tidak ditemukan`);
+        record.customer_id = customerId;
+      } else {
+        record[field.key] = text;
+      }
+    });
+
+    return { rowNumber: sheet.rowNumbers[index], record, errors };
+  });
+};
@@ -1,49 +1,104 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import { supabase } from './supabaseClient';
-import { Session, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { backend } from './backend';
+import { AuthSession, DeletedRow, MfaFactor, Page, PortalData, Query, TableName, TableRepository, TotpEnrollment } from './repository';
+import {
+  BankLine, BusinessProfile, Category, Customer, DocumentType, ExchangeRate, Expense, LateFeeKind, LateFeeRule, Payable, PayablePayment,
+  Payment, PaymentMethod, PeriodClose, PeriodKind, PeriodSnapshot, Receivable, RecurrenceUnit,
+  RecurringTemplate, ReminderRule, Revenue, AuditEntry, ShareLink, ShareLinkAccess, ShareScope,
+  Workspace, WorkspaceInvitation, WorkspaceMember, WorkspaceRole,
+} from './types';
+import { formatCurrency, formatDate, formatDateTime, formatMonth, formatPercent, todayISO } from './formatters';
+import {
+  CURRENCIES, Converter, DEFAULT_BASE_CURRENCY, bookingDate, carryingAmount, createConverter, missingRates, realizedFx, totalRealizedFx,
+} from './currency';
+import { AGING_BUCKETS, buildAgingReport } from './aging';
+import { ANALYTICS_PERIODS, AnalyticsPeriod, PeriodRange, buildAnalytics, percentChange, periodRange } from './analytics';
+import { buildProfitLoss } from './profitLoss';
+import {
+  BREAKDOWN_SOURCES, BreakdownSource, TagUsage, categoryBreakdown, categoryName, formatTags, parseTags, removeTag, renameTag, sameTag, tagUsage,
+} from './categories';
+import {
+  Cell, ColumnMapping, IMPORT_FIELDS, ImportRecord, ImportTarget, ParsedSheet,
+  guessMapping, parseCSV, parseWorkbook, toSheet, validateRows,
+} from './importParser';
+import {
+  BANK_FIELDS, BANK_PRESETS, BankMapping, BankPreset, BankStatementLine, guessBankMapping, parseStatement, readStatement,
+} from './bankStatement';
+import { OpenReceivable, proposeMatches, suggestMatches } from './reconciliation';
+import {
+  DEFAULT_SHARE_LINK_DAYS, PORTAL_PARAM, SHARE_LINK_DURATIONS, SHARE_LINK_STATUS_LABELS, buildPortalStatement, generateShareToken,
+  shareLinkExpiry, shareLinkStatus,
+} from './portal';
+import {
+  Ledger, PERIOD_KIND_LABELS, buildPeriodSnapshot, closingProblem, closingRange, describePeriod, isLocked, isOpenClose, lockDate, lockedChange,
+  lockedMessage, reopenableClose,
+} from './periods';
+import { ExportFormat, ExportTable, exportTable, openPrintWindow, printHtml } from './exporter';
+import { renderInvoiceHtml, renderReceiptHtml } from './documents';
+import {
+  DEFAULT_RECEIVABLE_FILTERS, DEFAULT_REVENUE_FILTERS, ListFilters, NO_CATEGORY, RECEIVABLE_FILTER_RULES, REVENUE_FILTER_RULES,
+  ReceivableFilters, RevenueFilters, filterReceivables, filterRevenues, hasActiveFilters, readFiltersFromParams,
+  toggleSort, writeFiltersToParams,
+} from './filters';
+import {
+  TABLE_PAGE_SIZE, applyRealtimeChange, fetchAllPages, mergeChanges, nextSyncMark, pageCount, pageSlice, removeRows, syncSince, upsertRows,
+} from './liveData';
+import {
+  CachedTable, deleteQueueEntries, openOfflineDb, putQueueEntries, readCachedRows, readQueue, readSyncMark, writeCachedRows, writeSyncedRows,
+} from './offlineStore';
+import {
+  MutationInput, QueuedMutation, applyMutation, applyPendingMutations, createMutation, mustWaitInQueue, pickColumns, retryDelay, sendMutation,
+} from './syncQueue';
+import { ACTION_LABELS, ENTITY_LABELS, auditChanges, formatAuditValue } from './audit';
+import { DEFAULT_TRASH_RETENTION_DAYS, daysUntilPurge, expiredTrash, isTrashed } from './trash';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, assignableRoles, can, normalizeEmail } from './workspaces';
+import {
+  DEFAULT_REMINDER_RULES, Reminder, describeRule, evaluateReminders, mailtoLink, reminderMessage, reminderTitle, whatsappLink,
+} from './reminders';
+import { BalanceOf, LATE_FEE_KIND_LABELS, NO_LATE_FEES, createBalanceOf, describeLateFeeRule, effectiveRule } from './lateFees';
+import { RECURRENCE_UNIT_LABELS, describeRecurrence, nextOccurrenceAfter } from './schedule';
+import { addDays } from './dates';
+import { Occurrence, UPCOMING_WINDOW_DAYS, occurrenceRow, pendingOccurrences, upcomingOccurrences, withOverride } from './recurring';
 
 // --- TYPE DEFINITIONS ---
-interface Receivable {
-  id: string;
-  description: string;
-  total_amount: number;
-  paid_amount: number;
-  due_date: string;
-}
-
-interface Revenue {
-  id: string;
-  description: string;
-  amount: number;
-  date: string;
-}
-
-type ActiveTab = 'receivables' | 'revenues';
+type ActiveTab =
+  | 'receivables' | 'revenues' | 'payables' | 'expenses' | 'reconciliation' | 'customers' | 'recurring' | 'aging' | 'analytics' | 'profitLoss' | 'periods' | 'activity' | 'trash';
+const ACTIVE_TABS: ActiveTab[] = [
+  'receivables', 'revenues', 'payables', 'expenses', 'reconciliation', 'customers', 'recurring', 'aging', 'analytics', 'profitLoss', 'periods', 'activity', 'trash',
+];
 type EditingItem = { type: 'receivable' | 'revenue', data: Receivable | Revenue };
+// What a share link is being managed for: one receivable or one customer.
+type ShareTarget = { scope: ShareScope; id: string; title: string };
+// Where an adjusting entry is booked.
+type AdjustmentTable = 'revenues' | 'expenses';
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Tunai',
+  transfer: 'Transfer Bank',
+  qris: 'QRIS',
+  other: 'Lainnya',
+};
 
 
 // --- HELPER FUNCTIONS ---
-const formatCurrency = (amount: number) => {
-  return new Intl.NumberFormat('id-ID', {
-    style: 'currency',
-    currency: 'IDR',
-    minimumFractionDigits: 0,
-  }).format(amount);
-};
-
-const formatDate = (dateString: string) => {
-  if (!dateString) return '-';
-  // Using new Date() with a 'YYYY-MM-DD' string creates a date at UTC midnight.
-  // By specifying timeZone: 'UTC' in the formatter, we prevent the date from shifting
-  // due to the user's local timezone.
-  const date = new Date(dateString);
-  return new Intl.DateTimeFormat('id-ID', {
-    day: '2-digit',
-    month: 'long',
-    year: 'numeric',
-    timeZone: 'UTC',
-  }).format(date);
+const autoPostPreferenceKey = (userId: string) => `piutang:autoPostPayments:${userId}`;
+const autoPostExpensesKey = (userId: string) => `piutang:autoPostExpenses:${userId}`;
+const dismissedRemindersKey = (userId: string) => `piutang:dismissedReminders:${userId}`;
+const currentWorkspaceKey = (userId: string) => `piutang:workspace:${userId}`;
+const workspacesCacheKey = (userId: string) => `piutang:workspaces:${userId}`;
+
+// A zero or negative payment would quietly reopen or inflate a receivable's balance.
+const INVALID_PAYMENT_AMOUNT = 'Jumlah pembayaran harus lebih dari 0.';
+
+const EMPTY_BUSINESS_PROFILE: BusinessProfile = {
+  business_name: '',
+  address: null,
+  city: null,
+  phone: null,
+  email: null,
+  payment_instructions: null,
+  signatory: null,
 };
 
 // --- MODAL COMPONENT ---
@@ -51,14 +106,15 @@ interface ModalProps {
   isOpen: boolean;
   onClose: () => void;
   children: React.ReactNode;
+  wide?: boolean;
 }
 
-const Modal: React.FC<ModalProps> = ({ isOpen, onClose, children }) => {
+const Modal: React.FC<ModalProps> = ({ isOpen, onClose, children, wide }) => {
   if (!isOpen) return null;
 
   return (
     <div className="modal-overlay" onClick={onClose}>
-      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+      <div className={`modal-content ${wide ? 'modal-wide' : ''}`} onClick={(e) => e.stopPropagation()}>
         {children}
       </div>
     </div>
@@ -66,379 +122,6318 @@ const Modal: React.FC<ModalProps> = ({ isOpen, onClose, children }) => {
 };
 
 // --- AUTH COMPONENT ---
-const Auth: React.FC = () => {
+// Emailed links lead back to the app itself. The reset link is marked so the app asks
+// for a new password once the link has signed the user in.
+const appUrl = (search = '') => `${window.location.origin}${window.location.pathname}${search}`;
+const RECOVERY_SEARCH = '?auth=recovery';
+const isRecoveryLink = () => new URLSearchParams(window.location.search).get('auth') === 'recovery';
+// Supabase reports a link that expired or was already used in the URL fragment.
+const emailLinkError = () => new URLSearchParams(window.location.hash.slice(1)).get('error_description');
+// Supabase's default minimum; the server has the final say.
+const MIN_PASSWORD_LENGTH = 6;
+
+type FormNotice = { tone: 'error' | 'success'; text: string } | null;
+
+const FormMessage: React.FC<{ notice: FormNotice }> = ({ notice }) => notice && (
+  <p className={`form-message ${notice.tone}`} role={notice.tone === 'error' ? 'alert' : 'status'}>{notice.text}</p>
+);
+
+type AuthMode = 'login' | 'signup' | 'magicLink' | 'forgotPassword';
+
+const AUTH_MODES: Record<AuthMode, { title: string; subtitle: string; submit: string }> = {
+    login: { title: 'Selamat Datang', subtitle: 'Masuk untuk melanjutkan', submit: 'Login' },
+    signup: { title: 'Buat Akun Baru', subtitle: 'Daftar untuk mulai mengelola keuangan Anda', submit: 'Daftar' },
+    magicLink: { title: 'Masuk Tanpa Password', subtitle: 'Kami kirimkan tautan masuk ke email Anda', submit: 'Kirim Tautan Masuk' },
+    forgotPassword: { title: 'Lupa Password', subtitle: 'Kami kirimkan tautan untuk membuat password baru', submit: 'Kirim Tautan Reset' },
+};
+
+const Auth: React.FC<{ initialError: string | null }> = ({ initialError }) => {
     const [loading, setLoading] = useState(false);
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
-    const [isLogin, setIsLogin] = useState(true);
+    const [mode, setMode] = useState<AuthMode>('login');
+    const [notice, setNotice] = useState<FormNotice>(initialError ? { tone: 'error', text: initialError } : null);
+
+    const switchMode = (next: AuthMode) => {
+        setMode(next);
+        setNotice(null);
+    };
 
     const handleAuth = async (e: React.FormEvent) => {
         e.preventDefault();
         setLoading(true);
-        try {
-            if (isLogin) {
-                const { error } = await supabase.auth.signInWithPassword({ email, password });
-                if (error) throw error;
-                // No alert needed, auth state change will handle UI
-            } else {
-                const { error } = await supabase.auth.signUp({ email, password });
-                if (error) throw error;
-                alert('Pendaftaran berhasil! Silakan cek email Anda untuk verifikasi.');
-            }
-        } catch (error: any) {
-            alert(error.error_description || error.message);
-        } finally {
-            setLoading(false);
+        setNotice(null);
+        if (mode === 'login') {
+            // On success the session change takes over the screen.
+            const { error } = await backend.auth.signIn(email, password);
+            if (error) setNotice({ tone: 'error', text: error.message });
+        } else if (mode === 'signup') {
+            const { error, needsConfirmation } = await backend.auth.signUp(email, password);
+            if (error) setNotice({ tone: 'error', text: error.message });
+            else if (needsConfirmation) setNotice({ tone: 'success', text: 'Pendaftaran berhasil! Silakan cek email Anda untuk verifikasi.' });
+        } else if (mode === 'magicLink') {
+            const { error } = await backend.auth.sendMagicLink(email, appUrl());
+            setNotice(error ? { tone: 'error', text: error.message } : { tone: 'success', text: 'Tautan masuk telah dikirim. Silakan cek email Anda.' });
+        } else {
+            const { error } = await backend.auth.requestPasswordReset(email, appUrl(RECOVERY_SEARCH));
+            setNotice(error
+                ? { tone: 'error', text: error.message }
+                : { tone: 'success', text: 'Jika email terdaftar, tautan untuk membuat password baru telah dikirim.' });
         }
+        setLoading(false);
     };
-    
+
+    const needsPassword = mode === 'login' || mode === 'signup';
+
     return (
         <div className="auth-container">
             <div className="auth-form">
-                <h1>{isLogin ? 'Selamat Datang' : 'Buat Akun Baru'}</h1>
+                <h1>{AUTH_MODES[mode].title}</h1>
                 <p style={{textAlign: 'center', marginBottom: '1.5rem', color: 'var(--text-light-color)'}}>
-                    {isLogin ? 'Masuk untuk melanjutkan' : 'Daftar untuk mulai mengelola keuangan Anda'}
+                    {AUTH_MODES[mode].subtitle}
                 </p>
+                <FormMessage notice={notice} />
                 <form onSubmit={handleAuth}>
                     <div className="form-group">
                         <label htmlFor="email">Email</label>
-                        <input id="email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
-                    </div>
-                    <div className="form-group">
-                        <label htmlFor="password">Password</label>
-                        <input id="password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} required />
+                        <input id="email" type="email" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
                     </div>
+                    {needsPassword && (
+                        <div className="form-group">
+                            <label htmlFor="password">Password</label>
+                            <input
+                                id="password"
+                                type="password"
+                                autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                                minLength={mode === 'signup' ? MIN_PASSWORD_LENGTH : undefined}
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                required
+                            />
+                        </div>
+                    )}
                     <button type="submit" className="btn btn-primary" disabled={loading}>
-                        {loading ? 'Memproses...' : (isLogin ? 'Login' : 'Daftar')}
+                        {loading ? 'Memproses...' : AUTH_MODES[mode].submit}
                     </button>
                 </form>
                  <div className="auth-actions">
-                    <button onClick={() => setIsLogin(!isLogin)}>
-                        {isLogin ? 'Belum punya akun? Daftar di sini' : 'Sudah punya akun? Login'}
-                    </button>
+                    {mode === 'login' ? (
+                        <>
+                            <button onClick={() => switchMode('forgotPassword')}>Lupa password?</button>
+                            <button onClick={() => switchMode('magicLink')}>Masuk dengan tautan email</button>
+                            <button onClick={() => switchMode('signup')}>Belum punya akun? Daftar di sini</button>
+                        </>
+                    ) : (
+                        <button onClick={() => switchMode('login')}>
+                            {mode === 'signup' ? 'Sudah punya akun? Login' : 'Kembali ke Login'}
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
     );
 };
 
+// Shown after a reset link has signed the user in, before anything else.
+const PasswordRecovery: React.FC<{ onDone: () => void }> = ({ onDone }) => {
+    const [saving, setSaving] = useState(false);
+    const [notice, setNotice] = useState<FormNotice>(null);
 
-// --- DASHBOARD COMPONENT ---
-const Dashboard: React.FC<{ session: Session }> = ({ session }) => {
-  // --- STATE MANAGEMENT ---
-  const [activeTab, setActiveTab] = useState<ActiveTab>('receivables');
-  const [receivables, setReceivables] = useState<Receivable[]>([]);
-  const [revenues, setRevenues] = useState<Revenue[]>([]);
-  
-  const [isReceivableModalOpen, setReceivableModalOpen] = useState(false);
-  const [isRevenueModalOpen, setRevenueModalOpen] = useState(false);
-  const [isPaymentModalOpen, setPaymentModalOpen] = useState(false);
-  const [editingItem, setEditingItem] = useState<EditingItem | null>(null);
+    const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const formData = new FormData(e.currentTarget);
+        const password = formData.get('password') as string;
+        if (password !== formData.get('confirmPassword')) {
+            setNotice({ tone: 'error', text: 'Konfirmasi password tidak sama.' });
+            return;
+        }
+        setSaving(true);
+        const { error } = await backend.auth.updatePassword(password);
+        setSaving(false);
+        if (error) setNotice({ tone: 'error', text: error.message });
+        else onDone();
+    };
 
-  const [currentReceivable, setCurrentReceivable] = useState<Receivable | null>(null);
-  
-  // --- DATA FETCHING & REAL-TIME ---
-  const fetchReceivables = useCallback(async () => {
-    console.log('Fetching receivables...');
-    const { data, error } = await supabase
-      .from('receivables')
-      .select('*')
-      .order('due_date', { ascending: true });
-    
-    if (error) console.error('Error fetching receivables:', error);
-    else setReceivables(data as Receivable[]);
-  }, []);
+    return (
+        <div className="auth-container">
+            <div className="auth-form">
+                <h1>Buat Password Baru</h1>
+                <FormMessage notice={notice} />
+                <form onSubmit={handleSubmit}>
+                    <div className="form-group">
+                        <label htmlFor="recovery-password">Password Baru</label>
+                        <input id="recovery-password" name="password" type="password" autoComplete="new-password" minLength={MIN_PASSWORD_LENGTH} required />
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="recovery-confirm">Ulangi Password Baru</label>
+                        <input id="recovery-confirm" name="confirmPassword" type="password" autoComplete="new-password" required />
+                    </div>
+                    <button type="submit" className="btn btn-primary" disabled={saving}>
+                        {saving ? 'Menyimpan...' : 'Simpan Password'}
+                    </button>
+                </form>
+                <div className="auth-actions">
+                    <button onClick={() => backend.auth.signOut()}>Batal dan Logout</button>
+                </div>
+            </div>
+        </div>
+    );
+};
 
-  const fetchRevenues = useCallback(async () => {
-    console.log('Fetching revenues...');
-    const { data, error } = await supabase
-      .from('revenues')
-      .select('*')
-      .order('date', { ascending: false });
+// The second step of signing in to an account with an authenticator app. A verified code
+// changes the session, which takes over the screen.
+const MfaChallenge: React.FC = () => {
+    const [factors, setFactors] = useState<MfaFactor[] | null>(null);
+    const [factorId, setFactorId] = useState('');
+    const [code, setCode] = useState('');
+    const [verifying, setVerifying] = useState(false);
+    const [notice, setNotice] = useState<FormNotice>(null);
 
-    if (error) console.error('Error fetching revenues:', error);
-    else setRevenues(data as Revenue[]);
-  }, []);
+    useEffect(() => {
+        backend.auth.mfa.listFactors().then(({ data, error }) => {
+            if (error) {
+                setNotice({ tone: 'error', text: error.message });
+                setFactors([]);
+                return;
+            }
+            const verified = data.filter(f => f.verified);
+            setFactors(verified);
+            setFactorId(verified[0]?.id ?? '');
+        });
+    }, []);
 
-  useEffect(() => {
-    fetchReceivables();
-    fetchRevenues();
-    
-    const handleChanges = (payload: RealtimePostgresChangesPayload<{[key: string]: any}>) => {
-        console.log("Real-time change received, forcing data refresh:", payload);
-        if (payload.table === 'receivables') {
-            fetchReceivables();
-        }
-        if (payload.table === 'revenues') {
-            fetchRevenues();
+    const handleVerify = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setVerifying(true);
+        setNotice(null);
+        const { error } = await backend.auth.mfa.verify(factorId, code);
+        setVerifying(false);
+        if (error) {
+            setNotice({ tone: 'error', text: error.message });
+            setCode('');
         }
     };
-    
-    const channel = supabase.channel('db-changes')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'receivables' }, handleChanges)
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'revenues' }, handleChanges)
-      .subscribe((status, err) => {
-        if (status === 'SUBSCRIBED') {
-          console.log('Realtime channel subscribed successfully!');
-        }
-        if (status === 'CHANNEL_ERROR') {
-          console.error(`Realtime channel error:`, err);
-          alert('Koneksi real-time gagal. Beberapa pembaruan mungkin tidak muncul secara otomatis.');
-        }
-         if (status === 'TIMED_OUT') {
-          console.warn('Realtime channel subscription timed out.');
-        }
-    });
 
-    return () => {
-        supabase.removeChannel(channel);
-    };
-  }, [fetchReceivables, fetchRevenues]);
+    return (
+        <div className="auth-container">
+            <div className="auth-form">
+                <h1>Verifikasi Dua Langkah</h1>
+                <p style={{textAlign: 'center', marginBottom: '1.5rem', color: 'var(--text-light-color)'}}>
+                    Masukkan kode 6 digit dari aplikasi autentikator Anda.
+                </p>
+                <FormMessage notice={notice} />
+                {factors === null ? <p>Memuat…</p> : (
+                    <form onSubmit={handleVerify}>
+                        {factors.length > 1 && (
+                            <div className="form-group">
+                                <label htmlFor="mfa-factor">Autentikator</label>
+                                <select id="mfa-factor" value={factorId} onChange={(e) => setFactorId(e.target.value)}>
+                                    {factors.map(f => <option key={f.id} value={f.id}>{f.friendlyName || 'Autentikator'}</option>)}
+                                </select>
+                            </div>
+                        )}
+                        <div className="form-group">
+                            <label htmlFor="mfa-code">Kode</label>
+                            <input
+                                id="mfa-code"
+                                inputMode="numeric"
+                                autoComplete="one-time-code"
+                                pattern="[0-9 ]{6,7}"
+                                value={code}
+                                onChange={(e) => setCode(e.target.value)}
+                                autoFocus
+                                required
+                            />
+                        </div>
+                        <button type="submit" className="btn btn-primary" disabled={verifying || !factorId}>
+                            {verifying ? 'Memverifikasi...' : 'Verifikasi'}
+                        </button>
+                    </form>
+                )}
+                <div className="auth-actions">
+                    <button onClick={() => backend.auth.signOut()}>Logout</button>
+                </div>
+            </div>
+        </div>
+    );
+};
 
 
-  // --- HANDLER FUNCTIONS ---
-  const handleAddReceivable = async (e: React.FormEvent<HTMLFormElement>) => {
+// --- ACCOUNT SETTINGS COMPONENT ---
+interface AccountSettingsProps {
+  session: AuthSession;
+  onClose: () => void;
+}
+
+const AccountSettings: React.FC<AccountSettingsProps> = ({ session, onClose }) => {
+  const [emailNotice, setEmailNotice] = useState<FormNotice>(null);
+  const [passwordNotice, setPasswordNotice] = useState<FormNotice>(null);
+  const [mfaNotice, setMfaNotice] = useState<FormNotice>(null);
+  const [factors, setFactors] = useState<MfaFactor[]>([]);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchFactors = useCallback(async () => {
+    const { data, error } = await backend.auth.mfa.listFactors();
+    if (error) setMfaNotice({ tone: 'error', text: error.message });
+    else setFactors(data);
+  }, []);
+
+  useEffect(() => {
+    fetchFactors();
+  }, [fetchFactors]);
+
+  const verifiedFactors = factors.filter(f => f.verified);
+
+  const handleChangeEmail = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    const formData = new FormData(e.currentTarget);
-    const { error } = await supabase.from('receivables').insert({
-      description: formData.get('description') as string,
-      total_amount: parseFloat(formData.get('totalAmount') as string),
-      paid_amount: 0,
-      due_date: formData.get('dueDate') as string,
-      user_id: session.user.id
+    const email = (new FormData(e.currentTarget).get('email') as string).trim();
+    if (email === session.user.email) return;
+    setBusy(true);
+    const { error, needsConfirmation } = await backend.auth.updateEmail(email, appUrl());
+    setBusy(false);
+    if (error) setEmailNotice({ tone: 'error', text: error.message });
+    else setEmailNotice({
+      tone: 'success',
+      text: needsConfirmation ? 'Tautan konfirmasi telah dikirim. Email baru berlaku setelah tautan dibuka.' : 'Email berhasil diubah.',
     });
+  };
 
+  const handleChangePassword = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const password = formData.get('password') as string;
+    if (password !== formData.get('confirmPassword')) {
+      setPasswordNotice({ tone: 'error', text: 'Konfirmasi password tidak sama.' });
+      return;
+    }
+    setBusy(true);
+    const { error } = await backend.auth.updatePassword(password);
+    setBusy(false);
     if (error) {
-        alert(error.message);
+        setPasswordNotice({ tone: 'error', text: error.message });
     } else {
-        fetchReceivables();
-        setReceivableModalOpen(false);
+        setPasswordNotice({ tone: 'success', text: 'Password berhasil diubah.' });
+        form.reset();
     }
   };
 
-  const handleAddRevenue = async (e: React.FormEvent<HTMLFormElement>) => {
+  const handleStartEnrollment = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    const formData = new FormData(e.currentTarget);
-    const { error } = await supabase.from('revenues').insert({
-        description: formData.get('description') as string,
-        amount: parseFloat(formData.get('amount') as string),
-        date: formData.get('date') as string,
-        user_id: session.user.id
-    });
-
-    if (error) {
-        alert(error.message);
-    } else {
-        fetchRevenues();
-        setRevenueModalOpen(false);
-    }
+    const friendlyName = (new FormData(e.currentTarget).get('friendlyName') as string).trim();
+    setBusy(true);
+    setMfaNotice(null);
+    // Enrollments abandoned earlier would otherwise linger and block their name.
+    for (const stale of factors.filter(f => !f.verified)) await backend.auth.mfa.unenroll(stale.id);
+    const { data, error } = await backend.auth.mfa.enrollTotp(friendlyName);
+    setBusy(false);
+    if (error) setMfaNotice({ tone: 'error', text: error.message });
+    else setEnrollment(data);
   };
-  
-  const handleRecordPayment = async (e: React.FormEvent<HTMLFormElement>) => {
+
+  const handleConfirmEnrollment = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    if (!currentReceivable) return;
-    
-    const formData = new FormData(e.currentTarget);
-    const paymentAmount = parseFloat(formData.get('paymentAmount') as string);
-    
-    const { error } = await supabase
-      .from('receivables')
-      .update({ paid_amount: Math.min(currentReceivable.total_amount, currentReceivable.paid_amount + paymentAmount) })
-      .eq('id', currentReceivable.id);
-      
+    if (!enrollment) return;
+    const code = new FormData(e.currentTarget).get('code') as string;
+    setBusy(true);
+    const { error } = await backend.auth.mfa.verify(enrollment.factorId, code);
+    setBusy(false);
     if (error) {
-        alert(error.message);
-    } else {
-        fetchReceivables();
-        setPaymentModalOpen(false);
-        setCurrentReceivable(null);
+        setMfaNotice({ tone: 'error', text: error.message });
+        return;
     }
+    setEnrollment(null);
+    setMfaNotice({ tone: 'success', text: 'Verifikasi dua langkah aktif. Kode autentikator akan diminta setiap kali Anda login.' });
+    fetchFactors();
   };
 
-  const handleDeleteReceivable = async (id: string) => {
-    if (window.confirm('Apakah Anda yakin ingin menghapus piutang ini?')) {
-      const { error } = await supabase.from('receivables').delete().eq('id', id);
-      if (error) {
-          alert(error.message);
-      } else {
-          fetchReceivables();
-      }
-    }
+  const handleCancelEnrollment = async () => {
+    if (!enrollment) return;
+    await backend.auth.mfa.unenroll(enrollment.factorId);
+    setEnrollment(null);
+    setMfaNotice(null);
+    fetchFactors();
   };
 
-  const handleDeleteRevenue = async (id: string) => {
-    if (window.confirm('Apakah Anda yakin ingin menghapus pendapatan ini?')) {
-      const { error } = await supabase.from('revenues').delete().eq('id', id);
-      if (error) {
-          alert(error.message);
-      } else {
-          fetchRevenues();
-      }
+  const handleRemoveFactor = async (factor: MfaFactor) => {
+    const last = verifiedFactors.length === 1;
+    if (!window.confirm(`Hapus autentikator "${factor.friendlyName || 'Autentikator'}"?${last ? ' Login tidak lagi meminta kode verifikasi.' : ''}`)) return;
+    const { error } = await backend.auth.mfa.unenroll(factor.id);
+    if (error) {
+        setMfaNotice({ tone: 'error', text: error.message });
+    } else {
+        setMfaNotice({ tone: 'success', text: 'Autentikator dihapus.' });
+        fetchFactors();
     }
   };
 
-  const handleOpenEditModal = (item: Receivable | Revenue, type: 'receivable' | 'revenue') => {
-    setEditingItem({ data: item, type });
-  };
+  return (
+    <div>
+      <h3>Akun Saya</h3>
 
-  const handleCloseEditModal = () => {
-    setEditingItem(null);
-  };
-  
-  const handleUpdateItem = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    if (!editingItem) return;
-  
-    const formData = new FormData(e.currentTarget);
-  
-    if (editingItem.type === 'receivable') {
-      const { error } = await supabase
-        .from('receivables')
-        .update({
-            description: formData.get('description') as string,
-            total_amount: parseFloat(formData.get('totalAmount') as string),
-            due_date: formData.get('dueDate') as string,
-        })
-        .eq('id', editingItem.data.id);
+      <h4 className="section-title">Email</h4>
+      <FormMessage notice={emailNotice} />
+      <form onSubmit={handleChangeEmail}>
+        <div className="form-group">
+          <label htmlFor="account-email">Alamat Email</label>
+          <input id="account-email" name="email" type="email" autoComplete="email" defaultValue={session.user.email ?? ''} required />
+        </div>
+        <button type="submit" className="btn btn-secondary" disabled={busy}>Ubah Email</button>
+      </form>
 
-      if (error) {
-          alert(error.message);
-      } else {
-          fetchReceivables();
-      }
-    } else { // 'revenue'
-      const { error } = await supabase
-        .from('revenues')
-        .update({
-            description: formData.get('description') as string,
-            amount: parseFloat(formData.get('amount') as string),
-            date: formData.get('date') as string,
-        })
-        .eq('id', editingItem.data.id);
+      <h4 className="section-title">Password</h4>
+      <FormMessage notice={passwordNotice} />
+      <form onSubmit={handleChangePassword}>
+        <div className="mapping-grid">
+          <div className="form-group">
+            <label htmlFor="account-password">Password Baru</label>
+            <input id="account-password" name="password" type="password" autoComplete="new-password" minLength={MIN_PASSWORD_LENGTH} required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="account-confirm">Ulangi Password Baru</label>
+            <input id="account-confirm" name="confirmPassword" type="password" autoComplete="new-password" required />
+          </div>
+        </div>
+        <button type="submit" className="btn btn-secondary" disabled={busy}>Ubah Password</button>
+      </form>
 
-      if (error) {
-          alert(error.message);
-      } else {
-          fetchRevenues();
-      }
+      <h4 className="section-title">Verifikasi Dua Langkah</h4>
+      <p className="modal-subtitle">
+        {verifiedFactors.length > 0
+          ? 'Aktif: setiap login meminta kode dari aplikasi autentikator.'
+          : 'Tambahkan kode dari aplikasi autentikator (Google Authenticator, Authy, dan sejenisnya) sebagai langkah kedua saat login.'}
+      </p>
+      <FormMessage notice={mfaNotice} />
+      {verifiedFactors.length > 0 && (
+        <ul className="rule-list">
+          {verifiedFactors.map(factor => (
+            <li key={factor.id}>
+              <span>{factor.friendlyName || 'Autentikator'} · ditambahkan {formatDate(factor.createdAt.slice(0, 10))}</span>
+              <button className="link-button muted" onClick={() => handleRemoveFactor(factor)}>Hapus</button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {enrollment ? (
+        <form onSubmit={handleConfirmEnrollment}>
+          <p>Pindai kode QR ini dengan aplikasi autentikator, atau masukkan kunci rahasianya secara manual.</p>
+          {enrollment.qrCode && <img className="totp-qr" src={enrollment.qrCode} alt="Kode QR autentikator" />}
+          <p>Kunci rahasia: <code className="totp-secret">{enrollment.secret}</code></p>
+          <div className="form-group">
+            <label htmlFor="enroll-code">Kode 6 Digit dari Aplikasi</label>
+            <input id="enroll-code" name="code" inputMode="numeric" autoComplete="one-time-code" pattern="[0-9 ]{6,7}" required />
+          </div>
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={handleCancelEnrollment}>Batal</button>
+            <button type="submit" className="btn btn-primary" disabled={busy}>Verifikasi & Aktifkan</button>
+          </div>
+        </form>
+      ) : (
+        <form onSubmit={handleStartEnrollment}>
+          <div className="form-group">
+            <label htmlFor="enroll-name">Nama Autentikator</label>
+            <input id="enroll-name" name="friendlyName" defaultValue={`Autentikator ${verifiedFactors.length + 1}`} required />
+          </div>
+          <button type="submit" className="btn btn-secondary" disabled={busy}>Tambah Autentikator</button>
+        </form>
+      )}
+
+      <div className="modal-actions">
+        <button type="button" className="btn btn-secondary" onClick={onClose}>Tutup</button>
+      </div>
+    </div>
+  );
+};
+
+
+// --- NOTIFICATION CENTER COMPONENT ---
+interface NotificationCenterProps {
+  reminders: Reminder[];
+  customers: Customer[];
+  businessName: string;
+  onDismiss: (id: string) => void;
+  // Omitted for roles that may not change the reminder rules.
+  onManageRules?: () => void;
+}
+
+const NotificationCenter: React.FC<NotificationCenterProps> = ({ reminders, customers, businessName, onDismiss, onManageRules }) => {
+  const [isOpen, setOpen] = useState(false);
+
+  const handleCopy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      alert('Pesan disalin ke clipboard.');
+    } catch {
+      window.prompt('Salin pesan berikut:', text);
     }
-    handleCloseEditModal();
   };
 
-  // --- DERIVED STATE / MEMOS ---
-  const sortedReceivables = useMemo(() => 
-    [...receivables].sort((a, b) => {
-      const remainingA = a.total_amount - a.paid_amount;
-      const remainingB = b.total_amount - b.paid_amount;
-      if (remainingA > 0 && remainingB <= 0) return -1;
-      if (remainingA <= 0 && remainingB > 0) return 1;
-      if (!a.due_date) return 1;
-      if (!b.due_date) return -1;
-      return new Date(a.due_date).getTime() - new Date(b.due_date).getTime();
-    }), [receivables]);
-
-  const sortedRevenues = useMemo(() => 
-    [...revenues].sort((a, b) => {
-        if (!a.date) return 1;
-        if (!b.date) return -1;
-        return new Date(b.date).getTime() - new Date(a.date).getTime();
-    }), 
-    [revenues]
-  );
-
-  const receivablesSummary = useMemo(() => {
-    return receivables.reduce((acc, curr) => {
-      acc.total += curr.total_amount;
-      acc.remaining += (curr.total_amount - curr.paid_amount);
-      return acc;
-    }, { total: 0, remaining: 0 });
-  }, [receivables]);
-
-  const revenuesSummary = useMemo(() => {
-    return revenues.reduce((acc, curr) => {
-      acc.total += curr.amount;
-      return acc;
-    }, { total: 0 });
-  }, [revenues]);
+  return (
+    <div className="notification-center">
+      <button className="btn-icon notification-bell" title="Notifikasi" onClick={() => setOpen(!isOpen)}>
+        <svg viewBox="0 0 24 24"><path d="M12 22c1.1 0 2-.9 2-2h-4c0 1.1.89 2 2 2zm6-6v-5c0-3.07-1.64-5.64-4.5-6.32V4c0-.83-.67-1.5-1.5-1.5s-1.5.67-1.5 1.5v.68C7.63 5.36 6 7.92 6 11v5l-2 2v1h16v-1l-2-2z"/></svg>
+        {reminders.length > 0 && <span className="notification-badge">{reminders.length}</span>}
+      </button>
+      {isOpen && (
+        <div className="notification-panel">
+          <div className="notification-panel-header">
+            <strong>Pengingat Jatuh Tempo</strong>
+            {onManageRules && (
+              <button className="link-button" onClick={() => { setOpen(false); onManageRules(); }}>Atur</button>
+            )}
+          </div>
+          {reminders.length === 0 ? (
+            <p className="notification-empty">Tidak ada pengingat baru.</p>
+          ) : reminders.map(reminder => {
+            const customer = customers.find(c => c.id === reminder.receivable.customer_id) ?? null;
+            const message = reminderMessage(reminder, customer, businessName);
+            return (
+              <div className="notification-item" key={reminder.id}>
+                <div className={`notification-title ${reminder.daysFromDue > 0 ? 'overdue' : ''}`}>{reminderTitle(reminder)}</div>
+                <div>{customer ? `${customer.name} · ` : ''}{reminder.receivable.description}</div>
+                <div className="notification-meta">{formatCurrency(reminder.outstanding, reminder.receivable.currency)} · {formatDate(reminder.receivable.due_date)}</div>
+                <div className="notification-actions">
+                  {customer?.phone && (
+                    <a className="link-button" href={whatsappLink(customer.phone, message)} target="_blank" rel="noreferrer">WhatsApp</a>
+                  )}
+                  {customer?.email && (
+                    <a className="link-button" href={mailtoLink(customer.email, `Pengingat tagihan: ${reminder.receivable.description}`, message)}>Email</a>
+                  )}
+                  <button className="link-button" onClick={() => handleCopy(message)}>Salin Pesan</button>
+                  <button className="link-button muted" onClick={() => onDismiss(reminder.id)}>Tandai Dibaca</button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
 
 
-  // --- RENDER ---
+// --- SYNC STATUS COMPONENT ---
+interface SyncStatusProps {
+  isOnline: boolean;
+  isSyncing: boolean;
+  queue: QueuedMutation[];
+  onSync: () => void;
+  onResolve: (id: string, keep: 'mine' | 'server') => void;
+}
+
+const SyncStatus: React.FC<SyncStatusProps> = ({ isOnline, isSyncing, queue, onSync, onResolve }) => {
+  const [isOpen, setOpen] = useState(false);
+  const conflicts = queue.filter(m => m.status === 'conflict');
+  const pending = queue.filter(m => m.status === 'pending');
+
+  const label = !isOnline
+    ? `Offline${pending.length > 0 ? ` · ${pending.length} tertunda` : ''}`
+    : conflicts.length > 0
+      ? `${conflicts.length} konflik`
+      : pending.length > 0
+        ? (isSyncing ? 'Menyinkronkan…' : `${pending.length} belum tersinkron`)
+        : 'Tersinkron';
+  const tone = conflicts.length > 0 ? 'conflict' : !isOnline || pending.length > 0 ? 'pending' : 'synced';
+
   return (
-    <div className="app-container">
-      <header>
-        <h1>PayLogix</h1>
-        <div className="user-info">
-            <span>{session.user.email}</span>
-            <button className="btn logout-btn" onClick={() => supabase.auth.signOut()}>Logout</button>
+    <div className="notification-center">
+      <button className={`sync-indicator sync-${tone}`} title="Status sinkronisasi" onClick={() => setOpen(!isOpen)}>
+        <span className="sync-dot" />{label}
+      </button>
+      {isOpen && (
+        <div className="notification-panel">
+          <div className="notification-panel-header">
+            <strong>Sinkronisasi</strong>
+            <button className="link-button" disabled={!isOnline || isSyncing || pending.length === 0} onClick={onSync}>Sinkronkan Sekarang</button>
+          </div>
+          {queue.length === 0 ? (
+            <p className="notification-empty">Semua perubahan sudah tersimpan di server.</p>
+          ) : queue.map(mutation => (
+            <div className="notification-item" key={mutation.id}>
+              <div className={`notification-title ${mutation.status === 'conflict' ? 'overdue' : ''}`}>
+                {mutation.status === 'conflict' ? 'Konflik' : 'Menunggu koneksi'}
+              </div>
+              <div>{mutation.label}</div>
+              <div className="notification-meta">Dibuat {formatDateTime(mutation.queuedAt)}</div>
+              {mutation.conflict && (
+                <>
+                  <div className="notification-meta">
+                    {mutation.conflict.reason}
+                    {mutation.conflict.fields.length > 0 && ` Kolom: ${mutation.conflict.fields.join(', ')}.`}
+                  </div>
+                  <div className="notification-actions">
+                    {mutation.conflict.retryable && (
+                      <button className="link-button" onClick={() => onResolve(mutation.id, 'mine')}>Pakai Versi Saya</button>
+                    )}
+                    <button className="link-button muted" onClick={() => onResolve(mutation.id, 'server')}>Pakai Versi Server</button>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
         </div>
-      </header>
+      )}
+    </div>
+  );
+};
 
-      <nav className="tabs">
-        <button className={`tab-button ${activeTab === 'receivables' ? 'active' : ''}`} onClick={() => setActiveTab('receivables')}>Piutang</button>
-        <button className={`tab-button ${activeTab === 'revenues' ? 'active' : ''}`} onClick={() => setActiveTab('revenues')}>Pendapatan</button>
-      </nav>
 
-      <main>
-        {activeTab === 'receivables' && (
-          <section>
-            <div className="content-header">
-              <h2>Daftar Piutang</h2>
-              <button className="btn btn-primary" onClick={() => setReceivableModalOpen(true)}>+ Tambah Piutang</button>
-            </div>
-            
-            <div className="summary-container">
-                <div className="stat-card">
-                    <span className="stat-card-label">Total Piutang Keseluruhan</span>
-                    <span className="stat-card-value">{formatCurrency(receivablesSummary.total)}</span>
-                </div>
-                <div className="stat-card">
-                    <span className="stat-card-label">Total Sisa Tagihan</span>
-                    <span className="stat-card-value warning">{formatCurrency(receivablesSummary.remaining)}</span>
-                </div>
-            </div>
+// --- FILTER COMPONENTS ---
+interface FilterBarProps<F extends ListFilters<string>> {
+  filters: F;
+  defaults: F;
+  categories: Category[];
+  tags: TagUsage[];
+  dateLabel: string;
+  onChange: (filters: F) => void;
+  children?: React.ReactNode;
+}
+
+const FilterBar = <F extends ListFilters<string>>({ filters, defaults, categories, tags, dateLabel, onChange, children }: FilterBarProps<F>) => {
+  const set = (key: keyof F) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    onChange({ ...filters, [key]: e.target.value });
+
+  return (
+    <div className="filter-bar">
+      <input type="search" placeholder="Cari keterangan..." value={filters.q} onChange={set('q')} aria-label="Cari" />
+      {children}
+      <select value={filters.category} onChange={set('category')} aria-label="Kategori">
+        <option value="">Semua Kategori</option>
+        {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        <option value={NO_CATEGORY}>Tanpa Kategori</option>
+      </select>
+      {(tags.length > 0 || filters.tag) && (
+        <select value={filters.tag} onChange={set('tag')} aria-label="Tag">
+          <option value="">Semua Tag</option>
+          {filters.tag && !tags.some(t => sameTag(t.tag, filters.tag)) && <option value={filters.tag}>{filters.tag}</option>}
+          {tags.map(t => <option key={t.tag} value={t.tag}>{t.tag}</option>)}
+        </select>
+      )}
+      <label>
+        {dateLabel}
+        <input type="date" value={filters.from} onChange={set('from')} aria-label={`${dateLabel} dari`} />
+        <span>s.d.</span>
+        <input type="date" value={filters.to} onChange={set('to')} aria-label={`${dateLabel} sampai`} />
+      </label>
+      <label>
+        Jumlah
+        <input type="number" min="0" placeholder="Min" value={filters.minAmount} onChange={set('minAmount')} aria-label="Jumlah minimum" />
+        <span>–</span>
+        <input type="number" min="0" placeholder="Maks" value={filters.maxAmount} onChange={set('maxAmount')} aria-label="Jumlah maksimum" />
+      </label>
+      {hasActiveFilters(filters, defaults) && (
+        <button className="link-button" onClick={() => onChange({ ...defaults, sort: filters.sort, dir: filters.dir })}>Reset Filter</button>
+      )}
+    </div>
+  );
+};
+
+interface SortableHeaderProps<K extends string> {
+  label: string;
+  sortKey: K;
+  filters: ListFilters<K>;
+  onSort: (key: K) => void;
+}
+
+const SortableHeader = <K extends string>({ label, sortKey, filters, onSort }: SortableHeaderProps<K>) => {
+  const isActive = filters.sort === sortKey;
+  return (
+    <th className="sortable" onClick={() => onSort(sortKey)} aria-sort={isActive ? (filters.dir === 'asc' ? 'ascending' : 'descending') : 'none'}>
+      {label}
+      <span className="sort-indicator">{isActive ? (filters.dir === 'asc' ? '▲' : '▼') : ''}</span>
+    </th>
+  );
+};
+
+
+// --- CATEGORY COMPONENTS ---
+interface CategoryFieldsProps {
+  idPrefix: string;
+  categories: Category[];
+  categoryId?: string | null;
+  tags?: string[];
+}
+
+// The category and tag inputs shared by the receivable and revenue forms.
+const CategoryFields: React.FC<CategoryFieldsProps> = ({ idPrefix, categories, categoryId, tags }) => (
+  <>
+    <div className="form-group">
+      <label htmlFor={`${idPrefix}-categoryId`}>Kategori</label>
+      <select id={`${idPrefix}-categoryId`} name="categoryId" defaultValue={categoryId ?? ''}>
+        <option value="">— Tanpa kategori —</option>
+        {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+      </select>
+    </div>
+    <div className="form-group">
+      <label htmlFor={`${idPrefix}-tags`}>Tag</label>
+      <input id={`${idPrefix}-tags`} name="tags" type="text" defaultValue={formatTags(tags ?? [])} placeholder="Pisahkan dengan koma" />
+    </div>
+  </>
+);
+
+const categoryValues = (formData: FormData) => ({
+  category_id: (formData.get('categoryId') as string) || null,
+  tags: parseTags((formData.get('tags') as string) ?? ''),
+});
+
+const TagList: React.FC<{ category: string | null; tags: string[] }> = ({ category, tags }) => (
+  category || tags.length > 0 ? (
+    <div className="tag-list">
+      {category && <span className="category-chip">{category}</span>}
+      {tags.map(tag => <span key={tag} className="tag-chip">{tag}</span>)}
+    </div>
+  ) : null
+);
+
+
+// --- LATE FEE COMPONENTS ---
+interface LateFeeFieldsProps {
+  idPrefix: string;
+  rule: LateFeeRule | null;
+  // Set on receivable forms, where the rule can follow the workspace default.
+  defaultDescription?: string;
+}
+
+const LateFeeFields: React.FC<LateFeeFieldsProps> = ({ idPrefix, rule, defaultDescription }) => {
+  const [mode, setMode] = useState<LateFeeKind | 'default'>(rule?.kind ?? (defaultDescription !== undefined ? 'default' : 'none'));
+  const current = rule ?? NO_LATE_FEES;
+  return (
+    <>
+      <div className="form-group">
+        <label htmlFor={`${idPrefix}-feeKind`}>Denda Keterlambatan</label>
+        <select id={`${idPrefix}-feeKind`} name="feeKind" value={mode} onChange={(e) => setMode(e.target.value as LateFeeKind | 'default')}>
+          {defaultDescription !== undefined && <option value="default">Ikuti default ({defaultDescription})</option>}
+          {(Object.keys(LATE_FEE_KIND_LABELS) as LateFeeKind[]).map(kind => (
+            <option key={kind} value={kind}>{LATE_FEE_KIND_LABELS[kind]}</option>
+          ))}
+        </select>
+      </div>
+      {mode !== 'default' && mode !== 'none' && (
+        <div className="mapping-grid">
+          <div className="form-group">
+            <label htmlFor={`${idPrefix}-feeRate`}>{mode === 'flat' ? 'Jumlah Denda' : 'Persentase (%)'}</label>
+            <input id={`${idPrefix}-feeRate`} name="feeRate" type="number" min="0" step="any" defaultValue={current.rate || ''} required />
+          </div>
+          <div className="form-group">
+            <label htmlFor={`${idPrefix}-feeGraceDays`}>Masa Tenggang (hari)</label>
+            <input id={`${idPrefix}-feeGraceDays`} name="feeGraceDays" type="number" min="0" step="1" defaultValue={current.grace_days} />
+          </div>
+          <div className="form-group">
+            <label htmlFor={`${idPrefix}-feeCapPercent`}>Batas Maksimal (% pokok)</label>
+            <input id={`${idPrefix}-feeCapPercent`} name="feeCapPercent" type="number" min="0" step="any" defaultValue={current.cap_percent ?? ''} placeholder="Tanpa batas" />
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+// The rule entered in LateFeeFields; null when the receivable follows the default.
+const lateFeeRuleFromForm = (formData: FormData): LateFeeRule | null => {
+  const kind = formData.get('feeKind') as LateFeeKind | 'default';
+  if (kind === 'default') return null;
+  const rate = parseFloat(formData.get('feeRate') as string);
+  if (kind === 'none' || !(rate > 0)) return NO_LATE_FEES;
+  const graceDays = parseInt(formData.get('feeGraceDays') as string, 10);
+  const cap = parseFloat(formData.get('feeCapPercent') as string);
+  return { kind, rate, grace_days: graceDays > 0 ? graceDays : 0, cap_percent: cap > 0 ? cap : null };
+};
+
+
+// --- PAGINATION COMPONENT ---
+interface PaginationProps {
+  page: number;
+  totalRows: number;
+  onChange: (page: number) => void;
+}
+
+const Pagination: React.FC<PaginationProps> = ({ page, totalRows, onChange }) => {
+  const pages = pageCount(totalRows);
+  if (pages <= 1) return null;
+  return (
+    <div className="pagination">
+      <button className="btn btn-secondary" disabled={page <= 1} onClick={() => onChange(page - 1)}>‹ Sebelumnya</button>
+      <span>Halaman {page} dari {pages} · {totalRows} baris</span>
+      <button className="btn btn-secondary" disabled={page >= pages} onClick={() => onChange(page + 1)}>Berikutnya ›</button>
+    </div>
+  );
+};
+
+
+// --- EXPORT BUTTONS COMPONENT ---
+const ExportButtons: React.FC<{ onExport: (format: ExportFormat) => void }> = ({ onExport }) => (
+  <div className="export-group" role="group" aria-label="Ekspor">
+    <button type="button" className="btn btn-secondary" onClick={() => onExport('csv')}>CSV</button>
+    <button type="button" className="btn btn-secondary" onClick={() => onExport('xlsx')}>Excel</button>
+    <button type="button" className="btn btn-secondary" onClick={() => onExport('pdf')}>PDF</button>
+  </div>
+);
+
+// Shown under converted totals when some amounts could not be converted.
+const MissingRatesNote: React.FC<{ currencies: string[]; baseCurrency: string }> = ({ currencies, baseCurrency }) => (
+  currencies.length > 0 ? (
+    <p className="rate-warning">
+      Belum ada kurs {currencies.join(', ')} ke {baseCurrency} untuk sebagian tanggal transaksi; jumlah tersebut tidak ikut dalam total.
+    </p>
+  ) : null
+);
+
+
+// --- CUSTOMER STATEMENT COMPONENT ---
+interface CustomerStatementProps {
+  customer: Customer;
+  receivables: Receivable[];
+  payments: Payment[];
+  convert: Converter;
+  baseCurrency: string;
+}
+
+type StatementLine = {
+  key: string;
+  date: string;
+  description: string;
+  debit: number;
+  credit: number;
+};
+
+// The statement is kept in the base currency. Foreign receivables and their payments are
+// carried at the booking rate, so the balance matches the receivables summary; the
+// original amount is noted in the description.
+const CustomerStatement: React.FC<CustomerStatementProps> = ({ customer, receivables, payments, convert, baseCurrency }) => {
+  const { lines, missingCurrencies } = useMemo(() => {
+    const byId = new Map<string, Receivable>(receivables.map(r => [r.id, r]));
+    const missing = new Set<string>();
+    const inBase = (receivable: Receivable, amount: number) => {
+      const converted = carryingAmount(convert, receivable, amount);
+      if (converted === null) missing.add(receivable.currency);
+      return converted;
+    };
+    const original = (receivable: Receivable, amount: number) =>
+      receivable.currency === baseCurrency ? '' : ` (${formatCurrency(amount, receivable.currency)})`;
+    const entries: (StatementLine | null)[] = [
+      ...receivables.map(r => {
+        const debit = inBase(r, r.total_amount);
+        return debit === null ? null : {
+          key: `r-${r.id}`,
+          date: r.due_date,
+          description: `${r.description}${original(r, r.total_amount)}`,
+          debit,
+          credit: 0,
+        };
+      }),
+      ...payments
+        .filter(p => !p.voided_at && byId.has(p.receivable_id))
+        .map(p => {
+          const receivable = byId.get(p.receivable_id)!;
+          const credit = inBase(receivable, p.amount);
+          return credit === null ? null : {
+            key: `p-${p.id}`,
+            date: p.paid_at,
+            description: `Pembayaran ${receivable.description} (${PAYMENT_METHOD_LABELS[p.method] ?? p.method})${original(receivable, p.amount)}`,
+            debit: 0,
+            credit,
+          };
+        }),
+    ];
+    // Charges sort before payments made on the same day so the running balance never dips below zero artificially.
+    return {
+      lines: entries.filter((line): line is StatementLine => line !== null)
+        .sort((a, b) => a.date.localeCompare(b.date) || b.debit - a.debit),
+      missingCurrencies: [...missing].sort(),
+    };
+  }, [receivables, payments, convert, baseCurrency]);
+
+  const totals = lines.reduce((acc, line) => {
+    acc.debit += line.debit;
+    acc.credit += line.credit;
+    return acc;
+  }, { debit: 0, credit: 0 });
+
+  const contact = [customer.phone, customer.address].filter(Boolean).join(' · ');
+
+  const handleExport = (format: ExportFormat) => {
+    let running = 0;
+    const table: ExportTable = {
+      title: `Laporan Pelanggan - ${customer.name}`,
+      subtitle: contact || undefined,
+      currency: baseCurrency,
+      summary: [
+        { label: 'Total Tagihan', value: totals.debit },
+        { label: 'Total Dibayar', value: totals.credit },
+        { label: 'Saldo Terutang', value: totals.debit - totals.credit },
+      ],
+      columns: [
+        { header: 'Tanggal', type: 'date' },
+        { header: 'Keterangan', type: 'text' },
+        { header: 'Tagihan', type: 'amount' },
+        { header: 'Pembayaran', type: 'amount' },
+        { header: 'Saldo', type: 'amount' },
+      ],
+      rows: lines.map(line => {
+        running += line.debit - line.credit;
+        return [line.date, line.description, line.debit || null, line.credit || null, running];
+      }),
+    };
+    exportTable(table, format, `laporan-${customer.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`);
+  };
+
+  let balance = 0;
+
+  return (
+    <div>
+      <div className="content-header">
+        <h3>Laporan Pelanggan: {customer.name}</h3>
+        <ExportButtons onExport={handleExport} />
+      </div>
+      <p className="modal-subtitle">
+        {contact || 'Tidak ada kontak tersimpan'}
+      </p>
+
+      <div className="summary-container">
+        <div className="stat-card">
+          <span className="stat-card-label">Total Tagihan</span>
+          <span className="stat-card-value">{formatCurrency(totals.debit, baseCurrency)}</span>
+        </div>
+        <div className="stat-card">
+          <span className="stat-card-label">Total Dibayar</span>
+          <span className="stat-card-value success">{formatCurrency(totals.credit, baseCurrency)}</span>
+        </div>
+        <div className="stat-card">
+          <span className="stat-card-label">Saldo Terutang</span>
+          <span className="stat-card-value warning">{formatCurrency(totals.debit - totals.credit, baseCurrency)}</span>
+        </div>
+      </div>
+      <MissingRatesNote currencies={missingCurrencies} baseCurrency={baseCurrency} />
+
+      {lines.length > 0 ? (
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                <th>Tanggal</th>
+                <th>Keterangan</th>
+                <th>Tagihan</th>
+                <th>Pembayaran</th>
+                <th>Saldo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map(line => {
+                balance += line.debit - line.credit;
+                return (
+                  <tr key={line.key}>
+                    <td>{formatDate(line.date)}</td>
+                    <td>{line.description}</td>
+                    <td>{line.debit ? formatCurrency(line.debit, baseCurrency) : '-'}</td>
+                    <td>{line.credit ? formatCurrency(line.credit, baseCurrency) : '-'}</td>
+                    <td>{formatCurrency(balance, baseCurrency)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="empty-state"><p>Belum ada piutang untuk pelanggan ini.</p></div>
+      )}
+    </div>
+  );
+};
+
+
+// --- DEBTOR PORTAL COMPONENTS ---
+// The page a share link opens. It is rendered instead of the whole app, without a
+// session, and only shows what `backend.portal` returned for the link.
+const DebtorPortal: React.FC<{ token: string }> = ({ token }) => {
+  const [data, setData] = useState<PortalData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    backend.portal.open(token, navigator.userAgent).then(({ data, error }) => {
+      if (error) setError(error.message);
+      else setData(data);
+    });
+  }, [token]);
+
+  const statement = useMemo(() => data ? buildPortalStatement(data, todayISO()) : null, [data]);
+
+  if (error) {
+    return (
+      <div className="auth-container">
+        <div className="auth-form">
+          <h1>Tautan Tidak Berlaku</h1>
+          <p>{error}</p>
+        </div>
+      </div>
+    );
+  }
+  if (!data || !statement) {
+    return <div className="auth-container"><p>Memuat…</p></div>;
+  }
+
+  const business = data.business;
+  const contact = business ? [business.address, business.city, business.phone, business.email].filter(Boolean).join(' · ') : '';
+  const hasFees = statement.lines.some(line => line.outstandingFees > 0);
+
+  return (
+    <div className="app-container portal">
+      <header>
+        <h1>{business?.business_name || 'Ringkasan Tagihan'}</h1>
+        {contact && <span className="modal-subtitle">{contact}</span>}
+      </header>
+
+      <h2>Tagihan {data.customerName ? `untuk ${data.customerName}` : 'Anda'}</h2>
+      <div className="summary-container">
+        {statement.balances.length > 0 ? statement.balances.map(balance => (
+          <div className="stat-card" key={balance.currency}>
+            <span className="stat-card-label">Sisa Tagihan{statement.balances.length > 1 ? ` (${balance.currency})` : ''}</span>
+            <span className="stat-card-value warning">{formatCurrency(balance.outstanding, balance.currency)}</span>
+          </div>
+        )) : (
+          <div className="stat-card">
+            <span className="stat-card-label">Sisa Tagihan</span>
+            <span className="stat-card-value success">Lunas</span>
+          </div>
+        )}
+        {statement.nextDueDate && (
+          <div className="stat-card">
+            <span className="stat-card-label">Jatuh Tempo Terdekat</span>
+            <span className="stat-card-value">{formatDate(statement.nextDueDate)}</span>
+          </div>
+        )}
+      </div>
+
+      {statement.lines.length > 0 ? (
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                <th>Tagihan</th>
+                <th>Jatuh Tempo</th>
+                <th>Total</th>
+                <th>Dibayar</th>
+                {hasFees && <th>Denda</th>}
+                <th>Sisa</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {statement.lines.map(line => (
+                <tr key={line.receivable.id}>
+                  <td>{line.receivable.description}</td>
+                  <td>{formatDate(line.receivable.due_date)}</td>
+                  <td>{formatCurrency(line.receivable.total_amount, line.receivable.currency)}</td>
+                  <td>{formatCurrency(line.paid, line.receivable.currency)}</td>
+                  {hasFees && <td>{line.outstandingFees > 0 ? formatCurrency(line.outstandingFees, line.receivable.currency) : '-'}</td>}
+                  <td>{formatCurrency(line.outstanding, line.receivable.currency)}</td>
+                  <td>
+                    <span className={`status-badge status-${line.status}`}>
+                      {line.status === 'paid' ? 'Lunas' : line.status === 'overdue' ? 'Terlambat' : 'Belum Lunas'}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="empty-state">
+          <p>Tidak ada tagihan pada tautan ini.</p>
+        </div>
+      )}
+
+      {business?.payment_instructions && (
+        <>
+          <h3 className="section-title">Cara Pembayaran</h3>
+          <p className="payment-instructions">{business.payment_instructions}</p>
+        </>
+      )}
+
+      <h3 className="section-title">Riwayat Pembayaran</h3>
+      {statement.payments.length > 0 ? (
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr><th>Tanggal</th><th>Tagihan</th><th>Metode</th><th>Jumlah</th></tr>
+            </thead>
+            <tbody>
+              {statement.payments.map(p => (
+                <tr key={p.id}>
+                  <td>{formatDate(p.paid_at)}</td>
+                  <td>{p.description}</td>
+                  <td>{PAYMENT_METHOD_LABELS[p.method] ?? p.method}</td>
+                  <td>{formatCurrency(p.amount, p.currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="modal-subtitle">Belum ada pembayaran yang tercatat.</p>
+      )}
+
+      <p className="portal-footer">
+        Halaman ini hanya untuk dilihat dan berlaku sampai {formatDateTime(data.link.expires_at)}.
+        Hubungi kami bila ada data yang tidak sesuai.
+      </p>
+    </div>
+  );
+};
+
+interface ShareLinksPanelProps {
+  target: ShareTarget;
+  links: ShareLink[];
+  canShare: boolean;
+  onCreate: (days: number) => Promise<void>;
+  onRevoke: (link: ShareLink) => void;
+  onClose: () => void;
+}
+
+const ShareLinksPanel: React.FC<ShareLinksPanelProps> = ({ target, links, canShare, onCreate, onRevoke, onClose }) => {
+  const [days, setDays] = useState(DEFAULT_SHARE_LINK_DAYS);
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  // Access logs are only loaded for the link being looked at.
+  const [accessLinkId, setAccessLinkId] = useState<string | null>(null);
+  const [accesses, setAccesses] = useState<ShareLinkAccess[] | null>(null);
+  const now = new Date().toISOString();
+
+  const handleCreate = async () => {
+    setCreating(true);
+    await onCreate(days);
+    setCreating(false);
+  };
+
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(appUrl(`?${PORTAL_PARAM}=${link.token}`));
+      setCopiedId(link.id);
+    } catch {
+      window.prompt('Salin tautan ini:', appUrl(`?${PORTAL_PARAM}=${link.token}`));
+    }
+  };
+
+  const handleShowAccess = async (link: ShareLink) => {
+    if (accessLinkId === link.id) {
+      setAccessLinkId(null);
+      return;
+    }
+    setAccessLinkId(link.id);
+    setAccesses(null);
+    const { data, error } = await backend.table<ShareLinkAccess>('share_link_access').list({
+      where: { link_id: link.id }, order: [['accessed_at', 'desc']],
+    });
+    if (error) console.error('Error fetching share link access:', error);
+    setAccesses(data ?? []);
+  };
+
+  return (
+    <div>
+      <h3>Tautan Tagihan: {target.title}</h3>
+      <p className="modal-subtitle">
+        {target.scope === 'customer'
+          ? 'Debitur dapat melihat semua tagihan pelanggan ini, pembayarannya dan cara pembayaran, tanpa perlu login.'
+          : 'Debitur dapat melihat tagihan ini, pembayarannya dan cara pembayaran, tanpa perlu login.'}
+        {' '}Setiap kali tautan dibuka akan tercatat.
+      </p>
+
+      {canShare && (
+        <div className="report-controls">
+          <div className="form-group">
+            <label htmlFor="share-days">Berlaku Selama</label>
+            <select id="share-days" value={days} onChange={(e) => setDays(Number(e.target.value))}>
+              {SHARE_LINK_DURATIONS.map(d => <option key={d.days} value={d.days}>{d.label}</option>)}
+            </select>
+          </div>
+          <button className="btn btn-primary" disabled={creating} onClick={handleCreate}>
+            {creating ? 'Membuat...' : 'Buat Tautan'}
+          </button>
+        </div>
+      )}
+
+      {links.length > 0 ? (
+        <ul className="rule-list">
+          {links.map(link => {
+            const status = shareLinkStatus(link, now);
+            return (
+              <li key={link.id} className="share-link">
+                <div>
+                  <span className={`status-badge ${status === 'active' ? 'status-paid' : 'status-overdue'}`}>{SHARE_LINK_STATUS_LABELS[status]}</span>
+                  {' '}Dibuat {formatDateTime(link.created_at)} · {status === 'revoked' && link.revoked_at
+                    ? `dicabut ${formatDateTime(link.revoked_at)}`
+                    : `berlaku sampai ${formatDateTime(link.expires_at)}`}
+                  {accessLinkId === link.id && (
+                    accesses === null ? <p className="notification-meta">Memuat…</p> : accesses.length > 0 ? (
+                      <ul className="audit-list">
+                        {accesses.map(access => (
+                          <li key={access.id} className="notification-meta">
+                            {formatDateTime(access.accessed_at)}{access.user_agent ? ` · ${access.user_agent}` : ''}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : <p className="notification-meta">Belum pernah dibuka.</p>
+                  )}
+                </div>
+                <div className="header-actions">
+                  {status === 'active' && (
+                    <button className="link-button" onClick={() => handleCopy(link)}>{copiedId === link.id ? 'Tersalin' : 'Salin Tautan'}</button>
+                  )}
+                  <button className="link-button" onClick={() => handleShowAccess(link)}>
+                    {accessLinkId === link.id ? 'Tutup Log' : 'Log Akses'}
+                  </button>
+                  {status === 'active' && canShare && (
+                    <button className="link-button muted" onClick={() => onRevoke(link)}>Cabut</button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="modal-subtitle">Belum ada tautan.</p>
+      )}
+
+      <div className="modal-actions">
+        <button type="button" className="btn btn-secondary" onClick={onClose}>Tutup</button>
+      </div>
+    </div>
+  );
+};
+
+
+// --- AGING REPORT COMPONENT ---
+interface AgingReportViewProps {
+  receivables: Receivable[];
+  balanceOf: BalanceOf;
+  customerNames: Map<string, string>;
+  convert: Converter;
+  baseCurrency: string;
+}
+
+const AgingReportView: React.FC<AgingReportViewProps> = ({ receivables, balanceOf, customerNames, convert, baseCurrency }) => {
+  const [asOf, setAsOf] = useState(todayISO());
+  const [groupBy, setGroupBy] = useState<'customer' | 'receivable'>('customer');
+
+  const report = useMemo(() => buildAgingReport(receivables, balanceOf, asOf, convert), [receivables, balanceOf, asOf, convert]);
+
+  const handleExport = (format: ExportFormat) => {
+    const bucketColumns = AGING_BUCKETS.map(bucket => ({ header: bucket.label, type: 'amount' as const }));
+    const table: ExportTable = groupBy === 'customer'
+      ? {
+          title: 'Umur Piutang per Pelanggan',
+          subtitle: `Per ${formatDate(asOf)}`,
+          currency: baseCurrency,
+          summary: [{ label: 'Total Sisa Piutang', value: report.grandTotal }],
+          columns: [{ header: 'Pelanggan', type: 'text' }, ...bucketColumns, { header: 'Total', type: 'amount' }],
+          rows: report.byCustomer.map(entry => [
+            (entry.customerId && customerNames.get(entry.customerId)) || 'Tanpa Pelanggan',
+            ...AGING_BUCKETS.map(bucket => entry.buckets[bucket.key]),
+            entry.total,
+          ]),
+          footer: ['Total', ...AGING_BUCKETS.map(bucket => report.totals[bucket.key]), report.grandTotal],
+        }
+      : {
+          title: 'Umur Piutang per Piutang',
+          subtitle: `Per ${formatDate(asOf)}`,
+          currency: baseCurrency,
+          summary: [{ label: 'Total Sisa Piutang', value: report.grandTotal }],
+          columns: [
+            { header: 'Pelanggan', type: 'text' },
+            { header: 'Keterangan', type: 'text' },
+            { header: 'Jatuh Tempo', type: 'date' },
+            { header: 'Hari Terlambat', type: 'number' },
+            { header: 'Kelompok', type: 'text' },
+            { header: 'Mata Uang', type: 'text' },
+            { header: 'Sisa Piutang', type: 'amount', currencyColumn: 5 },
+            { header: `Sisa Piutang (${baseCurrency})`, type: 'amount' },
+          ],
+          rows: report.rows.map(row => [
+            (row.receivable.customer_id && customerNames.get(row.receivable.customer_id)) || '-',
+            row.receivable.description,
+            row.receivable.due_date,
+            Math.max(0, row.daysOverdue),
+            AGING_BUCKETS.find(b => b.key === row.bucket)?.label ?? '',
+            row.receivable.currency,
+            row.outstanding,
+            row.baseOutstanding,
+          ]),
+          footer: ['Total', null, null, null, null, null, null, report.grandTotal],
+        };
+    exportTable(table, format, `umur-piutang-${asOf}`);
+  };
+
+  return (
+    <section>
+      <div className="content-header">
+        <h2>Umur Piutang</h2>
+        <div className="report-controls">
+          <label htmlFor="aging-asOf">Per tanggal</label>
+          <input id="aging-asOf" type="date" value={asOf} onChange={(e) => setAsOf(e.target.value || todayISO())} />
+          <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as 'customer' | 'receivable')}>
+            <option value="customer">Per Pelanggan</option>
+            <option value="receivable">Per Piutang</option>
+          </select>
+          <ExportButtons onExport={handleExport} />
+        </div>
+      </div>
+
+      <div className="summary-container">
+        {AGING_BUCKETS.map(bucket => (
+          <div className="stat-card" key={bucket.key}>
+            <span className="stat-card-label">{bucket.label}</span>
+            <span className={`stat-card-value ${bucket.key === 'current' ? '' : 'warning'}`}>{formatCurrency(report.totals[bucket.key], baseCurrency)}</span>
+          </div>
+        ))}
+      </div>
+      <MissingRatesNote currencies={report.missingCurrencies} baseCurrency={baseCurrency} />
+
+      {report.rows.length === 0 ? (
+        <div className="empty-state"><p>Tidak ada piutang yang belum lunas per {formatDate(asOf)}.</p></div>
+      ) : groupBy === 'customer' ? (
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                <th>Pelanggan</th>
+                {AGING_BUCKETS.map(bucket => <th key={bucket.key}>{bucket.label}</th>)}
+                <th>Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.byCustomer.map(entry => (
+                <tr key={entry.customerId ?? 'none'}>
+                  <td>{(entry.customerId && customerNames.get(entry.customerId)) || 'Tanpa Pelanggan'}</td>
+                  {AGING_BUCKETS.map(bucket => <td key={bucket.key}>{formatCurrency(entry.buckets[bucket.key], baseCurrency)}</td>)}
+                  <td><strong>{formatCurrency(entry.total, baseCurrency)}</strong></td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td>Total</td>
+                {AGING_BUCKETS.map(bucket => <td key={bucket.key}>{formatCurrency(report.totals[bucket.key], baseCurrency)}</td>)}
+                <td>{formatCurrency(report.grandTotal, baseCurrency)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      ) : (
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                <th>Pelanggan</th>
+                <th>Keterangan</th>
+                <th>Jatuh Tempo</th>
+                <th>Hari Terlambat</th>
+                <th>Kelompok</th>
+                <th>Sisa Piutang</th>
+                <th>Sisa ({baseCurrency})</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.rows.map(row => (
+                <tr key={row.receivable.id}>
+                  <td>{(row.receivable.customer_id && customerNames.get(row.receivable.customer_id)) || '-'}</td>
+                  <td>{row.receivable.description}</td>
+                  <td>{formatDate(row.receivable.due_date)}</td>
+                  <td>{Math.max(0, row.daysOverdue)}</td>
+                  <td>{AGING_BUCKETS.find(b => b.key === row.bucket)?.label}</td>
+                  <td>{formatCurrency(row.outstanding, row.receivable.currency)}</td>
+                  <td>{row.baseOutstanding === null ? '-' : formatCurrency(row.baseOutstanding, baseCurrency)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td colSpan={6}>Total</td>
+                <td>{formatCurrency(report.grandTotal, baseCurrency)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
+
+
+// --- ANALYTICS COMPONENT ---
+interface BarChartProps {
+  labels: string[];
+  // One array of values per series, each as long as `labels`.
+  series: { label: string; values: number[] }[];
+  currency: string;
+}
+
+// Plain CSS bars: the charts only need relative heights and a tooltip with the amount.
+const BarChart: React.FC<BarChartProps> = ({ labels, series, currency }) => {
+  const max = Math.max(0, ...series.flatMap(s => s.values));
+  return (
+    <>
+      <div className="bar-chart">
+        {labels.map((label, i) => (
+          <div className="bar-group" key={label}>
+            <div className="bar-stack">
+              {series.map((s, index) => (
+                <div
+                  key={s.label}
+                  className={`bar series-${index}`}
+                  style={{ height: `${max > 0 ? (Math.max(0, s.values[i]) / max) * 100 : 0}%` }}
+                  title={`${s.label} ${label}: ${formatCurrency(s.values[i], currency)}`}
+                />
+              ))}
+            </div>
+            <span className="bar-label">{label}</span>
+          </div>
+        ))}
+      </div>
+      {series.length > 1 && (
+        <div className="chart-legend">
+          {series.map((s, index) => <span key={s.label}><span className={`bar series-${index}`} />{s.label}</span>)}
+        </div>
+      )}
+    </>
+  );
+};
+
+interface ComparedStatProps {
+  label: string;
+  value: string;
+  current: number | null;
+  previous: number | null;
+  previousText: string;
+  // For DSO a fall is the good direction.
+  lowerIsBetter?: boolean;
+}
+
+const ComparedStat: React.FC<ComparedStatProps> = ({ label, value, current, previous, previousText, lowerIsBetter }) => {
+  const change = percentChange(current, previous);
+  const improved = change !== null && (lowerIsBetter ? change < 0 : change > 0);
+  return (
+    <div className="stat-card">
+      <span className="stat-card-label">{label}</span>
+      <span className="stat-card-value">{value}</span>
+      <span className={`stat-card-change ${change === null || change === 0 ? '' : improved ? 'up' : 'down'}`}>
+        {change === null ? 'Tidak ada pembanding' : `${change > 0 ? '+' : ''}${formatPercent(change)}`} · periode lalu {previousText}
+      </span>
+    </div>
+  );
+};
+
+interface AnalyticsViewProps {
+  receivables: Receivable[];
+  payments: Payment[];
+  balanceOf: BalanceOf;
+  revenues: Revenue[];
+  customers: Customer[];
+  categories: Category[];
+  convert: Converter;
+  baseCurrency: string;
+}
+
+const AnalyticsView: React.FC<AnalyticsViewProps> = ({ receivables, payments, balanceOf, revenues, customers, categories, convert, baseCurrency }) => {
+  const [period, setPeriod] = useState<AnalyticsPeriod>('halfYear');
+  const [breakdownSource, setBreakdownSource] = useState<BreakdownSource>('revenues');
+
+  const report = useMemo(() =>
+    buildAnalytics(convert, receivables, payments, balanceOf, revenues, customers, period, todayISO()),
+    [convert, receivables, payments, balanceOf, revenues, customers, period]
+  );
+  const { current, previous } = report;
+  const money = (amount: number) => formatCurrency(amount, baseCurrency);
+  const days = (value: number | null) => value === null ? '-' : `${Math.round(value)} hari`;
+  const rate = (value: number | null) => value === null ? '-' : formatPercent(value);
+  const monthLabels = report.monthly.map(point => formatMonth(point.month));
+  const breakdown = useMemo(() =>
+    categoryBreakdown(convert, breakdownSource, receivables, revenues, categories, report.range),
+    [convert, breakdownSource, receivables, revenues, categories, report.range]
+  );
+  const breakdownLabel = BREAKDOWN_SOURCES.find(s => s.key === breakdownSource)!.label;
+
+  const handleExportBreakdown = (format: ExportFormat) => {
+    exportTable({
+      title: `${breakdownLabel} per Kategori`,
+      subtitle: `${formatDate(report.range.from)} – ${formatDate(report.range.to)}`,
+      currency: baseCurrency,
+      summary: [{ label: `Total ${breakdownLabel}`, value: breakdown.total }],
+      columns: [
+        { header: 'Kategori', type: 'text' },
+        { header: 'Kode Akun', type: 'text' },
+        ...breakdown.months.map(month => ({ header: formatMonth(month), type: 'amount' as const })),
+        { header: 'Total', type: 'amount' },
+      ],
+      rows: breakdown.rows.map(row => [row.name, row.accountCode, ...row.months, row.total]),
+      footer: ['Total', null, ...breakdown.monthTotals, breakdown.total],
+    }, format, 'kategori');
+  };
+
+  return (
+    <section>
+      <div className="content-header">
+        <h2>Analitik</h2>
+        <div className="report-controls">
+          <select value={period} onChange={(e) => setPeriod(e.target.value as AnalyticsPeriod)} aria-label="Periode">
+            {ANALYTICS_PERIODS.map(p => <option key={p.key} value={p.key}>{p.label}</option>)}
+          </select>
+        </div>
+      </div>
+      <p className="modal-subtitle">
+        {formatDate(report.range.from)} – {formatDate(report.range.to)}, dibandingkan dengan {formatDate(report.previousRange.from)} – {formatDate(report.previousRange.to)}.
+        Semua nilai dalam {baseCurrency}.
+      </p>
+
+      <div className="summary-container">
+        <ComparedStat label="Pendapatan" value={money(current.revenue)} current={current.revenue} previous={previous.revenue} previousText={money(previous.revenue)} />
+        <ComparedStat label="Piutang Terbit" value={money(current.issued)} current={current.issued} previous={previous.issued} previousText={money(previous.issued)} />
+        <ComparedStat label="Tertagih" value={money(current.collected)} current={current.collected} previous={previous.collected} previousText={money(previous.collected)} />
+      </div>
+      <div className="summary-container">
+        <ComparedStat
+          label="Tingkat Penagihan" value={rate(current.collectionRate)}
+          current={current.collectionRate} previous={previous.collectionRate} previousText={rate(previous.collectionRate)}
+        />
+        <ComparedStat
+          label="DSO (Hari Piutang)" value={days(current.dso)}
+          current={current.dso} previous={previous.dso} previousText={days(previous.dso)} lowerIsBetter
+        />
+        <ComparedStat
+          label="Saldo Piutang Akhir Periode" value={money(current.closingBalance)}
+          current={current.closingBalance} previous={previous.closingBalance} previousText={money(previous.closingBalance)} lowerIsBetter
+        />
+      </div>
+
+      <div className="analytics-grid">
+        <div className="chart-card">
+          <h3>Tren Pendapatan per Bulan</h3>
+          <BarChart labels={monthLabels} series={[{ label: 'Pendapatan', values: report.monthly.map(p => p.revenue) }]} currency={baseCurrency} />
+        </div>
+        <div className="chart-card">
+          <h3>Piutang Terbit vs Tertagih</h3>
+          <BarChart
+            labels={monthLabels}
+            series={[
+              { label: 'Terbit', values: report.monthly.map(p => p.issued) },
+              { label: 'Tertagih', values: report.monthly.map(p => p.collected) },
+            ]}
+            currency={baseCurrency}
+          />
+        </div>
+        <div className="chart-card">
+          <h3>Proyeksi Kas Masuk</h3>
+          <BarChart
+            labels={report.projection.map(p => p.month === 'overdue' ? 'Terlambat' : formatMonth(p.month))}
+            series={[{ label: 'Perkiraan', values: report.projection.map(p => p.expected) }]}
+            currency={baseCurrency}
+          />
+          <p className="modal-subtitle">Berdasarkan jatuh tempo sisa piutang, dengan asumsi dibayar tepat waktu.</p>
+        </div>
+        <div className="chart-card">
+          <h3>Debitur Terbesar</h3>
+          {report.topDebtors.length === 0 ? (
+            <div className="empty-state"><p>Tidak ada piutang pelanggan yang belum lunas.</p></div>
+          ) : (
+            <table>
+              <thead>
+                <tr><th>Pelanggan</th><th>Sisa Piutang</th><th>Terlambat</th></tr>
+              </thead>
+              <tbody>
+                {report.topDebtors.map(debtor => (
+                  <tr key={debtor.customerId}>
+                    <td>{debtor.name}</td>
+                    <td>{money(debtor.outstanding)}</td>
+                    <td>{debtor.overdue > 0 ? money(debtor.overdue) : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      <div className="content-header">
+        <h3 className="section-title">{breakdownLabel} per Kategori</h3>
+        <div className="report-controls">
+          <select value={breakdownSource} onChange={(e) => setBreakdownSource(e.target.value as BreakdownSource)} aria-label="Sumber">
+            {BREAKDOWN_SOURCES.map(s => <option key={s.key} value={s.key}>{s.label}</option>)}
+          </select>
+          <ExportButtons onExport={handleExportBreakdown} />
+        </div>
+      </div>
+      <MissingRatesNote currencies={breakdown.missingCurrencies} baseCurrency={baseCurrency} />
+      <div className="table-wrapper">
+        <table>
+          <thead>
+            <tr>
+              <th>Kategori</th>
+              {breakdown.months.map(month => <th key={month}>{formatMonth(month)}</th>)}
+              <th>Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.rows.map(row => (
+              <tr key={row.categoryId ?? 'none'}>
+                <td>{row.name}{row.accountCode ? ` (${row.accountCode})` : ''}</td>
+                {row.months.map((amount, index) => <td key={breakdown.months[index]}>{amount ? money(amount) : '-'}</td>)}
+                <td><strong>{money(row.total)}</strong></td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td><strong>Total</strong></td>
+              {breakdown.monthTotals.map((amount, index) => <td key={breakdown.months[index]}><strong>{money(amount)}</strong></td>)}
+              <td><strong>{money(breakdown.total)}</strong></td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+
+// --- PAYABLE COMPONENTS ---
+type PayableStatus = 'all' | 'unpaid' | 'overdue' | 'paid';
+
+interface PayablesViewProps {
+  payables: Payable[];
+  paidByPayable: Map<string, number>;
+  convert: Converter;
+  baseCurrency: string;
+  canEdit: boolean;
+  onAdd: () => void;
+  onEdit: (payable: Payable) => void;
+  onDelete: (payable: Payable) => void;
+  onPay: (payable: Payable) => void;
+  onShowPayments: (payableId: string) => void;
+  onShowHistory: (payable: Payable) => void;
+}
+
+const PayablesView: React.FC<PayablesViewProps> = ({
+  payables, paidByPayable, convert, baseCurrency, canEdit, onAdd, onEdit, onDelete, onPay, onShowPayments, onShowHistory,
+}) => {
+  const [status, setStatus] = useState<PayableStatus>('all');
+  const [page, setPage] = useState(1);
+  const today = todayISO();
+
+  const rows = useMemo(() => payables
+    .map(p => {
+      const remaining = p.total_amount - (paidByPayable.get(p.id) ?? 0);
+      const rowStatus: PayableStatus = remaining <= 0 ? 'paid' : p.due_date < today ? 'overdue' : 'unpaid';
+      return { payable: p, remaining, status: rowStatus };
+    })
+    .filter(row => status === 'all' || row.status === status || (status === 'unpaid' && row.status === 'overdue'))
+    .sort((a, b) => a.payable.due_date.localeCompare(b.payable.due_date) || a.payable.id.localeCompare(b.payable.id)),
+    [payables, paidByPayable, status, today]
+  );
+  useEffect(() => setPage(1), [status]);
+  const visibleRows = useMemo(() => pageSlice(rows, page), [rows, page]);
+
+  const total = rows.reduce((sum, { payable }) => sum + (carryingAmount(convert, payable, payable.total_amount) ?? 0), 0);
+  const remaining = rows.reduce((sum, row) => sum + Math.max(0, carryingAmount(convert, row.payable, row.remaining) ?? 0), 0);
+  const missing = missingRates(convert, rows.map(({ payable }) => ({ currency: payable.currency, date: bookingDate(payable) })));
+
+  const handleExport = (format: ExportFormat) => {
+    exportTable({
+      title: 'Daftar Hutang',
+      currency: baseCurrency,
+      summary: [
+        { label: 'Total Hutang', value: total },
+        { label: 'Sisa Hutang', value: remaining },
+      ],
+      columns: [
+        { header: 'No', type: 'number' },
+        { header: 'Pemasok', type: 'text' },
+        { header: 'Keterangan', type: 'text' },
+        { header: 'Tanggal Transaksi', type: 'date' },
+        { header: 'Jatuh Tempo', type: 'date' },
+        { header: 'Mata Uang', type: 'text' },
+        { header: 'Total Hutang', type: 'amount', currencyColumn: 5 },
+        { header: 'Terbayar', type: 'amount', currencyColumn: 5 },
+        { header: 'Sisa Hutang', type: 'amount', currencyColumn: 5 },
+        { header: 'Status', type: 'text' },
+      ],
+      rows: rows.map((row, index) => [
+        index + 1,
+        row.payable.supplier,
+        row.payable.description,
+        row.payable.issue_date,
+        row.payable.due_date,
+        row.payable.currency,
+        row.payable.total_amount,
+        row.payable.total_amount - row.remaining,
+        Math.max(0, row.remaining),
+        row.status === 'paid' ? 'Lunas' : 'Belum Lunas',
+      ]),
+    }, format, 'hutang');
+  };
+
+  return (
+    <section>
+      <div className="content-header">
+        <h2>Daftar Hutang</h2>
+        <div className="header-actions">
+          <ExportButtons onExport={handleExport} />
+          {canEdit && <button className="btn btn-primary" onClick={onAdd}>+ Tambah Hutang</button>}
+        </div>
+      </div>
+
+      <div className="filter-bar">
+        <select value={status} onChange={(e) => setStatus(e.target.value as PayableStatus)} aria-label="Status">
+          <option value="all">Semua Status</option>
+          <option value="unpaid">Belum Lunas</option>
+          <option value="overdue">Terlambat</option>
+          <option value="paid">Lunas</option>
+        </select>
+      </div>
+
+      <div className="summary-container">
+        <div className="stat-card">
+          <span className="stat-card-label">Total Hutang</span>
+          <span className="stat-card-value">{formatCurrency(total, baseCurrency)}</span>
+        </div>
+        <div className="stat-card">
+          <span className="stat-card-label">Sisa Hutang</span>
+          <span className="stat-card-value warning">{formatCurrency(remaining, baseCurrency)}</span>
+        </div>
+      </div>
+      <MissingRatesNote currencies={missing} baseCurrency={baseCurrency} />
+
+      {rows.length > 0 ? (
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                <th>No</th>
+                <th>Pemasok</th>
+                <th>Keterangan</th>
+                <th>Jatuh Tempo</th>
+                <th>Total Hutang</th>
+                <th>Sisa Hutang</th>
+                <th>Status</th>
+                <th>Aksi</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map((row, index) => {
+                const p = row.payable;
+                return (
+                  <tr key={p.id}>
+                    <td>{(page - 1) * TABLE_PAGE_SIZE + index + 1}</td>
+                    <td>{p.supplier || '-'}</td>
+                    <td>{p.description}</td>
+                    <td>{formatDate(p.due_date)}</td>
+                    <td>{formatCurrency(p.total_amount, p.currency)}</td>
+                    <td>{formatCurrency(Math.max(0, row.remaining), p.currency)}</td>
+                    <td>
+                      <span className={`status-badge ${row.status === 'paid' ? 'status-paid' : row.status === 'overdue' ? 'status-overdue' : 'status-unpaid'}`}>
+                        {row.status === 'paid' ? 'Lunas' : row.status === 'overdue' ? 'Terlambat' : 'Belum Lunas'}
+                      </span>
+                      {row.remaining < 0 && (
+                        <span className="overpaid-note">Lebih bayar {formatCurrency(-row.remaining, p.currency)}</span>
+                      )}
+                    </td>
+                    <td className="actions">
+                      {row.status !== 'paid' && canEdit && (
+                        <button className="btn-pay" title="Catat Pembayaran" onClick={() => onPay(p)}>BAYAR</button>
+                      )}
+                      <button className="btn-icon" title="Riwayat Perubahan" onClick={() => onShowHistory(p)}>
+                        <svg className="icon-audit" viewBox="0 0 24 24"><path d="M3 13h2v-2H3v2zm0 4h2v-2H3v2zm0-8h2V7H3v2zm4 4h14v-2H7v2zm0 4h14v-2H7v2zM7 7v2h14V7H7z"/></svg>
+                      </button>
+                      <button className="btn-icon" title="Riwayat Pembayaran" onClick={() => onShowPayments(p.id)}>
+                        <svg className="icon-history" viewBox="0 0 24 24"><path d="M13 3a9 9 0 0 0-9 9H1l3.89 3.89.07.14L9 12H6c0-3.87 3.13-7 7-7s7 3.13 7 7-3.13 7-7 7c-1.93 0-3.68-.79-4.94-2.06l-1.42 1.42A8.954 8.954 0 0 0 13 21a9 9 0 0 0 0-18zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12z"/></svg>
+                      </button>
+                      {canEdit && (
+                        <>
+                          <button className="btn-icon" title="Edit" onClick={() => onEdit(p)}>
+                            <svg className="icon-edit" viewBox="0 0 24 24"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/></svg>
+                          </button>
+                          <button className="btn-icon" title="Hapus" onClick={() => onDelete(p)}>
+                            <svg className="icon-delete" viewBox="0 0 24 24"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/></svg>
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <Pagination page={page} totalRows={rows.length} onChange={setPage} />
+        </div>
+      ) : (
+        <div className="empty-state">
+          <p>{payables.length > 0 ? 'Tidak ada hutang yang cocok dengan filter.' : 'Belum ada catatan hutang.'}</p>
+        </div>
+      )}
+    </section>
+  );
+};
+
+interface ExpensesViewProps {
+  expenses: Expense[];
+  payableDescriptions: Map<string, string>;
+  convert: Converter;
+  baseCurrency: string;
+  canEdit: boolean;
+  onAdd: () => void;
+  onEdit: (expense: Expense) => void;
+  onDelete: (expense: Expense) => void;
+  onShowPayments: (payableId: string) => void;
+  onShowHistory: (expense: Expense) => void;
+}
+
+const ExpensesView: React.FC<ExpensesViewProps> = ({
+  expenses, payableDescriptions, convert, baseCurrency, canEdit, onAdd, onEdit, onDelete, onShowPayments, onShowHistory,
+}) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(1);
+
+  const rows = useMemo(() => expenses
+    .filter(e => (!from || e.date >= from) && (!to || e.date <= to))
+    .sort((a, b) => b.date.localeCompare(a.date) || a.id.localeCompare(b.id)),
+    [expenses, from, to]
+  );
+  useEffect(() => setPage(1), [from, to]);
+  const visibleRows = useMemo(() => pageSlice(rows, page), [rows, page]);
+
+  const total = rows.reduce((sum, e) => sum + (convert(e.amount, e.currency, e.date) ?? 0), 0);
+  const missing = missingRates(convert, rows.map(e => ({ currency: e.currency, date: e.date })));
+
+  const handleExport = (format: ExportFormat) => {
+    exportTable({
+      title: 'Daftar Biaya',
+      currency: baseCurrency,
+      summary: [{ label: 'Total Biaya', value: total }],
+      columns: [
+        { header: 'No', type: 'number' },
+        { header: 'Keterangan', type: 'text' },
+        { header: 'Tanggal', type: 'date' },
+        { header: 'Mata Uang', type: 'text' },
+        { header: 'Jumlah', type: 'amount', currencyColumn: 3 },
+        { header: 'Sumber', type: 'text' },
+      ],
+      rows: rows.map((e, index) => [
+        index + 1,
+        e.description,
+        e.date,
+        e.currency,
+        e.amount,
+        e.payable_id ? 'Pembayaran Hutang' : e.adjustment_reason ? 'Penyesuaian' : 'Manual',
+      ]),
+    }, format, 'biaya');
+  };
+
+  return (
+    <section>
+      <div className="content-header">
+        <h2>Daftar Biaya</h2>
+        <div className="header-actions">
+          <ExportButtons onExport={handleExport} />
+          {canEdit && <button className="btn btn-primary" onClick={onAdd}>+ Tambah Biaya</button>}
+        </div>
+      </div>
+
+      <div className="filter-bar">
+        <label>
+          Tanggal
+          <input type="date" value={from} onChange={e => setFrom(e.target.value)} aria-label="Tanggal dari" />
+          <span>s.d.</span>
+          <input type="date" value={to} onChange={e => setTo(e.target.value)} aria-label="Tanggal sampai" />
+        </label>
+        {(from || to) && (
+          <button className="link-button" onClick={() => { setFrom(''); setTo(''); }}>Reset Filter</button>
+        )}
+      </div>
+
+      <div className="summary-container">
+        <div className="stat-card">
+          <span className="stat-card-label">Total Biaya</span>
+          <span className="stat-card-value warning">{formatCurrency(total, baseCurrency)}</span>
+        </div>
+      </div>
+      <MissingRatesNote currencies={missing} baseCurrency={baseCurrency} />
+
+      {rows.length > 0 ? (
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                <th>No</th>
+                <th>Keterangan</th>
+                <th>Tanggal</th>
+                <th>Jumlah</th>
+                <th>Sumber</th>
+                <th>Aksi</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map((e, index) => (
+                <tr key={e.id}>
+                  <td>{(page - 1) * TABLE_PAGE_SIZE + index + 1}</td>
+                  <td>{e.description}</td>
+                  <td>{formatDate(e.date)}</td>
+                  <td>{formatCurrency(e.amount, e.currency)}</td>
+                  <td>
+                    {e.payable_id ? (
+                      <span className="source-badge" title={payableDescriptions.get(e.payable_id)}>Pembayaran Hutang</span>
+                    ) : e.adjustment_reason ? (
+                      <span className="source-badge source-adjustment" title={e.adjustment_reason}>Penyesuaian</span>
+                    ) : (
+                      <span className="source-badge source-manual">Manual</span>
+                    )}
+                  </td>
+                  <td className="actions">
+                    <button className="btn-icon" title="Riwayat Perubahan" onClick={() => onShowHistory(e)}>
+                      <svg className="icon-audit" viewBox="0 0 24 24"><path d="M3 13h2v-2H3v2zm0 4h2v-2H3v2zm0-8h2V7H3v2zm4 4h14v-2H7v2zm0 4h14v-2H7v2zM7 7v2h14V7H7z"/></svg>
+                    </button>
+                    {e.payable_id ? (
+                      // Posted expenses follow the payment they came from.
+                      <button className="btn-icon" title="Lihat Pembayaran" onClick={() => onShowPayments(e.payable_id!)}>
+                        <svg className="icon-history" viewBox="0 0 24 24"><path d="M13 3a9 9 0 0 0-9 9H1l3.89 3.89.07.14L9 12H6c0-3.87 3.13-7 7-7s7 3.13 7 7-3.13 7-7 7c-1.93 0-3.68-.79-4.94-2.06l-1.42 1.42A8.954 8.954 0 0 0 13 21a9 9 0 0 0 0-18zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12z"/></svg>
+                      </button>
+                    ) : canEdit && (
+                      <>
+                        <button className="btn-icon" title="Edit" onClick={() => onEdit(e)}>
+                          <svg className="icon-edit" viewBox="0 0 24 24"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/></svg>
+                        </button>
+                        <button className="btn-icon" title="Hapus" onClick={() => onDelete(e)}>
+                          <svg className="icon-delete" viewBox="0 0 24 24"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/></svg>
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <Pagination page={page} totalRows={rows.length} onChange={setPage} />
+        </div>
+      ) : (
+        <div className="empty-state">
+          <p>{expenses.length > 0 ? 'Tidak ada biaya pada rentang tanggal ini.' : 'Belum ada catatan biaya.'}</p>
+        </div>
+      )}
+    </section>
+  );
+};
+
+
+// --- PROFIT AND LOSS COMPONENT ---
+interface ProfitLossViewProps {
+  receivables: Receivable[];
+  payments: Payment[];
+  balanceOf: BalanceOf;
+  revenues: Revenue[];
+  payables: Payable[];
+  payablePayments: PayablePayment[];
+  expenses: Expense[];
+  convert: Converter;
+  baseCurrency: string;
+}
+
+const ProfitLossView: React.FC<ProfitLossViewProps> = ({
+  receivables, payments, balanceOf, revenues, payables, payablePayments, expenses, convert, baseCurrency,
+}) => {
+  const [period, setPeriod] = useState<AnalyticsPeriod>('halfYear');
+  const range = useMemo(() => periodRange(period, todayISO()), [period]);
+  const report = useMemo(() =>
+    buildProfitLoss(convert, receivables, payments, balanceOf, revenues, payables, payablePayments, expenses, range, todayISO()),
+    [convert, receivables, payments, balanceOf, revenues, payables, payablePayments, expenses, range]
+  );
+  const money = (amount: number) => formatCurrency(amount, baseCurrency);
+  const monthLabels = report.months.map(point => formatMonth(point.month));
+  const netPosition = report.receivablesOutstanding - report.payablesOutstanding;
+
+  const handleExport = (format: ExportFormat) => {
+    exportTable({
+      title: 'Laba Rugi dan Arus Kas',
+      subtitle: `${formatDate(range.from)} – ${formatDate(range.to)}`,
+      currency: baseCurrency,
+      summary: [
+        { label: 'Laba Bersih', value: report.profit },
+        { label: 'Arus Kas Bersih', value: report.netCash },
+        { label: 'Sisa Piutang', value: report.receivablesOutstanding },
+        { label: 'Sisa Hutang', value: report.payablesOutstanding },
+      ],
+      columns: [
+        { header: 'Bulan', type: 'text' },
+        { header: 'Pendapatan', type: 'amount' },
+        { header: 'Biaya', type: 'amount' },
+        { header: 'Laba/Rugi', type: 'amount' },
+        { header: 'Kas Masuk', type: 'amount' },
+        { header: 'Kas Keluar', type: 'amount' },
+        { header: 'Arus Kas Bersih', type: 'amount' },
+        { header: 'Kumulatif', type: 'amount' },
+      ],
+      rows: report.months.map(p => [formatMonth(p.month), p.revenue, p.expenses, p.profit, p.cashIn, p.cashOut, p.netCash, p.cumulativeCash]),
+      footer: ['Total', report.revenue, report.expenses, report.profit, report.cashIn, report.cashOut, report.netCash, null],
+    }, format, 'laba-rugi');
+  };
+
+  return (
+    <section>
+      <div className="content-header">
+        <h2>Laba Rugi</h2>
+        <div className="report-controls">
+          <select value={period} onChange={(e) => setPeriod(e.target.value as AnalyticsPeriod)} aria-label="Periode">
+            {ANALYTICS_PERIODS.map(p => <option key={p.key} value={p.key}>{p.label}</option>)}
+          </select>
+          <ExportButtons onExport={handleExport} />
+        </div>
+      </div>
+      <p className="modal-subtitle">
+        {formatDate(range.from)} – {formatDate(range.to)}. Semua nilai dalam {baseCurrency}.
+        Kas dihitung dari pembayaran piutang dan hutang serta pendapatan dan biaya yang dicatat langsung.
+      </p>
+      <MissingRatesNote currencies={report.missingCurrencies} baseCurrency={baseCurrency} />
+
+      <div className="summary-container">
+        <div className="stat-card">
+          <span className="stat-card-label">Pendapatan</span>
+          <span className="stat-card-value success">{money(report.revenue)}</span>
+        </div>
+        <div className="stat-card">
+          <span className="stat-card-label">Biaya</span>
+          <span className="stat-card-value warning">{money(report.expenses)}</span>
+        </div>
+        <div className="stat-card">
+          <span className="stat-card-label">{report.profit < 0 ? 'Rugi Bersih' : 'Laba Bersih'}</span>
+          <span className={`stat-card-value ${report.profit < 0 ? 'warning' : 'success'}`}>{money(report.profit)}</span>
+        </div>
+      </div>
+      <div className="summary-container">
+        <div className="stat-card">
+          <span className="stat-card-label">Arus Kas Bersih</span>
+          <span className={`stat-card-value ${report.netCash < 0 ? 'warning' : 'success'}`}>{money(report.netCash)}</span>
+        </div>
+        <div className="stat-card">
+          <span className="stat-card-label">Sisa Piutang / Sisa Hutang</span>
+          <span className="stat-card-value">{money(report.receivablesOutstanding)} / {money(report.payablesOutstanding)}</span>
+        </div>
+        <div className="stat-card">
+          <span className="stat-card-label">Posisi Bersih (Piutang − Hutang)</span>
+          <span className={`stat-card-value ${netPosition < 0 ? 'warning' : 'success'}`}>{money(netPosition)}</span>
+        </div>
+      </div>
+
+      <div className="analytics-grid">
+        <div className="chart-card">
+          <h3>Pendapatan vs Biaya</h3>
+          <BarChart
+            labels={monthLabels}
+            series={[
+              { label: 'Pendapatan', values: report.months.map(p => p.revenue) },
+              { label: 'Biaya', values: report.months.map(p => p.expenses) },
+            ]}
+            currency={baseCurrency}
+          />
+        </div>
+        <div className="chart-card">
+          <h3>Kas Masuk vs Kas Keluar</h3>
+          <BarChart
+            labels={monthLabels}
+            series={[
+              { label: 'Kas Masuk', values: report.months.map(p => p.cashIn) },
+              { label: 'Kas Keluar', values: report.months.map(p => p.cashOut) },
+            ]}
+            currency={baseCurrency}
+          />
+        </div>
+      </div>
+
+      <div className="table-wrapper">
+        <table>
+          <thead>
+            <tr>
+              <th>Bulan</th>
+              <th>Pendapatan</th>
+              <th>Biaya</th>
+              <th>Laba/Rugi</th>
+              <th>Kas Masuk</th>
+              <th>Kas Keluar</th>
+              <th>Arus Kas Bersih</th>
+              <th>Kumulatif</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.months.map(p => (
+              <tr key={p.month}>
+                <td>{formatMonth(p.month)}</td>
+                <td>{money(p.revenue)}</td>
+                <td>{money(p.expenses)}</td>
+                <td className={p.profit < 0 ? 'fee-owed' : ''}>{money(p.profit)}</td>
+                <td>{money(p.cashIn)}</td>
+                <td>{money(p.cashOut)}</td>
+                <td className={p.netCash < 0 ? 'fee-owed' : ''}>{money(p.netCash)}</td>
+                <td>{money(p.cumulativeCash)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td><strong>Total</strong></td>
+              <td><strong>{money(report.revenue)}</strong></td>
+              <td><strong>{money(report.expenses)}</strong></td>
+              <td><strong>{money(report.profit)}</strong></td>
+              <td><strong>{money(report.cashIn)}</strong></td>
+              <td><strong>{money(report.cashOut)}</strong></td>
+              <td><strong>{money(report.netCash)}</strong></td>
+              <td />
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+
+// --- PERIOD COMPONENTS ---
+// The month or year before the one `today` falls in, as the close form expects it.
+const previousPeriod = (kind: PeriodKind, today: string) => kind === 'year'
+  ? String(Number(today.slice(0, 4)) - 1)
+  : addDays(`${today.slice(0, 7)}-01`, -1).slice(0, 7);
+
+const PERIOD_VALUE_PATTERNS: Record<PeriodKind, RegExp> = { month: /^\d{4}-\d{2}$/, year: /^\d{4}$/ };
+
+interface PeriodsViewProps {
+  closes: PeriodClose[];
+  lockedThrough: string | null;
+  ledger: Ledger;
+  balanceOf: BalanceOf;
+  convert: Converter;
+  baseCurrency: string;
+  canClose: boolean;
+  canReopen: boolean;
+  canAdjust: boolean;
+  onClosePeriod: (kind: PeriodKind, range: PeriodRange, snapshot: PeriodSnapshot) => Promise<boolean>;
+  onReopen: (close: PeriodClose) => void;
+  onAddAdjustment: (table: AdjustmentTable) => void;
+  onShowHistory: (entry: { id: string; description: string }) => void;
+}
+
+const PeriodsView: React.FC<PeriodsViewProps> = ({
+  closes, lockedThrough, ledger, balanceOf, convert, baseCurrency, canClose, canReopen, canAdjust, onClosePeriod, onReopen, onAddAdjustment, onShowHistory,
+}) => {
+  const today = todayISO();
+  const [kind, setKind] = useState<PeriodKind>('month');
+  const [value, setValue] = useState(() => previousPeriod('month', today));
+  const [isClosing, setClosing] = useState(false);
+
+  const range = PERIOD_VALUE_PATTERNS[kind].test(value) ? closingRange(kind, value) : null;
+  const problem = range ? closingProblem(range, lockedThrough, today) : 'Pilih periode yang akan ditutup.';
+  const preview = useMemo(() => range && buildPeriodSnapshot(convert, balanceOf, baseCurrency, ledger, range),
+    [convert, balanceOf, baseCurrency, ledger, range?.from, range?.to]);
+  const reopenable = reopenableClose(closes);
+
+  const entryNames = useMemo(() => new Map<string, string>(
+    [...ledger.revenues, ...ledger.expenses].map(entry => [entry.id, `${entry.description} (${formatDate(entry.date)})`]),
+  ), [ledger.revenues, ledger.expenses]);
+  const adjustments = useMemo(() => [
+    ...ledger.revenues.filter(r => r.adjustment_reason).map(entry => ({ entry, label: 'Pendapatan' })),
+    ...ledger.expenses.filter(e => e.adjustment_reason).map(entry => ({ entry, label: 'Biaya' })),
+  ].sort((a, b) => b.entry.date.localeCompare(a.entry.date) || a.entry.id.localeCompare(b.entry.id)), [ledger.revenues, ledger.expenses]);
+
+  const handleKindChange = (next: PeriodKind) => {
+    setKind(next);
+    setValue(previousPeriod(next, today));
+  };
+
+  const handleClose = async () => {
+    if (!range || !preview) return;
+    setClosing(true);
+    await onClosePeriod(kind, range, preview);
+    setClosing(false);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    exportTable({
+      title: 'Riwayat Tutup Buku',
+      subtitle: lockedThrough ? `Buku ditutup sampai ${formatDate(lockedThrough)}` : 'Belum ada periode yang ditutup',
+      currency: baseCurrency,
+      summary: [],
+      columns: [
+        { header: 'Periode', type: 'text' },
+        { header: 'Awal', type: 'date' },
+        { header: 'Akhir', type: 'date' },
+        { header: 'Mata Uang', type: 'text' },
+        { header: 'Pendapatan', type: 'amount', currencyColumn: 3 },
+        { header: 'Biaya', type: 'amount', currencyColumn: 3 },
+        { header: 'Laba/Rugi', type: 'amount', currencyColumn: 3 },
+        { header: 'Kas Masuk', type: 'amount', currencyColumn: 3 },
+        { header: 'Kas Keluar', type: 'amount', currencyColumn: 3 },
+        { header: 'Sisa Piutang', type: 'amount', currencyColumn: 3 },
+        { header: 'Sisa Hutang', type: 'amount', currencyColumn: 3 },
+        { header: 'Ditutup Oleh', type: 'text' },
+        { header: 'Status', type: 'text' },
+      ],
+      rows: closes.map(close => [
+        describePeriod(close),
+        close.period_start,
+        close.period_end,
+        close.snapshot.base_currency,
+        close.snapshot.revenue,
+        close.snapshot.expenses,
+        close.snapshot.profit,
+        close.snapshot.cash_in,
+        close.snapshot.cash_out,
+        close.snapshot.receivables_outstanding,
+        close.snapshot.payables_outstanding,
+        close.closed_by_email,
+        isOpenClose(close) ? 'Ditutup' : `Dibuka kembali: ${close.reopen_reason ?? '-'}`,
+      ]),
+    }, format, 'tutup-buku');
+  };
+
+  return (
+    <section>
+      <div className="content-header">
+        <h2>Tutup Buku</h2>
+        <div className="header-actions">
+          <ExportButtons onExport={handleExport} />
+          {canAdjust && (
+            <>
+              <button className="btn btn-secondary" onClick={() => onAddAdjustment('revenues')}>+ Penyesuaian Pendapatan</button>
+              <button className="btn btn-secondary" onClick={() => onAddAdjustment('expenses')}>+ Penyesuaian Biaya</button>
+            </>
+          )}
+        </div>
+      </div>
+      <p className="modal-subtitle">
+        {lockedThrough ? (
+          <>
+            Buku ditutup sampai {formatDate(lockedThrough)}. Piutang, pembayaran, pendapatan, hutang dan biaya bertanggal sampai hari itu
+            tidak dapat ditambah, diubah atau dihapus; koreksinya dicatat sebagai jurnal penyesuaian di periode yang masih terbuka.
+          </>
+        ) : 'Belum ada periode yang ditutup.'}
+      </p>
+
+      {canClose && (
+        <>
+          <h3 className="section-title">Tutup Periode</h3>
+          <div className="report-controls">
+            <select value={kind} onChange={(e) => handleKindChange(e.target.value as PeriodKind)} aria-label="Jenis periode">
+              {(Object.keys(PERIOD_KIND_LABELS) as PeriodKind[]).map(k => <option key={k} value={k}>{PERIOD_KIND_LABELS[k]}</option>)}
+            </select>
+            {kind === 'month' ? (
+              <input type="month" value={value} max={today.slice(0, 7)} onChange={(e) => setValue(e.target.value)} aria-label="Bulan" />
+            ) : (
+              <input type="number" value={value} min="2000" max={today.slice(0, 4)} step="1" onChange={(e) => setValue(e.target.value)} aria-label="Tahun" />
+            )}
+            <button className="btn btn-primary" disabled={!!problem || isClosing} onClick={handleClose}>
+              {isClosing ? 'Menutup...' : 'Tutup Buku'}
+            </button>
+          </div>
+          {problem && <p className="notification-meta">{problem}</p>}
+          {range && preview && (
+            <>
+              <p className="modal-subtitle">
+                Ringkasan {formatDate(range.from)} – {formatDate(range.to)} yang disimpan saat buku ditutup ({preview.entry_count} catatan).
+                Semua nilai dalam {baseCurrency}.
+              </p>
+              <MissingRatesNote currencies={preview.missing_currencies} baseCurrency={baseCurrency} />
+              <div className="summary-container">
+                <div className="stat-card">
+                  <span className="stat-card-label">Pendapatan / Biaya</span>
+                  <span className="stat-card-value">{formatCurrency(preview.revenue, baseCurrency)} / {formatCurrency(preview.expenses, baseCurrency)}</span>
+                </div>
+                <div className="stat-card">
+                  <span className="stat-card-label">{preview.profit < 0 ? 'Rugi Bersih' : 'Laba Bersih'}</span>
+                  <span className={`stat-card-value ${preview.profit < 0 ? 'warning' : 'success'}`}>{formatCurrency(preview.profit, baseCurrency)}</span>
+                </div>
+                <div className="stat-card">
+                  <span className="stat-card-label">Sisa Piutang / Sisa Hutang</span>
+                  <span className="stat-card-value">
+                    {formatCurrency(preview.receivables_outstanding, baseCurrency)} / {formatCurrency(preview.payables_outstanding, baseCurrency)}
+                  </span>
+                </div>
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      <h3 className="section-title">Riwayat Tutup Buku</h3>
+      {closes.length > 0 ? (
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                <th>Periode</th>
+                <th>Pendapatan</th>
+                <th>Biaya</th>
+                <th>Laba/Rugi</th>
+                <th>Kas Masuk / Keluar</th>
+                <th>Sisa Piutang / Hutang</th>
+                <th>Ditutup</th>
+                <th>Status</th>
+                <th>Aksi</th>
+              </tr>
+            </thead>
+            <tbody>
+              {closes.map(close => {
+                const money = (amount: number) => formatCurrency(amount, close.snapshot.base_currency);
+                return (
+                  <tr key={close.id}>
+                    <td>
+                      {describePeriod(close)}
+                      <div className="notification-meta">{close.snapshot.entry_count} catatan</div>
+                    </td>
+                    <td>{money(close.snapshot.revenue)}</td>
+                    <td>{money(close.snapshot.expenses)}</td>
+                    <td className={close.snapshot.profit < 0 ? 'fee-owed' : ''}>{money(close.snapshot.profit)}</td>
+                    <td>{money(close.snapshot.cash_in)} / {money(close.snapshot.cash_out)}</td>
+                    <td>{money(close.snapshot.receivables_outstanding)} / {money(close.snapshot.payables_outstanding)}</td>
+                    <td>
+                      {formatDateTime(close.closed_at)}
+                      <div className="notification-meta">{close.closed_by_email}</div>
+                    </td>
+                    <td>
+                      {isOpenClose(close) ? (
+                        <span className="status-badge status-paid">Ditutup</span>
+                      ) : (
+                        <>
+                          <span className="status-badge status-unpaid">Dibuka Kembali</span>
+                          <div className="notification-meta">
+                            {formatDateTime(close.reopened_at!)} oleh {close.reopened_by_email}: {close.reopen_reason}
+                          </div>
+                        </>
+                      )}
+                    </td>
+                    <td className="actions">
+                      {canReopen && close.id === reopenable?.id && (
+                        <button className="link-button muted" onClick={() => onReopen(close)}>Buka Kembali</button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="empty-state">
+          <p>Belum ada periode yang ditutup.</p>
+        </div>
+      )}
+
+      <h3 className="section-title">Jurnal Penyesuaian</h3>
+      {adjustments.length > 0 ? (
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                <th>Tanggal</th>
+                <th>Jenis</th>
+                <th>Keterangan</th>
+                <th>Jumlah</th>
+                <th>Alasan</th>
+                <th>Aksi</th>
+              </tr>
+            </thead>
+            <tbody>
+              {adjustments.map(({ entry, label }) => (
+                <tr key={entry.id}>
+                  <td>{formatDate(entry.date)}</td>
+                  <td>{label}</td>
+                  <td>
+                    {entry.description}
+                    {entry.adjusts_id && (
+                      <div className="notification-meta">Mengoreksi {entryNames.get(entry.adjusts_id) ?? '(catatan dihapus)'}</div>
+                    )}
+                  </td>
+                  <td className={entry.amount < 0 ? 'fee-owed' : ''}>{formatCurrency(entry.amount, entry.currency)}</td>
+                  <td>{entry.adjustment_reason}</td>
+                  <td className="actions">
+                    <button className="btn-icon" title="Riwayat Perubahan" onClick={() => onShowHistory(entry)}>
+                      <svg className="icon-audit" viewBox="0 0 24 24"><path d="M3 13h2v-2H3v2zm0 4h2v-2H3v2zm0-8h2V7H3v2zm4 4h14v-2H7v2zm0 4h14v-2H7v2zM7 7v2h14V7H7z"/></svg>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="empty-state">
+          <p>Belum ada jurnal penyesuaian.</p>
+        </div>
+      )}
+    </section>
+  );
+};
+
+
+// --- IMPORT COMPONENT ---
+interface ImportWizardProps {
+  initialTarget: ImportTarget;
+  customers: Customer[];
+  baseCurrency: string;
+  onImport: (target: ImportTarget, records: ImportRecord[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ initialTarget, customers, baseCurrency, onImport, onClose }) => {
+  const [target, setTarget] = useState<ImportTarget>(initialTarget);
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [importing, setImporting] = useState(false);
+
+  const rows = useMemo(() =>
+    sheet ? validateRows(target, sheet, mapping, customers) : [],
+    [target, sheet, mapping, customers]
+  );
+  const validRows = rows.filter(row => row.errors.length === 0);
+
+  const handleTargetChange = (next: ImportTarget) => {
+    setTarget(next);
+    if (sheet) setMapping(guessMapping(next, sheet.headers));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const parsed = file.name.toLowerCase().endsWith('.csv')
+        ? toSheet(parseCSV(await file.text()))
+        : toSheet(parseWorkbook(await file.arrayBuffer()));
+      if (parsed.headers.length === 0) {
+        alert('Berkas tidak berisi data.');
+        return;
+      }
+      setSheet(parsed);
+      setMapping(guessMapping(target, parsed.headers));
+    } catch (error: any) {
+      alert(`Gagal membaca berkas: ${error.message}`);
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    const success = await onImport(target, validRows.map(row => row.record));
+    setImporting(false);
+    if (success) onClose();
+  };
+
+  return (
+    <div>
+      <h3>Impor Data</h3>
+      <div className="form-group">
+        <label htmlFor="imp-target">Impor ke</label>
+        <select id="imp-target" value={target} onChange={(e) => handleTargetChange(e.target.value as ImportTarget)}>
+          <option value="receivables">Piutang</option>
+          <option value="revenues">Pendapatan</option>
+        </select>
+      </div>
+      <div className="form-group">
+        <label htmlFor="imp-file">Berkas CSV / Excel</label>
+        <input id="imp-file" type="file" accept=".csv,.xlsx,.xls" onChange={handleFileChange} />
+      </div>
+
+      {sheet && (
+        <>
+          <h4 className="section-title">Pemetaan Kolom</h4>
+          <div className="mapping-grid">
+            {IMPORT_FIELDS[target].map(field => (
+              <div className="form-group" key={field.key}>
+                <label htmlFor={`imp-map-${field.key}`}>{field.label}{field.required ? ' *' : ''}</label>
+                <select
+                  id={`imp-map-${field.key}`}
+                  value={mapping[field.key] ?? ''}
+                  onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value === '' ? null : Number(e.target.value) })}
+                >
+                  <option value="">— Tidak dipetakan —</option>
+                  {sheet.headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Kolom ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <h4 className="section-title">
+            Pratinjau: {validRows.length} dari {rows.length} baris valid
+          </h4>
+          <div className="table-wrapper import-preview">
+            <table>
+              <thead>
+                <tr>
+                  <th>Baris</th>
+                  {IMPORT_FIELDS[target].map(field => <th key={field.key}>{field.label}</th>)}
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.rowNumber} className={row.errors.length ? 'row-invalid' : ''}>
+                    <td>{row.rowNumber}</td>
+                    {IMPORT_FIELDS[target].map(field => {
+                      const value = field.key === 'customer'
+                        ? customers.find(c => c.id === row.record.customer_id)?.name
+                        : row.record[field.key];
+                      return (
+                        <td key={field.key}>
+                          {value === null || value === undefined ? '-'
+                            : field.type === 'amount' ? formatCurrency(value as number, (row.record.currency as string | null) ?? baseCurrency)
+                            : field.type === 'date' ? formatDate(value as string)
+                            : value}
+                        </td>
+                      );
+                    })}
+                    <td>{row.errors.length ? row.errors.join('; ') : 'OK'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <div className="modal-actions">
+        <button type="button" className="btn btn-secondary" onClick={onClose}>Batal</button>
+        <button type="button" className="btn btn-primary" disabled={importing || validRows.length === 0} onClick={handleImport}>
+          {importing ? 'Mengimpor...' : `Impor ${validRows.length} Baris`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+
+// --- RECONCILIATION COMPONENTS ---
+interface BankImportWizardProps {
+  baseCurrency: string;
+  onImport: (currency: string, lines: BankStatementLine[]) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const BankImportWizard: React.FC<BankImportWizardProps> = ({ baseCurrency, onImport, onClose }) => {
+  const [preset, setPreset] = useState<BankPreset>('bca');
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [matrix, setMatrix] = useState<Cell[][] | null>(null);
+  const [mapping, setMapping] = useState<BankMapping | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const sheet = useMemo(() => matrix ? readStatement(matrix, preset) : null, [matrix, preset]);
+  const statement = useMemo(() => sheet && mapping ? parseStatement(sheet, mapping) : null, [sheet, mapping]);
+
+  const applyPreset = (next: BankPreset, rows: Cell[][]) => {
+    setPreset(next);
+    setMapping(guessBankMapping(next, readStatement(rows, next).headers));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const rows: Cell[][] = file.name.toLowerCase().endsWith('.csv') ? parseCSV(await file.text()) : parseWorkbook(await file.arrayBuffer());
+      if (rows.length === 0) {
+        alert('Berkas tidak berisi data.');
+        return;
+      }
+      setMatrix(rows);
+      applyPreset(preset, rows);
+    } catch (error: any) {
+      alert(`Gagal membaca berkas: ${error.message}`);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!statement) return;
+    setImporting(true);
+    const success = await onImport(currency, statement.lines);
+    setImporting(false);
+    if (success) onClose();
+  };
+
+  return (
+    <div>
+      <h3>Impor Mutasi Bank</h3>
+      <div className="mapping-grid">
+        <div className="form-group">
+          <label htmlFor="bank-preset">Format Bank</label>
+          <select id="bank-preset" value={preset} onChange={(e) => matrix ? applyPreset(e.target.value as BankPreset, matrix) : setPreset(e.target.value as BankPreset)}>
+            {BANK_PRESETS.map(p => <option key={p.key} value={p.key}>{p.label}</option>)}
+          </select>
+        </div>
+        <div className="form-group">
+          <label htmlFor="bank-currency">Mata Uang Rekening</label>
+          <select id="bank-currency" value={currency} onChange={(e) => setCurrency(e.target.value)}>
+            {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} — {c.label}</option>)}
+          </select>
+        </div>
+      </div>
+      <div className="form-group">
+        <label htmlFor="bank-file">Berkas Mutasi (CSV / Excel)</label>
+        <input id="bank-file" type="file" accept=".csv,.xlsx,.xls" onChange={handleFileChange} />
+      </div>
+
+      {sheet && mapping && statement && (
+        <>
+          <h4 className="section-title">Pemetaan Kolom</h4>
+          <p className="modal-subtitle">Petakan kolom Kredit/Debet, atau satu kolom Jumlah yang ditandai CR/DB.</p>
+          <div className="mapping-grid">
+            {BANK_FIELDS.map(field => (
+              <div className="form-group" key={field.key}>
+                <label htmlFor={`bank-map-${field.key}`}>{field.label}</label>
+                <select
+                  id={`bank-map-${field.key}`}
+                  value={mapping[field.key] ?? ''}
+                  onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value === '' ? null : Number(e.target.value) })}
+                >
+                  <option value="">— Tidak dipetakan —</option>
+                  {sheet.headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Kolom ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <h4 className="section-title">
+            Pratinjau: {statement.lines.length} dana masuk
+            {statement.outgoing > 0 ? `, ${statement.outgoing} dana keluar dilewati` : ''}
+            {statement.skipped > 0 ? `, ${statement.skipped} baris non-transaksi dilewati` : ''}
+          </h4>
+          {statement.errors.length > 0 && (
+            <p className="rate-warning">
+              {statement.errors.map(error => `Baris ${error.rowNumber}: ${error.message}`).join('; ')}
+            </p>
+          )}
+          <div className="table-wrapper import-preview">
+            <table>
+              <thead>
+                <tr><th>Baris</th><th>Tanggal</th><th>Keterangan</th><th>Referensi</th><th>Jumlah</th></tr>
+              </thead>
+              <tbody>
+                {statement.lines.map(line => (
+                  <tr key={line.fingerprint}>
+                    <td>{line.rowNumber}</td>
+                    <td>{formatDate(line.date)}</td>
+                    <td>{line.description || '-'}</td>
+                    <td>{line.reference || '-'}</td>
+                    <td>{formatCurrency(line.amount, currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <div className="modal-actions">
+        <button type="button" className="btn btn-secondary" onClick={onClose}>Batal</button>
+        <button type="button" className="btn btn-primary" disabled={importing || !statement || statement.lines.length === 0} onClick={handleImport}>
+          {importing ? 'Mengimpor...' : `Impor ${statement?.lines.length ?? 0} Baris`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface ReconciliationViewProps {
+  lines: BankLine[];
+  openReceivables: OpenReceivable[];
+  receivableDescriptions: Map<string, string>;
+  canImport: boolean;
+  canRecord: boolean;
+  onImport: () => void;
+  onConfirm: (matches: { line: BankLine; receivableId: string }[]) => Promise<void>;
+  onIgnore: (line: BankLine, ignore: boolean) => void;
+  onShowPayments: (receivableId: string) => void;
+}
+
+const ReconciliationView: React.FC<ReconciliationViewProps> = ({
+  lines, openReceivables, receivableDescriptions, canImport, canRecord, onImport, onConfirm, onIgnore, onShowPayments,
+}) => {
+  const queue = useMemo(() => lines.filter(l => l.status === 'unmatched'), [lines]);
+  const ignored = useMemo(() => lines.filter(l => l.status === 'ignored'), [lines]);
+  const matched = useMemo(() => lines.filter(l => l.status === 'matched'), [lines]);
+  const suggestions = useMemo(() =>
+    new Map(queue.map(line => [line.id, suggestMatches(line, openReceivables)])),
+    [queue, openReceivables]
+  );
+  // The receivable chosen for each queued line; confident matches start out chosen.
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [confirming, setConfirming] = useState(false);
+  useEffect(() => {
+    const proposed = proposeMatches(queue, openReceivables);
+    setSelected(current => Object.fromEntries(queue.map(line => [line.id, current[line.id] ?? proposed.get(line.id)?.receivableId ?? ''])));
+  }, [queue, openReceivables]);
+
+  const chosen = queue.filter(line => selected[line.id]);
+  const optionLabel = (o: OpenReceivable) =>
+    `${o.customerName ? `${o.customerName} · ` : ''}${o.receivable.description} · sisa ${formatCurrency(o.outstanding, o.receivable.currency)}`;
+
+  const handleConfirm = async () => {
+    setConfirming(true);
+    await onConfirm(chosen.map(line => ({ line, receivableId: selected[line.id] })));
+    setConfirming(false);
+  };
+
+  return (
+    <section>
+      <div className="content-header">
+        <h2>Rekonsiliasi Bank</h2>
+        <div className="header-actions">
+          {canImport && <button className="btn btn-secondary" onClick={onImport}>Impor Mutasi</button>}
+          {canRecord && (
+            <button className="btn btn-primary" disabled={confirming || chosen.length === 0} onClick={handleConfirm}>
+              {confirming ? 'Mencatat...' : `Catat ${chosen.length} Pembayaran`}
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="modal-subtitle">
+        Dana masuk yang belum dicocokkan menunggu di antrean. Saran dihitung dari jumlah, kedekatan tanggal dengan jatuh tempo
+        dan kata kunci keterangan; saran yang kuat langsung dipilih.
+      </p>
+
+      {queue.length > 0 ? (
+        <div className="table-wrapper">
+          <table>
+            <thead>
+              <tr>
+                <th>Tanggal</th>
+                <th>Keterangan</th>
+                <th>Jumlah</th>
+                <th>Cocokkan dengan Piutang</th>
+                <th>Aksi</th>
+              </tr>
+            </thead>
+            <tbody>
+              {queue.map(line => {
+                const lineSuggestions = suggestions.get(line.id) ?? [];
+                const suggested = new Set(lineSuggestions.map(s => s.receivableId));
+                const others = openReceivables.filter(o => o.receivable.currency === line.currency && !suggested.has(o.receivable.id));
+                const best = lineSuggestions.find(s => s.receivableId === selected[line.id]);
+                return (
+                  <tr key={line.id}>
+                    <td>{formatDate(line.date)}</td>
+                    <td>
+                      {line.description || '-'}
+                      {line.reference && <div className="notification-meta">Ref. {line.reference}</div>}
+                    </td>
+                    <td>{formatCurrency(line.amount, line.currency)}</td>
+                    <td>
+                      <select
+                        value={selected[line.id] ?? ''}
+                        disabled={!canRecord}
+                        onChange={(e) => setSelected({ ...selected, [line.id]: e.target.value })}
+                        aria-label="Piutang"
+                      >
+                        <option value="">— Belum dicocokkan —</option>
+                        {lineSuggestions.length > 0 && (
+                          <optgroup label="Saran">
+                            {lineSuggestions.map(s => {
+                              const open = openReceivables.find(o => o.receivable.id === s.receivableId)!;
+                              return <option key={s.receivableId} value={s.receivableId}>{optionLabel(open)} ({s.score}%)</option>;
+                            })}
+                          </optgroup>
+                        )}
+                        {others.length > 0 && (
+                          <optgroup label="Piutang lainnya">
+                            {others.map(o => <option key={o.receivable.id} value={o.receivable.id}>{optionLabel(o)}</option>)}
+                          </optgroup>
+                        )}
+                      </select>
+                      {best && <div className="notification-meta">{best.reasons.join(' · ')}</div>}
+                    </td>
+                    <td className="actions">
+                      {canRecord && <button className="link-button muted" onClick={() => onIgnore(line, true)}>Abaikan</button>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="empty-state">
+          <p>{lines.length > 0 ? 'Semua dana masuk sudah dicocokkan.' : 'Belum ada mutasi bank. Impor berkas mutasi untuk mulai mencocokkan.'}</p>
+        </div>
+      )}
+
+      {ignored.length > 0 && (
+        <>
+          <h3 className="section-title">Diabaikan ({ignored.length})</h3>
+          <ul className="rule-list">
+            {ignored.map(line => (
+              <li key={line.id}>
+                <span>{formatDate(line.date)} · {line.description || '-'} · {formatCurrency(line.amount, line.currency)}</span>
+                {canRecord && <button className="link-button" onClick={() => onIgnore(line, false)}>Kembalikan ke Antrean</button>}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {matched.length > 0 && (
+        <>
+          <h3 className="section-title">Sudah Dicocokkan ({matched.length})</h3>
+          <ul className="rule-list">
+            {matched.map(line => (
+              <li key={line.id}>
+                <span>
+                  {formatDate(line.date)} · {line.description || '-'} · {formatCurrency(line.amount, line.currency)}
+                  {' '}&rarr; {(line.receivable_id && receivableDescriptions.get(line.receivable_id)) || '(piutang dihapus)'}
+                </span>
+                {line.receivable_id && receivableDescriptions.has(line.receivable_id) && (
+                  <button className="link-button" onClick={() => onShowPayments(line.receivable_id!)}>Lihat Pembayaran</button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+};
+
+
+// --- ACTIVITY LOG COMPONENTS ---
+const AUDIT_PAGE_SIZE = 50;
+
+interface AuditEntryItemProps {
+  entry: AuditEntry;
+  customerNames: Map<string, string>;
+  categoryNames: Map<string, string>;
+  // Currency of each receivable and revenue by id, for entries that did not touch it.
+  currencies: Map<string, string>;
+}
+
+const AuditEntryItem: React.FC<AuditEntryItemProps> = ({ entry, customerNames, categoryNames, currencies }) => {
+  const changes = auditChanges(entry);
+  const currency = String(
+    entry.after?.currency ?? entry.before?.currency ?? currencies.get(entry.parent_id ?? entry.entity_id) ?? DEFAULT_BASE_CURRENCY
+  );
+  return (
+    <li className="audit-entry">
+      <div>
+        <span className={`audit-action audit-${entry.action}`}>{ACTION_LABELS[entry.action]}</span>
+        <strong>{ENTITY_LABELS[entry.entity]}</strong> · {entry.summary}
+      </div>
+      <div className="notification-meta">{entry.actor_email || entry.actor_id} · {formatDateTime(entry.occurred_at)}</div>
+      {changes.length > 0 && (
+        <table className="audit-changes">
+          <thead>
+            <tr><th>Kolom</th><th>Sebelum</th><th>Sesudah</th></tr>
+          </thead>
+          <tbody>
+            {changes.map(change => (
+              <tr key={change.field}>
+                <td>{change.label}</td>
+                <td>{formatAuditValue(change.field, change.before, customerNames, currency, categoryNames)}</td>
+                <td>{formatAuditValue(change.field, change.after, customerNames, currency, categoryNames)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </li>
+  );
+};
+
+interface AuditHistoryProps {
+  workspaceId: string;
+  entityId: string;
+  customerNames: Map<string, string>;
+  categoryNames: Map<string, string>;
+  currencies: Map<string, string>;
+}
+
+// The history of one receivable or revenue, including the payments and posted revenues
+// recorded against a receivable.
+const AuditHistory: React.FC<AuditHistoryProps> = ({ workspaceId, entityId, customerNames, categoryNames, currencies }) => {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+  useEffect(() => {
+    backend.table<AuditEntry>('audit_log')
+      .list({
+        where: { workspace_id: workspaceId },
+        either: { entity_id: entityId, parent_id: entityId },
+        order: [['occurred_at', 'desc']],
+      })
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching history:', error);
+        setEntries(data ?? []);
+      });
+  }, [workspaceId, entityId]);
+
+  if (!entries) return <p className="modal-subtitle">Memuat riwayat…</p>;
+  if (entries.length === 0) return <div className="empty-state"><p>Belum ada riwayat perubahan.</p></div>;
+  return (
+    <ul className="audit-list">
+      {entries.map(entry => <AuditEntryItem key={entry.id} entry={entry} customerNames={customerNames} categoryNames={categoryNames} currencies={currencies} />)}
+    </ul>
+  );
+};
+
+interface ActivityFeedProps {
+  workspaceId: string;
+  customerNames: Map<string, string>;
+  categoryNames: Map<string, string>;
+  currencies: Map<string, string>;
+}
+
+const ActivityFeed: React.FC<ActivityFeedProps> = ({ workspaceId, customerNames, categoryNames, currencies }) => {
+  const [actorId, setActorId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [members, setMembers] = useState<Pick<WorkspaceMember, 'user_id' | 'email'>[]>([]);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setLoading] = useState(false);
+
+  useEffect(() => {
+    backend.table<WorkspaceMember>('workspace_members')
+      .list({ where: { workspace_id: workspaceId }, order: [['email', 'asc']] })
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching members:', error);
+        else setMembers(data);
+      });
+  }, [workspaceId]);
+
+  const fetchPage = useCallback(async (offset: number) => {
+    setLoading(true);
+    // Date inputs are local calendar days; occurred_at is a UTC timestamp.
+    const { data, error } = await backend.table<AuditEntry>('audit_log').list({
+      where: { workspace_id: workspaceId, ...(actorId ? { actor_id: actorId } : {}) },
+      atLeast: from ? { occurred_at: new Date(`${from}T00:00:00`).toISOString() } : {},
+      before: to ? { occurred_at: new Date(new Date(`${to}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString() } : {},
+      order: [['occurred_at', 'desc']],
+      range: [offset, offset + AUDIT_PAGE_SIZE - 1],
+    });
+    setLoading(false);
+
+    if (error) {
+        console.error('Error fetching activity:', error);
+        return;
+    }
+    setEntries(rows => offset === 0 ? data : [...rows, ...data]);
+    setHasMore(data.length === AUDIT_PAGE_SIZE);
+  }, [workspaceId, actorId, from, to]);
+
+  useEffect(() => {
+    fetchPage(0);
+  }, [fetchPage]);
+
+  return (
+    <section>
+      <div className="content-header">
+        <h2>Log Aktivitas</h2>
+      </div>
+      <div className="filter-bar">
+        <select value={actorId} onChange={e => setActorId(e.target.value)} aria-label="Pengguna">
+          <option value="">Semua pengguna</option>
+          {members.map(m => <option key={m.user_id} value={m.user_id}>{m.email}</option>)}
+        </select>
+        <label>
+          Tanggal
+          <input type="date" value={from} onChange={e => setFrom(e.target.value)} aria-label="Tanggal dari" />
+          <span>s.d.</span>
+          <input type="date" value={to} onChange={e => setTo(e.target.value)} aria-label="Tanggal sampai" />
+        </label>
+        {(actorId || from || to) && (
+          <button className="link-button" onClick={() => { setActorId(''); setFrom(''); setTo(''); }}>Reset Filter</button>
+        )}
+      </div>
+      {entries.length === 0 && !isLoading ? (
+        <div className="empty-state"><p>Tidak ada aktivitas untuk filter ini.</p></div>
+      ) : (
+        <ul className="audit-list">
+          {entries.map(entry => <AuditEntryItem key={entry.id} entry={entry} customerNames={customerNames} categoryNames={categoryNames} currencies={currencies} />)}
+        </ul>
+      )}
+      {hasMore && (
+        <div className="pagination">
+          <button className="btn btn-secondary" disabled={isLoading} onClick={() => fetchPage(entries.length)}>Muat Lebih Banyak</button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+
+// --- TRASH COMPONENTS ---
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onClose: () => void;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onClose }) => (
+  <div className="toast" role="status">
+    <span>{message}</span>
+    <button className="link-button" onClick={onUndo}>Urungkan</button>
+    <button className="toast-close" title="Tutup" onClick={onClose}>&times;</button>
+  </div>
+);
+
+interface TrashViewProps {
+  receivables: Receivable[];
+  revenues: Revenue[];
+  customerNames: Map<string, string>;
+  retentionDays: number;
+  canEdit: boolean;
+  canConfigure: boolean;
+  onRestore: (table: 'receivables' | 'revenues', row: Receivable | Revenue) => void;
+  onPurge: (table: 'receivables' | 'revenues', row: Receivable | Revenue) => void;
+  onSaveRetention: (e: React.FormEvent<HTMLFormElement>) => void;
+}
+
+const TrashView: React.FC<TrashViewProps> = ({
+  receivables, revenues, customerNames, retentionDays, canEdit, canConfigure, onRestore, onPurge, onSaveRetention,
+}) => {
+  const now = new Date();
+  const rows = [
+    ...receivables.map(row => ({ table: 'receivables' as const, row, kind: 'Piutang', amount: row.total_amount,
+      detail: (row.customer_id && customerNames.get(row.customer_id)) || '-' })),
+    ...revenues.map(row => ({ table: 'revenues' as const, row, kind: 'Pendapatan', amount: row.amount, detail: formatDate(row.date) })),
+  ].sort((a, b) => (b.row.deleted_at ?? '').localeCompare(a.row.deleted_at ?? ''));
+
+  return (
+    <section>
+      <div className="content-header">
+        <h2>Sampah</h2>
+      </div>
+      <p className="modal-subtitle">
+        Data di Sampah tidak dihitung dalam daftar, ringkasan maupun laporan, dan dihapus permanen otomatis setelah {retentionDays} hari.
+      </p>
+      {canConfigure && (
+        <form className="report-controls" onSubmit={onSaveRetention}>
+          <label htmlFor="retention-days">Masa simpan (hari)</label>
+          <input id="retention-days" name="retentionDays" type="number" min="1" max="365" defaultValue={retentionDays} required />
+          <button type="submit" className="btn btn-secondary">Simpan</button>
+        </form>
+      )}
+      <div className="table-wrapper">
+        {rows.length === 0 ? (
+          <div className="empty-state"><p>Sampah kosong.</p></div>
+        ) : (
+          <table>
+            <thead>
+              <tr>
+                <th>Jenis</th>
+                <th>Keterangan</th>
+                <th>Pelanggan / Tanggal</th>
+                <th>Jumlah</th>
+                <th>Dihapus</th>
+                <th>Terhapus Permanen</th>
+                {canEdit && <th>Aksi</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ table, row, kind, amount, detail }) => (
+                <tr key={row.id}>
+                  <td>{kind}</td>
+                  <td>{row.description}</td>
+                  <td>{detail}</td>
+                  <td>{formatCurrency(amount, row.currency)}</td>
+                  <td>{formatDateTime(row.deleted_at!)}</td>
+                  <td>dalam {daysUntilPurge(row.deleted_at!, retentionDays, now)} hari</td>
+                  {canEdit && (
+                    <td className="actions">
+                      <button className="link-button" onClick={() => onRestore(table, row)}>Pulihkan</button>
+                      <button className="link-button muted" onClick={() => onPurge(table, row)}>Hapus Permanen</button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+};
+
+
+// --- RECURRING COMPONENTS ---
+interface RecurringViewProps {
+  templates: RecurringTemplate[];
+  customerNames: Map<string, string>;
+  canEdit: boolean;
+  onAdd: () => void;
+  onEdit: (template: RecurringTemplate) => void;
+  onDelete: (template: RecurringTemplate) => void;
+  onSkip: (occurrence: Occurrence, skip: boolean) => void;
+  onAdjust: (occurrence: Occurrence) => void;
+}
+
+const RecurringView: React.FC<RecurringViewProps> = ({ templates, customerNames, canEdit, onAdd, onEdit, onDelete, onSkip, onAdjust }) => {
+  const today = todayISO();
+  const upcoming = useMemo(() =>
+    upcomingOccurrences(templates, addDays(today, UPCOMING_WINDOW_DAYS)),
+    [templates, today]
+  );
+
+  return (
+    <section>
+      <div className="content-header">
+        <h2>Transaksi Berulang</h2>
+        {canEdit && (
+          <div className="header-actions">
+            <button className="btn btn-primary" onClick={onAdd}>+ Tambah Jadwal</button>
+          </div>
+        )}
+      </div>
+      <p className="modal-subtitle">
+        Piutang dan pendapatan dari jadwal di bawah dibuat otomatis pada tanggalnya setiap kali aplikasi dibuka.
+      </p>
+      <div className="table-wrapper">
+        {templates.length === 0 ? (
+          <div className="empty-state"><p>Belum ada jadwal berulang.</p></div>
+        ) : (
+          <table>
+            <thead>
+              <tr>
+                <th>Jenis</th>
+                <th>Keterangan</th>
+                <th>Pelanggan</th>
+                <th>Jumlah</th>
+                <th>Jadwal</th>
+                <th>Berikutnya</th>
+                {canEdit && <th>Aksi</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {templates.map(template => {
+                const next = nextOccurrenceAfter(template, template.generated_through ?? addDays(template.start_date, -1));
+                return (
+                  <tr key={template.id}>
+                    <td>{template.target === 'receivable' ? 'Piutang' : 'Pendapatan'}</td>
+                    <td>{template.description}</td>
+                    <td>{(template.customer_id && customerNames.get(template.customer_id)) || '-'}</td>
+                    <td>{formatCurrency(template.amount, template.currency)}</td>
+                    <td>{describeRecurrence(template)}</td>
+                    <td>{next ? formatDate(next) : 'Selesai'}</td>
+                    {canEdit && (
+                      <td className="actions">
+                        <button className="btn-icon" title="Edit" onClick={() => onEdit(template)}>
+                          <svg className="icon-edit" viewBox="0 0 24 24"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/></svg>
+                        </button>
+                        <button className="btn-icon" title="Hapus" onClick={() => onDelete(template)}>
+                          <svg className="icon-delete" viewBox="0 0 24 24"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/></svg>
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <h3 className="section-title">Jadwal {UPCOMING_WINDOW_DAYS} Hari ke Depan</h3>
+      <div className="table-wrapper">
+        {upcoming.length === 0 ? (
+          <div className="empty-state"><p>Tidak ada transaksi terjadwal.</p></div>
+        ) : (
+          <table>
+            <thead>
+              <tr>
+                <th>Tanggal</th>
+                <th>Keterangan</th>
+                <th>Jumlah</th>
+                <th>Status</th>
+                {canEdit && <th>Aksi</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {upcoming.map(occurrence => (
+                <tr key={`${occurrence.template.id}-${occurrence.scheduled}`} className={occurrence.skipped ? 'row-voided' : ''}>
+                  <td>{formatDate(occurrence.date)}</td>
+                  <td>{occurrence.template.description}</td>
+                  <td>{formatCurrency(occurrence.amount, occurrence.template.currency)}</td>
+                  <td>
+                    {occurrence.skipped ? 'Dilewati'
+                      : occurrence.adjusted ? `Diubah (jadwal ${formatDate(occurrence.scheduled)})`
+                      : 'Terjadwal'}
+                  </td>
+                  {canEdit && (
+                    <td className="actions">
+                      {occurrence.skipped ? (
+                        <button className="link-button" onClick={() => onSkip(occurrence, false)}>Pulihkan</button>
+                      ) : (
+                        <>
+                          <button className="link-button" onClick={() => onAdjust(occurrence)}>Ubah</button>
+                          <button className="link-button muted" onClick={() => onSkip(occurrence, true)}>Lewati</button>
+                        </>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+};
+
+
+// --- WORKSPACE COMPONENTS ---
+interface Membership {
+  workspace: Workspace;
+  role: WorkspaceRole;
+}
+
+type PendingInvitation = WorkspaceInvitation & { workspace: Pick<Workspace, 'name'> | null };
+
+interface WorkspaceMembersProps {
+  workspace: Workspace;
+  session: AuthSession;
+}
+
+const WorkspaceMembers: React.FC<WorkspaceMembersProps> = ({ workspace, session }) => {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+
+  const fetchMembers = useCallback(async () => {
+    const [membersResult, invitationsResult] = await Promise.all([
+      backend.table<WorkspaceMember>('workspace_members').list({ where: { workspace_id: workspace.id }, order: [['email', 'asc']] }),
+      backend.table<WorkspaceInvitation>('workspace_invitations').list({
+        where: { workspace_id: workspace.id, accepted_at: null }, order: [['created_at', 'asc']],
+      }),
+    ]);
+    if (membersResult.error) console.error('Error fetching members:', membersResult.error);
+    else setMembers(membersResult.data);
+    if (invitationsResult.error) console.error('Error fetching invitations:', invitationsResult.error);
+    else setInvitations(invitationsResult.data);
+  }, [workspace.id]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const ownerCount = members.filter(m => m.role === 'owner').length;
+  // The last owner can be neither demoted nor removed, or nobody could manage the workspace.
+  const isLastOwner = (member: WorkspaceMember) => member.role === 'owner' && ownerCount <= 1;
+
+  const handleInvite = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const email = normalizeEmail(formData.get('email') as string);
+    if (members.some(m => normalizeEmail(m.email) === email)) {
+      alert('Email ini sudah menjadi anggota.');
+      return;
+    }
+    const { error } = await backend.table('workspace_invitations').insert({
+      workspace_id: workspace.id,
+      email,
+      role: formData.get('role') as WorkspaceRole,
+      invited_by: session.user.id,
+    });
+
+    if (error) {
+        alert(error.message);
+    } else {
+        form.reset();
+        fetchMembers();
+    }
+  };
+
+  const handleChangeRole = async (member: WorkspaceMember, role: WorkspaceRole) => {
+    const { error } = await backend.table('workspace_members').update({ id: member.id }, { role });
+    if (error) {
+        alert(error.message);
+    } else {
+        fetchMembers();
+    }
+  };
+
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    if (window.confirm(`Keluarkan ${member.email} dari ruang kerja ini?`)) {
+      const { error } = await backend.table('workspace_members').remove({ id: member.id });
+      if (error) {
+          alert(error.message);
+      } else {
+          fetchMembers();
+      }
+    }
+  };
+
+  const handleRevokeInvitation = async (id: string) => {
+    const { error } = await backend.table('workspace_invitations').remove({ id });
+    if (error) {
+        alert(error.message);
+    } else {
+        fetchMembers();
+    }
+  };
+
+  return (
+    <>
+      <h3>Anggota {workspace.name}</h3>
+      <div className="table-wrapper">
+        <table>
+          <thead>
+            <tr>
+              <th>Email</th>
+              <th>Peran</th>
+              <th>Aksi</th>
+            </tr>
+          </thead>
+          <tbody>
+            {members.map(member => (
+              <tr key={member.id}>
+                <td>{member.email}{member.user_id === session.user.id ? ' (Anda)' : ''}</td>
+                <td>
+                  <select
+                    value={member.role}
+                    disabled={isLastOwner(member)}
+                    onChange={e => handleChangeRole(member, e.target.value as WorkspaceRole)}
+                  >
+                    {assignableRoles('owner').map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                  </select>
+                </td>
+                <td className="actions">
+                  {!isLastOwner(member) && (
+                    <button className="btn-icon" title="Keluarkan" onClick={() => handleRemoveMember(member)}>
+                      <svg className="icon-delete" viewBox="0 0 24 24"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/></svg>
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {invitations.length > 0 && (
+        <>
+          <h4 className="section-title">Undangan Tertunda</h4>
+          <ul className="rule-list">
+            {invitations.map(invitation => (
+              <li key={invitation.id}>
+                <span>{invitation.email} · {ROLE_LABELS[invitation.role]} · {formatDate(invitation.created_at.slice(0, 10))}</span>
+                <button className="link-button muted" onClick={() => handleRevokeInvitation(invitation.id)}>Batalkan</button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <form onSubmit={handleInvite}>
+        <h4 className="section-title">Undang Anggota</h4>
+        <p className="modal-subtitle">Undangan muncul saat pengguna masuk dengan email tersebut.</p>
+        <div className="mapping-grid">
+          <div className="form-group">
+            <label htmlFor="invite-email">Email</label>
+            <input id="invite-email" name="email" type="email" required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="invite-role">Peran</label>
+            <select id="invite-role" name="role" defaultValue="collector">
+              {assignableRoles('owner').map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+            </select>
+          </div>
+        </div>
+        <ul className="role-help">
+          {assignableRoles('owner').map(role => <li key={role}><strong>{ROLE_LABELS[role]}</strong>: {ROLE_DESCRIPTIONS[role]}</li>)}
+        </ul>
+        <div className="modal-actions">
+          <button type="submit" className="btn btn-primary">Kirim Undangan</button>
+        </div>
+      </form>
+    </>
+  );
+};
+
+interface WorkspaceSwitcherProps {
+  session: AuthSession;
+  memberships: Membership[];
+  current: Membership;
+  invitations: PendingInvitation[];
+  onSwitch: (workspaceId: string) => void;
+  onCreate: (name: string) => void;
+  onAcceptInvitation: (invitation: PendingInvitation) => void;
+  onDeclineInvitation: (invitation: PendingInvitation) => void;
+}
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  session, memberships, current, invitations, onSwitch, onCreate, onAcceptInvitation, onDeclineInvitation,
+}) => {
+  const [isMembersOpen, setMembersOpen] = useState(false);
+  const [isInvitationsOpen, setInvitationsOpen] = useState(false);
+
+  const handleCreate = () => {
+    const name = window.prompt('Nama ruang kerja baru:')?.trim();
+    if (name) onCreate(name);
+  };
+
+  return (
+    <div className="workspace-switcher">
+      <select
+        value={current.workspace.id}
+        title="Ruang kerja"
+        onChange={e => e.target.value === '__new' ? handleCreate() : onSwitch(e.target.value)}
+      >
+        {memberships.map(m => (
+          <option key={m.workspace.id} value={m.workspace.id}>{m.workspace.name} · {ROLE_LABELS[m.role]}</option>
+        ))}
+        <option value="__new">+ Ruang kerja baru…</option>
+      </select>
+      {can(current.role, 'manageMembers') && (
+        <button className="btn btn-secondary" onClick={() => setMembersOpen(true)}>Anggota</button>
+      )}
+      {invitations.length > 0 && (
+        <button className="btn btn-primary" onClick={() => setInvitationsOpen(true)}>Undangan ({invitations.length})</button>
+      )}
+
+      <Modal isOpen={isMembersOpen} onClose={() => setMembersOpen(false)} wide>
+        {isMembersOpen && <WorkspaceMembers workspace={current.workspace} session={session} />}
+        <div className="modal-actions">
+          <button type="button" className="btn btn-secondary" onClick={() => setMembersOpen(false)}>Tutup</button>
+        </div>
+      </Modal>
+
+      <Modal isOpen={isInvitationsOpen} onClose={() => setInvitationsOpen(false)}>
+        <h3>Undangan Ruang Kerja</h3>
+        <ul className="rule-list">
+          {invitations.map(invitation => (
+            <li key={invitation.id}>
+              <span>{invitation.workspace?.name ?? 'Ruang kerja'} sebagai {ROLE_LABELS[invitation.role]}</span>
+              <span>
+                <button className="link-button" onClick={() => { setInvitationsOpen(false); onAcceptInvitation(invitation); }}>Terima</button>
+                <button className="link-button muted" onClick={() => onDeclineInvitation(invitation)}>Tolak</button>
+              </span>
+            </li>
+          ))}
+        </ul>
+        <div className="modal-actions">
+          <button type="button" className="btn btn-secondary" onClick={() => setInvitationsOpen(false)}>Tutup</button>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+
+// --- DASHBOARD COMPONENT ---
+interface DashboardProps {
+  session: AuthSession;
+  workspace: Workspace;
+  role: WorkspaceRole;
+  workspaceSwitcher: React.ReactNode;
+}
+
+const Dashboard: React.FC<DashboardProps> = ({ session, workspace, role, workspaceSwitcher }) => {
+  // --- STATE MANAGEMENT ---
+  // Tab and filters are initialised from the query string so bookmarked views restore.
+  const initialParams = useMemo(() => new URLSearchParams(window.location.search), []);
+  const [activeTab, setActiveTab] = useState<ActiveTab>(() => {
+    const tab = initialParams.get('tab') as ActiveTab | null;
+    return tab && ACTIVE_TABS.includes(tab) ? tab : 'receivables';
+  });
+  const [receivableFilters, setReceivableFilters] = useState<ReceivableFilters>(() =>
+    readFiltersFromParams(initialParams, 'r_', DEFAULT_RECEIVABLE_FILTERS, RECEIVABLE_FILTER_RULES));
+  const [revenueFilters, setRevenueFilters] = useState<RevenueFilters>(() =>
+    readFiltersFromParams(initialParams, 'rev_', DEFAULT_REVENUE_FILTERS, REVENUE_FILTER_RULES));
+  const [receivablePage, setReceivablePage] = useState(1);
+  const [revenuePage, setRevenuePage] = useState(1);
+  // The page the server picked for the current filters, sort and page number. Null while
+  // offline; the lists then page the local rows.
+  const [serverReceivablesPage, setServerReceivablesPage] = useState<Page<Receivable> | null>(null);
+  const [serverRevenuesPage, setServerRevenuesPage] = useState<Page<Revenue> | null>(null);
+  // Counts the realtime changes behind each list, so its page and summary are asked for
+  // again when the server's rows change rather than whenever local state does.
+  const [receivablesRevision, setReceivablesRevision] = useState(0);
+  const [revenuesRevision, setRevenuesRevision] = useState(0);
+  // Summaries follow the filters so the stat cards always describe the filtered rows;
+  // they are aggregated by the database rather than by reducing every row here.
+  const [receivablesSummary, setReceivablesSummary] = useState({ total: 0, remaining: 0 });
+  const [revenuesSummary, setRevenuesSummary] = useState({ total: 0 });
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [receivables, setReceivables] = useState<Receivable[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [revenues, setRevenues] = useState<Revenue[]>([]);
+  const [payables, setPayables] = useState<Payable[]>([]);
+  const [payablePayments, setPayablePayments] = useState<PayablePayment[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  
+  const [isReceivableModalOpen, setReceivableModalOpen] = useState(false);
+  const [isRevenueModalOpen, setRevenueModalOpen] = useState(false);
+  const [isPaymentModalOpen, setPaymentModalOpen] = useState(false);
+  const [isImportModalOpen, setImportModalOpen] = useState(false);
+  const [isSettingsModalOpen, setSettingsModalOpen] = useState(false);
+  const [businessProfile, setBusinessProfile] = useState<BusinessProfile>(EMPTY_BUSINESS_PROFILE);
+  const [reminderRules, setReminderRules] = useState<ReminderRule[]>([]);
+  const [isRulesModalOpen, setRulesModalOpen] = useState(false);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [isRatesModalOpen, setRatesModalOpen] = useState(false);
+  const [baseCurrency, setBaseCurrency] = useState(workspace.base_currency ?? DEFAULT_BASE_CURRENCY);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isCategoriesModalOpen, setCategoriesModalOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [recurringTemplates, setRecurringTemplates] = useState<RecurringTemplate[]>([]);
+  // `undefined` keeps the template modal closed, `null` opens it for a new template.
+  const [editingTemplate, setEditingTemplate] = useState<RecurringTemplate | null | undefined>(undefined);
+  const [adjustingOccurrence, setAdjustingOccurrence] = useState<Occurrence | null>(null);
+  const [bankLines, setBankLines] = useState<BankLine[]>([]);
+  const [isBankImportOpen, setBankImportOpen] = useState(false);
+  const [isAccountOpen, setAccountOpen] = useState(false);
+  const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+  const [sharingTarget, setSharingTarget] = useState<ShareTarget | null>(null);
+  const [periodCloses, setPeriodCloses] = useState<PeriodClose[]>([]);
+  const [adjustmentTable, setAdjustmentTable] = useState<AdjustmentTable | null>(null);
+  const [dismissedReminders, setDismissedReminders] = useState<string[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(dismissedRemindersKey(session.user.id)) ?? '[]');
+    } catch {
+      return [];
+    }
+  });
+  const [editingItem, setEditingItem] = useState<EditingItem | null>(null);
+  const [editingPayment, setEditingPayment] = useState<Payment | null>(null);
+  // `undefined` keeps the customer modal closed, `null` opens it for a new customer.
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null | undefined>(undefined);
+  const [statementCustomerId, setStatementCustomerId] = useState<string | null>(null);
+  const [undoToast, setUndoToast] = useState<{ id: number; message: string; undo: () => void } | null>(null);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(workspace.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS);
+  const [defaultLateFeeRule, setDefaultLateFeeRule] = useState<LateFeeRule | null>(workspace.late_fee_rule ?? null);
+
+  // `undefined` keeps the payable and expense modals closed, `null` opens them for a new row.
+  const [editingPayable, setEditingPayable] = useState<Payable | null | undefined>(undefined);
+  const [payingPayable, setPayingPayable] = useState<Payable | null>(null);
+  const [ledgerPayableId, setLedgerPayableId] = useState<string | null>(null);
+  const [editingExpense, setEditingExpense] = useState<Expense | null | undefined>(undefined);
+
+  const [currentReceivable, setCurrentReceivable] = useState<Receivable | null>(null);
+  const [ledgerReceivableId, setLedgerReceivableId] = useState<string | null>(null);
+  const [auditTarget, setAuditTarget] = useState<{ id: string; title: string } | null>(null);
+  const [autoPostPayments, setAutoPostPayments] = useState(
+    () => localStorage.getItem(autoPostPreferenceKey(session.user.id)) !== 'false'
+  );
+  const [autoPostExpenses, setAutoPostExpenses] = useState(
+    () => localStorage.getItem(autoPostExpensesKey(session.user.id)) !== 'false'
+  );
+
+  // Offline support: the synced tables are mirrored in IndexedDB, and writes that cannot
+  // reach the server wait in a persistent queue. The ref mirrors the queue for async code.
+  const offlineDb = useMemo(() => openOfflineDb(session.user.id, workspace.id).catch(error => {
+    console.error('Offline storage unavailable:', error);
+    return null;
+  }), [session.user.id, workspace.id]);
+  const [isOnline, setOnline] = useState(navigator.onLine);
+  const [isSyncing, setSyncing] = useState(false);
+  const [syncQueue, setSyncQueueState] = useState<QueuedMutation[]>([]);
+  const syncQueueRef = useRef<QueuedMutation[]>([]);
+  const queueLoaded = useMemo(() => offlineDb.then(async db => {
+    const queue = db ? await readQueue<QueuedMutation>(db) : [];
+    syncQueueRef.current = queue;
+    setSyncQueueState(queue);
+  }), [offlineDb]);
+  const cachedTables = useRef(new Set<CachedTable>());
+
+  const setSyncQueue = (update: (queue: QueuedMutation[]) => QueuedMutation[]) => {
+    syncQueueRef.current = update(syncQueueRef.current);
+    setSyncQueueState(syncQueueRef.current);
+  };
+
+  const withPending = <T extends { id: string }>(table: CachedTable, rows: T[]) =>
+    applyPendingMutations(rows, table, syncQueueRef.current);
+
+  // --- DATA FETCHING & REAL-TIME ---
+  // The local copy backs the offline mode and the views that span the whole ledger
+  // (aging, analytics, profit and loss); the receivables and revenues lists page on the
+  // server while online. The cached copy is shown first, so the dashboard still opens
+  // without a connection. A table is downloaded in full only the first time; later loads
+  // fetch what changed since the cache's sync mark and drop the rows deleted since.
+  // Afterwards rows are kept current through mutation results and realtime payloads.
+  const loadTable = useCallback(async <T extends { id: string }>(
+    table: CachedTable,
+    repository: TableRepository<T>,
+    order: Query['order'],
+    setRows: (rows: T[]) => void,
+  ) => {
+    await queueLoaded;
+    const db = await offlineDb;
+    const cached = db ? await readCachedRows<T>(db, table) : null;
+    const mark = cached && db ? await readSyncMark(db, table) : null;
+    if (cached) setRows(applyPendingMutations(cached, table, syncQueueRef.current));
+    try {
+      const since = mark ? syncSince(mark) : null;
+      const changed = await fetchAllPages<T>(
+        (from, to) => repository.list({
+          where: { workspace_id: workspace.id }, ...(since ? { atLeast: { updated_at: since } } : {}), order, range: [from, to],
+        }),
+        page => {
+          if (!since) setRows(applyPendingMutations(page, table, syncQueueRef.current));
+        },
+      );
+      const deleted = since ? await fetchAllPages<DeletedRow>(
+        (from, to) => backend.table<DeletedRow>('deleted_rows').list({
+          where: { workspace_id: workspace.id, table_name: table }, atLeast: { deleted_at: since }, order: [['deleted_at', 'asc']], range: [from, to],
+        }),
+        () => {},
+      ) : [];
+      const rows = since && cached ? mergeChanges(cached, changed, deleted) : changed;
+      setRows(applyPendingMutations(rows, table, syncQueueRef.current));
+      if (db) await writeSyncedRows(db, table, rows, nextSyncMark(mark, changed as { updated_at?: string }[], deleted));
+    } catch (error) {
+      console.error(`Error fetching ${table}:`, error);
+    }
+    cachedTables.current.add(table);
+  }, [offlineDb, queueLoaded, workspace.id]);
+
+  const fetchReceivables = useCallback(async () => {
+    console.log('Fetching receivables...');
+    await loadTable<Receivable>('receivables', backend.receivables, [['due_date', 'asc'], ['id', 'asc']], setReceivables);
+  }, [loadTable]);
+
+  const fetchBusinessProfile = useCallback(async () => {
+    const { data, error } = await backend.table<BusinessProfile>('business_profiles').find({ where: { workspace_id: workspace.id } });
+
+    if (error) console.error('Error fetching business profile:', error);
+    else if (data) setBusinessProfile(data);
+  }, [workspace.id]);
+
+  const fetchCustomers = useCallback(async () => {
+    console.log('Fetching customers...');
+    await loadTable<Customer>('customers', backend.table<Customer>('customers'), [['name', 'asc'], ['id', 'asc']], setCustomers);
+  }, [loadTable]);
+
+  const fetchPayments = useCallback(async () => {
+    console.log('Fetching payments...');
+    await loadTable<Payment>('payments', backend.table<Payment>('payments'), [['paid_at', 'asc'], ['id', 'asc']], setPayments);
+  }, [loadTable]);
+
+  const fetchRevenues = useCallback(async () => {
+    console.log('Fetching revenues...');
+    await loadTable<Revenue>('revenues', backend.revenues, [['date', 'desc'], ['id', 'asc']], setRevenues);
+  }, [loadTable]);
+
+  const fetchPayables = useCallback(async () => {
+    console.log('Fetching payables...');
+    await loadTable<Payable>('payables', backend.table<Payable>('payables'), [['due_date', 'asc'], ['id', 'asc']], setPayables);
+  }, [loadTable]);
+
+  const fetchPayablePayments = useCallback(async () => {
+    console.log('Fetching payable payments...');
+    await loadTable<PayablePayment>('payable_payments', backend.table<PayablePayment>('payable_payments'), [['paid_at', 'asc'], ['id', 'asc']], setPayablePayments);
+  }, [loadTable]);
+
+  const fetchExpenses = useCallback(async () => {
+    console.log('Fetching expenses...');
+    await loadTable<Expense>('expenses', backend.table<Expense>('expenses'), [['date', 'desc'], ['id', 'asc']], setExpenses);
+  }, [loadTable]);
+
+  const fetchReminderRules = useCallback(async () => {
+    const { data, error } = await backend.table<ReminderRule>('reminder_rules').list({
+      where: { workspace_id: workspace.id }, order: [['offset_days', 'asc']],
+    });
+
+    if (error) console.error('Error fetching reminder rules:', error);
+    else setReminderRules(data);
+  }, [workspace.id]);
+
+  const fetchExchangeRates = useCallback(async () => {
+    const { data, error } = await backend.table<ExchangeRate>('exchange_rates').list({
+      where: { workspace_id: workspace.id }, order: [['rate_date', 'desc'], ['currency', 'asc']],
+    });
+
+    if (error) console.error('Error fetching exchange rates:', error);
+    else setExchangeRates(data);
+  }, [workspace.id]);
+
+  const fetchCategories = useCallback(async () => {
+    const { data, error } = await backend.table<Category>('categories').list({
+      where: { workspace_id: workspace.id }, order: [['name', 'asc']],
+    });
+
+    if (error) console.error('Error fetching categories:', error);
+    else setCategories(data);
+  }, [workspace.id]);
+
+  const fetchRecurringTemplates = useCallback(async () => {
+    const { data, error } = await backend.table<RecurringTemplate>('recurring_templates').list({
+      where: { workspace_id: workspace.id }, order: [['start_date', 'asc'], ['description', 'asc']],
+    });
+
+    if (error) console.error('Error fetching recurring templates:', error);
+    // Overrides are a JSON column; rows written by hand may leave it empty.
+    else setRecurringTemplates(data.map(template => ({ ...template, overrides: template.overrides ?? [] })));
+  }, [workspace.id]);
+
+  const fetchBankLines = useCallback(async () => {
+    const { data, error } = await backend.table<BankLine>('bank_lines').list({
+      where: { workspace_id: workspace.id }, order: [['date', 'desc'], ['id', 'asc']],
+    });
+
+    if (error) console.error('Error fetching bank lines:', error);
+    else setBankLines(data);
+  }, [workspace.id]);
+
+  const fetchShareLinks = useCallback(async () => {
+    const { data, error } = await backend.table<ShareLink>('share_links').list({
+      where: { workspace_id: workspace.id }, order: [['created_at', 'desc']],
+    });
+
+    if (error) console.error('Error fetching share links:', error);
+    else setShareLinks(data);
+  }, [workspace.id]);
+
+  const fetchPeriodCloses = useCallback(async () => {
+    const { data, error } = await backend.table<PeriodClose>('period_closes').list({
+      where: { workspace_id: workspace.id }, order: [['period_end', 'desc'], ['closed_at', 'desc']],
+    });
+
+    if (error) console.error('Error fetching period closes:', error);
+    else setPeriodCloses(data);
+  }, [workspace.id]);
+  const booksLockedThrough = useMemo(() => lockDate(periodCloses), [periodCloses]);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    if (activeTab === 'receivables') params.delete('tab');
+    else params.set('tab', activeTab);
+    writeFiltersToParams(params, 'r_', receivableFilters, DEFAULT_RECEIVABLE_FILTERS);
+    writeFiltersToParams(params, 'rev_', revenueFilters, DEFAULT_REVENUE_FILTERS);
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+  }, [activeTab, receivableFilters, revenueFilters]);
+
+  useEffect(() => setReceivablePage(1), [receivableFilters]);
+  useEffect(() => setRevenuePage(1), [revenueFilters]);
+
+  // Re-aggregated when the filters change or the server reports changed rows; the short
+  // delay collapses bursts of keystrokes and realtime events into a single request.
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      const { data, error } = await backend.receivables.summarize(workspace.id, receivableFilters, todayISO(), baseCurrency);
+      if (error) console.error('Error fetching receivables summary:', error);
+      else setReceivablesSummary(data);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [receivableFilters, receivablesRevision, syncQueue.length, baseCurrency, exchangeRates]);
+
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      const { data, error } = await backend.revenues.summarize(workspace.id, revenueFilters, baseCurrency);
+      if (error) console.error('Error fetching revenues summary:', error);
+      else setRevenuesSummary(data);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [revenueFilters, revenuesRevision, syncQueue.length, baseCurrency, exchangeRates]);
+
+  useEffect(() => {
+    if (!isOnline) {
+      setServerReceivablesPage(null);
+      return;
+    }
+    let cancelled = false;
+    const from = (receivablePage - 1) * TABLE_PAGE_SIZE;
+    const timer = setTimeout(async () => {
+      const { data, error } = await backend.receivables.page(workspace.id, receivableFilters, todayISO(), [from, from + TABLE_PAGE_SIZE - 1]);
+      if (cancelled) return;
+      if (error) console.error('Error fetching receivables page:', error);
+      setServerReceivablesPage(data);
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [receivableFilters, receivablePage, receivablesRevision, syncQueue.length, isOnline]);
+
+  useEffect(() => {
+    if (!isOnline) {
+      setServerRevenuesPage(null);
+      return;
+    }
+    let cancelled = false;
+    const from = (revenuePage - 1) * TABLE_PAGE_SIZE;
+    const timer = setTimeout(async () => {
+      const { data, error } = await backend.revenues.page(workspace.id, revenueFilters, [from, from + TABLE_PAGE_SIZE - 1]);
+      if (cancelled) return;
+      if (error) console.error('Error fetching revenues page:', error);
+      setServerRevenuesPage(data);
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [revenueFilters, revenuePage, revenuesRevision, syncQueue.length, isOnline]);
+
+  useEffect(() => {
+    fetchBusinessProfile();
+    fetchReminderRules();
+    fetchExchangeRates();
+    fetchCategories();
+    fetchRecurringTemplates();
+    fetchBankLines();
+    fetchShareLinks();
+    fetchPeriodCloses();
+  }, [
+    fetchBusinessProfile, fetchReminderRules, fetchExchangeRates, fetchCategories, fetchRecurringTemplates, fetchBankLines, fetchShareLinks,
+    fetchPeriodCloses,
+  ]);
+
+  useEffect(() => {
+    fetchCustomers();
+    fetchReceivables();
+    fetchPayments();
+    fetchRevenues();
+    fetchPayables();
+    fetchPayablePayments();
+    fetchExpenses();
+    
+    // One alert is enough when the connection fails for every table at once.
+    let alerted = false;
+    const handleError = () => {
+        // Expected while offline; the sync indicator already says so.
+        if (navigator.onLine && !alerted) {
+            alerted = true;
+            alert('Koneksi real-time gagal. Beberapa pembaruan mungkin tidak muncul secara otomatis.');
+        }
+    };
+
+    const unsubscribes = [
+      backend.receivables.subscribe(workspace.id, change => {
+        setReceivables(rows => withPending('receivables', applyRealtimeChange(rows, change)));
+        setReceivablesRevision(revision => revision + 1);
+      }, handleError),
+      backend.table<Customer>('customers').subscribe(workspace.id, change => {
+        setCustomers(rows => withPending('customers', applyRealtimeChange(rows, change)));
+      }, handleError),
+      backend.table<Payment>('payments').subscribe(workspace.id, change => {
+        setPayments(rows => withPending('payments', applyRealtimeChange(rows, change)));
+        setReceivablesRevision(revision => revision + 1);
+      }, handleError),
+      backend.revenues.subscribe(workspace.id, change => {
+        setRevenues(rows => withPending('revenues', applyRealtimeChange(rows, change)));
+        setRevenuesRevision(revision => revision + 1);
+      }, handleError),
+      backend.table<Payable>('payables').subscribe(workspace.id, change => {
+        setPayables(rows => withPending('payables', applyRealtimeChange(rows, change)));
+      }, handleError),
+      backend.table<PayablePayment>('payable_payments').subscribe(workspace.id, change => {
+        setPayablePayments(rows => withPending('payable_payments', applyRealtimeChange(rows, change)));
+      }, handleError),
+      backend.table<Expense>('expenses').subscribe(workspace.id, change => {
+        setExpenses(rows => withPending('expenses', applyRealtimeChange(rows, change)));
+      }, handleError),
+    ];
+
+    return () => {
+        unsubscribes.forEach(unsubscribe => unsubscribe());
+    };
+  }, [fetchCustomers, fetchReceivables, fetchPayments, fetchRevenues, fetchPayables, fetchPayablePayments, fetchExpenses]);
+
+
+  // Cache writes start once a table has loaded, so the empty initial state never
+  // overwrites a good cached copy.
+  useEffect(() => {
+    const tables: [CachedTable, { id: string }[]][] = [
+      ['receivables', receivables], ['revenues', revenues], ['payments', payments], ['customers', customers],
+      ['payables', payables], ['payable_payments', payablePayments], ['expenses', expenses],
+    ];
+    const timer = setTimeout(async () => {
+      const db = await offlineDb;
+      if (!db) return;
+      tables
+        .filter(([table]) => cachedTables.current.has(table))
+        .forEach(([table, rows]) => writeCachedRows(db, table, rows).catch(error => console.error(`Error caching ${table}:`, error)));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [offlineDb, receivables, revenues, payments, customers, payables, payablePayments, expenses]);
+
+  // --- OFFLINE SYNC ---
+  const ledgerRows = (table: CachedTable): { id: string }[] => ({
+    receivables, revenues, payments, customers, payables, payable_payments: payablePayments, expenses,
+  })[table];
+
+  // Our own writes count as changes too: the local backend sends no realtime events to
+  // the tab that wrote.
+  const markChanged = (table: CachedTable) => {
+    if (table === 'receivables' || table === 'payments') setReceivablesRevision(revision => revision + 1);
+    if (table === 'revenues') setRevenuesRevision(revision => revision + 1);
+  };
+
+  const setTableRows = (table: CachedTable, update: <T extends { id: string }>(rows: T[]) => T[]) => {
+    markChanged(table);
+    if (table === 'receivables') setReceivables(update);
+    if (table === 'revenues') setRevenues(update);
+    if (table === 'payments') setPayments(update);
+    if (table === 'customers') setCustomers(update);
+    if (table === 'payables') setPayables(update);
+    if (table === 'payable_payments') setPayablePayments(update);
+    if (table === 'expenses') setExpenses(update);
+  };
+
+  const storeQueueEntry = async (mutation: QueuedMutation) => {
+    const db = await offlineDb;
+    if (db) await putQueueEntries(db, [mutation]);
+    setSyncQueue(queue => queue.some(m => m.id === mutation.id)
+      ? queue.map(m => m.id === mutation.id ? mutation : m)
+      : [...queue, mutation]);
+  };
+
+  const dropQueueEntry = async (id: string) => {
+    const db = await offlineDb;
+    if (db) await deleteQueueEntries(db, [id]);
+    setSyncQueue(queue => queue.filter(m => m.id !== id));
+  };
+
+  const applySynced = (mutation: QueuedMutation, rows: { [key: string]: any }[]) => {
+    setTableRows(mutation.table, existing => withPending(mutation.table, mutation.op === 'delete'
+      ? removeRows(existing, [mutation.rowId])
+      : upsertRows(existing, rows as typeof existing)));
+  };
+
+  // Writes go straight to the server when possible. They are queued instead when the
+  // device is offline, the server cannot be reached or earlier changes are still waiting
+  // (see mustWaitInQueue), so the server always sees them in the order they were made.
+  // The database logs each one in the activity log. Returns false only when the server
+  // rejected the write.
+  const runMutation = async (input: MutationInput) => {
+    // Entries dated inside a closed period stay as they were closed, whichever side of
+    // the change the date is on.
+    const current = input.op === 'insert' ? null : ledgerRows(input.table).find(row => row.id === input.rowId) ?? null;
+    const after = input.op === 'delete' ? null : { ...current, ...input.values };
+    const locked = lockedChange(input.table, current, after, booksLockedThrough);
+    if (locked) {
+        alert(lockedMessage(locked));
+        return false;
+    }
+    const mutation = createMutation(input);
+    if (navigator.onLine && !mustWaitInQueue(syncQueueRef.current, mutation)) {
+      const result = await sendMutation(backend, mutation, false);
+      if (result.status === 'synced') {
+          applySynced(mutation, result.rows);
+          return true;
+      }
+      if (result.status === 'rejected') {
+          alert(result.message);
+          return false;
+      }
+    }
+    await storeQueueEntry(mutation);
+    setTableRows(mutation.table, rows => applyMutation(rows, mutation));
+    if (navigator.onLine) syncNow();
+    return true;
+  };
+
+  const isSyncingRef = useRef(false);
+  const nextPending = () => syncQueueRef.current.find(m => m.status === 'pending');
+  // Failed attempts in a row while the device was online, and the timer for the next one.
+  const failedSyncs = useRef(0);
+  const retryTimer = useRef<number | undefined>(undefined);
+  const syncNow = useCallback(async () => {
+    if (isSyncingRef.current || !navigator.onLine) return;
+    isSyncingRef.current = true;
+    setSyncing(true);
+    window.clearTimeout(retryTimer.current);
+    try {
+      // Read from the ref each time, so writes queued while this runs go out in the same pass.
+      for (let mutation = nextPending(); mutation; mutation = nextPending()) {
+        const result = await sendMutation(backend, mutation, true);
+        if (result.status === 'offline') {
+            if (navigator.onLine) {
+                failedSyncs.current += 1;
+                retryTimer.current = window.setTimeout(syncNow, retryDelay(failedSyncs.current));
+            }
+            break;
+        }
+        failedSyncs.current = 0;
+        if (result.status === 'synced') {
+            await dropQueueEntry(mutation.id);
+            applySynced(mutation, result.rows);
+        } else {
+            // Anything the server refuses is parked for the user instead of blocking the rest of the queue.
+            const conflict = result.status === 'conflict'
+              ? result.conflict
+              : { reason: result.message, server: null, fields: [], retryable: true };
+            await storeQueueEntry({ ...mutation, status: 'conflict', conflict, force: false });
+        }
+      }
+    } finally {
+      isSyncingRef.current = false;
+      setSyncing(false);
+    }
+  }, [offlineDb]);
+
+  const handleResolveConflict = async (id: string, keep: 'mine' | 'server') => {
+    const mutation = syncQueueRef.current.find(m => m.id === id);
+    if (!mutation) return;
+    if (keep === 'mine') {
+      await storeQueueEntry({ ...mutation, status: 'pending', conflict: undefined, force: true });
+      syncNow();
+      return;
+    }
+    await dropQueueEntry(id);
+    // Re-read the row so the local copy matches the server again.
+    const { data, error } = await backend.table<{ id: string }>(mutation.table).find({ where: { id: mutation.rowId } });
+    if (error) console.error('Error refreshing row after conflict:', error);
+    else setTableRows(mutation.table, rows => withPending(mutation.table, data ? upsertRows(rows, [data as typeof rows[number]]) : removeRows(rows, [mutation.rowId])));
+  };
+
+  useEffect(() => {
+    const goOnline = () => {
+      setOnline(true);
+      syncNow();
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    queueLoaded.then(syncNow);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+      window.clearTimeout(retryTimer.current);
+    };
+  }, [syncNow, queueLoaded]);
+
+  // --- HANDLER FUNCTIONS ---
+  const handleAddReceivable = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const receivable = {
+      id: crypto.randomUUID(),
+      customer_id: (formData.get('customerId') as string) || null,
+      description: formData.get('description') as string,
+      currency: formData.get('currency') as string,
+      total_amount: parseFloat(formData.get('totalAmount') as string),
+      paid_amount: 0,
+      issue_date: formData.get('issueDate') as string,
+      due_date: formData.get('dueDate') as string,
+      ...categoryValues(formData),
+      late_fee_rule: lateFeeRuleFromForm(formData),
+      deleted_at: null,
+      workspace_id: workspace.id,
+      user_id: session.user.id
+    };
+
+    const saved = await runMutation({
+      table: 'receivables', op: 'insert', rowId: receivable.id, values: receivable, base: null,
+      label: `Tambah piutang "${receivable.description}"`,
+    });
+    if (saved) setReceivableModalOpen(false);
+  };
+
+  const handleAddRevenue = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const revenue = {
+        id: crypto.randomUUID(),
+        description: formData.get('description') as string,
+        currency: formData.get('currency') as string,
+        amount: parseFloat(formData.get('amount') as string),
+        date: formData.get('date') as string,
+        ...categoryValues(formData),
+        deleted_at: null,
+        workspace_id: workspace.id,
+        user_id: session.user.id
+    };
+
+    const saved = await runMutation({
+      table: 'revenues', op: 'insert', rowId: revenue.id, values: revenue, base: null,
+      label: `Tambah pendapatan "${revenue.description}"`,
+    });
+    if (saved) setRevenueModalOpen(false);
+  };
+  
+  const handleImport = async (target: ImportTarget, records: ImportRecord[]) => {
+    const rows = records.map(record => target === 'receivables'
+      ? { ...record, currency: record.currency ?? baseCurrency, paid_amount: 0, workspace_id: workspace.id, user_id: session.user.id }
+      : { ...record, currency: record.currency ?? baseCurrency, workspace_id: workspace.id, user_id: session.user.id });
+    // A single insert keeps the import all-or-nothing, which the offline queue cannot promise.
+    if (!navigator.onLine) {
+        alert('Impor membutuhkan koneksi internet.');
+        return false;
+    }
+    const locked = rows.map(row => lockedChange(target, null, row, booksLockedThrough)).find(date => date !== null);
+    if (locked) {
+        alert(lockedMessage(locked));
+        return false;
+    }
+    const { data, error } = target === 'receivables'
+      ? await backend.receivables.insert(rows, { returning: true })
+      : await backend.revenues.insert(rows, { returning: true });
+
+    if (error) {
+        alert(error.message);
+        return false;
+    }
+    if (target === 'receivables') setReceivables(existing => upsertRows(existing, data as Receivable[]));
+    else setRevenues(existing => upsertRows(existing, data as Revenue[]));
+    markChanged(target);
+
+    alert(`${rows.length} baris berhasil diimpor.`);
+    return true;
+  };
+
+  // Records a payment and, when asked, posts it as revenue. Returns the payment's id, or
+  // null when it could not be saved.
+  const recordPayment = async (
+    receivable: Receivable,
+    fields: { amount: number; paid_at: string; method: PaymentMethod; note: string | null },
+    postToRevenue: boolean,
+  ) => {
+    if (!(fields.amount > 0)) {
+        alert(INVALID_PAYMENT_AMOUNT);
+        return null;
+    }
+    // Ids are generated here so a payment recorded offline can be referenced by its
+    // revenue before either has reached the server.
+    const payment = {
+      id: crypto.randomUUID(),
+      receivable_id: receivable.id,
+      currency: receivable.currency,
+      ...fields,
+      voided_at: null,
+      workspace_id: workspace.id,
+      user_id: session.user.id
+    };
+
+    const saved = await runMutation({
+      table: 'payments', op: 'insert', rowId: payment.id, values: payment, base: null,
+      label: `Pembayaran ${formatCurrency(payment.amount, payment.currency)} untuk "${receivable.description}"`,
+    });
+    if (!saved) return null;
+
+    if (postToRevenue) {
+      const revenue = {
+        id: crypto.randomUUID(),
+        description: `Pembayaran piutang: ${receivable.description}`,
+        currency: payment.currency,
+        amount: payment.amount,
+        date: payment.paid_at,
+        category_id: receivable.category_id,
+        tags: receivable.tags,
+        receivable_id: receivable.id,
+        payment_id: payment.id,
+        workspace_id: workspace.id,
+        user_id: session.user.id
+      };
+      const posted = await runMutation({
+        table: 'revenues', op: 'insert', rowId: revenue.id, values: revenue, base: null,
+        label: `Catat pendapatan "${revenue.description}"`,
+      });
+      if (!posted) alert('Pembayaran tersimpan, tetapi gagal dicatat sebagai pendapatan.');
+    }
+    return payment.id;
+  };
+
+  const handleRecordPayment = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!currentReceivable) return;
+    
+    const formData = new FormData(e.currentTarget);
+    const postToRevenue = formData.get('postToRevenue') === 'on';
+    const paymentId = await recordPayment(currentReceivable, {
+      amount: parseFloat(formData.get('paymentAmount') as string),
+      paid_at: formData.get('paidAt') as string,
+      method: formData.get('method') as PaymentMethod,
+      note: (formData.get('note') as string) || null,
+    }, postToRevenue);
+    if (!paymentId) return;
+
+    setAutoPostPayments(postToRevenue);
+    localStorage.setItem(autoPostPreferenceKey(session.user.id), String(postToRevenue));
+
+    setPaymentModalOpen(false);
+    setCurrentReceivable(null);
+  };
+
+  // Bank lines are a settings-like list kept on the server only: importing them needs a
+  // connection, and overlapping statements are deduplicated by the line's fingerprint.
+  const handleImportBankLines = async (currency: string, lines: BankStatementLine[]) => {
+    if (!navigator.onLine) {
+        alert('Impor membutuhkan koneksi internet.');
+        return false;
+    }
+    const rows = lines.map(line => ({
+      date: line.date,
+      description: line.description,
+      reference: line.reference,
+      currency,
+      amount: line.amount,
+      fingerprint: line.fingerprint,
+      status: 'unmatched',
+      receivable_id: null,
+      payment_id: null,
+      workspace_id: workspace.id,
+      user_id: session.user.id,
+    }));
+    const { data, error } = await backend.table<BankLine>('bank_lines')
+      .upsert(rows, { onConflict: 'workspace_id,fingerprint', ignoreDuplicates: true, returning: true });
+
+    if (error) {
+        alert(error.message);
+        return false;
+    }
+    const duplicates = rows.length - data.length;
+    alert(`${data.length} baris mutasi ditambahkan${duplicates > 0 ? `, ${duplicates} sudah pernah diimpor` : ''}.`);
+    fetchBankLines();
+    return true;
+  };
+
+  const handleConfirmMatches = async (matches: { line: BankLine; receivableId: string }[]) => {
+    if (!navigator.onLine) {
+        alert('Pencocokan membutuhkan koneksi internet.');
+        return;
+    }
+    let recorded = 0;
+    for (const { line, receivableId } of matches) {
+      const receivable = receivables.find(r => r.id === receivableId);
+      if (!receivable) continue;
+      const paymentId = await recordPayment(receivable, {
+        amount: line.amount,
+        paid_at: line.date,
+        method: 'transfer',
+        note: `Mutasi bank: ${line.description}${line.reference ? ` (${line.reference})` : ''}`,
+      }, autoPostPayments);
+      if (!paymentId) break;
+
+      const { error } = await backend.table('bank_lines').update(
+        { id: line.id, workspace_id: workspace.id },
+        { status: 'matched', receivable_id: receivable.id, payment_id: paymentId },
+      );
+      if (error) {
+          alert(`Pembayaran tercatat, tetapi mutasi gagal ditandai: ${error.message}`);
+          break;
+      }
+      recorded++;
+    }
+    fetchBankLines();
+    if (recorded > 0) alert(`${recorded} pembayaran dicatat dari mutasi bank.`);
+  };
+
+  const handleCreateShareLink = async (days: number) => {
+    if (!sharingTarget) return;
+    const { error } = await backend.table('share_links').insert({
+      token: generateShareToken(),
+      scope: sharingTarget.scope,
+      receivable_id: sharingTarget.scope === 'receivable' ? sharingTarget.id : null,
+      customer_id: sharingTarget.scope === 'customer' ? sharingTarget.id : null,
+      expires_at: shareLinkExpiry(days),
+      revoked_at: null,
+      workspace_id: workspace.id,
+      user_id: session.user.id,
+    });
+    if (error) alert(error.message);
+    else fetchShareLinks();
+  };
+
+  const handleClosePeriod = async (kind: PeriodKind, range: PeriodRange, snapshot: PeriodSnapshot) => {
+    const problem = closingProblem(range, booksLockedThrough, todayISO());
+    if (problem) {
+        alert(problem);
+        return false;
+    }
+    if (!navigator.onLine) {
+        alert('Tutup buku membutuhkan koneksi internet.');
+        return false;
+    }
+    // Changes made offline could otherwise land in the period after it was closed.
+    if (syncQueueRef.current.length > 0) {
+        alert('Masih ada perubahan yang belum tersinkron. Sinkronkan dulu sebelum menutup buku.');
+        return false;
+    }
+    const close = {
+      id: crypto.randomUUID(),
+      kind,
+      period_start: range.from,
+      period_end: range.to,
+      snapshot,
+      closed_at: new Date().toISOString(),
+      closed_by_email: session.user.email ?? '',
+      reopened_at: null,
+      reopened_by_email: null,
+      reopen_reason: null,
+      workspace_id: workspace.id,
+      user_id: session.user.id,
+    };
+    const period = describePeriod(close);
+    if (!window.confirm(`Tutup buku ${period}? Piutang, pembayaran, pendapatan, hutang dan biaya sampai ${formatDate(range.to)} tidak dapat diubah lagi.`)) return false;
+
+    const { error } = await backend.table('period_closes').insert(close);
+    if (error) {
+        alert(error.message);
+        return false;
+    }
+    fetchPeriodCloses();
+    return true;
+  };
+
+  const handleReopenPeriod = async (close: PeriodClose) => {
+    const period = describePeriod(close);
+    const reason = window.prompt(`Buka kembali buku ${period}? Tuliskan alasannya; alasan ini dicatat di log aktivitas.`)?.trim();
+    if (!reason) return;
+    if (!navigator.onLine) {
+        alert('Membuka kembali buku membutuhkan koneksi internet.');
+        return;
+    }
+    const values = { reopened_at: new Date().toISOString(), reopened_by_email: session.user.email ?? '', reopen_reason: reason };
+    const { error } = await backend.table('period_closes').update({ id: close.id, workspace_id: workspace.id }, values);
+    if (error) {
+        alert(error.message);
+        return;
+    }
+    fetchPeriodCloses();
+  };
+
+  // Adjusting entries correct a closed period from an open one: a revenue or expense,
+  // negative when it takes an amount back, with the reason it was booked.
+  const handleAddAdjustment = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!adjustmentTable) return;
+    const formData = new FormData(e.currentTarget);
+    const amount = parseFloat(formData.get('amount') as string);
+    const entry = {
+        id: crypto.randomUUID(),
+        description: (formData.get('description') as string).trim(),
+        currency: formData.get('currency') as string,
+        amount: formData.get('direction') === 'decrease' ? -amount : amount,
+        date: formData.get('date') as string,
+        adjustment_reason: (formData.get('reason') as string).trim(),
+        adjusts_id: (formData.get('adjustsId') as string) || null,
+        workspace_id: workspace.id,
+        user_id: session.user.id
+    };
+
+    const saved = adjustmentTable === 'revenues'
+      ? await runMutation({
+          table: 'revenues', op: 'insert', rowId: entry.id, values: { ...entry, ...categoryValues(formData), deleted_at: null }, base: null,
+          label: `Penyesuaian pendapatan "${entry.description}"`,
+        })
+      : await runMutation({
+          table: 'expenses', op: 'insert', rowId: entry.id, values: entry, base: null,
+          label: `Penyesuaian biaya "${entry.description}"`,
+        });
+    if (saved) setAdjustmentTable(null);
+  };
+
+  const handleRevokeShareLink = async (link: ShareLink) => {
+    if (window.confirm('Cabut tautan ini? Debitur tidak dapat membukanya lagi.')) {
+      const { error } = await backend.table('share_links').update(
+        { id: link.id, workspace_id: workspace.id }, { revoked_at: new Date().toISOString() },
+      );
+      if (error) alert(error.message);
+      else fetchShareLinks();
+    }
+  };
+
+  const handleIgnoreBankLine = async (line: BankLine, ignore: boolean) => {
+    const { error } = await backend.table('bank_lines').update(
+      { id: line.id, workspace_id: workspace.id },
+      { status: ignore ? 'ignored' : 'unmatched' },
+    );
+    if (error) alert(error.message);
+    else fetchBankLines();
+  };
+
+  const handleUpdatePayment = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!editingPayment) return;
+
+    const formData = new FormData(e.currentTarget);
+    const values = {
+        amount: parseFloat(formData.get('paymentAmount') as string),
+        paid_at: formData.get('paidAt') as string,
+        method: formData.get('method') as PaymentMethod,
+        note: (formData.get('note') as string) || null,
+    };
+    if (!(values.amount > 0)) {
+        alert(INVALID_PAYMENT_AMOUNT);
+        return;
+    }
+    const description = receivableDescriptions.get(editingPayment.receivable_id) ?? '';
+
+    const saved = await runMutation({
+      table: 'payments', op: 'update', rowId: editingPayment.id, values,
+      base: pickColumns(editingPayment, Object.keys(values)),
+      label: `Ubah pembayaran untuk "${description}"`,
+    });
+    if (!saved) return;
+
+    // Keep the posted revenue (if any) in step with the payment it came from.
+    for (const revenue of revenues.filter(r => r.payment_id === editingPayment.id)) {
+      const revenueValues = { amount: values.amount, date: values.paid_at };
+      await runMutation({
+        table: 'revenues', op: 'update', rowId: revenue.id, values: revenueValues,
+        base: pickColumns(revenue, Object.keys(revenueValues)),
+        label: `Sesuaikan pendapatan "${revenue.description}"`,
+      });
+    }
+
+    setEditingPayment(null);
+  };
+
+  const handleVoidPayment = async (id: string) => {
+    const payment = payments.find(p => p.id === id);
+    if (!payment) return;
+    if (window.confirm('Batalkan pembayaran ini? Pembayaran yang dibatalkan tidak lagi mengurangi sisa piutang.')) {
+      const saved = await runMutation({
+        table: 'payments', op: 'update', rowId: id, values: { voided_at: new Date().toISOString() },
+        base: pickColumns(payment, ['voided_at']),
+        label: `Batalkan pembayaran ${formatCurrency(payment.amount, payment.currency)} untuk "${receivableDescriptions.get(payment.receivable_id) ?? ''}"`,
+      });
+      if (!saved) return;
+
+      // A voided payment was never received, so its posted revenue goes away with it.
+      for (const revenue of revenues.filter(r => r.payment_id === id)) {
+        await runMutation({
+          table: 'revenues', op: 'delete', rowId: revenue.id, values: {}, base: pickColumns(revenue, ['amount', 'date']),
+          label: `Hapus pendapatan "${revenue.description}"`,
+        });
+      }
+
+      // The bank line it was matched from goes back to the reconciliation queue.
+      if (bankLines.some(line => line.payment_id === id)) {
+        const { error } = await backend.table('bank_lines').update(
+          { payment_id: id, workspace_id: workspace.id },
+          { status: 'unmatched', receivable_id: null, payment_id: null },
+        );
+        if (error) console.error('Error releasing bank line:', error);
+        fetchBankLines();
+      }
+    }
+  };
+
+  // Deleting only moves the row to the trash, so it is undone from the toast rather
+  // than confirmed up front.
+  const handleDeleteReceivable = async (id: string) => {
+    const receivable = receivables.find(r => r.id === id);
+    if (!receivable) return;
+    const deletedAt = new Date().toISOString();
+    const trashed = await runMutation({
+      table: 'receivables', op: 'update', rowId: id, values: { deleted_at: deletedAt },
+      base: pickColumns(receivable, ['deleted_at']),
+      label: `Hapus piutang "${receivable.description}"`,
+    });
+    if (trashed) showUndoToast('Piutang dipindahkan ke Sampah.', () => handleRestore('receivables', { ...receivable, deleted_at: deletedAt }));
+  };
+
+  const handleDeleteRevenue = async (id: string) => {
+    const revenue = revenues.find(r => r.id === id);
+    if (!revenue) return;
+    const deletedAt = new Date().toISOString();
+    const trashed = await runMutation({
+      table: 'revenues', op: 'update', rowId: id, values: { deleted_at: deletedAt },
+      base: pickColumns(revenue, ['deleted_at']),
+      label: `Hapus pendapatan "${revenue.description}"`,
+    });
+    if (trashed) showUndoToast('Pendapatan dipindahkan ke Sampah.', () => handleRestore('revenues', { ...revenue, deleted_at: deletedAt }));
+  };
+
+  const handleRestore = async (table: 'receivables' | 'revenues', row: Receivable | Revenue) => {
+    setUndoToast(null);
+    await runMutation({
+      table, op: 'update', rowId: row.id, values: { deleted_at: null }, base: pickColumns(row, ['deleted_at']),
+      label: `Pulihkan ${table === 'receivables' ? 'piutang' : 'pendapatan'} "${row.description}"`,
+    });
+  };
+
+  // Permanent removal, from the trash view or the retention purge; `silent` skips the confirmation.
+  const handlePurge = async (table: 'receivables' | 'revenues', row: Receivable | Revenue, silent = false) => {
+    if (!silent && !window.confirm('Hapus permanen? Data yang dihapus permanen tidak dapat dipulihkan.')) return;
+    await runMutation({
+      table, op: 'delete', rowId: row.id, values: {}, base: pickColumns(row, ['deleted_at']),
+      label: `Hapus permanen ${table === 'receivables' ? 'piutang' : 'pendapatan'} "${row.description}"`,
+    });
+  };
+
+  const showUndoToast = (message: string, undo: () => void) => setUndoToast({ id: Date.now(), message, undo });
+
+  const handleSaveRetention = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const days = parseInt(new FormData(e.currentTarget).get('retentionDays') as string, 10);
+    const { error } = await backend.table('workspaces').update({ id: workspace.id }, { trash_retention_days: days });
+    if (error) {
+        alert(error.message);
+    } else {
+        setTrashRetentionDays(days);
+        alert('Masa simpan Sampah diperbarui.');
+    }
+  };
+
+  const handleSaveLateFeeDefault = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const rule = lateFeeRuleFromForm(new FormData(e.currentTarget));
+    const value = rule && rule.kind !== 'none' ? rule : null;
+    const { error } = await backend.table('workspaces').update({ id: workspace.id }, { late_fee_rule: value });
+    if (error) {
+        alert(error.message);
+    } else {
+        setDefaultLateFeeRule(value);
+        alert('Aturan denda default diperbarui.');
+    }
+  };
+
+  const handleSaveBusinessProfile = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const profile: BusinessProfile = {
+      business_name: (formData.get('businessName') as string).trim(),
+      address: (formData.get('address') as string) || null,
+      city: (formData.get('city') as string) || null,
+      phone: (formData.get('phone') as string) || null,
+      email: (formData.get('email') as string) || null,
+      payment_instructions: (formData.get('paymentInstructions') as string) || null,
+      signatory: (formData.get('signatory') as string) || null,
+    };
+    const { error } = await backend
+      .table('business_profiles')
+      .upsert({ ...profile, workspace_id: workspace.id, user_id: session.user.id }, { onConflict: 'workspace_id' });
+
+    if (error) {
+        alert(error.message);
+    } else {
+        setBusinessProfile(profile);
+        setSettingsModalOpen(false);
+    }
+  };
+
+  // Reprints keep their number; see DocumentRepository.
+  const issueDocument = async (type: DocumentType, receivableId: string, paymentId: string | null) => {
+    const { data, error } = await backend.documents.issue(workspace.id, type, receivableId, paymentId, todayISO());
+    if (error) throw error;
+    return data;
+  };
+
+  const handlePrintInvoice = async (receivable: Receivable) => {
+    const printWindow = openPrintWindow();
+    try {
+      const issued = await issueDocument('invoice', receivable.id, null);
+      printHtml(renderInvoiceHtml({
+        number: issued.number,
+        issuedAt: issued.issued_at,
+        profile: businessProfile,
+        customer: customers.find(c => c.id === receivable.customer_id) ?? null,
+        receivable,
+        balance: balanceOf(receivable, todayISO()),
+      }), printWindow);
+    } catch (error: any) {
+      printWindow?.close();
+      alert(error.message);
+    }
+  };
+
+  const handlePrintReceipt = async (receivable: Receivable, payment: Payment) => {
+    const printWindow = openPrintWindow();
+    try {
+      const issued = await issueDocument('receipt', receivable.id, payment.id);
+      printHtml(renderReceiptHtml({
+        number: issued.number,
+        profile: businessProfile,
+        customer: customers.find(c => c.id === receivable.customer_id) ?? null,
+        receivable,
+        payment,
+      }), printWindow);
+    } catch (error: any) {
+      printWindow?.close();
+      alert(error.message);
+    }
+  };
+
+  const handleAddReminderRule = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const days = parseInt(formData.get('days') as string, 10);
+    const timing = formData.get('timing') as 'before' | 'on' | 'after';
+    const repeat = parseInt(formData.get('repeatEveryDays') as string, 10);
+
+    const { error } = await backend.table('reminder_rules').insert({
+      offset_days: timing === 'on' ? 0 : timing === 'before' ? -days : days,
+      repeat_every_days: repeat > 0 ? repeat : null,
+      workspace_id: workspace.id,
+      user_id: session.user.id
+    });
+
+    if (error) {
+        alert(error.message);
+    } else {
+        form.reset();
+        fetchReminderRules();
+    }
+  };
+
+  const handleDeleteReminderRule = async (id: string) => {
+    const { error } = await backend.table('reminder_rules').remove({ id });
+    if (error) {
+        alert(error.message);
+    } else {
+        fetchReminderRules();
+    }
+  };
+
+  const handleSaveBaseCurrency = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const currency = new FormData(e.currentTarget).get('baseCurrency') as string;
+    const { error } = await backend.table('workspaces').update({ id: workspace.id }, { base_currency: currency });
+    if (error) {
+        alert(error.message);
+    } else {
+        setBaseCurrency(currency);
+        alert('Mata uang dasar diperbarui.');
+    }
+  };
+
+  // A second rate for the same currency and day replaces the first.
+  const handleAddExchangeRate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const { error } = await backend.table('exchange_rates').upsert({
+      currency: formData.get('currency') as string,
+      base_currency: baseCurrency,
+      rate_date: formData.get('rateDate') as string,
+      rate: parseFloat(formData.get('rate') as string),
+      workspace_id: workspace.id,
+      user_id: session.user.id
+    }, { onConflict: 'workspace_id,currency,base_currency,rate_date' });
+
+    if (error) {
+        alert(error.message);
+    } else {
+        form.reset();
+        fetchExchangeRates();
+    }
+  };
+
+  const handleDeleteExchangeRate = async (id: string) => {
+    const { error } = await backend.table('exchange_rates').remove({ id });
+    if (error) {
+        alert(error.message);
+    } else {
+        fetchExchangeRates();
+    }
+  };
+
+  const handleSaveCategory = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const fields = {
+      name: (formData.get('name') as string).trim(),
+      account_code: (formData.get('accountCode') as string).trim() || null,
+    };
+    if (categories.some(c => c.id !== editingCategory?.id && c.name.toLocaleLowerCase('id') === fields.name.toLocaleLowerCase('id'))) {
+        alert(`Kategori "${fields.name}" sudah ada.`);
+        return;
+    }
+
+    const { error } = editingCategory
+      ? await backend.table('categories').update({ id: editingCategory.id }, fields)
+      : await backend.table('categories').insert({ ...fields, id: crypto.randomUUID(), workspace_id: workspace.id, user_id: session.user.id });
+
+    if (error) {
+        alert(error.message);
+    } else {
+        form.reset();
+        setEditingCategory(null);
+        fetchCategories();
+    }
+  };
+
+  const handleDeleteCategory = async (category: Category) => {
+    const inUse = receivables.filter(r => r.category_id === category.id).length + revenues.filter(r => r.category_id === category.id).length;
+    if (inUse > 0) {
+      alert(`Kategori "${category.name}" masih dipakai oleh ${inUse} transaksi (termasuk yang ada di Sampah). Ganti kategorinya terlebih dahulu.`);
+      return;
+    }
+    if (!window.confirm(`Hapus kategori "${category.name}"?`)) return;
+    const { error } = await backend.table('categories').remove({ id: category.id });
+    if (error) {
+        alert(error.message);
+    } else {
+        if (editingCategory?.id === category.id) setEditingCategory(null);
+        fetchCategories();
+    }
+  };
+
+  // Tags live on the rows, so renaming or removing one rewrites every row that carries it,
+  // trashed rows included; each rewrite is an ordinary, logged edit.
+  const rewriteTag = async (tag: string, rewrite: (tags: string[]) => string[], label: string) => {
+    const targets = [
+      ...receivables.filter(r => r.tags.some(t => sameTag(t, tag))).map(row => ({ table: 'receivables' as const, row })),
+      ...revenues.filter(r => r.tags.some(t => sameTag(t, tag))).map(row => ({ table: 'revenues' as const, row })),
+    ];
+    for (const { table, row } of targets) {
+      const saved = await runMutation({
+        table, op: 'update', rowId: row.id, values: { tags: rewrite(row.tags) },
+        base: pickColumns(row, ['tags']), label: `${label} pada "${row.description}"`,
+      });
+      if (!saved) return;
+    }
+  };
+
+  const handleRenameTag = (tag: string) => {
+    const next = window.prompt(`Ganti nama tag "${tag}" menjadi:`, tag)?.trim();
+    if (!next || next === tag) return;
+    if (next.includes(',')) {
+      alert('Nama tag tidak boleh mengandung koma.');
+      return;
+    }
+    rewriteTag(tag, tags => renameTag(tags, tag, next), `Ganti tag "${tag}" menjadi "${next}"`);
+  };
+
+  const handleDeleteTag = (tag: string, count: number) => {
+    if (!window.confirm(`Hapus tag "${tag}" dari ${count} transaksi?`)) return;
+    rewriteTag(tag, tags => removeTag(tags, tag), `Hapus tag "${tag}"`);
+  };
+
+  const handleSaveTemplate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    // The target cannot change once a template exists: its generated rows stay where they are.
+    const target = editingTemplate?.target ?? formData.get('target') as RecurringTemplate['target'];
+    const maxOccurrences = parseInt(formData.get('maxOccurrences') as string, 10);
+    const fields = {
+      target,
+      customer_id: target === 'receivable' ? (formData.get('customerId') as string) || null : null,
+      description: (formData.get('description') as string).trim(),
+      currency: formData.get('currency') as string,
+      amount: parseFloat(formData.get('amount') as string),
+      unit: formData.get('unit') as RecurrenceUnit,
+      interval: parseInt(formData.get('interval') as string, 10),
+      start_date: formData.get('startDate') as string,
+      end_date: (formData.get('endDate') as string) || null,
+      max_occurrences: maxOccurrences > 0 ? maxOccurrences : null,
+      due_after_days: parseInt(formData.get('dueAfterDays') as string, 10) || 0,
+    };
+    if (fields.end_date && fields.end_date < fields.start_date) {
+        alert('Tanggal selesai tidak boleh sebelum tanggal mulai.');
+        return;
+    }
+
+    const { error } = editingTemplate
+      ? await backend.table('recurring_templates').update({ id: editingTemplate.id }, fields)
+      : await backend.table('recurring_templates').insert({
+          ...fields, id: crypto.randomUUID(), overrides: [], generated_through: null, workspace_id: workspace.id, user_id: session.user.id,
+        });
+
+    if (error) {
+        alert(error.message);
+    } else {
+        setEditingTemplate(undefined);
+        fetchRecurringTemplates();
+    }
+  };
+
+  const handleDeleteTemplate = async (template: RecurringTemplate) => {
+    if (!window.confirm(`Hapus jadwal "${template.description}"? Piutang dan pendapatan yang sudah dibuat tetap tersimpan.`)) return;
+    const { error } = await backend.table('recurring_templates').remove({ id: template.id });
+    if (error) {
+        alert(error.message);
+    } else {
+        fetchRecurringTemplates();
+    }
+  };
+
+  const saveOverrides = async (template: RecurringTemplate, overrides: RecurringTemplate['overrides']) => {
+    const { error } = await backend.table('recurring_templates').update({ id: template.id }, { overrides });
+    if (error) {
+        alert(error.message);
+        return false;
+    }
+    fetchRecurringTemplates();
+    return true;
+  };
+
+  const handleSkipOccurrence = (occurrence: Occurrence, skip: boolean) => {
+    const { template, scheduled } = occurrence;
+    const existing = template.overrides.find(o => o.date === scheduled) ?? { date: scheduled, skip: false, moved_to: null, amount: null };
+    saveOverrides(template, withOverride(template, { ...existing, skip }));
+  };
+
+  const handleAdjustOccurrence = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!adjustingOccurrence) return;
+    const { template, scheduled } = adjustingOccurrence;
+    const formData = new FormData(e.currentTarget);
+    const date = formData.get('date') as string;
+    const amount = parseFloat(formData.get('amount') as string);
+
+    const saved = await saveOverrides(template, withOverride(template, {
+      date: scheduled,
+      skip: false,
+      moved_to: date === scheduled ? null : date,
+      amount: amount === template.amount ? null : amount,
+    }));
+    if (saved) setAdjustingOccurrence(null);
+  };
+
+  // Inserts the occurrences that have come due and moves the template's
+  // generated_through past them. Occurrences dated in a closed period are skipped.
+  const generateOccurrences = async (template: RecurringTemplate, ready: Occurrence[], generatedThrough: string | null) => {
+    const table = template.target === 'receivable' ? 'receivables' as const : 'revenues' as const;
+    const rows = ready
+      .map(occurrence => ({ ...occurrenceRow(occurrence), workspace_id: workspace.id, user_id: session.user.id }))
+      .filter(row => !lockedChange(table, null, row, booksLockedThrough));
+    if (rows.length > 0) {
+      const options = { onConflict: 'recurring_id,occurrence_date', ignoreDuplicates: true, returning: true };
+      const { data, error } = template.target === 'receivable'
+        ? await backend.receivables.upsert(rows, options)
+        : await backend.revenues.upsert(rows, options);
+      if (error) {
+        console.error('Error generating recurring entries:', error);
+        return;
+      }
+      if (template.target === 'receivable') setReceivables(existing => upsertRows(existing, data as Receivable[]));
+      else setRevenues(existing => upsertRows(existing, data as Revenue[]));
+      markChanged(table);
+
+    }
+
+    const { error } = await backend.table('recurring_templates').update({ id: template.id }, { generated_through: generatedThrough });
+    if (error) console.error('Error updating recurring template:', error);
+    else setRecurringTemplates(existing => existing.map(t => t.id === template.id ? { ...t, generated_through: generatedThrough } : t));
+  };
+
+  const handleDismissReminder = (id: string) => {
+    // Only ids of reminders that are still active are kept, so the list cannot grow forever.
+    const activeIds = new Set(reminders.map(r => r.id));
+    const next = [...dismissedReminders.filter(d => activeIds.has(d)), id];
+    setDismissedReminders(next);
+    localStorage.setItem(dismissedRemindersKey(session.user.id), JSON.stringify(next));
+  };
+
+  const handleSaveCustomer = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const fields = {
+      name: (formData.get('name') as string).trim(),
+      phone: (formData.get('phone') as string) || null,
+      email: (formData.get('email') as string) || null,
+      address: (formData.get('address') as string) || null,
+      notes: (formData.get('notes') as string) || null,
+    };
+
+    const id = editingCustomer?.id ?? crypto.randomUUID();
+    const saved = editingCustomer
+      ? await runMutation({
+          table: 'customers', op: 'update', rowId: id, values: fields,
+          base: pickColumns(editingCustomer, Object.keys(fields)), label: `Ubah pelanggan "${fields.name}"`,
+        })
+      : await runMutation({
+          table: 'customers', op: 'insert', rowId: id, values: { ...fields, id, workspace_id: workspace.id, user_id: session.user.id },
+          base: null, label: `Tambah pelanggan "${fields.name}"`,
+        });
+    if (saved) setEditingCustomer(undefined);
+  };
+
+  const handleDeleteCustomer = async (id: string) => {
+    if (receivables.some(r => r.customer_id === id)) {
+      alert('Pelanggan ini masih memiliki piutang (termasuk yang ada di Sampah). Pindahkan atau hapus permanen piutangnya terlebih dahulu.');
+      return;
+    }
+    const customer = customers.find(c => c.id === id);
+    if (!customer) return;
+    if (window.confirm('Apakah Anda yakin ingin menghapus pelanggan ini?')) {
+      await runMutation({
+        table: 'customers', op: 'delete', rowId: id, values: {}, base: pickColumns(customer, ['name', 'phone', 'email']),
+        label: `Hapus pelanggan "${customer.name}"`,
+      });
+    }
+  };
+
+  const handleOpenEditModal = (item: Receivable | Revenue, type: 'receivable' | 'revenue') => {
+    setEditingItem({ data: item, type });
+  };
+
+  const handleCloseEditModal = () => {
+    setEditingItem(null);
+  };
+  
+  const handleUpdateItem = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!editingItem) return;
+  
+    const formData = new FormData(e.currentTarget);
+  
+    if (editingItem.type === 'receivable') {
+      const values = {
+          customer_id: (formData.get('customerId') as string) || null,
+          description: formData.get('description') as string,
+          total_amount: parseFloat(formData.get('totalAmount') as string),
+          issue_date: (formData.get('issueDate') as string) || null,
+          due_date: formData.get('dueDate') as string,
+          ...categoryValues(formData),
+          late_fee_rule: lateFeeRuleFromForm(formData),
+      };
+      await runMutation({
+        table: 'receivables', op: 'update', rowId: editingItem.data.id, values,
+        base: pickColumns(editingItem.data, Object.keys(values)), label: `Ubah piutang "${values.description}"`,
+      });
+    } else { // 'revenue'
+      // A posted revenue stays in the currency of the payment it came from.
+      const values = {
+          description: formData.get('description') as string,
+          ...(formData.has('currency') ? { currency: formData.get('currency') as string } : {}),
+          amount: parseFloat(formData.get('amount') as string),
+          date: formData.get('date') as string,
+          ...categoryValues(formData),
+      };
+      await runMutation({
+        table: 'revenues', op: 'update', rowId: editingItem.data.id, values,
+        base: pickColumns(editingItem.data, Object.keys(values)), label: `Ubah pendapatan "${values.description}"`,
+      });
+    }
+    handleCloseEditModal();
+  };
+
+  const handleSavePayable = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const fields = {
+      supplier: (formData.get('supplier') as string).trim() || null,
+      description: (formData.get('description') as string).trim(),
+      total_amount: parseFloat(formData.get('totalAmount') as string),
+      issue_date: formData.get('issueDate') as string,
+      due_date: formData.get('dueDate') as string,
+    };
+
+    const id = editingPayable?.id ?? crypto.randomUUID();
+    // The currency is fixed once a payable exists, since its payments are in it.
+    const saved = editingPayable
+      ? await runMutation({
+          table: 'payables', op: 'update', rowId: id, values: fields,
+          base: pickColumns(editingPayable, Object.keys(fields)), label: `Ubah hutang "${fields.description}"`,
+        })
+      : await runMutation({
+          table: 'payables', op: 'insert', rowId: id, base: null, label: `Tambah hutang "${fields.description}"`,
+          values: { ...fields, id, currency: formData.get('currency') as string, workspace_id: workspace.id, user_id: session.user.id },
+        });
+    if (saved) setEditingPayable(undefined);
+  };
+
+  // Payables have no trash. One with payments keeps its ledger, voided payments included.
+  const handleDeletePayable = async (payable: Payable) => {
+    if (payablePayments.some(p => p.payable_id === payable.id)) {
+      alert('Hutang ini sudah memiliki riwayat pembayaran sehingga tidak dapat dihapus.');
+      return;
+    }
+    if (!window.confirm(`Hapus hutang "${payable.description}"?`)) return;
+    await runMutation({
+      table: 'payables', op: 'delete', rowId: payable.id, values: {}, base: pickColumns(payable, ['total_amount', 'due_date']),
+      label: `Hapus hutang "${payable.description}"`,
+    });
+  };
+
+  const handleRecordPayablePayment = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!payingPayable) return;
+
+    const formData = new FormData(e.currentTarget);
+    const postToExpenses = formData.get('postToExpenses') === 'on';
+    const payment = {
+      id: crypto.randomUUID(),
+      payable_id: payingPayable.id,
+      currency: payingPayable.currency,
+      amount: parseFloat(formData.get('paymentAmount') as string),
+      paid_at: formData.get('paidAt') as string,
+      method: formData.get('method') as PaymentMethod,
+      note: (formData.get('note') as string) || null,
+      voided_at: null,
+      workspace_id: workspace.id,
+      user_id: session.user.id
+    };
+
+    const saved = await runMutation({
+      table: 'payable_payments', op: 'insert', rowId: payment.id, values: payment, base: null,
+      label: `Pembayaran ${formatCurrency(payment.amount, payment.currency)} untuk hutang "${payingPayable.description}"`,
+    });
+    if (!saved) return;
+
+    setAutoPostExpenses(postToExpenses);
+    localStorage.setItem(autoPostExpensesKey(session.user.id), String(postToExpenses));
+
+    if (postToExpenses) {
+      const expense = {
+        id: crypto.randomUUID(),
+        description: `Pembayaran hutang: ${payingPayable.description}`,
+        currency: payment.currency,
+        amount: payment.amount,
+        date: payment.paid_at,
+        payable_id: payingPayable.id,
+        payable_payment_id: payment.id,
+        workspace_id: workspace.id,
+        user_id: session.user.id
+      };
+      const posted = await runMutation({
+        table: 'expenses', op: 'insert', rowId: expense.id, values: expense, base: null,
+        label: `Catat biaya "${expense.description}"`,
+      });
+      if (!posted) alert('Pembayaran tersimpan, tetapi gagal dicatat sebagai biaya.');
+    }
+
+    setPayingPayable(null);
+  };
+
+  const handleVoidPayablePayment = async (payment: PayablePayment) => {
+    if (!window.confirm('Batalkan pembayaran ini? Pembayaran yang dibatalkan tidak lagi mengurangi sisa hutang.')) return;
+    const saved = await runMutation({
+      table: 'payable_payments', op: 'update', rowId: payment.id, values: { voided_at: new Date().toISOString() },
+      base: pickColumns(payment, ['voided_at']),
+      label: `Batalkan pembayaran ${formatCurrency(payment.amount, payment.currency)} untuk hutang "${payableDescriptions.get(payment.payable_id) ?? ''}"`,
+    });
+    if (!saved) return;
+
+    // The money never left, so the expense posted from it goes away too.
+    for (const expense of expenses.filter(e => e.payable_payment_id === payment.id)) {
+      await runMutation({
+        table: 'expenses', op: 'delete', rowId: expense.id, values: {}, base: pickColumns(expense, ['amount', 'date']),
+        label: `Hapus biaya "${expense.description}"`,
+      });
+    }
+  };
+
+  const handleSaveExpense = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const fields = {
+      description: (formData.get('description') as string).trim(),
+      currency: formData.get('currency') as string,
+      amount: parseFloat(formData.get('amount') as string),
+      date: formData.get('date') as string,
+    };
+
+    const id = editingExpense?.id ?? crypto.randomUUID();
+    const saved = editingExpense
+      ? await runMutation({
+          table: 'expenses', op: 'update', rowId: id, values: fields,
+          base: pickColumns(editingExpense, Object.keys(fields)), label: `Ubah biaya "${fields.description}"`,
+        })
+      : await runMutation({
+          table: 'expenses', op: 'insert', rowId: id, base: null, label: `Tambah biaya "${fields.description}"`,
+          values: { ...fields, id, payable_id: null, payable_payment_id: null, workspace_id: workspace.id, user_id: session.user.id },
+        });
+    if (saved) setEditingExpense(undefined);
+  };
+
+  const handleDeleteExpense = async (expense: Expense) => {
+    if (!window.confirm(`Hapus biaya "${expense.description}"?`)) return;
+    await runMutation({
+      table: 'expenses', op: 'delete', rowId: expense.id, values: {}, base: pickColumns(expense, ['amount', 'date']),
+      label: `Hapus biaya "${expense.description}"`,
+    });
+  };
+
+  // --- DERIVED STATE / MEMOS ---
+  // paid_amount is never read from the receivables row: every balance comes from the
+  // non-voided payments in the ledger, with late fees settled first, so lists, totals,
+  // reports and documents can never drift apart.
+  const balanceOf = useMemo(() => createBalanceOf(payments, defaultLateFeeRule), [payments, defaultLateFeeRule]);
+
+  const paidByPayable = useMemo(() => {
+    const totals = new Map<string, number>();
+    payablePayments.forEach(p => {
+      if (p.voided_at) return;
+      totals.set(p.payable_id, (totals.get(p.payable_id) ?? 0) + p.amount);
+    });
+    return totals;
+  }, [payablePayments]);
+
+  // Trashed rows stay loaded for the trash view but drop out of every list and report.
+  const activeReceivables = useMemo(() => receivables.filter(r => !isTrashed(r)), [receivables]);
+  const trashedReceivables = useMemo(() => receivables.filter(isTrashed), [receivables]);
+  const activeRevenues = useMemo(() => revenues.filter(r => !isTrashed(r)), [revenues]);
+  const trashedRevenues = useMemo(() => revenues.filter(isTrashed), [revenues]);
+  const periodLedger = useMemo((): Ledger => ({
+    receivables: activeReceivables, payments, revenues: activeRevenues, payables, payablePayments, expenses,
+  }), [activeReceivables, payments, activeRevenues, payables, payablePayments, expenses]);
+  // What an adjusting entry can point at: the locked entries of its own kind, newest first.
+  const adjustableEntries = useMemo(() => (adjustmentTable === 'revenues' ? activeRevenues : adjustmentTable === 'expenses' ? expenses : [])
+    .filter(entry => isLocked(entry.date, booksLockedThrough))
+    .sort((a, b) => b.date.localeCompare(a.date) || a.description.localeCompare(b.description, 'id')),
+    [adjustmentTable, activeRevenues, expenses, booksLockedThrough]
+  );
+
+  const balances = useMemo(() => {
+    const today = todayISO();
+    return new Map(activeReceivables.map(r => [r.id, balanceOf(r, today)]));
+  }, [activeReceivables, balanceOf]);
+
+  // The fee column and the fee breakdowns only show when some receivable runs under a rule.
+  const chargesLateFees = (receivable: Receivable) => effectiveRule(receivable.late_fee_rule, defaultLateFeeRule).kind !== 'none';
+  const hasLateFees = useMemo(() => activeReceivables.some(chargesLateFees), [activeReceivables, defaultLateFeeRule]);
+
+  const currentReceivableBalance = currentReceivable ? balanceOf(currentReceivable, todayISO()) : null;
+  const currentReceivableFees = currentReceivable && chargesLateFees(currentReceivable) ? currentReceivableBalance : null;
+
+  const defaultLateFeeDescription = describeLateFeeRule(defaultLateFeeRule ?? NO_LATE_FEES, baseCurrency, formatCurrency);
+
+  const effectiveReminderRules = reminderRules.length > 0 ? reminderRules : DEFAULT_REMINDER_RULES;
+
+  const convert = useMemo(() => createConverter(exchangeRates, baseCurrency), [exchangeRates, baseCurrency]);
+
+  const hasForeignCurrency = useMemo(() =>
+    activeReceivables.some(r => r.currency !== baseCurrency) || activeRevenues.some(r => r.currency !== baseCurrency),
+    [activeReceivables, activeRevenues, baseCurrency]
+  );
+
+  const realizedFxTotal = useMemo(() =>
+    totalRealizedFx(convert, activeReceivables, payments),
+    [convert, activeReceivables, payments]
+  );
+
+  const allReminders = useMemo(() =>
+    evaluateReminders(activeReceivables, balanceOf, effectiveReminderRules, todayISO()),
+    [activeReceivables, balanceOf, effectiveReminderRules]
+  );
+
+  const reminders = useMemo(() =>
+    allReminders.filter(r => !dismissedReminders.includes(r.id)),
+    [allReminders, dismissedReminders]
+  );
+
+  const customerNames = useMemo(() =>
+    new Map(customers.map(c => [c.id, c.name])),
+    [customers]
+  );
+
+  const categoryNames = useMemo(() =>
+    new Map(categories.map(c => [c.id, c.name])),
+    [categories]
+  );
+
+  // Tags on trashed rows are offered too: they still show up once the row is restored.
+  const tagsInUse = useMemo(() => tagUsage([...receivables, ...revenues]), [receivables, revenues]);
+
+  const receivableDescriptions = useMemo(() =>
+    new Map(receivables.map(r => [r.id, r.description])),
+    [receivables]
+  );
+
+  // What each receivable still owes, fees included, for matching bank lines against.
+  const openReceivables = useMemo(() =>
+    activeReceivables
+      .map(r => ({
+        receivable: r,
+        outstanding: balances.get(r.id)!.outstanding,
+        customerName: r.customer_id ? customerNames.get(r.customer_id) ?? null : null,
+      }))
+      .filter(o => o.outstanding > 0),
+    [activeReceivables, balances, customerNames]
+  );
+
+  const payableDescriptions = useMemo(() =>
+    new Map(payables.map(p => [p.id, p.description])),
+    [payables]
+  );
+
+  const recordCurrencies = useMemo(() =>
+    new Map<string, string>([...receivables, ...revenues, ...payables, ...expenses].map(r => [r.id, r.currency])),
+    [receivables, revenues, payables, expenses]
+  );
+
+  // Outstanding balances, fees included, are in the base currency; receivables without a
+  // rate are left out.
+  const customerBalances = useMemo(() => {
+    const totals = new Map<string, { count: number; outstanding: number }>();
+    activeReceivables.forEach(r => {
+      if (!r.customer_id) return;
+      const entry = totals.get(r.customer_id) ?? { count: 0, outstanding: 0 };
+      entry.count += 1;
+      entry.outstanding += carryingAmount(convert, r, balances.get(r.id)!.outstanding) ?? 0;
+      totals.set(r.customer_id, entry);
+    });
+    return totals;
+  }, [activeReceivables, balances, convert]);
+
+  const statementCustomer = useMemo(() =>
+    customers.find(c => c.id === statementCustomerId) ?? null,
+    [customers, statementCustomerId]
+  );
+
+  const ledgerReceivable = useMemo(() =>
+    activeReceivables.find(r => r.id === ledgerReceivableId) ?? null,
+    [activeReceivables, ledgerReceivableId]
+  );
+
+  const ledgerBalance = ledgerReceivable ? balances.get(ledgerReceivable.id)! : null;
+  const ledgerFees = ledgerReceivable && chargesLateFees(ledgerReceivable) ? ledgerBalance : null;
+
+  const ledgerPayable = useMemo(() =>
+    payables.find(p => p.id === ledgerPayableId) ?? null,
+    [payables, ledgerPayableId]
+  );
+
+  const ledgerPayments = useMemo(() =>
+    payments.filter(p => p.receivable_id === ledgerReceivableId),
+    [payments, ledgerReceivableId]
+  );
+
+  const sortedReceivables = useMemo(() =>
+    filterReceivables(activeReceivables, balanceOf, receivableFilters, todayISO(), customerNames),
+    [activeReceivables, balanceOf, receivableFilters, customerNames]
+  );
+
+  const sortedRevenues = useMemo(() =>
+    filterRevenues(activeRevenues, revenueFilters),
+    [activeRevenues, revenueFilters]
+  );
+
+  const receivablesMissingRates = useMemo(() =>
+    missingRates(convert, sortedReceivables.map(r => ({ currency: r.currency, date: bookingDate(r) }))),
+    [convert, sortedReceivables]
+  );
+
+  const revenuesMissingRates = useMemo(() =>
+    missingRates(convert, sortedRevenues.map(r => ({ currency: r.currency, date: r.date }))),
+    [convert, sortedRevenues]
+  );
+
+  // Rows past the retention period are purged by whichever editor next opens the
+  // workspace. The ref keeps a row from being purged twice while its delete is in flight.
+  // Rows dated in a closed period wait in the trash until the period is reopened.
+  const purgedIds = useRef(new Set<string>());
+  useEffect(() => {
+    if (!can(role, 'manageEntries')) return;
+    const timer = setTimeout(() => {
+      if (!navigator.onLine) return;
+      const now = new Date();
+      const expired = [
+        ...expiredTrash<Receivable>(trashedReceivables, trashRetentionDays, now).map(row => ({ table: 'receivables' as const, row })),
+        ...expiredTrash<Revenue>(trashedRevenues, trashRetentionDays, now).map(row => ({ table: 'revenues' as const, row })),
+      ];
+      expired
+        .filter(({ table, row }) => !purgedIds.current.has(row.id) && !lockedChange(table, row, null, booksLockedThrough))
+        .forEach(({ table, row }) => {
+          purgedIds.current.add(row.id);
+          handlePurge(table, row, true);
+        });
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [trashedReceivables, trashedRevenues, trashRetentionDays, role, booksLockedThrough]);
+
+  // Occurrences that have come due are generated by whichever editor next opens the
+  // workspace. Generation needs the server, since the unique (recurring_id,
+  // occurrence_date) pair is what keeps two editors from creating the same entry.
+  const generatingTemplates = useRef(new Set<string>());
+  useEffect(() => {
+    if (!can(role, 'manageEntries') || !navigator.onLine) return;
+    const today = todayISO();
+    recurringTemplates
+      .filter(template => !generatingTemplates.current.has(template.id))
+      .forEach(async template => {
+        const { ready, generatedThrough } = pendingOccurrences(template, today);
+        if (ready.length === 0 && generatedThrough === template.generated_through) return;
+        generatingTemplates.current.add(template.id);
+        await generateOccurrences(template, ready, generatedThrough);
+        generatingTemplates.current.delete(template.id);
+      });
+  }, [recurringTemplates, role, isOnline]);
+
+  useEffect(() => {
+    if (!undoToast) return;
+    const timer = setTimeout(() => setUndoToast(null), 8000);
+    return () => clearTimeout(timer);
+  }, [undoToast]);
+
+  // Server rows are swapped for the local copy of the same row where there is one, so a
+  // write merged since the page arrived, or still waiting in the queue, shows at once.
+  const visibleReceivables = useMemo(() => {
+    if (!serverReceivablesPage) return pageSlice(sortedReceivables, receivablePage);
+    const local = new Map(activeReceivables.map(r => [r.id, r]));
+    return serverReceivablesPage.rows.map(r => local.get(r.id) ?? r);
+  }, [serverReceivablesPage, activeReceivables, sortedReceivables, receivablePage]);
+  const visibleRevenues = useMemo(() => {
+    if (!serverRevenuesPage) return pageSlice(sortedRevenues, revenuePage);
+    const local = new Map(activeRevenues.map(r => [r.id, r]));
+    return serverRevenuesPage.rows.map(r => local.get(r.id) ?? r);
+  }, [serverRevenuesPage, activeRevenues, sortedRevenues, revenuePage]);
+  const receivableCount = serverReceivablesPage?.total ?? sortedReceivables.length;
+  const revenueCount = serverRevenuesPage?.total ?? sortedRevenues.length;
+
+  const handleSortReceivables = (key: ReceivableFilters['sort']) =>
+    setReceivableFilters({ ...receivableFilters, ...toggleSort(receivableFilters, key) });
+
+  const handleSortRevenues = (key: RevenueFilters['sort']) =>
+    setRevenueFilters({ ...revenueFilters, ...toggleSort(revenueFilters, key) });
+
+
+  // Category name, account code and tags: the trailing columns of both exports.
+  const categoryCells = (row: Receivable | Revenue) => {
+    const category = categories.find(c => c.id === row.category_id);
+    return [categoryName(categoryNames, row.category_id), category?.account_code ?? null, formatTags(row.tags) || null];
+  };
+
+  const handleExportReceivables = (format: ExportFormat) => {
+    exportTable({
+      title: 'Daftar Piutang',
+      currency: baseCurrency,
+      summary: [
+        { label: 'Total Piutang Keseluruhan', value: receivablesSummary.total },
+        { label: 'Total Sisa Tagihan', value: receivablesSummary.remaining },
+      ],
+      columns: [
+        { header: 'No', type: 'number' },
+        { header: 'Pelanggan', type: 'text' },
+        { header: 'Keterangan', type: 'text' },
+        { header: 'Jatuh Tempo', type: 'date' },
+        { header: 'Mata Uang', type: 'text' },
+        { header: 'Total Piutang', type: 'amount', currencyColumn: 4 },
+        { header: 'Terbayar', type: 'amount', currencyColumn: 4 },
+        { header: 'Sisa Piutang', type: 'amount', currencyColumn: 4 },
+        { header: 'Denda', type: 'amount', currencyColumn: 4 },
+        { header: 'Status', type: 'text' },
+        { header: 'Kategori', type: 'text' },
+        { header: 'Kode Akun', type: 'text' },
+        { header: 'Tag', type: 'text' },
+      ],
+      rows: sortedReceivables.map((r, index) => {
+        const balance = balances.get(r.id)!;
+        return [
+          index + 1,
+          (r.customer_id && customerNames.get(r.customer_id)) || null,
+          r.description,
+          r.due_date,
+          r.currency,
+          r.total_amount,
+          balance.paid,
+          Math.max(0, balance.outstandingPrincipal),
+          balance.outstandingFees,
+          balance.outstanding <= 0 ? 'Lunas' : 'Belum Lunas',
+          ...categoryCells(r),
+        ];
+      }),
+    }, format, 'piutang');
+  };
+
+  const handleExportRevenues = (format: ExportFormat) => {
+    exportTable({
+      title: 'Daftar Pendapatan',
+      currency: baseCurrency,
+      summary: [{ label: 'Total Pendapatan', value: revenuesSummary.total }],
+      columns: [
+        { header: 'No', type: 'number' },
+        { header: 'Keterangan', type: 'text' },
+        { header: 'Tanggal', type: 'date' },
+        { header: 'Mata Uang', type: 'text' },
+        { header: 'Jumlah', type: 'amount', currencyColumn: 3 },
+        { header: 'Sumber', type: 'text' },
+        { header: 'Kategori', type: 'text' },
+        { header: 'Kode Akun', type: 'text' },
+        { header: 'Tag', type: 'text' },
+      ],
+      rows: sortedRevenues.map((r, index) => [
+        index + 1,
+        r.description,
+        r.date,
+        r.currency,
+        r.amount,
+        r.receivable_id ? 'Pembayaran Piutang' : r.adjustment_reason ? 'Penyesuaian' : 'Manual',
+        ...categoryCells(r),
+      ]),
+    }, format, 'pendapatan');
+  };
+
+  const today = todayISO();
+
+  // --- RENDER ---
+  return (
+    <div className="app-container">
+      <header>
+        <h1>PayLogix</h1>
+        <div className="user-info">
+            {workspaceSwitcher}
+            <SyncStatus
+              isOnline={isOnline}
+              isSyncing={isSyncing}
+              queue={syncQueue}
+              onSync={syncNow}
+              onResolve={handleResolveConflict}
+            />
+            <NotificationCenter
+              reminders={reminders}
+              customers={customers}
+              businessName={businessProfile.business_name}
+              onDismiss={handleDismissReminder}
+              onManageRules={can(role, 'manageSettings') ? () => setRulesModalOpen(true) : undefined}
+            />
+            <button className="link-button" title="Akun Saya" onClick={() => setAccountOpen(true)}>{session.user.email}</button>
+            {can(role, 'manageSettings') && (
+              <>
+                <button className="btn btn-secondary" onClick={() => setCategoriesModalOpen(true)}>Kategori</button>
+                <button className="btn btn-secondary" onClick={() => setRatesModalOpen(true)}>Kurs</button>
+                <button className="btn btn-secondary" onClick={() => setSettingsModalOpen(true)}>Pengaturan</button>
+              </>
+            )}
+            <button className="btn logout-btn" onClick={() => backend.auth.signOut()}>Logout</button>
+        </div>
+      </header>
+
+      <nav className="tabs">
+        <button className={`tab-button ${activeTab === 'receivables' ? 'active' : ''}`} onClick={() => setActiveTab('receivables')}>Piutang</button>
+        <button className={`tab-button ${activeTab === 'revenues' ? 'active' : ''}`} onClick={() => setActiveTab('revenues')}>Pendapatan</button>
+        <button className={`tab-button ${activeTab === 'payables' ? 'active' : ''}`} onClick={() => setActiveTab('payables')}>Hutang</button>
+        <button className={`tab-button ${activeTab === 'expenses' ? 'active' : ''}`} onClick={() => setActiveTab('expenses')}>Biaya</button>
+        <button className={`tab-button ${activeTab === 'reconciliation' ? 'active' : ''}`} onClick={() => setActiveTab('reconciliation')}>Rekonsiliasi</button>
+        <button className={`tab-button ${activeTab === 'customers' ? 'active' : ''}`} onClick={() => setActiveTab('customers')}>Pelanggan</button>
+        <button className={`tab-button ${activeTab === 'recurring' ? 'active' : ''}`} onClick={() => setActiveTab('recurring')}>Berulang</button>
+        <button className={`tab-button ${activeTab === 'aging' ? 'active' : ''}`} onClick={() => setActiveTab('aging')}>Umur Piutang</button>
+        <button className={`tab-button ${activeTab === 'analytics' ? 'active' : ''}`} onClick={() => setActiveTab('analytics')}>Analitik</button>
+        <button className={`tab-button ${activeTab === 'profitLoss' ? 'active' : ''}`} onClick={() => setActiveTab('profitLoss')}>Laba Rugi</button>
+        <button className={`tab-button ${activeTab === 'periods' ? 'active' : ''}`} onClick={() => setActiveTab('periods')}>Tutup Buku</button>
+        <button className={`tab-button ${activeTab === 'activity' ? 'active' : ''}`} onClick={() => setActiveTab('activity')}>Aktivitas</button>
+        <button className={`tab-button ${activeTab === 'trash' ? 'active' : ''}`} onClick={() => setActiveTab('trash')}>
+          Sampah{trashedReceivables.length + trashedRevenues.length > 0 ? ` (${trashedReceivables.length + trashedRevenues.length})` : ''}
+        </button>
+      </nav>
+
+      <main>
+        {activeTab === 'receivables' && (
+          <section>
+            <div className="content-header">
+              <h2>Daftar Piutang</h2>
+              <div className="header-actions">
+                <ExportButtons onExport={handleExportReceivables} />
+                {can(role, 'importData') && (
+                  <button className="btn btn-secondary" onClick={() => setImportModalOpen(true)}>Impor</button>
+                )}
+                {can(role, 'manageEntries') && (
+                  <button className="btn btn-primary" onClick={() => setReceivableModalOpen(true)}>+ Tambah Piutang</button>
+                )}
+              </div>
+            </div>
+
+            <FilterBar
+              filters={receivableFilters}
+              defaults={DEFAULT_RECEIVABLE_FILTERS}
+              categories={categories}
+              tags={tagsInUse}
+              dateLabel="Jatuh tempo"
+              onChange={setReceivableFilters}
+            >
+              <select
+                value={receivableFilters.status}
+                onChange={(e) => setReceivableFilters({ ...receivableFilters, status: e.target.value as ReceivableFilters['status'] })}
+                aria-label="Status"
+              >
+                <option value="all">Semua Status</option>
+                <option value="unpaid">Belum Lunas</option>
+                <option value="overdue">Terlambat</option>
+                <option value="paid">Lunas</option>
+              </select>
+            </FilterBar>
+
+            <div className="summary-container">
+                <div className="stat-card">
+                    <span className="stat-card-label">Total Piutang Keseluruhan</span>
+                    <span className="stat-card-value">{formatCurrency(receivablesSummary.total, baseCurrency)}</span>
+                </div>
+                <div className="stat-card">
+                    <span className="stat-card-label">Total Sisa Tagihan</span>
+                    <span className="stat-card-value warning">{formatCurrency(receivablesSummary.remaining, baseCurrency)}</span>
+                </div>
+                {hasForeignCurrency && (
+                  <div className="stat-card">
+                      <span className="stat-card-label">Selisih Kurs Terealisasi</span>
+                      <span className={`stat-card-value ${realizedFxTotal < 0 ? 'warning' : 'success'}`}>{formatCurrency(realizedFxTotal, baseCurrency)}</span>
+                  </div>
+                )}
+            </div>
+            <MissingRatesNote currencies={receivablesMissingRates} baseCurrency={baseCurrency} />
+
+            {receivableCount > 0 ? (
+              <div className="table-wrapper">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>No</th>
+                      <SortableHeader label="Pelanggan" sortKey="customer" filters={receivableFilters} onSort={handleSortReceivables} />
+                      <SortableHeader label="Keterangan" sortKey="description" filters={receivableFilters} onSort={handleSortReceivables} />
+                      <SortableHeader label="Jatuh Tempo" sortKey="due_date" filters={receivableFilters} onSort={handleSortReceivables} />
+                      <SortableHeader label="Total Piutang" sortKey="total_amount" filters={receivableFilters} onSort={handleSortReceivables} />
+                      <SortableHeader label="Sisa Piutang" sortKey="remaining" filters={receivableFilters} onSort={handleSortReceivables} />
+                      {hasLateFees && <th>Denda</th>}
+                      <SortableHeader label="Status" sortKey="status" filters={receivableFilters} onSort={handleSortReceivables} />
+                      <th>Aksi</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleReceivables.map((r, index) => {
+                      // Under a late-fee rule payments settle fees first, so less of them reaches the principal.
+                      const balance = balances.get(r.id) ?? balanceOf(r, todayISO());
+                      const remaining = balance.outstandingPrincipal;
+                      const feesOwed = balance.outstandingFees;
+                      const isPaid = balance.outstanding <= 0;
+                      const isOverpaid = remaining < 0;
+                      const isOverdue = !isPaid && !!r.due_date && r.due_date < today;
+                      return (
+                        <tr key={r.id}>
+                          <td>{(receivablePage - 1) * TABLE_PAGE_SIZE + index + 1}</td>
+                          <td>{(r.customer_id && customerNames.get(r.customer_id)) || '-'}</td>
+                          <td>
+                            {r.description}
+                            <TagList category={categoryName(categoryNames, r.category_id)} tags={r.tags} />
+                          </td>
+                          <td>{formatDate(r.due_date)}</td>
+                          <td>{formatCurrency(r.total_amount, r.currency)}</td>
+                          <td>{formatCurrency(Math.max(0, remaining), r.currency)}</td>
+                          {hasLateFees && (
+                            <td className={feesOwed > 0 ? 'fee-owed' : ''}>{feesOwed > 0 ? formatCurrency(feesOwed, r.currency) : '-'}</td>
+                          )}
+                          <td>
+                            <span className={`status-badge ${isPaid ? 'status-paid' : isOverdue ? 'status-overdue' : 'status-unpaid'}`}>
+                              {isPaid ? 'Lunas' : isOverdue ? 'Terlambat' : 'Belum Lunas'}
+                            </span>
+                            {isOverpaid && (
+                              <span className="overpaid-note">Lebih bayar {formatCurrency(-remaining, r.currency)}</span>
+                            )}
+                          </td>
+                          <td className="actions">
+                            {!isPaid && can(role, 'recordPayments') && (
+                                <button className="btn-pay" title="Catat Pembayaran" onClick={() => { setCurrentReceivable(r); setPaymentModalOpen(true); }}>
+                                    BAYAR
+                                </button>
+                            )}
+                            {can(role, 'issueDocuments') && (
+                              <button className="btn-icon" title="Cetak Invoice" onClick={() => handlePrintInvoice(r)}>
+                                  <svg className="icon-print" viewBox="0 0 24 24"><path d="M19 8H5c-1.66 0-3 1.34-3 3v6h4v4h12v-4h4v-6c0-1.66-1.34-3-3-3zm-3 11H8v-5h8v5zm3-7c-.55 0-1-.45-1-1s.45-1 1-1 1 .45 1 1-.45 1-1 1zm-1-9H6v4h12V3z"/></svg>
+                              </button>
+                            )}
+                            <button className="btn-icon" title="Riwayat Perubahan" onClick={() => setAuditTarget({ id: r.id, title: r.description })}>
+                                <svg className="icon-audit" viewBox="0 0 24 24"><path d="M3 13h2v-2H3v2zm0 4h2v-2H3v2zm0-8h2V7H3v2zm4 4h14v-2H7v2zm0 4h14v-2H7v2zM7 7v2h14V7H7z"/></svg>
+                            </button>
+                            <button className="btn-icon" title="Riwayat Pembayaran" onClick={() => setLedgerReceivableId(r.id)}>
+                                <svg className="icon-history" viewBox="0 0 24 24"><path d="M13 3a9 9 0 0 0-9 9H1l3.89 3.89.07.14L9 12H6c0-3.87 3.13-7 7-7s7 3.13 7 7-3.13 7-7 7c-1.93 0-3.68-.79-4.94-2.06l-1.42 1.42A8.954 8.954 0 0 0 13 21a9 9 0 0 0 0-18zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12z"/></svg>
+                            </button>
+                            {can(role, 'shareStatements') && (
+                              <button className="btn-icon" title="Bagikan ke Debitur" onClick={() => setSharingTarget({ scope: 'receivable', id: r.id, title: r.description })}>
+                                <svg className="icon-share" viewBox="0 0 24 24"><path d="M18 16.08c-.76 0-1.44.3-1.96.77L8.91 12.7c.05-.23.09-.46.09-.7s-.04-.47-.09-.7l7.05-4.11c.54.5 1.25.81 2.04.81 1.66 0 3-1.34 3-3s-1.34-3-3-3-3 1.34-3 3c0 .24.04.47.09.7L8.04 9.81C7.5 9.31 6.79 9 6 9c-1.66 0-3 1.34-3 3s1.34 3 3 3c.79 0 1.5-.31 2.04-.81l7.12 4.16c-.05.21-.08.43-.08.65 0 1.61 1.31 2.92 2.92 2.92s2.92-1.31 2.92-2.92-1.31-2.92-2.92-2.92z"/></svg>
+                              </button>
+                            )}
+                            {can(role, 'manageEntries') && (
+                              <>
+                                <button className="btn-icon" title="Edit" onClick={() => handleOpenEditModal(r, 'receivable')}>
+                                    <svg className="icon-edit" viewBox="0 0 24 24"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/></svg>
+                                </button>
+                                <button className="btn-icon" title="Hapus" onClick={() => handleDeleteReceivable(r.id)}>
+                                  <svg className="icon-delete" viewBox="0 0 24 24"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/></svg>
+                                </button>
+                              </>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                <Pagination page={receivablePage} totalRows={receivableCount} onChange={setReceivablePage} />
+              </div>
+            ) : (
+                <div className="empty-state">
+                  <p>{activeReceivables.length > 0 ? 'Tidak ada piutang yang cocok dengan filter.' : 'Belum ada catatan piutang. Mulai tambahkan sekarang!'}</p>
+                </div>
+            )}
+          </section>
+        )}
+
+        {activeTab === 'revenues' && (
+          <section>
+            <div className="content-header">
+              <h2>Daftar Pendapatan</h2>
+              <div className="header-actions">
+                <ExportButtons onExport={handleExportRevenues} />
+                {can(role, 'importData') && (
+                  <button className="btn btn-secondary" onClick={() => setImportModalOpen(true)}>Impor</button>
+                )}
+                {can(role, 'manageEntries') && (
+                  <button className="btn btn-primary" onClick={() => setRevenueModalOpen(true)}>+ Tambah Pendapatan</button>
+                )}
+              </div>
+            </div>
+
+            <FilterBar
+              filters={revenueFilters}
+              defaults={DEFAULT_REVENUE_FILTERS}
+              categories={categories}
+              tags={tagsInUse}
+              dateLabel="Tanggal"
+              onChange={setRevenueFilters}
+            />
+
+            <div className="summary-container">
+                <div className="stat-card">
+                    <span className="stat-card-label">Total Pendapatan</span>
+                    <span className="stat-card-value success">{formatCurrency(revenuesSummary.total, baseCurrency)}</span>
+                </div>
+            </div>
+            <MissingRatesNote currencies={revenuesMissingRates} baseCurrency={baseCurrency} />
+
+            {revenueCount > 0 ? (
+                <div className="table-wrapper">
+                    <table>
+                    <thead>
+                        <tr>
+                        <th>No</th>
+                        <SortableHeader label="Keterangan" sortKey="description" filters={revenueFilters} onSort={handleSortRevenues} />
+                        <SortableHeader label="Tanggal" sortKey="date" filters={revenueFilters} onSort={handleSortRevenues} />
+                        <SortableHeader label="Jumlah" sortKey="amount" filters={revenueFilters} onSort={handleSortRevenues} />
+                        <th>Sumber</th>
+                        <th>Aksi</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {visibleRevenues.map((r, index) => (
+                        <tr key={r.id}>
+                            <td>{(revenuePage - 1) * TABLE_PAGE_SIZE + index + 1}</td>
+                            <td>
+                                {r.description}
+                                <TagList category={categoryName(categoryNames, r.category_id)} tags={r.tags} />
+                            </td>
+                            <td>{formatDate(r.date)}</td>
+                            <td>{formatCurrency(r.amount, r.currency)}</td>
+                            <td>
+                                {r.receivable_id ? (
+                                    <span className="source-badge" title={receivableDescriptions.get(r.receivable_id)}>Pembayaran Piutang</span>
+                                ) : r.adjustment_reason ? (
+                                    <span className="source-badge source-adjustment" title={r.adjustment_reason}>Penyesuaian</span>
+                                ) : (
+                                    <span className="source-badge source-manual">Manual</span>
+                                )}
+                            </td>
+                            <td className="actions">
+                                <button className="btn-icon" title="Riwayat Perubahan" onClick={() => setAuditTarget({ id: r.id, title: r.description })}>
+                                    <svg className="icon-audit" viewBox="0 0 24 24"><path d="M3 13h2v-2H3v2zm0 4h2v-2H3v2zm0-8h2V7H3v2zm4 4h14v-2H7v2zm0 4h14v-2H7v2zM7 7v2h14V7H7z"/></svg>
+                                </button>
+                                {r.receivable_id ? (
+                                    // Posted revenues are edited through the payment they came from.
+                                    <button className="btn-icon" title="Lihat Pembayaran" onClick={() => setLedgerReceivableId(r.receivable_id)}>
+                                        <svg className="icon-history" viewBox="0 0 24 24"><path d="M13 3a9 9 0 0 0-9 9H1l3.89 3.89.07.14L9 12H6c0-3.87 3.13-7 7-7s7 3.13 7 7-3.13 7-7 7c-1.93 0-3.68-.79-4.94-2.06l-1.42 1.42A8.954 8.954 0 0 0 13 21a9 9 0 0 0 0-18zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12z"/></svg>
+                                    </button>
+                                ) : can(role, 'manageEntries') && (
+                                    <>
+                                        <button className="btn-icon" title="Edit" onClick={() => handleOpenEditModal(r, 'revenue')}>
+                                            <svg className="icon-edit" viewBox="0 0 24 24"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/></svg>
+                                        </button>
+                                        <button className="btn-icon" title="Hapus" onClick={() => handleDeleteRevenue(r.id)}>
+                                            <svg className="icon-delete" viewBox="0 0 24 24"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/></svg>
+                                        </button>
+                                    </>
+                                )}
+                            </td>
+                        </tr>
+                        ))}
+                    </tbody>
+                    </table>
+                    <Pagination page={revenuePage} totalRows={revenueCount} onChange={setRevenuePage} />
+                </div>
+            ) : (
+                <div className="empty-state">
+                  <p>{activeRevenues.length > 0 ? 'Tidak ada pendapatan yang cocok dengan filter.' : 'Belum ada catatan pendapatan.'}</p>
+                </div>
+            )}
+          </section>
+        )}
+
+        {activeTab === 'payables' && (
+          <PayablesView
+            payables={payables}
+            paidByPayable={paidByPayable}
+            convert={convert}
+            baseCurrency={baseCurrency}
+            canEdit={can(role, 'manageEntries')}
+            onAdd={() => setEditingPayable(null)}
+            onEdit={setEditingPayable}
+            onDelete={handleDeletePayable}
+            onPay={setPayingPayable}
+            onShowPayments={setLedgerPayableId}
+            onShowHistory={p => setAuditTarget({ id: p.id, title: p.description })}
+          />
+        )}
+
+        {activeTab === 'expenses' && (
+          <ExpensesView
+            expenses={expenses}
+            payableDescriptions={payableDescriptions}
+            convert={convert}
+            baseCurrency={baseCurrency}
+            canEdit={can(role, 'manageEntries')}
+            onAdd={() => setEditingExpense(null)}
+            onEdit={setEditingExpense}
+            onDelete={handleDeleteExpense}
+            onShowPayments={setLedgerPayableId}
+            onShowHistory={e => setAuditTarget({ id: e.id, title: e.description })}
+          />
+        )}
+
+        {activeTab === 'reconciliation' && (
+          <ReconciliationView
+            lines={bankLines}
+            openReceivables={openReceivables}
+            receivableDescriptions={receivableDescriptions}
+            canImport={can(role, 'importData')}
+            canRecord={can(role, 'recordPayments')}
+            onImport={() => setBankImportOpen(true)}
+            onConfirm={handleConfirmMatches}
+            onIgnore={handleIgnoreBankLine}
+            onShowPayments={setLedgerReceivableId}
+          />
+        )}
+
+        {activeTab === 'customers' && (
+          <section>
+            <div className="content-header">
+              <h2>Daftar Pelanggan</h2>
+              {can(role, 'manageEntries') && (
+                <button className="btn btn-primary" onClick={() => setEditingCustomer(null)}>+ Tambah Pelanggan</button>
+              )}
+            </div>
+
+            {customers.length > 0 ? (
+              <div className="table-wrapper">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>No</th>
+                      <th>Nama</th>
+                      <th>Telepon</th>
+                      <th>Alamat</th>
+                      <th>Jumlah Piutang</th>
+                      <th>Sisa Tagihan</th>
+                      <th>Aksi</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {customers.map((c, index) => {
+                      const balance = customerBalances.get(c.id);
+                      return (
+                        <tr key={c.id}>
+                          <td>{index + 1}</td>
+                          <td>{c.name}</td>
+                          <td>{c.phone || '-'}</td>
+                          <td>{c.address || '-'}</td>
+                          <td>{balance?.count ?? 0}</td>
+                          <td>{formatCurrency(balance?.outstanding ?? 0, baseCurrency)}</td>
+                          <td className="actions">
+                            <button className="btn-pay" title="Lihat Laporan" onClick={() => setStatementCustomerId(c.id)}>
+                              LAPORAN
+                            </button>
+                            {can(role, 'shareStatements') && (
+                              <button className="btn-icon" title="Bagikan ke Debitur" onClick={() => setSharingTarget({ scope: 'customer', id: c.id, title: c.name })}>
+                                <svg className="icon-share" viewBox="0 0 24 24"><path d="M18 16.08c-.76 0-1.44.3-1.96.77L8.91 12.7c.05-.23.09-.46.09-.7s-.04-.47-.09-.7l7.05-4.11c.54.5 1.25.81 2.04.81 1.66 0 3-1.34 3-3s-1.34-3-3-3-3 1.34-3 3c0 .24.04.47.09.7L8.04 9.81C7.5 9.31 6.79 9 6 9c-1.66 0-3 1.34-3 3s1.34 3 3 3c.79 0 1.5-.31 2.04-.81l7.12 4.16c-.05.21-.08.43-.08.65 0 1.61 1.31 2.92 2.92 2.92s2.92-1.31 2.92-2.92-1.31-2.92-2.92-2.92z"/></svg>
+                              </button>
+                            )}
+                            {can(role, 'manageEntries') && (
+                              <>
+                                <button className="btn-icon" title="Edit" onClick={() => setEditingCustomer(c)}>
+                                  <svg className="icon-edit" viewBox="0 0 24 24"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/></svg>
+                                </button>
+                                <button className="btn-icon" title="Hapus" onClick={() => handleDeleteCustomer(c.id)}>
+                                  <svg className="icon-delete" viewBox="0 0 24 24"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/></svg>
+                                </button>
+                              </>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="empty-state"><p>Belum ada data pelanggan.</p></div>
+            )}
+          </section>
+        )}
+
+        {activeTab === 'recurring' && (
+          <RecurringView
+            templates={recurringTemplates}
+            customerNames={customerNames}
+            canEdit={can(role, 'manageEntries')}
+            onAdd={() => setEditingTemplate(null)}
+            onEdit={setEditingTemplate}
+            onDelete={handleDeleteTemplate}
+            onSkip={handleSkipOccurrence}
+            onAdjust={setAdjustingOccurrence}
+          />
+        )}
+
+        {activeTab === 'aging' && (
+          <AgingReportView
+            receivables={activeReceivables}
+            balanceOf={balanceOf}
+            customerNames={customerNames}
+            convert={convert}
+            baseCurrency={baseCurrency}
+          />
+        )}
+
+        {activeTab === 'analytics' && (
+          <AnalyticsView
+            receivables={activeReceivables}
+            payments={payments}
+            balanceOf={balanceOf}
+            revenues={activeRevenues}
+            customers={customers}
+            categories={categories}
+            convert={convert}
+            baseCurrency={baseCurrency}
+          />
+        )}
+
+        {activeTab === 'profitLoss' && (
+          <ProfitLossView
+            receivables={activeReceivables}
+            payments={payments}
+            balanceOf={balanceOf}
+            revenues={activeRevenues}
+            payables={payables}
+            payablePayments={payablePayments}
+            expenses={expenses}
+            convert={convert}
+            baseCurrency={baseCurrency}
+          />
+        )}
+
+        {activeTab === 'periods' && (
+          <PeriodsView
+            closes={periodCloses}
+            lockedThrough={booksLockedThrough}
+            ledger={periodLedger}
+            balanceOf={balanceOf}
+            convert={convert}
+            baseCurrency={baseCurrency}
+            canClose={can(role, 'closePeriods')}
+            canReopen={can(role, 'reopenPeriods')}
+            canAdjust={can(role, 'manageEntries')}
+            onClosePeriod={handleClosePeriod}
+            onReopen={handleReopenPeriod}
+            onAddAdjustment={setAdjustmentTable}
+            onShowHistory={entry => setAuditTarget({ id: entry.id, title: entry.description })}
+          />
+        )}
+
+        {activeTab === 'activity' && (
+          <ActivityFeed workspaceId={workspace.id} customerNames={customerNames} categoryNames={categoryNames} currencies={recordCurrencies} />
+        )}
+
+        {activeTab === 'trash' && (
+          <TrashView
+            receivables={trashedReceivables}
+            revenues={trashedRevenues}
+            customerNames={customerNames}
+            retentionDays={trashRetentionDays}
+            canEdit={can(role, 'manageEntries')}
+            canConfigure={can(role, 'manageSettings')}
+            onRestore={handleRestore}
+            onPurge={handlePurge}
+            onSaveRetention={handleSaveRetention}
+          />
+        )}
+      </main>
+
+      {undoToast && (
+        <UndoToast
+          key={undoToast.id}
+          message={undoToast.message}
+          onUndo={undoToast.undo}
+          onClose={() => setUndoToast(null)}
+        />
+      )}
+
+      {/* --- MODALS --- */}
+      <Modal isOpen={!!auditTarget} onClose={() => setAuditTarget(null)} wide>
+        {auditTarget && (
+          <>
+            <h3>Riwayat Perubahan</h3>
+            <p className="modal-subtitle">{auditTarget.title}</p>
+            <AuditHistory workspaceId={workspace.id} entityId={auditTarget.id} customerNames={customerNames} categoryNames={categoryNames} currencies={recordCurrencies} />
+            <div className="modal-actions">
+              <button type="button" className="btn btn-secondary" onClick={() => setAuditTarget(null)}>Tutup</button>
+            </div>
+          </>
+        )}
+      </Modal>
+
+      <Modal isOpen={isReceivableModalOpen} onClose={() => setReceivableModalOpen(false)}>
+        <form onSubmit={handleAddReceivable}>
+          <h3>Tambah Piutang Baru</h3>
+          <div className="form-group">
+            <label htmlFor="r-customerId">Pelanggan</label>
+            <select id="r-customerId" name="customerId" defaultValue="">
+              <option value="">— Tanpa pelanggan —</option>
+              {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="r-description">Keterangan</label>
+            <input id="r-description" name="description" type="text" required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="r-currency">Mata Uang</label>
+            <select id="r-currency" name="currency" defaultValue={baseCurrency}>
+              {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} — {c.label}</option>)}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="r-totalAmount">Total Piutang</label>
+            <input id="r-totalAmount" name="totalAmount" type="number" min="0" step="any" required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="r-issueDate">Tanggal Transaksi</label>
+            <input id="r-issueDate" name="issueDate" type="date" defaultValue={todayISO()} required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="r-dueDate">Tanggal Jatuh Tempo</label>
+            <input id="r-dueDate" name="dueDate" type="date" required />
+          </div>
+          <CategoryFields idPrefix="r" categories={categories} />
+          <LateFeeFields idPrefix="r" rule={null} defaultDescription={defaultLateFeeDescription} />
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={() => setReceivableModalOpen(false)}>Batal</button>
+            <button type="submit" className="btn btn-primary">Simpan</button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={isRevenueModalOpen} onClose={() => setRevenueModalOpen(false)}>
+        <form onSubmit={handleAddRevenue}>
+          <h3>Tambah Pendapatan Baru</h3>
+          <div className="form-group">
+            <label htmlFor="rev-description">Keterangan</label>
+            <input id="rev-description" name="description" type="text" required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="rev-currency">Mata Uang</label>
+            <select id="rev-currency" name="currency" defaultValue={baseCurrency}>
+              {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} — {c.label}</option>)}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="rev-amount">Jumlah</label>
+            <input id="rev-amount" name="amount" type="number" min="0" step="any" required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="rev-date">Tanggal</label>
+            <input id="rev-date" name="date" type="date" required />
+          </div>
+          <CategoryFields idPrefix="rev" categories={categories} />
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={() => setRevenueModalOpen(false)}>Batal</button>
+            <button type="submit" className="btn btn-primary">Simpan</button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={adjustmentTable !== null} onClose={() => setAdjustmentTable(null)}>
+        <form onSubmit={handleAddAdjustment}>
+          <h3>Jurnal Penyesuaian {adjustmentTable === 'revenues' ? 'Pendapatan' : 'Biaya'}</h3>
+          <p className="modal-subtitle">
+            Mengoreksi {adjustmentTable === 'revenues' ? 'pendapatan' : 'biaya'} periode yang sudah ditutup dengan catatan baru bertanggal
+            {booksLockedThrough ? ` setelah ${formatDate(booksLockedThrough)}` : ' di periode yang masih terbuka'}.
+          </p>
+          <div className="form-group">
+            <label htmlFor="adj-direction">Jenis Koreksi</label>
+            <select id="adj-direction" name="direction" defaultValue="increase">
+              <option value="increase">Tambah</option>
+              <option value="decrease">Kurangi</option>
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="adj-adjusts">Catatan yang Dikoreksi (opsional)</label>
+            <select id="adj-adjusts" name="adjustsId" defaultValue="">
+              <option value="">-- Tidak satu catatan tertentu --</option>
+              {adjustableEntries.map(entry => (
+                <option key={entry.id} value={entry.id}>
+                  {formatDate(entry.date)} · {entry.description} · {formatCurrency(entry.amount, entry.currency)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="adj-description">Keterangan</label>
+            <input id="adj-description" name="description" type="text" required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="adj-currency">Mata Uang</label>
+            <select id="adj-currency" name="currency" defaultValue={baseCurrency}>
+              {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} — {c.label}</option>)}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="adj-amount">Jumlah</label>
+            <input id="adj-amount" name="amount" type="number" min="0.01" step="any" required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="adj-date">Tanggal</label>
+            <input
+              id="adj-date" name="date" type="date" required defaultValue={todayISO()}
+              min={booksLockedThrough ? addDays(booksLockedThrough, 1) : undefined}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="adj-reason">Alasan Penyesuaian</label>
+            <textarea id="adj-reason" name="reason" rows={2} required />
+          </div>
+          {adjustmentTable === 'revenues' && <CategoryFields idPrefix="adj" categories={categories} />}
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={() => setAdjustmentTable(null)}>Batal</button>
+            <button type="submit" className="btn btn-primary">Simpan</button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={isPaymentModalOpen} onClose={() => {setPaymentModalOpen(false); setCurrentReceivable(null);}}>
+        <form onSubmit={handleRecordPayment}>
+          <h3>Catat Pembayaran</h3>
+          {currentReceivableFees ? (
+            <>
+              <p>
+                Sisa Pokok: <strong>{formatCurrency(currentReceivableFees.outstandingPrincipal, currentReceivable?.currency)}</strong>
+                {' '}&middot; Denda: <strong>{formatCurrency(currentReceivableFees.outstandingFees, currentReceivable?.currency)}</strong>
+                {' '}&middot; Total Tagihan: <strong>{formatCurrency(currentReceivableFees.outstanding, currentReceivable?.currency)}</strong>
+              </p>
+              <p className="modal-subtitle">
+                Denda per hari ini ({describeLateFeeRule(effectiveRule(currentReceivable!.late_fee_rule, defaultLateFeeRule), currentReceivable!.currency, formatCurrency)}).
+                Pembayaran dipakai untuk melunasi denda terlebih dahulu, sisanya untuk pokok.
+              </p>
+            </>
+          ) : (
+            <p>Sisa Piutang: <strong>{formatCurrency(currentReceivableBalance?.outstanding ?? 0, currentReceivable?.currency)}</strong></p>
+          )}
+          <div className="form-group">
+            <label htmlFor="p-paymentAmount">Jumlah Pembayaran ({currentReceivable?.currency})</label>
+            <input id="p-paymentAmount" name="paymentAmount" type="number" min="0.01" step="any" autoFocus required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="p-paidAt">Tanggal Bayar</label>
+            <input id="p-paidAt" name="paidAt" type="date" defaultValue={todayISO()} required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="p-method">Metode</label>
+            <select id="p-method" name="method" defaultValue="transfer">
+              {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="p-note">Catatan</label>
+            <input id="p-note" name="note" type="text" />
+          </div>
+          <div className="form-check">
+            <input id="p-postToRevenue" name="postToRevenue" type="checkbox" defaultChecked={autoPostPayments} />
+            <label htmlFor="p-postToRevenue">Catat juga sebagai pendapatan</label>
+          </div>
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={() => {setPaymentModalOpen(false); setCurrentReceivable(null);}}>Batal</button>
+            <button type="submit" className="btn btn-primary">Bayar</button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={isSettingsModalOpen} onClose={() => setSettingsModalOpen(false)}>
+        <form onSubmit={handleSaveBusinessProfile}>
+          <h3>Pengaturan Kop Dokumen</h3>
+          <div className="form-group">
+            <label htmlFor="bp-businessName">Nama Usaha</label>
+            <input id="bp-businessName" name="businessName" type="text" defaultValue={businessProfile.business_name} required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="bp-address">Alamat</label>
+            <input id="bp-address" name="address" type="text" defaultValue={businessProfile.address ?? ''} />
+          </div>
+          <div className="form-group">
+            <label htmlFor="bp-city">Kota</label>
+            <input id="bp-city" name="city" type="text" defaultValue={businessProfile.city ?? ''} />
+          </div>
+          <div className="form-group">
+            <label htmlFor="bp-phone">Telepon</label>
+            <input id="bp-phone" name="phone" type="tel" defaultValue={businessProfile.phone ?? ''} />
+          </div>
+          <div className="form-group">
+            <label htmlFor="bp-email">Email</label>
+            <input id="bp-email" name="email" type="email" defaultValue={businessProfile.email ?? ''} />
+          </div>
+          <div className="form-group">
+            <label htmlFor="bp-paymentInstructions">Instruksi Pembayaran</label>
+            <textarea id="bp-paymentInstructions" name="paymentInstructions" rows={3} placeholder="Contoh: Transfer ke BCA 1234567890 a.n. PT Contoh" defaultValue={businessProfile.payment_instructions ?? ''} />
+          </div>
+          <div className="form-group">
+            <label htmlFor="bp-signatory">Nama Penandatangan</label>
+            <input id="bp-signatory" name="signatory" type="text" defaultValue={businessProfile.signatory ?? ''} />
+          </div>
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={() => setSettingsModalOpen(false)}>Batal</button>
+            <button type="submit" className="btn btn-primary">Simpan</button>
+          </div>
+        </form>
+        <form onSubmit={handleSaveLateFeeDefault}>
+          <h4 className="section-title">Denda Keterlambatan Default</h4>
+          <p className="modal-subtitle">
+            Berlaku untuk piutang yang tidak memiliki aturan sendiri. Denda dihitung sejak hari setelah masa tenggang berakhir.
+          </p>
+          <LateFeeFields idPrefix="lf" rule={defaultLateFeeRule} />
+          <div className="modal-actions">
+            <button type="submit" className="btn btn-secondary">Simpan Aturan Denda</button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={isRulesModalOpen} onClose={() => setRulesModalOpen(false)}>
+        <h3>Aturan Pengingat</h3>
+        {reminderRules.length === 0 && (
+          <p className="modal-subtitle">Belum ada aturan sendiri, aturan bawaan berikut sedang dipakai.</p>
+        )}
+        <ul className="rule-list">
+          {effectiveReminderRules.map(rule => (
+            <li key={rule.id}>
+              <span>{describeRule(rule)}</span>
+              {reminderRules.length > 0 && (
+                <button className="btn-icon" title="Hapus" onClick={() => handleDeleteReminderRule(rule.id)}>
+                  <svg className="icon-delete" viewBox="0 0 24 24"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/></svg>
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleAddReminderRule}>
+          <h4 className="section-title">Tambah Aturan</h4>
+          <div className="mapping-grid">
+            <div className="form-group">
+              <label htmlFor="rr-timing">Waktu</label>
+              <select id="rr-timing" name="timing" defaultValue="before">
+                <option value="before">Sebelum jatuh tempo</option>
+                <option value="on">Pada jatuh tempo</option>
+                <option value="after">Setelah jatuh tempo</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="rr-days">Jumlah Hari</label>
+              <input id="rr-days" name="days" type="number" min="0" defaultValue={3} required />
+            </div>
+            <div className="form-group">
+              <label htmlFor="rr-repeat">Ulangi Setiap (hari)</label>
+              <input id="rr-repeat" name="repeatEveryDays" type="number" min="0" placeholder="Tidak diulang" />
+            </div>
+          </div>
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={() => setRulesModalOpen(false)}>Tutup</button>
+            <button type="submit" className="btn btn-primary">Tambah</button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={isCategoriesModalOpen} onClose={() => setCategoriesModalOpen(false)}>
+        <h3>Kategori &amp; Tag</h3>
+        <p className="modal-subtitle">
+          Kategori berlaku untuk piutang dan pendapatan. Isi kode akun agar ekspor dapat dicocokkan dengan bagan akun.
+        </p>
+        {categories.length === 0 ? (
+          <p className="modal-subtitle">Belum ada kategori.</p>
+        ) : (
+          <ul className="rule-list">
+            {categories.map(category => (
+              <li key={category.id}>
+                <span>{category.name}{category.account_code ? ` · ${category.account_code}` : ''}</span>
+                <span>
+                  <button className="btn-icon" title="Edit" onClick={() => setEditingCategory(category)}>
+                    <svg className="icon-edit" viewBox="0 0 24 24"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/></svg>
+                  </button>
+                  <button className="btn-icon" title="Hapus" onClick={() => handleDeleteCategory(category)}>
+                    <svg className="icon-delete" viewBox="0 0 24 24"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/></svg>
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form key={editingCategory?.id ?? 'new'} onSubmit={handleSaveCategory}>
+          <h4 className="section-title">{editingCategory ? `Ubah Kategori "${editingCategory.name}"` : 'Tambah Kategori'}</h4>
+          <div className="mapping-grid">
+            <div className="form-group">
+              <label htmlFor="cat-name">Nama</label>
+              <input id="cat-name" name="name" type="text" defaultValue={editingCategory?.name} required />
+            </div>
+            <div className="form-group">
+              <label htmlFor="cat-accountCode">Kode Akun</label>
+              <input id="cat-accountCode" name="accountCode" type="text" defaultValue={editingCategory?.account_code ?? ''} placeholder="Opsional" />
+            </div>
+          </div>
+          <div className="modal-actions">
+            {editingCategory && <button type="button" className="btn btn-secondary" onClick={() => setEditingCategory(null)}>Batal Ubah</button>}
+            <button type="submit" className="btn btn-primary">{editingCategory ? 'Simpan' : 'Tambah'}</button>
+          </div>
+        </form>
+
+        <h4 className="section-title">Tag</h4>
+        {tagsInUse.length === 0 ? (
+          <p className="modal-subtitle">Belum ada tag. Tag diisi langsung pada formulir piutang atau pendapatan.</p>
+        ) : (
+          <ul className="rule-list">
+            {tagsInUse.map(({ tag, count }) => (
+              <li key={tag}>
+                <span><span className="tag-chip">{tag}</span> {count} transaksi</span>
+                <span>
+                  <button className="link-button" onClick={() => handleRenameTag(tag)}>Ganti Nama</button>
+                  <button className="link-button muted" onClick={() => handleDeleteTag(tag, count)}>Hapus</button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="modal-actions">
+          <button type="button" className="btn btn-secondary" onClick={() => setCategoriesModalOpen(false)}>Tutup</button>
+        </div>
+      </Modal>
+
+      <Modal isOpen={isRatesModalOpen} onClose={() => setRatesModalOpen(false)}>
+        <h3>Kurs Mata Uang</h3>
+        <form onSubmit={handleSaveBaseCurrency}>
+          <div className="form-group">
+            <label htmlFor="fx-baseCurrency">Mata Uang Dasar Laporan</label>
+            <select id="fx-baseCurrency" name="baseCurrency" defaultValue={baseCurrency}>
+              {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} — {c.label}</option>)}
+            </select>
+          </div>
+          <div className="modal-actions">
+            <button type="submit" className="btn btn-secondary">Simpan Mata Uang Dasar</button>
+          </div>
+        </form>
+        <p className="modal-subtitle">
+          Setiap transaksi dikonversi dengan kurs terakhir pada atau sebelum tanggal transaksinya.
+        </p>
+        {exchangeRates.length === 0 ? (
+          <p className="modal-subtitle">Belum ada kurs tersimpan.</p>
+        ) : (
+          <ul className="rule-list">
+            {exchangeRates.map(rate => (
+              <li key={rate.id}>
+                <span>{formatDate(rate.rate_date)} · 1 {rate.currency} = {formatCurrency(rate.rate, rate.base_currency)}</span>
+                <button className="btn-icon" title="Hapus" onClick={() => handleDeleteExchangeRate(rate.id)}>
+                  <svg className="icon-delete" viewBox="0 0 24 24"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/></svg>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={handleAddExchangeRate}>
+          <h4 className="section-title">Tambah Kurs</h4>
+          <div className="mapping-grid">
+            <div className="form-group">
+              <label htmlFor="fx-currency">Mata Uang</label>
+              <select id="fx-currency" name="currency" required>
+                {CURRENCIES.filter(c => c.code !== baseCurrency).map(c => <option key={c.code} value={c.code}>{c.code} — {c.label}</option>)}
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="fx-rateDate">Berlaku Sejak</label>
+              <input id="fx-rateDate" name="rateDate" type="date" defaultValue={todayISO()} required />
+            </div>
+            <div className="form-group">
+              <label htmlFor="fx-rate">Kurs ({baseCurrency})</label>
+              <input id="fx-rate" name="rate" type="number" min="0" step="any" required />
+            </div>
+          </div>
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={() => setRatesModalOpen(false)}>Tutup</button>
+            <button type="submit" className="btn btn-primary">Tambah</button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={isImportModalOpen} onClose={() => setImportModalOpen(false)} wide>
+        <ImportWizard
+          initialTarget={activeTab === 'revenues' ? 'revenues' : 'receivables'}
+          customers={customers}
+          baseCurrency={baseCurrency}
+          onImport={handleImport}
+          onClose={() => setImportModalOpen(false)}
+        />
+      </Modal>
+
+      <Modal isOpen={!!sharingTarget} onClose={() => setSharingTarget(null)} wide>
+        {sharingTarget && (
+          <ShareLinksPanel
+            target={sharingTarget}
+            links={shareLinks.filter(link =>
+              (sharingTarget.scope === 'receivable' ? link.receivable_id : link.customer_id) === sharingTarget.id && link.scope === sharingTarget.scope)}
+            canShare={can(role, 'shareStatements')}
+            onCreate={handleCreateShareLink}
+            onRevoke={handleRevokeShareLink}
+            onClose={() => setSharingTarget(null)}
+          />
+        )}
+      </Modal>
+
+      <Modal isOpen={isAccountOpen} onClose={() => setAccountOpen(false)}>
+        <AccountSettings session={session} onClose={() => setAccountOpen(false)} />
+      </Modal>
+
+      <Modal isOpen={isBankImportOpen} onClose={() => setBankImportOpen(false)} wide>
+        <BankImportWizard
+          baseCurrency={baseCurrency}
+          onImport={handleImportBankLines}
+          onClose={() => setBankImportOpen(false)}
+        />
+      </Modal>
 
-            {sortedReceivables.length > 0 ? (
+      <Modal isOpen={!!ledgerReceivable} onClose={() => setLedgerReceivableId(null)} wide>
+        {ledgerReceivable && (
+          <div>
+            <h3>Riwayat Pembayaran</h3>
+            <p className="modal-subtitle">
+              {ledgerReceivable.description} &middot; Total {formatCurrency(ledgerReceivable.total_amount, ledgerReceivable.currency)} &middot; Terbayar {formatCurrency(ledgerBalance!.paid, ledgerReceivable.currency)}
+              {ledgerFees && <> &middot; Denda {formatCurrency(ledgerFees.feesAccrued, ledgerReceivable.currency)} (terbayar {formatCurrency(ledgerFees.feesPaid, ledgerReceivable.currency)})</>}
+            </p>
+            {ledgerPayments.length > 0 ? (
               <div className="table-wrapper">
                 <table>
                   <thead>
                     <tr>
-                      <th>No</th>
-                      <th>Keterangan</th>
-                      <th>Jatuh Tempo</th>
-                      <th>Total Piutang</th>
-                      <th>Sisa Piutang</th>
-                      <th>Status</th>
+                      <th>Tanggal</th>
+                      <th>Jumlah</th>
+                      {ledgerFees && <th>Untuk Denda</th>}
+                      {ledgerReceivable.currency !== baseCurrency && <th>Selisih Kurs ({baseCurrency})</th>}
+                      <th>Metode</th>
+                      <th>Catatan</th>
                       <th>Aksi</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {sortedReceivables.map((r, index) => {
-                      const remaining = r.total_amount - r.paid_amount;
-                      const isPaid = remaining <= 0;
+                    {ledgerPayments.map(p => {
+                      const fx = realizedFx(convert, ledgerReceivable, p);
                       return (
-                        <tr key={r.id}>
-                          <td>{index + 1}</td>
-                          <td>{r.description}</td>
-                          <td>{formatDate(r.due_date)}</td>
-                          <td>{formatCurrency(r.total_amount)}</td>
-                          <td>{formatCurrency(remaining)}</td>
-                          <td>
-                            <span className={`status-badge ${isPaid ? 'status-paid' : 'status-unpaid'}`}>
-                              {isPaid ? 'Lunas' : 'Belum Lunas'}
-                            </span>
-                          </td>
+                        <tr key={p.id} className={p.voided_at ? 'row-voided' : ''}>
+                          <td>{formatDate(p.paid_at)}</td>
+                          <td>{formatCurrency(p.amount, p.currency)}</td>
+                          {ledgerFees && (
+                            <td>{formatCurrency(ledgerFees.allocations.find(a => a.paymentId === p.id)?.toFees ?? 0, p.currency)}</td>
+                          )}
+                          {ledgerReceivable.currency !== baseCurrency && (
+                            <td title="Nilai pada tanggal bayar dikurangi nilai pada tanggal transaksi">
+                              {fx === null ? 'Kurs belum ada' : formatCurrency(fx, baseCurrency)}
+                            </td>
+                          )}
+                          <td>{PAYMENT_METHOD_LABELS[p.method] ?? p.method}</td>
+                          <td>{p.voided_at ? `Dibatalkan ${formatDate(p.voided_at.slice(0, 10))}` : (p.note || '-')}</td>
                           <td className="actions">
-                            {!isPaid && (
-                                <button className="btn-pay" title="Catat Pembayaran" onClick={() => { setCurrentReceivable(r); setPaymentModalOpen(true); }}>
-                                    BAYAR
-                                </button>
+                            {!p.voided_at && (
+                              <>
+                                {can(role, 'issueDocuments') && (
+                                  <button className="btn-icon" title="Cetak Kwitansi" onClick={() => handlePrintReceipt(ledgerReceivable, p)}>
+                                    <svg className="icon-print" viewBox="0 0 24 24"><path d="M19 8H5c-1.66 0-3 1.34-3 3v6h4v4h12v-4h4v-6c0-1.66-1.34-3-3-3zm-3 11H8v-5h8v5zm3-7c-.55 0-1-.45-1-1s.45-1 1-1 1 .45 1 1-.45 1-1 1zm-1-9H6v4h12V3z"/></svg>
+                                  </button>
+                                )}
+                                {can(role, 'managePayments') && (
+                                  <>
+                                    <button className="btn-icon" title="Edit" onClick={() => setEditingPayment(p)}>
+                                      <svg className="icon-edit" viewBox="0 0 24 24"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/></svg>
+                                    </button>
+                                    <button className="btn-icon" title="Batalkan" onClick={() => handleVoidPayment(p.id)}>
+                                      <svg className="icon-delete" viewBox="0 0 24 24"><path d="M12 2C6.47 2 2 6.47 2 12s4.47 10 10 10 10-4.47 10-10S17.53 2 12 2zm5 13.59L15.59 17 12 13.41 8.41 17 7 15.59 10.59 12 7 8.41 8.41 7 12 10.59 15.59 7 17 8.41 13.41 12 17 15.59z"/></svg>
+                                    </button>
+                                  </>
+                                )}
+                              </>
                             )}
-                             <button className="btn-icon" title="Edit" onClick={() => handleOpenEditModal(r, 'receivable')}>
-                                <svg className="icon-edit" viewBox="0 0 24 24"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/></svg>
-                            </button>
-                            <button className="btn-icon" title="Hapus" onClick={() => handleDeleteReceivable(r.id)}>
-                              <svg className="icon-delete" viewBox="0 0 24 24"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/></svg>
-                            </button>
                           </td>
                         </tr>
                       );
@@ -447,140 +6442,380 @@ const Dashboard: React.FC<{ session: Session }> = ({ session }) => {
                 </table>
               </div>
             ) : (
-                <div className="empty-state"><p>Belum ada catatan piutang. Mulai tambahkan sekarang!</p></div>
+              <div className="empty-state"><p>Belum ada pembayaran untuk piutang ini.</p></div>
             )}
-          </section>
+            <div className="modal-actions">
+              <button type="button" className="btn btn-secondary" onClick={() => setLedgerReceivableId(null)}>Tutup</button>
+            </div>
+          </div>
         )}
+      </Modal>
 
-        {activeTab === 'revenues' && (
-          <section>
-            <div className="content-header">
-              <h2>Daftar Pendapatan</h2>
-              <button className="btn btn-primary" onClick={() => setRevenueModalOpen(true)}>+ Tambah Pendapatan</button>
+      <Modal isOpen={!!editingPayment} onClose={() => setEditingPayment(null)}>
+        {editingPayment && (
+          <form onSubmit={handleUpdatePayment}>
+            <h3>Edit Pembayaran</h3>
+            <div className="form-group">
+              <label htmlFor="ep-paymentAmount">Jumlah Pembayaran ({editingPayment.currency})</label>
+              <input id="ep-paymentAmount" name="paymentAmount" type="number" min="0.01" step="any" defaultValue={editingPayment.amount} required />
+            </div>
+            <div className="form-group">
+              <label htmlFor="ep-paidAt">Tanggal Bayar</label>
+              <input id="ep-paidAt" name="paidAt" type="date" defaultValue={editingPayment.paid_at} required />
+            </div>
+            <div className="form-group">
+              <label htmlFor="ep-method">Metode</label>
+              <select id="ep-method" name="method" defaultValue={editingPayment.method}>
+                {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
             </div>
+            <div className="form-group">
+              <label htmlFor="ep-note">Catatan</label>
+              <input id="ep-note" name="note" type="text" defaultValue={editingPayment.note ?? ''} />
+            </div>
+            <div className="modal-actions">
+              <button type="button" className="btn btn-secondary" onClick={() => setEditingPayment(null)}>Batal</button>
+              <button type="submit" className="btn btn-primary">Update</button>
+            </div>
+          </form>
+        )}
+      </Modal>
 
-            <div className="summary-container">
-                <div className="stat-card">
-                    <span className="stat-card-label">Total Pendapatan</span>
-                    <span className="stat-card-value success">{formatCurrency(revenuesSummary.total)}</span>
-                </div>
+      <Modal isOpen={editingPayable !== undefined} onClose={() => setEditingPayable(undefined)}>
+        <form key={editingPayable?.id ?? 'new'} onSubmit={handleSavePayable}>
+          <h3>{editingPayable ? 'Edit Hutang' : 'Tambah Hutang Baru'}</h3>
+          <div className="form-group">
+            <label htmlFor="pay-supplier">Pemasok</label>
+            <input id="pay-supplier" name="supplier" type="text" defaultValue={editingPayable?.supplier ?? ''} />
+          </div>
+          <div className="form-group">
+            <label htmlFor="pay-description">Keterangan</label>
+            <input id="pay-description" name="description" type="text" defaultValue={editingPayable?.description} required />
+          </div>
+          {!editingPayable && (
+            <div className="form-group">
+              <label htmlFor="pay-currency">Mata Uang</label>
+              <select id="pay-currency" name="currency" defaultValue={baseCurrency}>
+                {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} — {c.label}</option>)}
+              </select>
+            </div>
+          )}
+          <div className="form-group">
+            <label htmlFor="pay-totalAmount">Total Hutang{editingPayable ? ` (${editingPayable.currency})` : ''}</label>
+            <input id="pay-totalAmount" name="totalAmount" type="number" min="0" step="any" defaultValue={editingPayable?.total_amount} required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="pay-issueDate">Tanggal Transaksi</label>
+            <input id="pay-issueDate" name="issueDate" type="date" defaultValue={editingPayable?.issue_date ?? todayISO()} required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="pay-dueDate">Tanggal Jatuh Tempo</label>
+            <input id="pay-dueDate" name="dueDate" type="date" defaultValue={editingPayable?.due_date} required />
+          </div>
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={() => setEditingPayable(undefined)}>Batal</button>
+            <button type="submit" className="btn btn-primary">Simpan</button>
+          </div>
+        </form>
+      </Modal>
+
+      <Modal isOpen={!!payingPayable} onClose={() => setPayingPayable(null)}>
+        {payingPayable && (
+          <form key={payingPayable.id} onSubmit={handleRecordPayablePayment}>
+            <h3>Bayar Hutang</h3>
+            <p className="modal-subtitle">{payingPayable.supplier ? `${payingPayable.supplier} · ` : ''}{payingPayable.description}</p>
+            <p>Sisa Hutang: <strong>{formatCurrency(payingPayable.total_amount - (paidByPayable.get(payingPayable.id) ?? 0), payingPayable.currency)}</strong></p>
+            <div className="form-group">
+              <label htmlFor="pp-paymentAmount">Jumlah Pembayaran ({payingPayable.currency})</label>
+              <input id="pp-paymentAmount" name="paymentAmount" type="number" min="0" step="any" autoFocus required />
+            </div>
+            <div className="form-group">
+              <label htmlFor="pp-paidAt">Tanggal Bayar</label>
+              <input id="pp-paidAt" name="paidAt" type="date" defaultValue={todayISO()} required />
             </div>
+            <div className="form-group">
+              <label htmlFor="pp-method">Metode</label>
+              <select id="pp-method" name="method" defaultValue="transfer">
+                {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="pp-note">Catatan</label>
+              <input id="pp-note" name="note" type="text" />
+            </div>
+            <div className="form-check">
+              <input id="pp-postToExpenses" name="postToExpenses" type="checkbox" defaultChecked={autoPostExpenses} />
+              <label htmlFor="pp-postToExpenses">Catat juga sebagai biaya</label>
+            </div>
+            <div className="modal-actions">
+              <button type="button" className="btn btn-secondary" onClick={() => setPayingPayable(null)}>Batal</button>
+              <button type="submit" className="btn btn-primary">Bayar</button>
+            </div>
+          </form>
+        )}
+      </Modal>
 
-            {sortedRevenues.length > 0 ? (
-                <div className="table-wrapper">
-                    <table>
-                    <thead>
-                        <tr>
-                        <th>No</th>
-                        <th>Keterangan</th>
-                        <th>Tanggal</th>
-                        <th>Jumlah</th>
-                        <th>Aksi</th>
-                        </tr>
-                    </thead>
-                    <tbody>
-                        {sortedRevenues.map((r, index) => (
-                        <tr key={r.id}>
-                            <td>{index + 1}</td>
-                            <td>{r.description}</td>
-                            <td>{formatDate(r.date)}</td>
-                            <td>{formatCurrency(r.amount)}</td>
-                            <td className="actions">
-                                <button className="btn-icon" title="Edit" onClick={() => handleOpenEditModal(r, 'revenue')}>
-                                    <svg className="icon-edit" viewBox="0 0 24 24"><path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z"/></svg>
-                                </button>
-                                <button className="btn-icon" title="Hapus" onClick={() => handleDeleteRevenue(r.id)}>
-                                    <svg className="icon-delete" viewBox="0 0 24 24"><path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/></svg>
-                                </button>
-                            </td>
-                        </tr>
-                        ))}
-                    </tbody>
-                    </table>
-                </div>
+      <Modal isOpen={!!ledgerPayable} onClose={() => setLedgerPayableId(null)} wide>
+        {ledgerPayable && (
+          <div>
+            <h3>Riwayat Pembayaran Hutang</h3>
+            <p className="modal-subtitle">
+              {ledgerPayable.description} &middot; Total {formatCurrency(ledgerPayable.total_amount, ledgerPayable.currency)} &middot; Terbayar {formatCurrency(paidByPayable.get(ledgerPayable.id) ?? 0, ledgerPayable.currency)}
+            </p>
+            {payablePayments.some(p => p.payable_id === ledgerPayable.id) ? (
+              <div className="table-wrapper">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Tanggal</th>
+                      <th>Jumlah</th>
+                      <th>Metode</th>
+                      <th>Catatan</th>
+                      <th>Aksi</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {payablePayments.filter(p => p.payable_id === ledgerPayable.id).map(p => (
+                      <tr key={p.id} className={p.voided_at ? 'row-voided' : ''}>
+                        <td>{formatDate(p.paid_at)}</td>
+                        <td>{formatCurrency(p.amount, p.currency)}</td>
+                        <td>{PAYMENT_METHOD_LABELS[p.method] ?? p.method}</td>
+                        <td>{p.voided_at ? `Dibatalkan ${formatDate(p.voided_at.slice(0, 10))}` : (p.note || '-')}</td>
+                        <td className="actions">
+                          {!p.voided_at && can(role, 'managePayments') && (
+                            <button className="btn-icon" title="Batalkan" onClick={() => handleVoidPayablePayment(p)}>
+                              <svg className="icon-delete" viewBox="0 0 24 24"><path d="M12 2C6.47 2 2 6.47 2 12s4.47 10 10 10 10-4.47 10-10S17.53 2 12 2zm5 13.59L15.59 17 12 13.41 8.41 17 7 15.59 10.59 12 7 8.41 8.41 7 12 10.59 15.59 7 17 8.41 13.41 12 17 15.59z"/></svg>
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
             ) : (
-                <div className="empty-state"><p>Belum ada catatan pendapatan.</p></div>
+              <div className="empty-state"><p>Belum ada pembayaran untuk hutang ini.</p></div>
             )}
-          </section>
+            <div className="modal-actions">
+              <button type="button" className="btn btn-secondary" onClick={() => setLedgerPayableId(null)}>Tutup</button>
+            </div>
+          </div>
         )}
-      </main>
+      </Modal>
 
-      {/* --- MODALS --- */}
-      <Modal isOpen={isReceivableModalOpen} onClose={() => setReceivableModalOpen(false)}>
-        <form onSubmit={handleAddReceivable}>
-          <h3>Tambah Piutang Baru</h3>
+      <Modal isOpen={editingExpense !== undefined} onClose={() => setEditingExpense(undefined)}>
+        <form key={editingExpense?.id ?? 'new'} onSubmit={handleSaveExpense}>
+          <h3>{editingExpense ? 'Edit Biaya' : 'Tambah Biaya Baru'}</h3>
           <div className="form-group">
-            <label htmlFor="r-description">Keterangan</label>
-            <input id="r-description" name="description" type="text" required />
+            <label htmlFor="exp-description">Keterangan</label>
+            <input id="exp-description" name="description" type="text" defaultValue={editingExpense?.description} required />
           </div>
           <div className="form-group">
-            <label htmlFor="r-totalAmount">Total Piutang (IDR)</label>
-            <input id="r-totalAmount" name="totalAmount" type="number" min="0" required />
+            <label htmlFor="exp-currency">Mata Uang</label>
+            <select id="exp-currency" name="currency" defaultValue={editingExpense?.currency ?? baseCurrency}>
+              {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} — {c.label}</option>)}
+            </select>
           </div>
           <div className="form-group">
-            <label htmlFor="r-dueDate">Tanggal Jatuh Tempo</label>
-            <input id="r-dueDate" name="dueDate" type="date" required />
+            <label htmlFor="exp-amount">Jumlah</label>
+            <input id="exp-amount" name="amount" type="number" min="0" step="any" defaultValue={editingExpense?.amount} required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="exp-date">Tanggal</label>
+            <input id="exp-date" name="date" type="date" defaultValue={editingExpense?.date ?? todayISO()} required />
           </div>
           <div className="modal-actions">
-            <button type="button" className="btn btn-secondary" onClick={() => setReceivableModalOpen(false)}>Batal</button>
+            <button type="button" className="btn btn-secondary" onClick={() => setEditingExpense(undefined)}>Batal</button>
             <button type="submit" className="btn btn-primary">Simpan</button>
           </div>
         </form>
       </Modal>
 
-      <Modal isOpen={isRevenueModalOpen} onClose={() => setRevenueModalOpen(false)}>
-        <form onSubmit={handleAddRevenue}>
-          <h3>Tambah Pendapatan Baru</h3>
+      <Modal isOpen={editingCustomer !== undefined} onClose={() => setEditingCustomer(undefined)}>
+        <form onSubmit={handleSaveCustomer}>
+          <h3>{editingCustomer ? 'Edit Pelanggan' : 'Tambah Pelanggan Baru'}</h3>
           <div className="form-group">
-            <label htmlFor="rev-description">Keterangan</label>
-            <input id="rev-description" name="description" type="text" required />
+            <label htmlFor="c-name">Nama</label>
+            <input id="c-name" name="name" type="text" defaultValue={editingCustomer?.name} required />
           </div>
           <div className="form-group">
-            <label htmlFor="rev-amount">Jumlah (IDR)</label>
-            <input id="rev-amount" name="amount" type="number" min="0" required />
+            <label htmlFor="c-phone">Telepon</label>
+            <input id="c-phone" name="phone" type="tel" defaultValue={editingCustomer?.phone ?? ''} />
           </div>
           <div className="form-group">
-            <label htmlFor="rev-date">Tanggal</label>
-            <input id="rev-date" name="date" type="date" required />
+            <label htmlFor="c-email">Email</label>
+            <input id="c-email" name="email" type="email" defaultValue={editingCustomer?.email ?? ''} />
+          </div>
+          <div className="form-group">
+            <label htmlFor="c-address">Alamat</label>
+            <input id="c-address" name="address" type="text" defaultValue={editingCustomer?.address ?? ''} />
+          </div>
+          <div className="form-group">
+            <label htmlFor="c-notes">Catatan</label>
+            <textarea id="c-notes" name="notes" rows={3} defaultValue={editingCustomer?.notes ?? ''} />
           </div>
           <div className="modal-actions">
-            <button type="button" className="btn btn-secondary" onClick={() => setRevenueModalOpen(false)}>Batal</button>
+            <button type="button" className="btn btn-secondary" onClick={() => setEditingCustomer(undefined)}>Batal</button>
             <button type="submit" className="btn btn-primary">Simpan</button>
           </div>
         </form>
       </Modal>
 
-      <Modal isOpen={isPaymentModalOpen} onClose={() => {setPaymentModalOpen(false); setCurrentReceivable(null);}}>
-        <form onSubmit={handleRecordPayment}>
-          <h3>Catat Pembayaran</h3>
-          <p>Sisa Piutang: <strong>{formatCurrency(currentReceivable?.total_amount! - currentReceivable?.paid_amount!)}</strong></p>
+      <Modal isOpen={editingTemplate !== undefined} onClose={() => setEditingTemplate(undefined)}>
+        <form key={editingTemplate?.id ?? 'new'} onSubmit={handleSaveTemplate}>
+          <h3>{editingTemplate ? 'Edit Jadwal Berulang' : 'Tambah Jadwal Berulang'}</h3>
+          <div className="form-group">
+            <label htmlFor="t-target">Jenis</label>
+            <select id="t-target" name="target" defaultValue={editingTemplate?.target ?? 'receivable'} disabled={!!editingTemplate}>
+              <option value="receivable">Piutang</option>
+              <option value="revenue">Pendapatan</option>
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="t-customerId">Pelanggan (khusus piutang)</label>
+            <select id="t-customerId" name="customerId" defaultValue={editingTemplate?.customer_id ?? ''}>
+              <option value="">— Tanpa pelanggan —</option>
+              {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="t-description">Keterangan</label>
+            <input id="t-description" name="description" type="text" defaultValue={editingTemplate?.description} required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="t-currency">Mata Uang</label>
+            <select id="t-currency" name="currency" defaultValue={editingTemplate?.currency ?? baseCurrency}>
+              {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} — {c.label}</option>)}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="t-amount">Jumlah</label>
+            <input id="t-amount" name="amount" type="number" min="0" step="any" defaultValue={editingTemplate?.amount} required />
+          </div>
+          <div className="mapping-grid">
+            <div className="form-group">
+              <label htmlFor="t-interval">Ulangi Setiap</label>
+              <input id="t-interval" name="interval" type="number" min="1" step="1" defaultValue={editingTemplate?.interval ?? 1} required />
+            </div>
+            <div className="form-group">
+              <label htmlFor="t-unit">Satuan</label>
+              <select id="t-unit" name="unit" defaultValue={editingTemplate?.unit ?? 'month'}>
+                {(Object.keys(RECURRENCE_UNIT_LABELS) as RecurrenceUnit[]).map(unit => (
+                  <option key={unit} value={unit}>{RECURRENCE_UNIT_LABELS[unit]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="form-group">
+            <label htmlFor="t-startDate">Tanggal Mulai</label>
+            <input id="t-startDate" name="startDate" type="date" defaultValue={editingTemplate?.start_date ?? todayISO()} required />
+          </div>
+          <div className="form-group">
+            <label htmlFor="t-endDate">Tanggal Selesai (opsional)</label>
+            <input id="t-endDate" name="endDate" type="date" defaultValue={editingTemplate?.end_date ?? ''} />
+          </div>
+          <div className="form-group">
+            <label htmlFor="t-maxOccurrences">Jumlah Kali (opsional)</label>
+            <input id="t-maxOccurrences" name="maxOccurrences" type="number" min="1" step="1" defaultValue={editingTemplate?.max_occurrences ?? ''} />
+          </div>
           <div className="form-group">
-            <label htmlFor="p-paymentAmount">Jumlah Pembayaran (IDR)</label>
-            <input id="p-paymentAmount" name="paymentAmount" type="number" min="0" max={currentReceivable?.total_amount! - currentReceivable?.paid_amount!} autoFocus required />
+            <label htmlFor="t-dueAfterDays">Jatuh Tempo (hari setelah tanggal transaksi, khusus piutang)</label>
+            <input id="t-dueAfterDays" name="dueAfterDays" type="number" min="0" step="1" defaultValue={editingTemplate?.due_after_days ?? 14} />
           </div>
+          {editingTemplate?.generated_through && (
+            <p className="modal-subtitle">
+              Transaksi sampai {formatDate(editingTemplate.generated_through)} sudah dibuat; perubahan berlaku untuk transaksi berikutnya.
+            </p>
+          )}
           <div className="modal-actions">
-            <button type="button" className="btn btn-secondary" onClick={() => {setPaymentModalOpen(false); setCurrentReceivable(null);}}>Batal</button>
-            <button type="submit" className="btn btn-primary">Bayar</button>
+            <button type="button" className="btn btn-secondary" onClick={() => setEditingTemplate(undefined)}>Batal</button>
+            <button type="submit" className="btn btn-primary">Simpan</button>
           </div>
         </form>
       </Modal>
 
+      <Modal isOpen={!!adjustingOccurrence} onClose={() => setAdjustingOccurrence(null)}>
+        {adjustingOccurrence && (
+          <form key={`${adjustingOccurrence.template.id}-${adjustingOccurrence.scheduled}`} onSubmit={handleAdjustOccurrence}>
+            <h3>Ubah Jadwal</h3>
+            <p className="modal-subtitle">
+              {adjustingOccurrence.template.description}, dijadwalkan {formatDate(adjustingOccurrence.scheduled)}
+            </p>
+            <div className="form-group">
+              <label htmlFor="o-date">Tanggal</label>
+              <input id="o-date" name="date" type="date" defaultValue={adjustingOccurrence.date} required />
+            </div>
+            <div className="form-group">
+              <label htmlFor="o-amount">Jumlah</label>
+              <input id="o-amount" name="amount" type="number" min="0" step="any" defaultValue={adjustingOccurrence.amount} required />
+            </div>
+            <div className="modal-actions">
+              <button type="button" className="btn btn-secondary" onClick={() => setAdjustingOccurrence(null)}>Batal</button>
+              <button type="submit" className="btn btn-primary">Simpan</button>
+            </div>
+          </form>
+        )}
+      </Modal>
+
+      <Modal isOpen={!!statementCustomer} onClose={() => setStatementCustomerId(null)} wide>
+        {statementCustomer && (
+          <>
+            <CustomerStatement
+              customer={statementCustomer}
+              receivables={activeReceivables.filter(r => r.customer_id === statementCustomer.id)}
+              payments={payments}
+              convert={convert}
+              baseCurrency={baseCurrency}
+            />
+            <div className="modal-actions">
+              <button type="button" className="btn btn-secondary" onClick={() => setStatementCustomerId(null)}>Tutup</button>
+            </div>
+          </>
+        )}
+      </Modal>
+
       <Modal isOpen={!!editingItem} onClose={handleCloseEditModal}>
         {editingItem?.type === 'receivable' && (
           <form onSubmit={handleUpdateItem}>
             <h3>Edit Piutang</h3>
+            <div className="form-group">
+                <label htmlFor="e-r-customerId">Pelanggan</label>
+                <select id="e-r-customerId" name="customerId" defaultValue={(editingItem.data as Receivable).customer_id ?? ''}>
+                    <option value="">— Tanpa pelanggan —</option>
+                    {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+            </div>
             <div className="form-group">
                 <label htmlFor="e-r-description">Keterangan</label>
                 <input id="e-r-description" name="description" type="text" defaultValue={(editingItem.data as Receivable).description} required />
             </div>
             <div className="form-group">
-                <label htmlFor="e-r-totalAmount">Total Piutang (IDR)</label>
-                <input id="e-r-totalAmount" name="totalAmount" type="number" min="0" defaultValue={(editingItem.data as Receivable).total_amount} required />
+                <label htmlFor="e-r-totalAmount">Total Piutang ({(editingItem.data as Receivable).currency})</label>
+                <input id="e-r-totalAmount" name="totalAmount" type="number" min="0" step="any" defaultValue={(editingItem.data as Receivable).total_amount} required />
+            </div>
+            <div className="form-group">
+                <label htmlFor="e-r-issueDate">Tanggal Transaksi</label>
+                <input id="e-r-issueDate" name="issueDate" type="date" defaultValue={(editingItem.data as Receivable).issue_date ?? ''} />
             </div>
             <div className="form-group">
                 <label htmlFor="e-r-dueDate">Tanggal Jatuh Tempo</label>
                 <input id="e-r-dueDate" name="dueDate" type="date" defaultValue={(editingItem.data as Receivable).due_date} required />
             </div>
+            <CategoryFields
+              idPrefix="e-r"
+              categories={categories}
+              categoryId={editingItem.data.category_id}
+              tags={editingItem.data.tags}
+            />
+            <LateFeeFields
+              idPrefix="e-r"
+              rule={(editingItem.data as Receivable).late_fee_rule}
+              defaultDescription={defaultLateFeeDescription}
+            />
             <div className="modal-actions">
                 <button type="button" className="btn btn-secondary" onClick={handleCloseEditModal}>Batal</button>
                 <button type="submit" className="btn btn-primary">Update</button>
@@ -594,14 +6829,28 @@ const Dashboard: React.FC<{ session: Session }> = ({ session }) => {
                 <label htmlFor="e-rev-description">Keterangan</label>
                 <input id="e-rev-description" name="description" type="text" defaultValue={(editingItem.data as Revenue).description} required />
             </div>
+            {!(editingItem.data as Revenue).payment_id && (
+              <div className="form-group">
+                  <label htmlFor="e-rev-currency">Mata Uang</label>
+                  <select id="e-rev-currency" name="currency" defaultValue={(editingItem.data as Revenue).currency}>
+                      {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} — {c.label}</option>)}
+                  </select>
+              </div>
+            )}
             <div className="form-group">
-                <label htmlFor="e-rev-amount">Jumlah (IDR)</label>
-                <input id="e-rev-amount" name="amount" type="number" min="0" defaultValue={(editingItem.data as Revenue).amount} required />
+                <label htmlFor="e-rev-amount">Jumlah{(editingItem.data as Revenue).payment_id ? ` (${(editingItem.data as Revenue).currency})` : ''}</label>
+                <input id="e-rev-amount" name="amount" type="number" min="0" step="any" defaultValue={(editingItem.data as Revenue).amount} required />
             </div>
             <div className="form-group">
                 <label htmlFor="e-rev-date">Tanggal</label>
                 <input id="e-rev-date" name="date" type="date" defaultValue={(editingItem.data as Revenue).date} required />
             </div>
+            <CategoryFields
+              idPrefix="e-rev"
+              categories={categories}
+              categoryId={editingItem.data.category_id}
+              tags={editingItem.data.tags}
+            />
             <div className="modal-actions">
                 <button type="button" className="btn btn-secondary" onClick={handleCloseEditModal}>Batal</button>
                 <button type="submit" className="btn btn-primary">Update</button>
@@ -614,27 +6863,235 @@ const Dashboard: React.FC<{ session: Session }> = ({ session }) => {
   );
 };
 
+// --- WORKSPACE GATE COMPONENT ---
+// The workspaces with the given ids, by id. Rows the user may not read are left out.
+const fetchWorkspacesById = async (ids: string[]) => {
+  const { data, error } = ids.length > 0
+    ? await backend.table<Workspace>('workspaces').list({ where: { id: ids } })
+    : { data: [], error: null };
+  return { workspaces: new Map((data ?? []).map(workspace => [workspace.id, workspace])), error };
+};
+
+// Loads the signed-in user's workspaces and mounts the dashboard for the selected one.
+const WorkspaceGate: React.FC<{ session: AuthSession }> = ({ session }) => {
+  const userId = session.user.id;
+  const email = normalizeEmail(session.user.email ?? '');
+  const [memberships, setMemberships] = useState<Membership[] | null>(null);
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+  const [currentId, setCurrentId] = useState(() => localStorage.getItem(currentWorkspaceKey(userId)));
+
+  // Rows written before workspaces existed belong to their author only; the first
+  // workspace takes them over so the existing ledger carries on unchanged.
+  const createWorkspace = useCallback(async (name: string, adoptLegacyRows: boolean) => {
+    const { data, error } = await backend.workspaces.create(name, adoptLegacyRows);
+    if (error) {
+        alert(error.message);
+        return null;
+    }
+    return data;
+  }, []);
+
+  const fetchMemberships = useCallback(async () => {
+    const { data, error } = await backend.table<WorkspaceMember>('workspace_members').list({ where: { user_id: userId } });
+    const { workspaces, error: workspacesError } = await fetchWorkspacesById((data ?? []).map(m => m.workspace_id));
+
+    if (error || workspacesError) {
+      console.error('Error fetching workspaces:', error ?? workspacesError);
+      // Offline: fall back to the list from the last successful load.
+      try {
+        setMemberships(JSON.parse(localStorage.getItem(workspacesCacheKey(userId)) ?? '[]'));
+      } catch {
+        setMemberships([]);
+      }
+      return;
+    }
+
+    const loaded: Membership[] = data.flatMap(m => {
+      const workspace = workspaces.get(m.workspace_id);
+      return workspace ? [{ role: m.role, workspace }] : [];
+    });
+    if (loaded.length === 0) {
+      const id = await createWorkspace('Ruang Kerja Saya', true);
+      if (id) fetchMemberships();
+      else setMemberships([]);
+      return;
+    }
+    localStorage.setItem(workspacesCacheKey(userId), JSON.stringify(loaded));
+    setMemberships(loaded);
+  }, [userId, createWorkspace]);
+
+  const fetchInvitations = useCallback(async () => {
+    const { data, error } = await backend
+      .table<WorkspaceInvitation>('workspace_invitations')
+      .list({ where: { email, accepted_at: null } });
+
+    if (error) {
+        console.error('Error fetching invitations:', error);
+        return;
+    }
+    const { workspaces } = await fetchWorkspacesById(data.map(invitation => invitation.workspace_id));
+    setInvitations(data.map(invitation => ({ ...invitation, workspace: workspaces.get(invitation.workspace_id) ?? null })));
+  }, [email]);
+
+  useEffect(() => {
+    fetchMemberships();
+    fetchInvitations();
+  }, [fetchMemberships, fetchInvitations]);
+
+  const handleSwitch = (workspaceId: string) => {
+    setCurrentId(workspaceId);
+    localStorage.setItem(currentWorkspaceKey(userId), workspaceId);
+  };
+
+  const handleCreate = async (name: string) => {
+    const id = await createWorkspace(name, false);
+    if (id) {
+      await fetchMemberships();
+      handleSwitch(id);
+    }
+  };
+
+  const handleAcceptInvitation = async (invitation: PendingInvitation) => {
+    const { error } = await backend.workspaces.acceptInvitation(invitation.id);
+    if (error) {
+        alert(error.message);
+        return;
+    }
+    await Promise.all([fetchMemberships(), fetchInvitations()]);
+    handleSwitch(invitation.workspace_id);
+  };
+
+  const handleDeclineInvitation = async (invitation: PendingInvitation) => {
+    if (window.confirm(`Tolak undangan ke ${invitation.workspace?.name ?? 'ruang kerja ini'}?`)) {
+      const { error } = await backend.table('workspace_invitations').remove({ id: invitation.id });
+      if (error) {
+          alert(error.message);
+      } else {
+          setInvitations(rows => rows.filter(r => r.id !== invitation.id));
+      }
+    }
+  };
+
+  if (!memberships) {
+    return <div className="auth-container"><p>Memuat ruang kerja…</p></div>;
+  }
+
+  const current = memberships.find(m => m.workspace.id === currentId) ?? memberships[0];
+  if (!current) {
+    return (
+      <div className="auth-container">
+        <p>Ruang kerja tidak dapat dimuat. Periksa koneksi Anda lalu coba lagi.</p>
+        <button className="btn btn-primary" onClick={fetchMemberships}>Coba Lagi</button>
+        <button className="btn logout-btn" onClick={() => backend.auth.signOut()}>Logout</button>
+      </div>
+    );
+  }
+
+  return (
+    // Keyed by workspace so switching books starts from a clean dashboard.
+    <Dashboard
+      key={current.workspace.id}
+      session={session}
+      workspace={current.workspace}
+      role={current.role}
+      workspaceSwitcher={
+        <WorkspaceSwitcher
+          session={session}
+          memberships={memberships}
+          current={current}
+          invitations={invitations}
+          onSwitch={handleSwitch}
+          onCreate={handleCreate}
+          onAcceptInvitation={handleAcceptInvitation}
+          onDeclineInvitation={handleDeclineInvitation}
+        />
+      }
+    />
+  );
+};
+
+
 // --- MAIN APP COMPONENT ---
 const App: React.FC = () => {
-    const [session, setSession] = useState<Session | null>(null);
+    const [session, setSession] = useState<AuthSession | null>(null);
+    const [isRecovering, setRecovering] = useState(isRecoveryLink);
+    const [linkError] = useState(emailLinkError);
+    // null until the session's assurance level is known.
+    const [needsSecondFactor, setNeedsSecondFactor] = useState<boolean | null>(null);
+    const [assuranceError, setAssuranceError] = useState<string | null>(null);
+    const [assuranceCheck, setAssuranceCheck] = useState(0);
 
     useEffect(() => {
-        supabase.auth.getSession().then(({ data: { session } }) => {
+        backend.auth.getSession().then(session => {
             setSession(session);
         });
 
-        const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+        return backend.auth.onSessionChange((session, event) => {
             setSession(session);
+            if (event === 'passwordRecovery') setRecovering(true);
         });
-
-        return () => subscription.unsubscribe();
     }, []);
 
+    // Accounts with an authenticator give a code after every sign in. This only routes
+    // the user through the challenge; until the code is given, the restrictive policies
+    // in 0003_workspace_access.sql refuse the session every row and the workspace
+    // functions refuse to run. The previous answer stays up while a refreshed session is checked.
+    // When the check fails nobody gets in, since the account may well have a second factor.
+    useEffect(() => {
+        if (!session) {
+            setNeedsSecondFactor(null);
+            setAssuranceError(null);
+            return;
+        }
+        backend.auth.mfa.assuranceLevel().then(({ data, error }) => {
+            if (error) {
+                console.error('Error checking the sign-in assurance level:', error);
+                setAssuranceError(error.message);
+                return;
+            }
+            setAssuranceError(null);
+            setNeedsSecondFactor(data.current === 'aal1' && data.next === 'aal2');
+        });
+    }, [session, assuranceCheck]);
+
+    const retryAssuranceCheck = () => {
+        setAssuranceError(null);
+        setNeedsSecondFactor(null);
+        setAssuranceCheck(count => count + 1);
+    };
+
+    const finishRecovery = () => {
+        setRecovering(false);
+        const params = new URLSearchParams(window.location.search);
+        params.delete('auth');
+        const query = params.toString();
+        window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+    };
+
     if (!session) {
-        return <Auth />;
+        return <Auth initialError={linkError} />;
+    } else if (assuranceError) {
+        return (
+            <div className="auth-container">
+                <div className="auth-form">
+                    <h1>Verifikasi Gagal</h1>
+                    <FormMessage notice={{ tone: 'error', text: `Status verifikasi dua langkah tidak dapat diperiksa: ${assuranceError}` }} />
+                    <button className="btn btn-primary" onClick={retryAssuranceCheck}>Coba Lagi</button>
+                    <div className="auth-actions">
+                        <button onClick={() => backend.auth.signOut()}>Logout</button>
+                    </div>
+                </div>
+            </div>
+        );
+    } else if (needsSecondFactor === null) {
+        return <div className="auth-container"><p>Memuat…</p></div>;
+    } else if (needsSecondFactor) {
+        return <MfaChallenge />;
+    } else if (isRecovering) {
+        return <PasswordRecovery onDone={finishRecovery} />;
     } else {
-        // We use a key here to force re-mounting the Dashboard when the user changes, ensuring data is fresh.
-        return <Dashboard key={session.user.id} session={session} />;
+        // We use a key here to force re-mounting when the user changes, ensuring data is fresh.
+        return <WorkspaceGate key={session.user.id} session={session} />;
     }
 };
 
@@ -642,5 +7099,14 @@ const App: React.FC = () => {
 const container = document.getElementById('root');
 if (container) {
   const root = createRoot(container);
-  root.render(<App />);
+  // A share link opens the debtor portal on its own, outside any session.
+  const portalToken = new URLSearchParams(window.location.search).get(PORTAL_PARAM);
+  root.render(portalToken ? <DebtorPortal token={portalToken} /> : <App />);
+}
+
+// The service worker caches the app shell so the installed app starts without a connection.
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => console.error('Service worker registration failed:', error));
+  });
 }
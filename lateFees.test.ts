@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { NO_LATE_FEES, calculateLateFees, createBalanceOf, describeLateFeeRule, effectiveRule, receivableBalance } from './lateFees';
+import { LateFeeRule } from './types';
+
+const rule = (fields: Partial<LateFeeRule>): LateFeeRule => ({ kind: 'flat', rate: 50, grace_days: 0, cap_percent: null, ...fields });
+
+const payment = (id: string, amount: number, paid_at: string) => ({ id, amount, paid_at });
+
+const DUE = '2025-01-31';
+
+describe('calculateLateFees', () => {
+  it('charges nothing before the grace period ends', () => {
+    expect(calculateLateFees(1000, DUE, rule({ grace_days: 3 }), [], '2025-02-03').feesAccrued).toBe(0);
+    expect(calculateLateFees(1000, DUE, rule({ grace_days: 3 }), [], '2025-02-04').feesAccrued).toBe(50);
+  });
+
+  it('charges a flat fee once', () => {
+    expect(calculateLateFees(1000, DUE, rule({}), [], '2025-06-30')).toMatchObject({
+      feesAccrued: 50, outstandingFees: 50, outstandingPrincipal: 1000,
+    });
+  });
+
+  it('settles fees before principal', () => {
+    const status = calculateLateFees(1000, DUE, rule({}), [payment('p1', 100, '2025-02-10')], '2025-02-28');
+    expect(status).toMatchObject({ feesPaid: 50, principalPaid: 50, outstandingFees: 0, outstandingPrincipal: 950 });
+    expect(status.allocations).toEqual([{ paymentId: 'p1', toFees: 50, toPrincipal: 50 }]);
+  });
+
+  it('charges monthly on the principal outstanding at each charge', () => {
+    const monthly = rule({ kind: 'monthly', rate: 2, grace_days: 5 });
+    expect(calculateLateFees(1000, DUE, monthly, [], '2025-03-10').feesAccrued).toBe(40);
+    expect(calculateLateFees(1000, DUE, monthly, [payment('p1', 500, '2025-02-20')], '2025-03-10')).toMatchObject({
+      feesAccrued: 30.4, feesPaid: 20, outstandingFees: 10.4, principalPaid: 480, outstandingPrincipal: 520,
+    });
+  });
+
+  it('accrues daily interest for every day past the grace period', () => {
+    expect(calculateLateFees(1000, DUE, rule({ kind: 'daily', rate: 0.1 }), [], '2025-02-10').feesAccrued).toBe(10);
+  });
+
+  it('stops accruing once the principal is paid', () => {
+    const daily = rule({ kind: 'daily', rate: 0.1 });
+    const status = calculateLateFees(1000, DUE, daily, [payment('p1', 1005, '2025-02-05')], '2025-03-31');
+    expect(status).toMatchObject({ feesAccrued: 5, outstandingFees: 0, outstandingPrincipal: 0 });
+  });
+
+  it('caps the total charged', () => {
+    const capped = rule({ kind: 'monthly', rate: 10, cap_percent: 15 });
+    expect(calculateLateFees(1000, DUE, capped, [], '2025-03-10').feesAccrued).toBe(150);
+  });
+
+  it('ignores payments made after the as-of date', () => {
+    const status = calculateLateFees(1000, DUE, rule({}), [payment('p1', 1050, '2025-03-01')], '2025-02-28');
+    expect(status).toMatchObject({ feesPaid: 0, principalPaid: 0, outstandingFees: 50, allocations: [] });
+  });
+
+  it('charges nothing without a rule or a due date', () => {
+    expect(calculateLateFees(1000, DUE, NO_LATE_FEES, [], '2025-12-31').feesAccrued).toBe(0);
+    expect(calculateLateFees(1000, null, rule({}), [], '2025-12-31').feesAccrued).toBe(0);
+  });
+});
+
+describe('effectiveRule', () => {
+  it('prefers the receivable rule, then the workspace default', () => {
+    const own = rule({ rate: 1 });
+    const fallback = rule({ rate: 2 });
+    expect(effectiveRule(own, fallback)).toBe(own);
+    expect(effectiveRule(null, fallback)).toBe(fallback);
+    expect(effectiveRule(null, null)).toBe(NO_LATE_FEES);
+  });
+});
+
+describe('describeLateFeeRule', () => {
+  it('summarizes the rule', () => {
+    const format = (amount: number, currency: string) => `${currency} ${amount}`;
+    expect(describeLateFeeRule(rule({ kind: 'monthly', rate: 2, grace_days: 7, cap_percent: 20 }), 'IDR', format))
+      .toBe('2% per bulan, tenggang 7 hari, maks. 20% dari pokok');
+    expect(describeLateFeeRule(rule({}), 'IDR', format)).toBe('IDR 50 sekali');
+  });
+});
+
+describe('receivableBalance', () => {
+  const receivable = { id: 'r1', total_amount: 1000, due_date: DUE, late_fee_rule: null };
+
+  it('adds outstanding fees to the principal owed', () => {
+    const balance = receivableBalance(receivable, [payment('p1', 100, '2025-02-10')], rule({}), '2025-02-28');
+    expect(balance).toMatchObject({ paid: 100, outstandingPrincipal: 950, outstandingFees: 0, outstanding: 950 });
+  });
+
+  it('never reports an overpayment as a negative balance', () => {
+    const balance = receivableBalance(receivable, [payment('p1', 1200, '2025-01-15')], null, '2025-02-28');
+    expect(balance).toMatchObject({ paid: 1200, outstandingPrincipal: -200, outstanding: 0 });
+  });
+});
+
+describe('createBalanceOf', () => {
+  const receivable = { id: 'r1', total_amount: 1000, due_date: DUE, late_fee_rule: null };
+  const payments = [
+    { ...payment('p1', 300, '2025-02-01'), receivable_id: 'r1', voided_at: null },
+    { ...payment('p2', 300, '2025-02-02'), receivable_id: 'r1', voided_at: '2025-02-03T00:00:00Z' },
+    { ...payment('p3', 300, '2025-02-01'), receivable_id: 'r2', voided_at: null },
+  ];
+
+  it('applies the live payments of each receivable under the workspace default', () => {
+    const balanceOf = createBalanceOf(payments, rule({}));
+    expect(balanceOf(receivable, '2025-02-28')).toMatchObject({ paid: 300, outstandingFees: 0, outstandingPrincipal: 750, outstanding: 750 });
+    expect(balanceOf({ ...receivable, late_fee_rule: NO_LATE_FEES }, '2025-02-28').outstanding).toBe(700);
+  });
+
+  it('recomputes for another date or an edited row', () => {
+    const balanceOf = createBalanceOf(payments, null);
+    expect(balanceOf(receivable, '2025-01-31').outstanding).toBe(1000);
+    expect(balanceOf(receivable, '2025-02-28').outstanding).toBe(700);
+    expect(balanceOf({ ...receivable, total_amount: 2000 }, '2025-02-28').outstanding).toBe(1700);
+  });
+});
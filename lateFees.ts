@@ -0,0 +1,192 @@
+import { LateFeeKind, LateFeeRule, Payment, Receivable } from './types';
+import { addDays, addMonths, daysBetween } from './dates';
+
+// Late fees on overdue receivables. Nothing is stored: the fees owed on a given day follow
+// from the receivable, its rule and its payments, so recording, editing or voiding a
+// payment simply changes the result.
+//
+// Fees start accruing the day after the grace period ends (the due date plus
+// grace_days) and only while principal is outstanding:
+// - flat: `rate` once, in the receivable's currency;
+// - monthly: `rate` percent of the outstanding principal on that day and on the same day
+//   of every following month;
+// - daily: `rate` percent of the outstanding principal for every day.
+// Payments settle the fees accrued so far first and the principal after that. The total
+// ever charged is capped at `cap_percent` percent of the principal, when set.
+
+export const LATE_FEE_KIND_LABELS: Record<LateFeeKind, string> = {
+  none: 'Tanpa denda',
+  flat: 'Denda tetap',
+  monthly: 'Persen per bulan',
+  daily: 'Bunga harian (persen per hari)',
+};
+
+export const NO_LATE_FEES: LateFeeRule = { kind: 'none', rate: 0, grace_days: 0, cap_percent: null };
+
+export interface FeePayment {
+  id: string;
+  amount: number;
+  paid_at: string;
+}
+
+export interface FeeAllocation {
+  paymentId: string;
+  toFees: number;
+  toPrincipal: number;
+}
+
+export interface LateFeeStatus {
+  // Everything charged up to `asOf`.
+  feesAccrued: number;
+  feesPaid: number;
+  principalPaid: number;
+  outstandingFees: number;
+  // Negative when the receivable has been overpaid.
+  outstandingPrincipal: number;
+  allocations: FeeAllocation[];
+}
+
+// Cents are the smallest unit any supported currency needs.
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// The rule a receivable runs under: its own, else the workspace default, else none.
+export const effectiveRule = (own: LateFeeRule | null, workspaceDefault: LateFeeRule | null) =>
+  own ?? workspaceDefault ?? NO_LATE_FEES;
+
+export const describeLateFeeRule = (rule: LateFeeRule, currency: string, formatAmount: (amount: number, currency: string) => string) => {
+  if (rule.kind === 'none') return LATE_FEE_KIND_LABELS.none;
+  const charge = rule.kind === 'flat' ? `${formatAmount(rule.rate, currency)} sekali`
+    : rule.kind === 'monthly' ? `${rule.rate}% per bulan` : `${rule.rate}% per hari`;
+  const grace = rule.grace_days > 0 ? `, tenggang ${rule.grace_days} hari` : '';
+  const cap = rule.cap_percent !== null ? `, maks. ${rule.cap_percent}% dari pokok` : '';
+  return `${charge}${grace}${cap}`;
+};
+
+export const calculateLateFees = (
+  principal: number,
+  dueDate: string | null,
+  rule: LateFeeRule,
+  payments: FeePayment[],
+  asOf: string,
+): LateFeeStatus => {
+  const cap = rule.cap_percent !== null ? principal * rule.cap_percent / 100 : Infinity;
+  const ordered = [...payments].sort((a, b) => a.paid_at.localeCompare(b.paid_at) || a.id.localeCompare(b.id));
+  const firstChargeDate = dueDate && rule.kind !== 'none' && rule.rate > 0 ? addDays(dueDate, rule.grace_days + 1) : null;
+
+  let feesAccrued = 0;
+  let feesPaid = 0;
+  let principalPaid = 0;
+  const allocations: FeeAllocation[] = [];
+  const outstandingPrincipal = () => principal - principalPaid;
+
+  const charge = (amount: number) => {
+    feesAccrued = round(Math.min(cap, feesAccrued + Math.max(0, amount)));
+  };
+
+  // Charges falling on or before `date` for the one-off and monthly rules, in order.
+  let monthIndex = 0;
+  const chargeDatesThrough = (date: string) => {
+    const dates: string[] = [];
+    if (!firstChargeDate) return dates;
+    if (rule.kind === 'flat') {
+      if (monthIndex === 0 && firstChargeDate <= date) {
+        dates.push(firstChargeDate);
+        monthIndex = 1;
+      }
+      return dates;
+    }
+    // A bounded loop: one charge per month between the due date and `date`.
+    for (let next = addMonths(firstChargeDate, monthIndex); next <= date; next = addMonths(firstChargeDate, monthIndex)) {
+      dates.push(next);
+      monthIndex++;
+    }
+    return dates;
+  };
+
+  // Daily interest on the principal outstanding over (from, to]; `from` starts at the
+  // day before the first charge so that day itself accrues.
+  let accruedThrough = firstChargeDate ? addDays(firstChargeDate, -1) : null;
+  const accrueThrough = (date: string) => {
+    if (rule.kind === 'daily') {
+      if (!accruedThrough || date <= accruedThrough) return;
+      if (outstandingPrincipal() > 0) charge(outstandingPrincipal() * rule.rate / 100 * daysBetween(accruedThrough, date));
+      accruedThrough = date;
+      return;
+    }
+    chargeDatesThrough(date).forEach(() => {
+      if (outstandingPrincipal() <= 0) return;
+      charge(rule.kind === 'flat' ? rule.rate : outstandingPrincipal() * rule.rate / 100);
+    });
+  };
+
+  // Fees up to and including a payment's day are charged before the payment settles them.
+  ordered.forEach(payment => {
+    if (payment.paid_at > asOf) return;
+    accrueThrough(payment.paid_at);
+    const toFees = round(Math.min(Math.max(0, payment.amount), feesAccrued - feesPaid));
+    const toPrincipal = round(payment.amount - toFees);
+    feesPaid = round(feesPaid + toFees);
+    principalPaid = round(principalPaid + toPrincipal);
+    allocations.push({ paymentId: payment.id, toFees, toPrincipal });
+  });
+  accrueThrough(asOf);
+
+  return {
+    feesAccrued,
+    feesPaid,
+    principalPaid,
+    outstandingFees: round(feesAccrued - feesPaid),
+    outstandingPrincipal: round(outstandingPrincipal()),
+    allocations,
+  };
+};
+
+export interface ReceivableBalance extends LateFeeStatus {
+  // Payments up to `asOf`, whatever they settled.
+  paid: number;
+  // Principal and fees still owed; never negative.
+  outstanding: number;
+}
+
+export type BalanceReceivable = Pick<Receivable, 'id' | 'total_amount' | 'due_date' | 'late_fee_rule'>;
+export type BalancePayment = Pick<Payment, 'id' | 'receivable_id' | 'amount' | 'paid_at'> & { voided_at?: string | null };
+
+// A receivable's balance on a given day. Every list, total, report and document reads
+// balances from one of these, so a payment that went to fees never counts as principal.
+export type BalanceOf = (receivable: BalanceReceivable, asOf: string) => ReceivableBalance;
+
+export const receivableBalance = (
+  receivable: BalanceReceivable,
+  payments: FeePayment[],
+  workspaceDefault: LateFeeRule | null,
+  asOf: string,
+): ReceivableBalance => {
+  const rule = effectiveRule(receivable.late_fee_rule, workspaceDefault);
+  const status = calculateLateFees(receivable.total_amount, receivable.due_date, rule, payments, asOf);
+  return {
+    ...status,
+    paid: round(status.feesPaid + status.principalPaid),
+    outstanding: round(Math.max(0, status.outstandingPrincipal) + status.outstandingFees),
+  };
+};
+
+// Groups the payments once; voided ones are ignored. Results are kept per receivable
+// object and date, and receivable rows are never mutated, so an edited row is recomputed.
+export const createBalanceOf = (payments: BalancePayment[], workspaceDefault: LateFeeRule | null): BalanceOf => {
+  const byReceivable = new Map<string, FeePayment[]>();
+  payments.forEach(p => {
+    if (p.voided_at) return;
+    byReceivable.set(p.receivable_id, [...(byReceivable.get(p.receivable_id) ?? []), p]);
+  });
+  const cache = new WeakMap<BalanceReceivable, Map<string, ReceivableBalance>>();
+  return (receivable, asOf) => {
+    const known = cache.get(receivable) ?? new Map<string, ReceivableBalance>();
+    cache.set(receivable, known);
+    let balance = known.get(asOf);
+    if (!balance) {
+      balance = receivableBalance(receivable, byReceivable.get(receivable.id) ?? [], workspaceDefault, asOf);
+      known.set(asOf, balance);
+    }
+    return balance;
+  };
+};
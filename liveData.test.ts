@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { mergeChanges, nextSyncMark, pageCount, syncSince } from './liveData';
+
+const deleted = (row_id: string, deleted_at = '2025-03-01T10:00:00.000Z') => ({ table_name: 'receivables' as const, row_id, deleted_at });
+
+describe('incremental loading', () => {
+  it('asks for changes from a little before the mark', () => {
+    expect(syncSince('2025-03-01T10:00:00.000Z')).toBe('2025-03-01T09:55:00.000Z');
+  });
+
+  it('moves the mark to the newest server timestamp seen', () => {
+    expect(nextSyncMark(null, [], [])).toBeNull();
+    expect(nextSyncMark('2025-03-01T10:00:00Z', [{ updated_at: '2025-03-01T09:00:00Z' }], [])).toBe('2025-03-01T10:00:00Z');
+    expect(nextSyncMark('2025-03-01T10:00:00Z', [{ updated_at: '2025-03-01T11:00:00+00:00' }, { updated_at: null }], [deleted('x')]))
+      .toBe('2025-03-01T11:00:00+00:00');
+  });
+
+  it('drops deleted rows before applying changed ones', () => {
+    const rows = [{ id: 'a', v: 1 }, { id: 'b', v: 1 }, { id: 'c', v: 1 }];
+    expect(mergeChanges(rows, [{ id: 'b', v: 2 }, { id: 'd', v: 1 }], [deleted('a'), deleted('b')]))
+      .toEqual([{ id: 'c', v: 1 }, { id: 'b', v: 2 }, { id: 'd', v: 1 }]);
+  });
+});
+
+describe('pageCount', () => {
+  it('always has at least one page', () => {
+    expect(pageCount(0)).toBe(1);
+    expect(pageCount(101, 50)).toBe(3);
+  });
+});
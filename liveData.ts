@@ -0,0 +1,73 @@
+import { DeletedRow, RowChange } from './repository';
+
+// Keeping large tables in memory without reloading them: rows are fetched in
+// fixed-size pages once, then only what changed since is fetched, and realtime payloads
+// and mutation results are merged in place by id.
+
+// PostgREST caps a single response (1000 rows by default), so anything larger has to
+// be requested range by range.
+export const LOAD_PAGE_SIZE = 1000;
+
+export const TABLE_PAGE_SIZE = 50;
+
+type PageResult<T> = PromiseLike<{ data: T[] | null; error: { message: string } | null }>;
+
+export type PageFetcher<T> = (from: number, to: number) => PageResult<T>;
+
+// Calls `onPage` with everything loaded so far after each page, so the first rows can
+// render while the rest of the table is still arriving.
+export const fetchAllPages = async <T>(
+  fetchPage: PageFetcher<T>,
+  onPage: (rows: T[]) => void,
+) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += LOAD_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + LOAD_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    onPage([...rows]);
+    if (!data || data.length < LOAD_PAGE_SIZE) return rows;
+  }
+};
+
+// Incremental loading: after the first full load of a table, later loads only ask for
+// rows whose updated_at is at or after the sync mark and for the ids deleted since. The
+// mark is the newest server timestamp seen, minus an overlap that covers transactions
+// which committed after a later one but were stamped before it. Re-reading a row twice
+// is harmless; missing one is not.
+const SYNC_OVERLAP_MS = 5 * 60 * 1000;
+
+export const syncSince = (mark: string) => new Date(Date.parse(mark) - SYNC_OVERLAP_MS).toISOString();
+
+export const nextSyncMark = (mark: string | null, changed: { updated_at?: string | null }[], deleted: DeletedRow[]) =>
+  [...changed.map(row => row.updated_at), ...deleted.map(row => row.deleted_at)]
+    .reduce<string | null>((latest, stamp) => stamp && (!latest || Date.parse(stamp) > Date.parse(latest)) ? stamp : latest, mark);
+
+// Deletions go first: a row deleted and then inserted again under the same id is in
+// both lists, and only the changed rows reflect what the server holds now.
+export const mergeChanges = <T extends { id: string }>(rows: T[], changed: T[], deleted: DeletedRow[]) =>
+  upsertRows(removeRows(rows, deleted.map(row => row.row_id)), changed);
+
+export const upsertRows = <T extends { id: string }>(rows: T[], incoming: T[]): T[] => {
+  if (incoming.length === 0) return rows;
+  const byId = new Map(incoming.map(row => [row.id, row]));
+  const updated = rows.map(row => byId.get(row.id) ?? row);
+  const existing = new Set(rows.map(row => row.id));
+  return [...updated, ...incoming.filter(row => !existing.has(row.id))];
+};
+
+export const removeRows = <T extends { id: string }>(rows: T[], ids: string[]): T[] => {
+  if (ids.length === 0) return rows;
+  const removed = new Set(ids);
+  return rows.filter(row => !removed.has(row.id));
+};
+
+// Applying the same change twice is harmless, which matters because our own writes
+// come back through the realtime channel after we have already merged them.
+export const applyRealtimeChange = <T extends { id: string }>(rows: T[], change: RowChange<T>): T[] =>
+  change.type === 'delete' ? removeRows(rows, [change.id]) : upsertRows(rows, [change.row]);
+
+export const pageSlice = <T>(rows: T[], page: number, pageSize = TABLE_PAGE_SIZE) =>
+  rows.slice((page - 1) * pageSize, page * pageSize);
+
+export const pageCount = (total: number, pageSize = TABLE_PAGE_SIZE) => Math.max(1, Math.ceil(total / pageSize));
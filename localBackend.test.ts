@@ -0,0 +1,306 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RECEIVABLE_FILTERS, DEFAULT_REVENUE_FILTERS } from './filters';
+import { createLocalBackend, createMemoryStore } from './localBackend';
+import { ACCESS_DENIED, DeletedRow } from './repository';
+import { ALREADY_CLOSED, LATEST_CLOSE_ONLY } from './periods';
+import { Receivable, WorkspaceRole } from './types';
+import * as fixtures from './testFixtures';
+
+// In workspace w1, without a customer or an issue date.
+const receivable = (fields: Partial<Receivable>) => ({
+  ...fixtures.receivable({ customer_id: null, description: 'Sewa', issue_date: null, ...fields }),
+  workspace_id: 'w1',
+});
+
+// A store where `user` is signed in and holds `role` in workspace w1.
+const signedIn = (role: WorkspaceRole = 'owner', user = { id: 'u1', email: 'pemilik@contoh.id' }) => {
+  const store = createMemoryStore();
+  store.setItem('piutang:local:session', JSON.stringify({ user, aal: 'aal1' }));
+  store.setItem('piutang:local:workspace_members', JSON.stringify([{ id: 'm1', workspace_id: 'w1', user_id: user.id, email: user.email, role }]));
+  return store;
+};
+
+describe('createLocalBackend', () => {
+  it('turns a legacy paid_amount into an opening payment once', async () => {
+    const store = createMemoryStore();
+    store.setItem('piutang:local:receivables', JSON.stringify([
+      receivable({ paid_amount: 400 }),
+      receivable({ id: 'r2', issue_date: '2025-01-01' }),
+    ]));
+    createLocalBackend(store, 'memory');
+    const backend = createLocalBackend(store, 'memory');
+
+    const payments = await backend.table('payments').list();
+    expect(payments.data).toMatchObject([{
+      id: 'r1', receivable_id: 'r1', workspace_id: 'w1', amount: 400, paid_at: '2025-01-31', method: 'other', voided_at: null,
+    }]);
+    const receivables = await backend.receivables.list();
+    expect(receivables.data?.map(r => r.paid_amount)).toEqual([0, 0]);
+  });
+
+  it('pages the filtered, sorted rows and counts them all', async () => {
+    const backend = createLocalBackend(signedIn(), 'memory');
+    await backend.receivables.insert(['a', 'b', 'c', 'd'].map((id, index) => receivable({ id, total_amount: 1000 * (index + 1) })));
+    await backend.receivables.insert(receivable({ id: 'gone', deleted_at: '2025-02-01T00:00:00Z' }));
+    const filters = { ...DEFAULT_RECEIVABLE_FILTERS, sort: 'total_amount' as const, dir: 'desc' as const };
+    const page = await backend.receivables.page('w1', filters, '2025-01-15', [1, 2]);
+    expect(page.data?.rows.map(r => r.id)).toEqual(['c', 'b']);
+    expect(page.data?.total).toBe(4);
+
+    await backend.revenues.insert({
+      id: 'v1', description: 'Jasa', currency: 'IDR', amount: 500, date: '2025-01-02', receivable_id: null, payment_id: null,
+      deleted_at: null, recurring_id: null, occurrence_date: null, category_id: null, tags: [], adjustment_reason: null, adjusts_id: null,
+      workspace_id: 'w1',
+    });
+    expect((await backend.revenues.page('w1', DEFAULT_REVENUE_FILTERS, [0, 49])).data).toMatchObject({ rows: [{ id: 'v1' }], total: 1 });
+  });
+
+  it('stamps updated_at on synced tables and leaves a tombstone for deleted rows', async () => {
+    const backend = createLocalBackend(signedIn(), 'memory');
+    await backend.receivables.insert(receivable({}));
+    const [inserted] = (await backend.receivables.list()).data ?? [];
+    expect(inserted).toHaveProperty('updated_at');
+
+    await backend.receivables.remove({ id: 'r1' });
+    const tombstones = await backend.table<DeletedRow>('deleted_rows').list({ where: { workspace_id: 'w1', table_name: 'receivables' } });
+    expect(tombstones.data).toMatchObject([{ row_id: 'r1' }]);
+  });
+
+  it('checks the rows of every ledger table it hands out', async () => {
+    const store = signedIn();
+    const payment = { id: 'p1', receivable_id: 'r1', currency: 'IDR', amount: '250', paid_at: '2025-01-10', method: 'transfer', workspace_id: 'w1' };
+    store.setItem('piutang:local:payments', JSON.stringify([payment]));
+    const backend = createLocalBackend(store, 'memory');
+    expect((await backend.table('payments').list()).data).toMatchObject([{ amount: 250, note: null, voided_at: null }]);
+
+    store.setItem('piutang:local:payments', JSON.stringify([{ ...payment, method: 'cek' }]));
+    expect((await backend.table('payments').list()).error?.message).toContain('kolom "method"');
+  });
+});
+
+// The contract every backend's tables follow, see Query in repository.ts.
+describe('table queries', () => {
+  const rows = [
+    { id: 'a', name: 'Andi', city: 'Bandung', joined: '2025-01-05', parent_id: null },
+    { id: 'b', name: 'Budi', city: null, joined: '2025-02-10', parent_id: 'a' },
+    { id: 'c', name: 'Bayu', city: 'Jakarta', joined: '2025-03-15', parent_id: null },
+    { id: 'd', name: 'Citra', city: 'Bandung', joined: '2025-03-20', parent_id: 'c' },
+  ].map(row => ({ ...row, workspace_id: 'w1' }));
+  const table = async () => {
+    const backend = createLocalBackend(signedIn(), 'memory');
+    const customers = backend.table<typeof rows[number]>('customers');
+    await customers.insert(rows);
+    return customers;
+  };
+  const ids = (result: { data: { id: string }[] | null }) => result.data?.map(row => row.id);
+
+  it('matches nulls, lists of values and every where column', async () => {
+    const customers = await table();
+    expect(ids(await customers.list({ where: { city: null } }))).toEqual(['b']);
+    expect(ids(await customers.list({ where: { city: ['Bandung', 'Jakarta'] } }))).toEqual(['a', 'c', 'd']);
+    expect(ids(await customers.list({ where: { city: 'Bandung', parent_id: null } }))).toEqual(['a']);
+  });
+
+  it('needs only one either column to match', async () => {
+    const customers = await table();
+    expect(ids(await customers.list({ either: { id: 'c', parent_id: 'c' } }))).toEqual(['c', 'd']);
+    expect(ids(await customers.list({ either: { name: 'Andi, Budi', city: 'x.eq.y' } }))).toEqual([]);
+  });
+
+  it('bounds as text and matches prefixes literally', async () => {
+    const customers = await table();
+    expect(ids(await customers.list({ atLeast: { joined: '2025-02-10' }, before: { joined: '2025-03-20' } }))).toEqual(['b', 'c']);
+    expect(ids(await customers.list({ startsWith: { name: 'B' } }))).toEqual(['b', 'c']);
+    expect(ids(await customers.list({ startsWith: { name: 'B_' } }))).toEqual([]);
+  });
+
+  it('orders by each column in turn, missing values last, then takes the inclusive range', async () => {
+    const customers = await table();
+    expect(ids(await customers.list({ order: [['city', 'asc'], ['joined', 'desc']] }))).toEqual(['d', 'a', 'c', 'b']);
+    expect(ids(await customers.list({ order: [['joined', 'asc']], range: [1, 2] }))).toEqual(['b', 'c']);
+  });
+
+  it('finds the first match or null', async () => {
+    const customers = await table();
+    expect((await customers.find({ where: { city: 'Bandung' }, order: [['joined', 'desc']] })).data?.id).toBe('d');
+    expect((await customers.find({ where: { city: 'Surabaya' } })).data).toBeNull();
+  });
+
+  it('updates and removes only matching rows and refuses duplicate ids', async () => {
+    const customers = await table();
+    expect(ids(await customers.update({ city: 'Bandung' }, { city: 'Bogor' }, { returning: true }))).toEqual(['a', 'd']);
+    await customers.remove({ id: ['a', 'b'] });
+    expect(ids(await customers.list({ where: { city: 'Bogor' } }))).toEqual(['d']);
+    expect((await customers.insert({ id: 'c', name: 'Lagi', workspace_id: 'w1' })).error).not.toBeNull();
+  });
+});
+
+describe('workspace access', () => {
+  it('lets each role write only what its policies allow', async () => {
+    const collector = createLocalBackend(signedIn('collector'), 'memory');
+    expect((await collector.receivables.insert(receivable({}))).error?.message).toBe(ACCESS_DENIED);
+    expect((await collector.table('payments').insert({ id: 'p1', receivable_id: 'r1', amount: 10, workspace_id: 'w1' })).error).toBeNull();
+    expect((await collector.table('payments').update({ id: 'p1' }, { voided_at: '2025-02-01' })).error?.message).toBe(ACCESS_DENIED);
+    expect((await collector.table('revenues').insert({ id: 'v1', payment_id: 'p1', workspace_id: 'w1' })).error).toBeNull();
+    expect((await collector.table('revenues').insert({ id: 'v2', payment_id: null, workspace_id: 'w1' })).error?.message).toBe(ACCESS_DENIED);
+
+    const viewer = createLocalBackend(signedIn('viewer'), 'memory');
+    expect((await viewer.table('customers').insert({ name: 'Andi', workspace_id: 'w1' })).error?.message).toBe(ACCESS_DENIED);
+    expect((await viewer.table('workspace_members').update({ id: 'm1' }, { role: 'owner' })).error?.message).toBe(ACCESS_DENIED);
+  });
+
+  it('refuses writes to other workspaces, member inserts and signed-out writes', async () => {
+    const owner = createLocalBackend(signedIn(), 'memory');
+    expect((await owner.table('customers').insert({ name: 'Andi', workspace_id: 'w2' })).error?.message).toBe(ACCESS_DENIED);
+    expect((await owner.table('workspace_members').insert({ workspace_id: 'w1', user_id: 'u2', role: 'owner' })).error?.message)
+      .toBe(ACCESS_DENIED);
+    const signedOut = createLocalBackend(createMemoryStore(), 'memory');
+    expect((await signedOut.table('customers').insert({ name: 'Andi', workspace_id: 'w1' })).error?.message).toBe(ACCESS_DENIED);
+  });
+
+  it('refuses a password-only session of an account with an authenticator', async () => {
+    const store = signedIn();
+    store.setItem('piutang:local:users', JSON.stringify([{ id: 'u1', email: 'pemilik@contoh.id', passwordHash: '', factors: [{ id: 'f1', verified: true }] }]));
+    const backend = createLocalBackend(store, 'memory');
+    expect((await backend.table('customers').insert({ name: 'Andi', workspace_id: 'w1' })).error?.message).toBe(ACCESS_DENIED);
+    expect((await backend.workspaces.create('Cabang', false)).error).not.toBeNull();
+
+    store.setItem('piutang:local:session', JSON.stringify({ user: { id: 'u1', email: 'pemilik@contoh.id' }, aal: 'aal2' }));
+    expect((await backend.table('customers').insert({ name: 'Andi', workspace_id: 'w1' })).error).toBeNull();
+  });
+
+  it('creates a workspace owned by the signed-in user, taking over their legacy rows', async () => {
+    const store = createMemoryStore();
+    store.setItem('piutang:local:session', JSON.stringify({ user: { id: 'u1', email: 'a@contoh.id' }, aal: 'aal1' }));
+    store.setItem('piutang:local:customers', JSON.stringify([
+      { id: 'c1', name: 'Milik saya', user_id: 'u1', workspace_id: null },
+      { id: 'c2', name: 'Milik orang lain', user_id: 'u2', workspace_id: null },
+    ]));
+    const backend = createLocalBackend(store, 'memory');
+    const { data: id } = await backend.workspaces.create('Toko', true);
+    expect((await backend.table('workspace_members').list()).data).toMatchObject([{ workspace_id: id, user_id: 'u1', role: 'owner' }]);
+    expect((await backend.table('customers').list()).data?.map(c => c.workspace_id)).toEqual([id, null]);
+  });
+
+  it('accepts only an open invitation to the signed-in email, in the role it names', async () => {
+    const store = signedIn('viewer', { id: 'u2', email: 'tamu@contoh.id' });
+    store.setItem('piutang:local:workspace_invitations', JSON.stringify([
+      { id: 'i1', workspace_id: 'w2', email: 'tamu@contoh.id', role: 'collector', accepted_at: null },
+      { id: 'i2', workspace_id: 'w3', email: 'orang@contoh.id', role: 'owner', accepted_at: null },
+    ]));
+    const backend = createLocalBackend(store, 'memory');
+    expect((await backend.workspaces.acceptInvitation('i2')).error).not.toBeNull();
+    expect((await backend.workspaces.acceptInvitation('i1')).data).toBe('w2');
+    expect((await backend.table('workspace_members').list({ where: { workspace_id: 'w2' } })).data).toMatchObject([{ user_id: 'u2', role: 'collector' }]);
+    expect((await backend.workspaces.acceptInvitation('i1')).error).not.toBeNull();
+  });
+});
+
+describe('documents', () => {
+  it('numbers documents in sequence, keeps the number on reprints and refuses a number twice', async () => {
+    const backend = createLocalBackend(signedIn('collector'), 'memory');
+    const first = await backend.documents.issue('w1', 'invoice', 'r1', null, '2025-03-01');
+    const receipt = await backend.documents.issue('w1', 'receipt', 'r1', 'p1', '2025-03-01');
+    const second = await backend.documents.issue('w1', 'invoice', 'r2', null, '2025-03-02');
+    const reprint = await backend.documents.issue('w1', 'invoice', 'r1', null, '2025-04-01');
+    expect([first, receipt, second, reprint].map(result => result.data?.number))
+      .toEqual(['INV/2025/0001', 'KW/2025/0001', 'INV/2025/0002', 'INV/2025/0001']);
+    expect((await backend.table('documents').insert({ workspace_id: 'w1', type: 'invoice', number: 'INV/2025/0002', receivable_id: 'r3' })).error)
+      .not.toBeNull();
+
+    const viewer = createLocalBackend(signedIn('viewer'), 'memory');
+    expect((await viewer.documents.issue('w1', 'invoice', 'r1', null, '2025-03-01')).error?.message).toBe(ACCESS_DENIED);
+  });
+});
+
+describe('period locks', () => {
+  const close = (id: string, period_end: string) => ({
+    id, workspace_id: 'w1', kind: 'month', period_start: `${period_end.slice(0, 7)}-01`, period_end, snapshot: {},
+    closed_by_email: 'pemilik@contoh.id', reopened_at: null,
+  });
+
+  it('refuses writes dated in a closed period, and moving entries into one', async () => {
+    const backend = createLocalBackend(signedIn(), 'memory');
+    await backend.receivables.insert(receivable({ id: 'r1', issue_date: '2025-01-10' }));
+    await backend.receivables.insert(receivable({ id: 'r2', issue_date: '2025-02-10' }));
+    expect((await backend.table('period_closes').insert(close('k1', '2025-01-31'))).error).toBeNull();
+
+    expect((await backend.receivables.update({ id: 'r1' }, { description: 'Sewa baru' })).error?.message).toContain('periode yang sudah ditutup');
+    expect((await backend.receivables.remove({ id: 'r1' })).error?.message).toContain('periode yang sudah ditutup');
+    expect((await backend.receivables.update({ id: 'r2' }, { issue_date: '2025-01-20' })).error?.message).toContain('periode yang sudah ditutup');
+    expect((await backend.table('payments').insert({ receivable_id: 'r2', amount: 10, paid_at: '2025-01-31', workspace_id: 'w1' })).error?.message)
+      .toContain('periode yang sudah ditutup');
+    expect((await backend.table('payments').insert({ receivable_id: 'r2', amount: 10, paid_at: '2025-02-01', workspace_id: 'w1' })).error).toBeNull();
+    expect((await backend.receivables.update({ id: 'r2' }, { description: 'Sewa baru' })).error).toBeNull();
+  });
+
+  it('closes periods in order and reopens only the latest', async () => {
+    const backend = createLocalBackend(signedIn(), 'memory');
+    const closes = backend.table('period_closes');
+    await closes.insert(close('k1', '2025-01-31'));
+    await closes.insert(close('k2', '2025-02-28'));
+    expect((await closes.insert(close('k3', '2025-01-31'))).error?.message).toBe(ALREADY_CLOSED);
+    expect((await closes.update({ id: 'k1' }, { reopened_at: '2025-03-05T00:00:00Z' })).error?.message).toBe(LATEST_CLOSE_ONLY);
+    expect((await closes.update({ id: 'k2' }, { reopened_at: '2025-03-05T00:00:00Z' })).error).toBeNull();
+    expect((await closes.update({ id: 'k1' }, { reopened_at: '2025-03-05T00:00:00Z' })).error).toBeNull();
+  });
+});
+
+describe('activity log', () => {
+  it('records every write in the name of the signed-in user, and refuses writes to it', async () => {
+    const backend = createLocalBackend(signedIn('admin'), 'memory');
+    await backend.receivables.insert(receivable({}));
+    await backend.table('payments').insert({ id: 'p1', receivable_id: 'r1', amount: 10, workspace_id: 'w1', voided_at: null });
+    await backend.table('payments').update({ id: 'p1' }, { voided_at: '2025-02-01' });
+    await backend.table('payments').update({ id: 'p1' }, { voided_at: '2025-02-01' });
+    await backend.receivables.remove({ id: 'r1' });
+    const { data } = await backend.table('audit_log').list({ order: [['occurred_at', 'asc']] });
+    expect(data?.map(e => [e.entity, e.action, e.summary, e.actor_id])).toEqual([
+      ['receivable', 'create', '"Sewa"', 'u1'],
+      ['payment', 'create', '"Sewa"', 'u1'],
+      ['payment', 'void', '"Sewa"', 'u1'],
+      ['receivable', 'delete', '"Sewa"', 'u1'],
+    ]);
+    expect((await backend.table('audit_log').insert({ workspace_id: 'w1', actor_id: 'u1', action: 'delete' })).error?.message)
+      .toBe(ACCESS_DENIED);
+  });
+});
+
+describe('local accounts', () => {
+  const users = (store: ReturnType<typeof createMemoryStore>) =>
+    JSON.parse(store.getItem('piutang:local:users') ?? '[]') as { email: string; passwordHash: string }[];
+
+  it('stores a salted PBKDF2 key and signs in with it', async () => {
+    const store = createMemoryStore();
+    const { auth } = createLocalBackend(store, 'memory');
+    await auth.signUp('a@example.com', 'rahasia123');
+    await auth.signUp('b@example.com', 'rahasia123');
+    const [a, b] = users(store).map(user => user.passwordHash);
+    expect(a).toMatch(/^pbkdf2-sha256\$310000\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+    expect(a).not.toBe(b);
+
+    await auth.signOut();
+    expect((await auth.signIn('a@example.com', 'salah')).error).not.toBeNull();
+    expect((await auth.signIn('A@example.com', 'rahasia123')).error).toBeNull();
+  });
+
+  it('upgrades an unsalted SHA-256 hash on the next sign in', async () => {
+    const store = createMemoryStore();
+    const legacy = 'e4d909c290d0fb1ca068ffaddf22cbd0e4d909c290d0fb1ca068ffaddf22cbd0';
+    const digest = Array.from(
+      new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode('rahasia123'))),
+      byte => byte.toString(16).padStart(2, '0'),
+    ).join('');
+    store.setItem('piutang:local:users', JSON.stringify([
+      { id: 'u1', email: 'a@example.com', passwordHash: digest },
+      { id: 'u2', email: 'b@example.com', passwordHash: legacy },
+    ]));
+    const { auth } = createLocalBackend(store, 'memory');
+
+    expect((await auth.signIn('a@example.com', 'rahasia123')).error).toBeNull();
+    expect(users(store)[0].passwordHash).toMatch(/^pbkdf2-sha256\$/);
+    expect(users(store)[1].passwordHash).toBe(legacy);
+    await auth.signOut();
+    expect((await auth.signIn('a@example.com', 'rahasia123')).error).toBeNull();
+  });
+});
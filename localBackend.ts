@@ -0,0 +1,774 @@
+import { BusinessProfile, Customer, ExchangeRate, IssuedDocument, Payment, PeriodClose, Receivable, Revenue, ShareLink, Workspace, WorkspaceRole } from './types';
+import { ReceivableFilters, RevenueFilters, filterReceivables, filterRevenues } from './filters';
+import {
+  ACCESS_DENIED, AssuranceLevel, AuthEvent, AuthRepository, AuthSession, AuthUser, Backend, BackendKind, ColumnValue, DataResult, DocumentRepository,
+  PORTAL_LINK_INVALID, Page, PortalRepository, Query, ReceivableSummary, RevenueSummary, RowChange, TableName, TableRepository,
+  WorkspaceRepository, failed,
+} from './repository';
+import { parseReceivable, parseRevenue, validatedTable, withValidation } from './validation';
+import { bookingDate, carryingAmount, createConverter } from './currency';
+import { generateSecret, otpauthUri, verifyTotp } from './totp';
+import { shareLinkStatus } from './portal';
+import { BalanceOf, createBalanceOf } from './lateFees';
+import { LEGACY_WORKSPACE_TABLES, WorkspaceAction, can, normalizeEmail } from './workspaces';
+import { AuditedTable, ENTITY_BY_TABLE, auditEntryFor } from './audit';
+import { documentNumberPrefix, nextDocumentNumber } from './documents';
+import { ALREADY_CLOSED, LATEST_CLOSE_ONLY, lockDate, lockedChange, lockedMessage } from './periods';
+import { CachedTable } from './offlineStore';
+
+// A backend that keeps every table in the browser, for demos without a Supabase project
+// and for tests. Backed by localStorage it survives reloads and syncs between tabs;
+// backed by memory it starts empty every time. Writes are checked like the database's
+// policies (withAccess); reads are not: every signed-in user can read everything stored
+// on the device.
+
+export interface KeyValueStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export const createMemoryStore = (): KeyValueStore => {
+  const values = new Map<string, string>();
+  return {
+    getItem: key => values.get(key) ?? null,
+    setItem: (key, value) => { values.set(key, value); },
+  };
+};
+
+type Row = Record<string, unknown>;
+
+const tableKey = (table: TableName) => `piutang:local:${table}`;
+const USERS_KEY = 'piutang:local:users';
+const SESSION_KEY = 'piutang:local:session';
+
+const readJson = <T>(store: KeyValueStore, key: string, fallback: T): T => {
+  try {
+    return JSON.parse(store.getItem(key) ?? 'null') ?? fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const compareValues = (a: unknown, b: unknown) => {
+  if (a == null) return b == null ? 0 : 1;
+  if (b == null) return -1;
+  return typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+};
+
+const equals = (value: unknown, expected: ColumnValue) =>
+  expected === null ? value == null : value === expected;
+
+const matches = (row: Row, query: Query) =>
+  Object.entries(query.where ?? {}).every(([column, expected]) => Array.isArray(expected)
+    ? expected.some(value => equals(row[column], value))
+    : equals(row[column], expected))
+  && (!query.either || Object.entries(query.either).some(([column, expected]) => equals(row[column], expected)))
+  && Object.entries(query.atLeast ?? {}).every(([column, bound]) => row[column] != null && String(row[column]) >= bound)
+  && Object.entries(query.before ?? {}).every(([column, bound]) => row[column] != null && String(row[column]) < bound)
+  && Object.entries(query.startsWith ?? {}).every(([column, prefix]) => String(row[column] ?? '').startsWith(prefix));
+
+const runQuery = (rows: Row[], query: Query = {}) => {
+  const selected = rows.filter(row => matches(row, query));
+  const order = query.order ?? [];
+  selected.sort((a, b) => {
+    for (const [column, direction] of order) {
+      const result = compareValues(a[column], b[column]);
+      if (result !== 0) return direction === 'asc' ? result : -result;
+    }
+    return 0;
+  });
+  return query.range ? selected.slice(query.range[0], query.range[1] + 1) : selected;
+};
+
+const toArray = (rows: object | object[]) => (Array.isArray(rows) ? rows : [rows]) as Row[];
+
+// Mirrors the triggers on the synced tables: updated_at moves on every write and deletes
+// leave a row in deleted_rows, which is what incremental loading reads.
+const SYNCED_TABLES = new Set<TableName>(['receivables', 'revenues', 'payments', 'customers', 'payables', 'payable_payments', 'expenses']);
+
+// Mirrors the unique indexes that writes could otherwise break between reading and writing.
+const UNIQUE_KEYS: Partial<Record<TableName, string[]>> = {
+  documents: ['workspace_id', 'type', 'number'],
+};
+
+const createTable = (store: KeyValueStore, table: TableName): TableRepository<Row> => {
+  const key = tableKey(table);
+  const read = () => readJson<Row[]>(store, key, []);
+  const write = (rows: Row[]) => store.setItem(key, JSON.stringify(rows));
+  const ok = <T>(data: T): DataResult<T> => ({ data, error: null });
+  const synced = SYNCED_TABLES.has(table);
+  const touched = (row: Row): Row => synced ? { ...row, updated_at: new Date().toISOString() } : row;
+  // Mirrors the columns the database fills in itself.
+  const withDefaults = (row: Row): Row => touched({ id: crypto.randomUUID(), created_at: new Date().toISOString(), ...row });
+  const recordDeleted = (rows: Row[]) => {
+    const deleted = rows
+      .filter(row => row.workspace_id != null)
+      .map(row => ({ workspace_id: row.workspace_id, table_name: table, row_id: row.id, deleted_at: new Date().toISOString() }));
+    if (!synced || deleted.length === 0) return;
+    const tombstones = tableKey('deleted_rows');
+    store.setItem(tombstones, JSON.stringify([...readJson<Row[]>(store, tombstones, []), ...deleted]));
+  };
+  // Mirrors record_audit_entry in supabase/migrations/0004_audit_trigger.sql.
+  const audited = table in ENTITY_BY_TABLE;
+  const recordAudit = (op: 'insert' | 'update' | 'delete', changes: Array<[Row | null, Row | null]>) => {
+    if (!audited) return;
+    const user = readJson<LocalSession | null>(store, SESSION_KEY, null)?.user;
+    const parentTable = table === 'payments' ? 'receivables' : table === 'payable_payments' ? 'payables' : null;
+    const parents = parentTable ? readJson<Row[]>(store, tableKey(parentTable), []) : [];
+    const entries = changes
+      .filter(([before, after]) => (after ?? before)?.workspace_id != null)
+      .map(([before, after]) => {
+        const parentId = (after ?? before)?.receivable_id ?? (after ?? before)?.payable_id;
+        return auditEntryFor({
+          table: table as AuditedTable, op, before, after,
+          actor: { id: user?.id ?? null, email: user?.email ?? '' },
+          parentDescription: parents.find(row => row.id === parentId)?.description as string | undefined,
+        });
+      })
+      .filter(entry => entry !== null);
+    if (entries.length === 0) return;
+    const log = tableKey('audit_log');
+    store.setItem(log, JSON.stringify([...readJson<Row[]>(store, log, []), ...entries]));
+  };
+
+  return {
+    list: async query => ok(runQuery(read(), query)),
+    find: async query => ok(runQuery(read(), query)[0] ?? null),
+    insert: async (rows, options) => {
+      const existing = read();
+      const incoming = toArray(rows).map(withDefaults);
+      const ids = new Set(existing.map(row => row.id));
+      const duplicate = incoming.find(row => ids.has(row.id));
+      if (duplicate) return failed(`Data dengan id ${duplicate.id} sudah ada di ${table}.`);
+      const unique = UNIQUE_KEYS[table];
+      if (unique) {
+        const keyOf = (row: Row) => JSON.stringify(unique.map(column => row[column] ?? null));
+        const keys = existing.map(keyOf);
+        const taken = incoming.find((row, index) => keys.includes(keyOf(row)) || incoming.slice(0, index).some(other => keyOf(other) === keyOf(row)));
+        if (taken) return failed(`${unique.map(column => taken[column]).join(', ')} sudah ada di ${table}.`);
+      }
+      write([...existing, ...incoming]);
+      recordAudit('insert', incoming.map(row => [null, row]));
+      return ok(options?.returning ? incoming : []);
+    },
+    upsert: async (rows, { onConflict, ignoreDuplicates, returning }) => {
+      const columns = onConflict.split(',').map(column => column.trim());
+      const stored = read();
+      const written: Row[] = [];
+      const inserts: Array<[null, Row]> = [];
+      const updates: Array<[Row, Row]> = [];
+      toArray(rows).forEach(row => {
+        const index = stored.findIndex(existing => columns.every(column => existing[column] === row[column]));
+        if (index === -1) {
+          const inserted = withDefaults(row);
+          stored.push(inserted);
+          written.push(inserted);
+          inserts.push([null, inserted]);
+        } else if (!ignoreDuplicates) {
+          const before = stored[index];
+          stored[index] = touched({ ...before, ...row });
+          written.push(stored[index]);
+          updates.push([before, stored[index]]);
+        }
+      });
+      write(stored);
+      recordAudit('insert', inserts);
+      recordAudit('update', updates);
+      return ok(returning ? written : []);
+    },
+    update: async (where, values, options) => {
+      const updated: Row[] = [];
+      const changes: Array<[Row, Row]> = [];
+      write(read().map(row => {
+        if (!matches(row, { where })) return row;
+        const next = touched({ ...row, ...values });
+        updated.push(next);
+        changes.push([row, next]);
+        return next;
+      }));
+      recordAudit('update', changes);
+      return ok(options?.returning ? updated : []);
+    },
+    remove: async where => {
+      const rows = read();
+      const removed = rows.filter(row => matches(row, { where }));
+      recordDeleted(removed);
+      write(rows.filter(row => !matches(row, { where })));
+      recordAudit('delete', removed.map(row => [row, null]));
+      return { error: null };
+    },
+    // Writes from other tabs arrive as storage events; a memory store never sees any.
+    subscribe: (workspaceId, onChange) => {
+      if (typeof window === 'undefined') return () => {};
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key !== key || event.storageArea !== (store as unknown)) return;
+        const parse = (value: string | null): Row[] => {
+          try {
+            return (JSON.parse(value ?? '[]') as Row[]).filter(row => row.workspace_id === workspaceId);
+          } catch {
+            return [];
+          }
+        };
+        const before = new Map(parse(event.oldValue).map(row => [row.id, JSON.stringify(row)]));
+        const after = parse(event.newValue);
+        const afterIds = new Set(after.map(row => row.id));
+        after
+          .filter(row => before.get(row.id) !== JSON.stringify(row))
+          .forEach(row => onChange({ type: 'upsert', row } as RowChange<Row>));
+        [...before.keys()]
+          .filter(id => !afterIds.has(id))
+          .forEach(id => onChange({ type: 'delete', id: String(id) }));
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+};
+
+type WriteKind = 'insert' | 'update' | 'remove';
+type WriteCheck = (role: WorkspaceRole | null, row: Row, user: AuthUser) => boolean;
+
+const allow = (action: WorkspaceAction): WriteCheck => role => role !== null && can(role, action);
+const allowAll = (action: WorkspaceAction) => ({ insert: allow(action), update: allow(action), remove: allow(action) });
+
+// Who may write what, as the policies in supabase/migrations/0003_workspace_access.sql
+// decide it for the database. Writes left out are refused: workspaces and members are
+// created through the workspace repository only, the rest (the activity log among them) is
+// the backend's own bookkeeping.
+const WRITE_ACCESS: Partial<Record<TableName, Partial<Record<WriteKind, WriteCheck>>>> = {
+  customers: allowAll('manageEntries'),
+  receivables: allowAll('manageEntries'),
+  payables: allowAll('manageEntries'),
+  expenses: allowAll('manageEntries'),
+  recurring_templates: allowAll('manageEntries'),
+  // Recording a payment may post its revenue too.
+  revenues: {
+    ...allowAll('manageEntries'),
+    insert: (role, row, user) => allow('manageEntries')(role, row, user) || (row.payment_id != null && allow('recordPayments')(role, row, user)),
+  },
+  payments: { insert: allow('recordPayments'), update: allow('managePayments'), remove: allow('managePayments') },
+  payable_payments: { insert: allow('manageEntries'), update: allow('managePayments'), remove: allow('managePayments') },
+  documents: { insert: allow('issueDocuments'), update: allow('manageEntries'), remove: allow('manageEntries') },
+  bank_lines: { insert: allow('importData'), update: allow('recordPayments'), remove: allow('importData') },
+  share_links: allowAll('shareStatements'),
+  period_closes: { insert: allow('closePeriods'), update: allow('reopenPeriods') },
+  business_profiles: allowAll('manageSettings'),
+  reminder_rules: allowAll('manageSettings'),
+  exchange_rates: allowAll('manageSettings'),
+  categories: allowAll('manageSettings'),
+  workspaces: { update: allow('manageSettings') },
+  workspace_members: { update: allow('manageMembers'), remove: allow('manageMembers') },
+  workspace_invitations: {
+    insert: (role, row, user) => allow('manageMembers')(role, row, user) && row.invited_by === user.id,
+    // Declining removes the invitation too.
+    remove: (role, row, user) => allow('manageMembers')(role, row, user) || (row.email === normalizeEmail(user.email ?? '') && row.accepted_at == null),
+  },
+};
+
+const SECOND_FACTOR_REQUIRED = 'Masukkan kode dari aplikasi autentikator terlebih dahulu.';
+
+// Mirrors meets_assurance in supabase/migrations/0003_workspace_access.sql: an account
+// with a verified authenticator needs a session that gave the code.
+const meetsAssurance = (store: KeyValueStore, session: LocalSession) =>
+  session.aal === 'aal2'
+  || !readJson<LocalUser[]>(store, USERS_KEY, []).find(user => user.id === session.user.id)?.factors?.some(factor => factor.verified);
+
+// Checks every write against the signed-in user's role in the workspace of each row it
+// touches, before and after an update. Rows from before workspaces are their author's.
+const withAccess = (store: KeyValueStore, table: TableName, repository: TableRepository<Row>): TableRepository<Row> => {
+  const access = WRITE_ACCESS[table] ?? {};
+  const allowed = (kind: WriteKind, rows: Row[]) => {
+    const session = readJson<LocalSession | null>(store, SESSION_KEY, null);
+    if (!session || !meetsAssurance(store, session)) return false;
+    const user = session.user;
+    const memberships = runQuery(readJson<Row[]>(store, tableKey('workspace_members'), []), { where: { user_id: user.id } });
+    const roleIn = (workspaceId: unknown) => (memberships.find(m => m.workspace_id === workspaceId)?.role ?? null) as WorkspaceRole | null;
+    return rows.every(row => {
+      const workspaceId = table === 'workspaces' ? row.id : row.workspace_id;
+      if (workspaceId == null) return row.user_id === user.id;
+      const check = access[kind];
+      return !!check && check(roleIn(workspaceId), row, user);
+    });
+  };
+  const matching = (where: NonNullable<Query['where']>) => runQuery(readJson<Row[]>(store, tableKey(table), []), { where });
+
+  return {
+    ...repository,
+    insert: async (rows, options) => allowed('insert', toArray(rows)) ? repository.insert(rows, options) : failed(ACCESS_DENIED),
+    upsert: async (rows, options) =>
+      allowed('insert', toArray(rows)) && (options.ignoreDuplicates || allowed('update', toArray(rows)))
+        ? repository.upsert(rows, options)
+        : failed(ACCESS_DENIED),
+    update: async (where, values, options) => {
+      const before = matching(where);
+      return allowed('update', [...before, ...before.map(row => ({ ...row, ...values }))])
+        ? repository.update(where, values, options)
+        : failed(ACCESS_DENIED);
+    },
+    remove: async where => allowed('remove', matching(where)) ? repository.remove(where) : { error: { message: ACCESS_DENIED } },
+  };
+};
+
+const LOCKED_TABLES = new Set<TableName>(['receivables', 'revenues', 'payments', 'payables', 'payable_payments', 'expenses']);
+
+// Mirrors the triggers in supabase/migrations/0007_period_locks.sql: nothing dated on or
+// before the lock date is written, and closes follow one another in order.
+const withPeriodLocks = (store: KeyValueStore, table: TableName, repository: TableRepository<Row>): TableRepository<Row> => {
+  if (!LOCKED_TABLES.has(table) && table !== 'period_closes') return repository;
+  const lockedThrough = (workspaceId: unknown) =>
+    lockDate(runQuery(readJson<Row[]>(store, tableKey('period_closes'), []), { where: { workspace_id: workspaceId as string } }) as unknown as PeriodClose[]);
+  const matching = (where: NonNullable<Query['where']>) => runQuery(readJson<Row[]>(store, tableKey(table), []), { where });
+  // Why the changes cannot be written, or null when they can.
+  const problem = (changes: Array<[Row | null, Row | null]>) => {
+    for (const [before, after] of changes) {
+      const workspaceId = (after ?? before)?.workspace_id;
+      if (workspaceId == null) continue;
+      const through = lockedThrough(workspaceId);
+      if (table === 'period_closes') {
+        if (!before && through && String(after?.period_end) <= through) return ALREADY_CLOSED;
+        if (before?.reopened_at == null && after?.reopened_at != null && before?.period_end !== through) return LATEST_CLOSE_ONLY;
+        continue;
+      }
+      const locked = lockedChange(table as CachedTable, before, after, through);
+      if (locked) return lockedMessage(locked);
+    }
+    return null;
+  };
+  const existing = (rows: Row[], columns: string[]) =>
+    rows.map(row => [readJson<Row[]>(store, tableKey(table), []).find(stored => columns.every(column => stored[column] === row[column])) ?? null, row] as [Row | null, Row]);
+
+  return {
+    ...repository,
+    insert: async (rows, options) => {
+      const refused = problem(toArray(rows).map(row => [null, row]));
+      return refused ? failed(refused) : repository.insert(rows, options);
+    },
+    upsert: async (rows, options) => {
+      const refused = problem(existing(toArray(rows), options.onConflict.split(',').map(column => column.trim()))
+        .filter(([before]) => !before || !options.ignoreDuplicates)
+        .map(([before, row]) => [before, before ? { ...before, ...row } : row]));
+      return refused ? failed(refused) : repository.upsert(rows, options);
+    },
+    update: async (where, values, options) => {
+      const refused = problem(matching(where).map(row => [row, { ...row, ...values }]));
+      return refused ? failed(refused) : repository.update(where, values, options);
+    },
+    remove: async where => {
+      const refused = problem(matching(where).map(row => [row, null]));
+      return refused ? { error: { message: refused } } : repository.remove(where);
+    },
+  };
+};
+
+interface LocalFactor {
+  id: string;
+  friendlyName: string;
+  secret: string;
+  verified: boolean;
+  createdAt: string;
+}
+
+interface LocalUser {
+  id: string;
+  email: string;
+  // See hashPassword; accounts created before it hold an unsalted SHA-256 digest until
+  // their next sign in.
+  passwordHash: string;
+  factors?: LocalFactor[];
+}
+
+// The stored session also remembers whether the second factor was given.
+interface LocalSession extends AuthSession {
+  aal: AssuranceLevel;
+}
+
+const TOTP_ISSUER = 'PIUTANG';
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) ?? []).map(byte => parseInt(byte, 16)));
+
+const PASSWORD_SCHEME = 'pbkdf2-sha256';
+const PASSWORD_ITERATIONS = 310_000;
+
+const derivePasswordKey = async (password: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  return toHex(await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256));
+};
+
+// Stored as scheme$iterations$salt$key, so the cost can be raised later without
+// invalidating existing passwords. Every user gets their own random salt.
+const hashPassword = async (password: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return [PASSWORD_SCHEME, PASSWORD_ITERATIONS, toHex(salt), await derivePasswordKey(password, salt, PASSWORD_ITERATIONS)].join('$');
+};
+
+const isLegacyHash = (stored: string) => !stored.startsWith(`${PASSWORD_SCHEME}$`);
+
+const verifyPassword = async (stored: string, password: string) => {
+  if (isLegacyHash(stored)) {
+    return stored === toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password)));
+  }
+  const [, iterations, salt, key] = stored.split('$');
+  return key === await derivePasswordKey(password, fromHex(salt), Number(iterations));
+};
+
+// Accounts live on this device and nothing is ever emailed, so the flows that depend on
+// a link (magic links, password resets, confirming an email change) either fail or
+// apply straight away.
+const createAuth = (store: KeyValueStore): AuthRepository => {
+  const listeners = new Set<(session: AuthSession | null, event: AuthEvent) => void>();
+  const readSession = () => readJson<LocalSession | null>(store, SESSION_KEY, null);
+  const setSession = (session: LocalSession | null, event: AuthEvent) => {
+    store.setItem(SESSION_KEY, JSON.stringify(session));
+    listeners.forEach(listener => listener(session, event));
+  };
+  const readUsers = () => readJson<LocalUser[]>(store, USERS_KEY, []);
+  const findUser = (email: string) => readUsers().find(user => user.email === email.trim().toLowerCase());
+  const sessionFor = (user: LocalUser, aal: AssuranceLevel): LocalSession => ({ user: { id: user.id, email: user.email }, aal });
+
+  // The signed-in user, after applying `update` to it when given.
+  const currentUser = (update?: (user: LocalUser) => LocalUser) => {
+    const session = readSession();
+    const users = readUsers();
+    const index = users.findIndex(user => user.id === session?.user.id);
+    if (!session || index === -1) return null;
+    if (update) {
+      users[index] = update(users[index]);
+      store.setItem(USERS_KEY, JSON.stringify(users));
+    }
+    return { session, user: users[index] };
+  };
+  const notSignedIn = { error: { message: 'Anda belum masuk.' } };
+  const noEmail = async () => ({ error: { message: 'Backend demo tidak dapat mengirim email.' } });
+
+  return {
+    getSession: async () => readSession(),
+    onSessionChange: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    signIn: async (email, password) => {
+      const user = findUser(email);
+      if (!user || !await verifyPassword(user.passwordHash, password)) {
+        return { error: { message: 'Email atau password salah.' } };
+      }
+      if (isLegacyHash(user.passwordHash)) {
+        const passwordHash = await hashPassword(password);
+        store.setItem(USERS_KEY, JSON.stringify(readUsers().map(u => u.id === user.id ? { ...u, passwordHash } : u)));
+      }
+      setSession(sessionFor(user, 'aal1'), 'signedIn');
+      return { error: null };
+    },
+    // There is no email to confirm, so a new account is signed in straight away.
+    signUp: async (email, password) => {
+      if (findUser(email)) return { error: { message: 'Email ini sudah terdaftar.' }, needsConfirmation: false };
+      const user: LocalUser = { id: crypto.randomUUID(), email: email.trim().toLowerCase(), passwordHash: await hashPassword(password) };
+      store.setItem(USERS_KEY, JSON.stringify([...readUsers(), user]));
+      setSession(sessionFor(user, 'aal1'), 'signedIn');
+      return { error: null, needsConfirmation: false };
+    },
+    signOut: async () => setSession(null, 'signedOut'),
+    sendMagicLink: noEmail,
+    requestPasswordReset: noEmail,
+    updatePassword: async password => {
+      const passwordHash = await hashPassword(password);
+      return currentUser(user => ({ ...user, passwordHash })) ? { error: null } : notSignedIn;
+    },
+    updateEmail: async email => {
+      const existing = findUser(email);
+      const current = currentUser();
+      if (!current) return { ...notSignedIn, needsConfirmation: false };
+      if (existing && existing.id !== current.user.id) return { error: { message: 'Email ini sudah terdaftar.' }, needsConfirmation: false };
+      const updated = currentUser(user => ({ ...user, email: email.trim().toLowerCase() }))!;
+      setSession(sessionFor(updated.user, current.session.aal), 'userUpdated');
+      return { error: null, needsConfirmation: false };
+    },
+    mfa: {
+      listFactors: async () => {
+        const current = currentUser();
+        if (!current) return failed(notSignedIn.error);
+        return {
+          data: (current.user.factors ?? []).map(({ id, friendlyName, verified, createdAt }) => ({ id, friendlyName, verified, createdAt })),
+          error: null,
+        };
+      },
+      // An enrollment that was never confirmed is replaced rather than piling up.
+      enrollTotp: async friendlyName => {
+        const factor: LocalFactor = {
+          id: crypto.randomUUID(), friendlyName, secret: generateSecret(), verified: false, createdAt: new Date().toISOString(),
+        };
+        const current = currentUser(user => ({ ...user, factors: [...(user.factors ?? []).filter(f => f.verified), factor] }));
+        if (!current) return failed(notSignedIn.error);
+        return {
+          data: { factorId: factor.id, uri: otpauthUri(TOTP_ISSUER, current.user.email, factor.secret), secret: factor.secret, qrCode: null },
+          error: null,
+        };
+      },
+      verify: async (factorId, code) => {
+        const current = currentUser();
+        const factor = current?.user.factors?.find(f => f.id === factorId);
+        if (!current || !factor) return { error: { message: 'Faktor autentikasi tidak ditemukan.' } };
+        if (!await verifyTotp(factor.secret, code)) return { error: { message: 'Kode tidak valid atau sudah kedaluwarsa.' } };
+        const updated = currentUser(user => ({
+          ...user, factors: user.factors?.map(f => f.id === factorId ? { ...f, verified: true } : f),
+        }))!;
+        setSession(sessionFor(updated.user, 'aal2'), 'mfaVerified');
+        return { error: null };
+      },
+      unenroll: async factorId => {
+        const current = currentUser();
+        if (!current) return notSignedIn;
+        if (current.user.factors?.find(f => f.id === factorId)?.verified && current.session.aal !== 'aal2') {
+          return { error: { message: 'Verifikasi dua langkah diperlukan untuk menghapus faktor ini.' } };
+        }
+        currentUser(user => ({ ...user, factors: user.factors?.filter(f => f.id !== factorId) }));
+        return { error: null };
+      },
+      assuranceLevel: async () => {
+        const current = currentUser();
+        if (!current) return { data: { current: 'aal1', next: 'aal1' }, error: null };
+        const hasFactor = current.user.factors?.some(f => f.verified) ?? false;
+        return { data: { current: current.session.aal ?? 'aal1', next: hasFactor ? 'aal2' : current.session.aal ?? 'aal1' }, error: null };
+      },
+    },
+  };
+};
+
+const sum = <T>(rows: T[], value: (row: T) => number) => rows.reduce((total, row) => total + value(row), 0);
+
+// Does what the database function does for Supabase: only the rows the link covers leave
+// here, trimmed to the columns a debtor may see.
+const createPortal = (store: KeyValueStore): PortalRepository => {
+  const rows = <T>(table: TableName, query: Query) => runQuery(readJson<Row[]>(store, tableKey(table), []), query) as unknown as T[];
+
+  return {
+    open: async (token, userAgent) => {
+      const now = new Date().toISOString();
+      const link = rows<ShareLink & { workspace_id: string }>('share_links', { where: { token } })[0];
+      if (!link || shareLinkStatus(link, now) !== 'active') return failed(PORTAL_LINK_INVALID);
+      const access = { id: crypto.randomUUID(), link_id: link.id, accessed_at: now, user_agent: userAgent, workspace_id: link.workspace_id };
+      store.setItem(tableKey('share_link_access'), JSON.stringify([...readJson<Row[]>(store, tableKey('share_link_access'), []), access]));
+
+      const workspaceId = link.workspace_id;
+      const receivables = rows<Receivable>('receivables', {
+        where: link.scope === 'receivable'
+          ? { workspace_id: workspaceId, id: link.receivable_id ?? '', deleted_at: null }
+          : { workspace_id: workspaceId, customer_id: link.customer_id ?? '', deleted_at: null },
+      });
+      const receivableIds = receivables.map(r => r.id);
+      const payments = receivableIds.length > 0
+        ? rows<Payment>('payments', { where: { workspace_id: workspaceId, receivable_id: receivableIds, voided_at: null } })
+        : [];
+      const customerId = link.customer_id ?? receivables[0]?.customer_id ?? null;
+      const customer = customerId ? rows<Customer>('customers', { where: { workspace_id: workspaceId, id: customerId } })[0] : undefined;
+      const business = rows<BusinessProfile>('business_profiles', { where: { workspace_id: workspaceId } })[0];
+      const workspace = rows<Workspace>('workspaces', { where: { id: workspaceId } })[0];
+
+      return {
+        data: {
+          link: { scope: link.scope, expires_at: link.expires_at },
+          business: business ? {
+            business_name: business.business_name, address: business.address, city: business.city, phone: business.phone,
+            email: business.email, payment_instructions: business.payment_instructions, signatory: business.signatory,
+          } : null,
+          customerName: customer?.name ?? null,
+          receivables: receivables.map(({ id, description, currency, total_amount, issue_date, due_date, late_fee_rule }) => ({
+            id, description, currency, total_amount, issue_date, due_date, late_fee_rule: late_fee_rule ?? null,
+          })),
+          payments: payments.map(({ id, receivable_id, amount, paid_at, method }) => ({ id, receivable_id, amount, paid_at, method })),
+          defaultLateFeeRule: workspace?.late_fee_rule ?? null,
+        },
+        error: null,
+      };
+    },
+  };
+};
+
+// Stands in for issue_document, through the access-checked documents table.
+const createDocuments = (store: KeyValueStore, documents: TableRepository<Row>): DocumentRepository => ({
+  issue: async (workspaceId, type, receivableId, paymentId, issuedAt) => {
+    const { data: existing, error: existingError } = await documents.find({
+      where: paymentId
+        ? { workspace_id: workspaceId, type, payment_id: paymentId }
+        : { workspace_id: workspaceId, type, receivable_id: receivableId, payment_id: null },
+    });
+    if (existingError) return failed(existingError);
+    if (existing) return { data: existing as unknown as IssuedDocument, error: null };
+
+    const year = Number(issuedAt.slice(0, 4));
+    const { data: last, error: lastError } = await documents.find({
+      where: { workspace_id: workspaceId, type },
+      startsWith: { number: documentNumberPrefix(type, year) },
+      order: [['number', 'desc']],
+    });
+    if (lastError) return failed(lastError);
+    const { data, error } = await documents.insert({
+      workspace_id: workspaceId,
+      user_id: readJson<LocalSession | null>(store, SESSION_KEY, null)?.user.id ?? null,
+      type,
+      number: nextDocumentNumber(type, year, (last?.number as string | undefined) ?? null),
+      receivable_id: receivableId,
+      payment_id: paymentId,
+      issued_at: issuedAt,
+    }, { returning: true });
+    return error ? failed(error) : { data: data[0] as unknown as IssuedDocument, error: null };
+  },
+});
+
+// Stands in for the create_workspace and accept_invitation functions: the member row
+// takes the user from the session and the role from the invitation.
+const createWorkspaces = (store: KeyValueStore): WorkspaceRepository => {
+  const signedIn = () => readJson<LocalSession | null>(store, SESSION_KEY, null)?.user ?? null;
+  const secondFactorMissing = () => {
+    const session = readJson<LocalSession | null>(store, SESSION_KEY, null);
+    return !!session && !meetsAssurance(store, session);
+  };
+  const rows = (table: TableName) => readJson<Row[]>(store, tableKey(table), []);
+  const write = (table: TableName, updated: Row[]) => store.setItem(tableKey(table), JSON.stringify(updated));
+  const member = (workspaceId: string, user: AuthUser, role: WorkspaceRole) => ({
+    id: crypto.randomUUID(), workspace_id: workspaceId, user_id: user.id, email: normalizeEmail(user.email ?? ''), role,
+    created_at: new Date().toISOString(),
+  });
+
+  return {
+    create: async (name, adoptLegacyRows) => {
+      const user = signedIn();
+      if (!user) return failed('Anda belum masuk.');
+      if (secondFactorMissing()) return failed(SECOND_FACTOR_REQUIRED);
+      const id = crypto.randomUUID();
+      const members = rows('workspace_members');
+      const isFirst = !members.some(m => m.user_id === user.id);
+      write('workspaces', [...rows('workspaces'), { id, name, created_by: user.id, created_at: new Date().toISOString() }]);
+      write('workspace_members', [...members, member(id, user, 'owner')]);
+      if (adoptLegacyRows && isFirst) {
+        LEGACY_WORKSPACE_TABLES.forEach(table => write(table, rows(table).map(row =>
+          row.user_id === user.id && row.workspace_id == null ? { ...row, workspace_id: id } : row)));
+      }
+      return { data: id, error: null };
+    },
+    acceptInvitation: async invitationId => {
+      const user = signedIn();
+      if (!user) return failed('Anda belum masuk.');
+      if (secondFactorMissing()) return failed(SECOND_FACTOR_REQUIRED);
+      const invitations = rows('workspace_invitations');
+      const invitation = invitations.find(i => i.id === invitationId && i.email === normalizeEmail(user.email ?? '') && i.accepted_at == null);
+      if (!invitation) return failed('Undangan tidak ditemukan atau sudah digunakan.');
+      const workspaceId = String(invitation.workspace_id);
+      const members = rows('workspace_members');
+      if (!members.some(m => m.workspace_id === workspaceId && m.user_id === user.id)) {
+        write('workspace_members', [...members, member(workspaceId, user, invitation.role as WorkspaceRole)]);
+      }
+      write('workspace_invitations', invitations.map(i => i === invitation ? { ...i, accepted_at: new Date().toISOString() } : i));
+      return { data: workspaceId, error: null };
+    },
+  };
+};
+
+// Before the payments ledger, a receivable kept what had been paid in paid_amount. Each
+// such amount becomes an opening payment sharing the receivable's id, so running this
+// again never books it twice, and paid_amount is zeroed so no balance counts it
+// (0008_opening_payments.sql does the same in the database).
+const OPENING_PAYMENT_NOTE = 'Saldo awal pembayaran';
+
+const moveLegacyPaidAmounts = (store: KeyValueStore) => {
+  const receivables = readJson<Row[]>(store, tableKey('receivables'), []);
+  const legacy = receivables.filter(row => typeof row.paid_amount === 'number' && row.paid_amount > 0);
+  if (legacy.length === 0) return;
+  const payments = readJson<Row[]>(store, tableKey('payments'), []);
+  const ids = new Set(payments.map(row => row.id));
+  const opening = legacy.filter(row => !ids.has(row.id)).map(row => ({
+    id: row.id,
+    created_at: new Date().toISOString(),
+    receivable_id: row.id,
+    currency: row.currency,
+    amount: row.paid_amount,
+    paid_at: bookingDate(row as unknown as Receivable),
+    method: 'other',
+    note: OPENING_PAYMENT_NOTE,
+    voided_at: null,
+    workspace_id: row.workspace_id ?? null,
+    user_id: row.user_id ?? null,
+  }));
+  store.setItem(tableKey('payments'), JSON.stringify([...payments, ...opening]));
+  store.setItem(tableKey('receivables'), JSON.stringify(receivables.map(row => legacy.includes(row) ? { ...row, paid_amount: 0 } : row)));
+};
+
+export const createLocalBackend = (store: KeyValueStore, kind: Exclude<BackendKind, 'supabase'> = 'local'): Backend => {
+  moveLegacyPaidAmounts(store);
+  const tables = new Map<TableName, TableRepository<unknown>>();
+  const activeRows = async <T>(repository: TableRepository<T>, workspaceId: string) =>
+    repository.list({ where: { workspace_id: workspaceId, deleted_at: null } });
+  const exchangeRates = (workspaceId: string) =>
+    runQuery(readJson<Row[]>(store, tableKey('exchange_rates'), []), { where: { workspace_id: workspaceId } }) as unknown as ExchangeRate[];
+
+  // The filtered rows of a workspace in table order, with the balances they were judged by.
+  const filteredReceivables = async (
+    workspaceId: string, filters: ReceivableFilters, today: string,
+  ): Promise<DataResult<{ filtered: Receivable[]; balanceOf: BalanceOf }>> => {
+    const rows = await activeRows(receivables, workspaceId);
+    if (rows.error) return { data: null, error: rows.error };
+    const customers = runQuery(readJson<Row[]>(store, tableKey('customers'), []), { where: { workspace_id: workspaceId } }) as unknown as Customer[];
+    // Balances come from the payments table, as in the dashboard; paid_amount is never read.
+    const payments = runQuery(readJson<Row[]>(store, tableKey('payments'), []), { where: { workspace_id: workspaceId } }) as unknown as Payment[];
+    const workspace = runQuery(readJson<Row[]>(store, tableKey('workspaces'), []), { where: { id: workspaceId } })[0] as unknown as Workspace | undefined;
+    const balanceOf = createBalanceOf(payments, workspace?.late_fee_rule ?? null);
+    const filtered = filterReceivables(rows.data, balanceOf, filters, today, new Map(customers.map(c => [c.id, c.name])));
+    return { data: { filtered, balanceOf }, error: null };
+  };
+  const filteredRevenues = async (workspaceId: string, filters: RevenueFilters): Promise<DataResult<Revenue[]>> => {
+    const rows = await activeRows(revenues, workspaceId);
+    return rows.error ? { data: null, error: rows.error } : { data: filterRevenues(rows.data, filters), error: null };
+  };
+  const slice = <T>(rows: T[], [from, to]: [number, number]) => ({ rows: rows.slice(from, to + 1), total: rows.length });
+
+  const receivables = {
+    ...withValidation(withAccess(store, 'receivables', withPeriodLocks(store, 'receivables', createTable(store, 'receivables'))), parseReceivable),
+    summarize: async (workspaceId: string, filters: ReceivableFilters, today: string, baseCurrency: string): Promise<DataResult<ReceivableSummary>> => {
+      const result = await filteredReceivables(workspaceId, filters, today);
+      if (result.error) return { data: null, error: result.error };
+      const { filtered, balanceOf } = result.data;
+      const convert = createConverter(exchangeRates(workspaceId), baseCurrency);
+      return {
+        data: {
+          total: sum(filtered, r => carryingAmount(convert, r, r.total_amount) ?? 0),
+          remaining: sum(filtered, r => carryingAmount(convert, r, balanceOf(r, today).outstanding) ?? 0),
+        },
+        error: null,
+      };
+    },
+    page: async (workspaceId: string, filters: ReceivableFilters, today: string, range: [number, number]): Promise<DataResult<Page<Receivable>>> => {
+      const result = await filteredReceivables(workspaceId, filters, today);
+      return result.error ? { data: null, error: result.error } : { data: slice(result.data.filtered, range), error: null };
+    },
+  };
+  const revenues = {
+    ...withValidation(withAccess(store, 'revenues', withPeriodLocks(store, 'revenues', createTable(store, 'revenues'))), parseRevenue),
+    summarize: async (workspaceId: string, filters: RevenueFilters, baseCurrency: string): Promise<DataResult<RevenueSummary>> => {
+      const result = await filteredRevenues(workspaceId, filters);
+      if (result.error) return { data: null, error: result.error };
+      const convert = createConverter(exchangeRates(workspaceId), baseCurrency);
+      return { data: { total: sum(result.data, r => convert(r.amount, r.currency, r.date) ?? 0) }, error: null };
+    },
+    page: async (workspaceId: string, filters: RevenueFilters, range: [number, number]): Promise<DataResult<Page<Revenue>>> => {
+      const result = await filteredRevenues(workspaceId, filters);
+      return result.error ? { data: null, error: result.error } : { data: slice(result.data, range), error: null };
+    },
+  };
+  tables.set('receivables', receivables as TableRepository<Receivable>);
+  tables.set('revenues', revenues as TableRepository<Revenue>);
+
+  return {
+    kind,
+    auth: createAuth(store),
+    portal: createPortal(store),
+    workspaces: createWorkspaces(store),
+    documents: createDocuments(store, withAccess(store, 'documents', createTable(store, 'documents'))),
+    receivables,
+    revenues,
+    table: <T>(name: TableName) => {
+      if (!tables.has(name)) tables.set(name, validatedTable(name, withAccess(store, name, withPeriodLocks(store, name, createTable(store, name)))));
+      return tables.get(name) as TableRepository<T>;
+    },
+  };
+};
@@ -0,0 +1,240 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { readFileSync, readdirSync } from 'fs';
+import { PGlite } from '@electric-sql/pglite';
+import { pgcrypto } from '@electric-sql/pglite/contrib/pgcrypto';
+
+// The migrations in supabase/migrations, applied to an in-process Postgres. What Supabase
+// provides around them is stood in for below: the API roles, auth.users and the
+// authenticator factors, the claims auth.uid() and auth.jwt() read, and the realtime
+// publication.
+
+const MIGRATIONS_DIR = new URL('./supabase/migrations/', import.meta.url);
+const MIGRATIONS = readdirSync(MIGRATIONS_DIR).filter(name => name.endsWith('.sql')).sort();
+
+const SUPABASE = `
+  create role anon nologin;
+  create role authenticated nologin;
+  create schema auth;
+  create table auth.users (id uuid primary key, email text);
+  create table auth.mfa_factors (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users (id) on delete cascade,
+    factor_type text not null default 'totp',
+    status text not null check (status in ('verified', 'unverified'))
+  );
+  create function auth.jwt() returns jsonb language sql stable as $$
+    select nullif(current_setting('request.jwt.claims', true), '')::jsonb
+  $$;
+  create function auth.uid() returns uuid language sql stable as $$ select (auth.jwt() ->> 'sub')::uuid $$;
+  grant usage on schema public, auth to anon, authenticated;
+  alter default privileges in schema public grant all on tables to anon, authenticated;
+  alter default privileges in schema public grant all on sequences to anon, authenticated;
+  create publication supabase_realtime;
+`;
+
+// The tables as the first version of the app created them by hand.
+const LEGACY_TABLES = `
+  create table public.receivables (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid references auth.users (id),
+    description text not null,
+    total_amount numeric not null,
+    paid_amount numeric not null default 0,
+    due_date date not null,
+    created_at timestamptz not null default now()
+  );
+  create table public.revenues (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid references auth.users (id),
+    description text not null,
+    amount numeric not null,
+    date date not null,
+    created_at timestamptz not null default now()
+  );
+`;
+
+const OWNER = '00000000-0000-4000-8000-000000000001';
+
+// Starting Postgres takes seconds, so every test starts from a copy of one database that
+// holds the Supabase stand-ins and the owner account.
+let template: Blob;
+let db: PGlite | null = null;
+
+beforeAll(async () => {
+  const database = await PGlite.create({ extensions: { pgcrypto } });
+  await database.exec(SUPABASE);
+  await database.exec(`insert into auth.users (id, email) values ('${OWNER}', 'pemilik@contoh.id');`);
+  template = await database.dumpDataDir('none');
+  await database.close();
+}, 120_000);
+
+afterEach(async () => {
+  await db?.close();
+  db = null;
+});
+
+const createDatabase = async (setup = '') => {
+  db = await PGlite.create({ extensions: { pgcrypto }, loadDataDir: template });
+  if (setup) await db.exec(setup);
+  return db;
+};
+
+const migrate = async (database: PGlite, names = MIGRATIONS) => {
+  for (const name of names) {
+    await database.exec(readFileSync(new URL(name, MIGRATIONS_DIR), 'utf8'));
+  }
+};
+
+const columns = async (database: PGlite, table: string) =>
+  (await database.query<{ column_name: string }>(
+    `select column_name from information_schema.columns where table_schema = 'public' and table_name = $1`, [table],
+  )).rows.map(row => row.column_name);
+
+describe('migrations', { timeout: 30_000 }, () => {
+  it('build the schema on an empty project', async () => {
+    const database = await createDatabase();
+    await migrate(database);
+    expect(await columns(database, 'receivables')).toEqual(expect.arrayContaining(['workspace_id', 'currency', 'tags', 'updated_at']));
+  });
+
+  it('bring the tables the app created by hand up to date, keeping their rows', async () => {
+    const database = await createDatabase(`${LEGACY_TABLES}
+      insert into public.receivables (user_id, description, total_amount, due_date) values ('${OWNER}', 'Sewa gudang', 1500000, '2024-05-31');
+      insert into public.revenues (user_id, description, amount, date) values ('${OWNER}', 'Jasa', 250000, '2024-05-02');
+    `);
+    await migrate(database);
+    const { rows } = await database.query<{ description: string; workspace_id: string | null; currency: string; tags: string[] }>(
+      'select description, workspace_id, currency, tags from public.receivables',
+    );
+    expect(rows).toEqual([{ description: 'Sewa gudang', workspace_id: null, currency: 'IDR', tags: [] }]);
+    expect(await columns(database, 'revenues')).toEqual(expect.arrayContaining(['workspace_id', 'deleted_at', 'adjusts_id']));
+  });
+
+  it('can apply the schema twice', async () => {
+    const database = await createDatabase(LEGACY_TABLES);
+    await migrate(database, ['0001_schema.sql', '0001_schema.sql']);
+    const { rows } = await database.query<{ count: number }>(
+      `select count(*)::int as count from pg_constraint where conname = 'receivables_recurring_id_occurrence_date_key'`,
+    );
+    expect(rows[0].count).toBe(1);
+  });
+});
+
+describe('0008_opening_payments', { timeout: 30_000 }, () => {
+  const WORKSPACE = '00000000-0000-4000-8000-0000000000a1';
+  const LEGACY = '00000000-0000-4000-8000-0000000000b1';
+  const CLOSED = '00000000-0000-4000-8000-0000000000b2';
+
+  // A receivable from before workspaces and one booked in a closed period, both with a
+  // paid_amount, and the books closed through May 2024.
+  const seeded = async () => {
+    const database = await createDatabase(`${LEGACY_TABLES}
+      insert into public.receivables (id, user_id, description, total_amount, paid_amount, due_date)
+        values ('${LEGACY}', '${OWNER}', 'Sewa gudang', 1500000, 500000, '2024-05-31');
+    `);
+    await migrate(database, MIGRATIONS.filter(name => name < '0008'));
+    await database.exec(`
+      insert into public.workspaces (id, name, created_by) values ('${WORKSPACE}', 'Toko', '${OWNER}');
+      insert into public.receivables (id, workspace_id, user_id, description, total_amount, paid_amount, issue_date, due_date)
+        values ('${CLOSED}', '${WORKSPACE}', '${OWNER}', 'Jasa desain', 800000, 300000, '2024-05-10', '2024-06-10');
+      insert into public.period_closes (workspace_id, kind, period_start, period_end, snapshot, closed_by_email)
+        values ('${WORKSPACE}', 'month', '2024-05-01', '2024-05-31', '{}', 'pemilik@contoh.id');
+    `);
+    return database;
+  };
+
+  it('moves every paid_amount into an opening payment on the booking date, once', async () => {
+    const database = await seeded();
+    await migrate(database, ['0008_opening_payments.sql', '0008_opening_payments.sql']);
+    const { rows: payments } = await database.query(
+      'select id, receivable_id, workspace_id, amount::float as amount, paid_at::text as paid_at, method, note from public.payments order by amount',
+    );
+    expect(payments).toEqual([
+      { id: CLOSED, receivable_id: CLOSED, workspace_id: WORKSPACE, amount: 300000, paid_at: '2024-05-10', method: 'other', note: 'Saldo awal pembayaran' },
+      { id: LEGACY, receivable_id: LEGACY, workspace_id: null, amount: 500000, paid_at: '2024-05-31', method: 'other', note: 'Saldo awal pembayaran' },
+    ]);
+    const { rows: receivables } = await database.query<{ paid_amount: number }>('select paid_amount::float as paid_amount from public.receivables');
+    expect(receivables).toEqual([{ paid_amount: 0 }, { paid_amount: 0 }]);
+  });
+
+  it('leaves the period lock on afterwards', async () => {
+    const database = await seeded();
+    await migrate(database, ['0008_opening_payments.sql']);
+    const { rows } = await database.query<{ table: string; enabled: string }>(`
+      select tgrelid::regclass::text as table, tgenabled as enabled from pg_trigger
+      where tgname = 'enforce_period_lock' and tgrelid in ('public.payments'::regclass, 'public.receivables'::regclass)
+      order by 1
+    `);
+    expect(rows).toEqual([{ table: 'payments', enabled: 'O' }, { table: 'receivables', enabled: 'O' }]);
+    await expect(database.exec(`
+      insert into public.payments (workspace_id, receivable_id, amount, paid_at) values ('${WORKSPACE}', '${CLOSED}', 1000, '2024-05-20');
+    `)).rejects.toThrow('periode yang sudah ditutup');
+    await expect(database.exec(`update public.receivables set description = 'Jasa logo' where id = '${CLOSED}'`))
+      .rejects.toThrow('periode yang sudah ditutup');
+  });
+});
+
+describe('second factor', { timeout: 30_000 }, () => {
+  const WORKSPACE = '00000000-0000-4000-8000-0000000000a1';
+
+  // The owner's workspace with one receivable, and an authenticator when `withFactor`.
+  const seeded = async (withFactor: boolean) => {
+    const database = await createDatabase();
+    await migrate(database);
+    await database.exec(`
+      insert into public.workspaces (id, name, created_by) values ('${WORKSPACE}', 'Toko', '${OWNER}');
+      insert into public.workspace_members (workspace_id, user_id, email, role) values ('${WORKSPACE}', '${OWNER}', 'pemilik@contoh.id', 'owner');
+      insert into public.receivables (workspace_id, user_id, description, total_amount, due_date)
+        values ('${WORKSPACE}', '${OWNER}', 'Sewa gudang', 1500000, '2025-05-31');
+      ${withFactor ? `insert into auth.mfa_factors (user_id, status) values ('${OWNER}', 'verified');` : ''}
+    `);
+    return database;
+  };
+
+  // Runs the rest of the test through the API role, as the owner signed in at `aal`.
+  const signedIn = async (database: PGlite, aal: 'aal1' | 'aal2') => {
+    await database.query(`select set_config('request.jwt.claims', $1, false)`, [
+      JSON.stringify({ sub: OWNER, email: 'pemilik@contoh.id', role: 'authenticated', aal }),
+    ]);
+    await database.exec('set role authenticated');
+  };
+
+  const receivableCount = async (database: PGlite) =>
+    (await database.query<{ count: number }>('select count(*)::int as count from public.receivables')).rows[0].count;
+
+  it('covers every table with row level security', async () => {
+    const database = await createDatabase();
+    await migrate(database);
+    const { rows } = await database.query<{ tablename: string }>(`
+      select t.tablename from pg_tables t
+      where t.schemaname = 'public' and t.rowsecurity and not exists (
+        select 1 from pg_policies p
+        where p.schemaname = 'public' and p.tablename = t.tablename and p.policyname = 'second factor given' and p.permissive = 'RESTRICTIVE'
+      )
+    `);
+    expect(rows).toEqual([]);
+  });
+
+  it('refuses a password-only session of an account with an authenticator', async () => {
+    const database = await seeded(true);
+    await signedIn(database, 'aal1');
+    expect(await receivableCount(database)).toBe(0);
+    await expect(database.exec(`
+      insert into public.customers (workspace_id, name) values ('${WORKSPACE}', 'Andi');
+    `)).rejects.toThrow('row-level security');
+    await expect(database.query(`select public.create_workspace('Cabang', false)`)).rejects.toThrow('autentikator');
+  });
+
+  it('lets the session in once it has given the second factor', async () => {
+    const database = await seeded(true);
+    await signedIn(database, 'aal2');
+    expect(await receivableCount(database)).toBe(1);
+    await database.exec(`insert into public.customers (workspace_id, name) values ('${WORKSPACE}', 'Andi');`);
+  });
+
+  it('asks nothing more of accounts without an authenticator', async () => {
+    const database = await seeded(false);
+    await signedIn(database, 'aal1');
+    expect(await receivableCount(database)).toBe(1);
+  });
+});
@@ -0,0 +1,78 @@
+// IndexedDB persistence for offline use: the last known copy of each synced table and
+// the queue of mutations that have not reached the server yet. One database per user and
+// workspace, so switching accounts or books on a shared device never mixes ledgers.
+
+export type CachedTable = 'receivables' | 'revenues' | 'payments' | 'customers' | 'payables' | 'payable_payments' | 'expenses';
+
+const DB_VERSION = 2;
+const ROWS_STORE = 'rows';
+const QUEUE_STORE = 'mutations';
+// The newest server timestamp each cached table has caught up to (see liveData.ts).
+const MARKS_STORE = 'syncMarks';
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export const openOfflineDb = (userId: string, workspaceId: string) => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(`piutang-offline-${userId}-${workspaceId}`, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(ROWS_STORE)) db.createObjectStore(ROWS_STORE);
+    if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(MARKS_STORE)) db.createObjectStore(MARKS_STORE);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Null means the table has never been cached, as opposed to cached and empty.
+export const readCachedRows = async <T>(db: IDBDatabase, table: CachedTable): Promise<T[] | null> => {
+  const rows = await promisify(db.transaction(ROWS_STORE).objectStore(ROWS_STORE).get(table));
+  return (rows as T[] | undefined) ?? null;
+};
+
+export const writeCachedRows = async <T>(db: IDBDatabase, table: CachedTable, rows: T[]) => {
+  const tx = db.transaction(ROWS_STORE, 'readwrite');
+  tx.objectStore(ROWS_STORE).put(rows, table);
+  await transactionDone(tx);
+};
+
+export const readSyncMark = async (db: IDBDatabase, table: CachedTable): Promise<string | null> => {
+  const mark = await promisify(db.transaction(MARKS_STORE).objectStore(MARKS_STORE).get(table));
+  return (mark as string | undefined) ?? null;
+};
+
+// Rows and mark are written together, so a cache never claims to be newer than it is.
+export const writeSyncedRows = async <T>(db: IDBDatabase, table: CachedTable, rows: T[], mark: string | null) => {
+  const tx = db.transaction([ROWS_STORE, MARKS_STORE], 'readwrite');
+  tx.objectStore(ROWS_STORE).put(rows, table);
+  if (mark) tx.objectStore(MARKS_STORE).put(mark, table);
+  else tx.objectStore(MARKS_STORE).delete(table);
+  await transactionDone(tx);
+};
+
+// Queued entries carry their own `queuedAt` sequence, since object stores iterate by key.
+export const readQueue = async <T extends { queuedAt: number }>(db: IDBDatabase): Promise<T[]> => {
+  const entries = await promisify(db.transaction(QUEUE_STORE).objectStore(QUEUE_STORE).getAll());
+  return (entries as T[]).sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+export const putQueueEntries = async <T extends { id: string }>(db: IDBDatabase, entries: T[]) => {
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  entries.forEach(entry => tx.objectStore(QUEUE_STORE).put(entry));
+  await transactionDone(tx);
+};
+
+export const deleteQueueEntries = async (db: IDBDatabase, ids: string[]) => {
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  ids.forEach(id => tx.objectStore(QUEUE_STORE).delete(id));
+  await transactionDone(tx);
+};
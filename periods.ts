@@ -0,0 +1,149 @@
+import { Expense, Payable, PayablePayment, Payment, PeriodClose, PeriodKind, PeriodSnapshot, Receivable, Revenue } from './types';
+import { CachedTable } from './offlineStore';
+import { Converter, bookingDate, carryingAmount } from './currency';
+import { PeriodRange } from './analytics';
+import { buildProfitLoss } from './profitLoss';
+import { BalanceOf } from './lateFees';
+import { daysInMonth } from './dates';
+import { formatDate } from './formatters';
+
+// Closing the books. A close covers a month or a year; the books are locked up to the end
+// of the latest close that has not been reopened, so closing March also locks anything
+// earlier that was left open. Every ledger entry is dated by the day it hit the books:
+// receivables and payables by their booking date, payments by the day they were made,
+// revenues and expenses by their own date. An entry is locked when that date falls on or
+// before the lock date, before a change or after it. Corrections then go in as adjusting
+// entries dated in an open period.
+
+export const PERIOD_KIND_LABELS: Record<PeriodKind, string> = {
+  month: 'Bulan',
+  year: 'Tahun',
+};
+
+// `value` is 'YYYY-MM' for a month and 'YYYY' for a year.
+export const closingRange = (kind: PeriodKind, value: string): PeriodRange => {
+  if (kind === 'year') return { from: `${value}-01-01`, to: `${value}-12-31` };
+  const [year, month] = value.split('-').map(Number);
+  return { from: `${value}-01`, to: `${value}-${String(daysInMonth(year, month)).padStart(2, '0')}` };
+};
+
+export const describePeriod = (close: Pick<PeriodClose, 'kind' | 'period_start'>) => close.kind === 'year'
+  ? `Tahun ${close.period_start.slice(0, 4)}`
+  : new Date(`${close.period_start}T00:00:00Z`).toLocaleDateString('id-ID', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+export const isOpenClose = (close: PeriodClose) => !close.reopened_at;
+
+// The last locked day, or null while nothing is closed.
+export const lockDate = (closes: PeriodClose[]) =>
+  closes.filter(isOpenClose).reduce<string | null>((latest, close) => !latest || close.period_end > latest ? close.period_end : latest, null);
+
+// Only the close that sets the lock date can be reopened; earlier ones follow one by one.
+export const reopenableClose = (closes: PeriodClose[]) => {
+  const through = lockDate(closes);
+  return closes.find(close => isOpenClose(close) && close.period_end === through) ?? null;
+};
+
+export const isLocked = (date: string | null | undefined, through: string | null) => !!date && !!through && date <= through;
+
+export const ALREADY_CLOSED = 'Periode ini sudah termasuk buku yang ditutup.';
+export const LATEST_CLOSE_ONLY = 'Hanya periode terakhir yang ditutup yang dapat dibuka kembali.';
+
+// Why a period cannot be closed, or null when it can. A period only closes once it is
+// over, and it must end after the current lock date.
+export const closingProblem = (range: PeriodRange, through: string | null, today: string) => {
+  if (range.to >= today) return 'Periode ini belum berakhir.';
+  if (through && range.to <= through) return ALREADY_CLOSED;
+  return null;
+};
+
+// The date an entry of `table` is booked on; customers are not ledger entries.
+export const entryDate = (table: CachedTable, entry: object | null): string | null => {
+  if (!entry) return null;
+  const row = entry as Record<string, unknown>;
+  switch (table) {
+    case 'receivables':
+    case 'payables':
+      return bookingDate(row as Pick<Receivable, 'issue_date' | 'due_date'>) || null;
+    case 'payments':
+    case 'payable_payments':
+      return (row.paid_at as string | null) ?? null;
+    case 'revenues':
+    case 'expenses':
+      return (row.date as string | null) ?? null;
+    case 'customers':
+      return null;
+  }
+};
+
+// The locked date a change would touch, or null when it is allowed. `before` is the row
+// as stored (null for inserts), `after` the row as it would be (null for deletes).
+export const lockedChange = (table: CachedTable, before: object | null, after: object | null, through: string | null) =>
+  [entryDate(table, before), entryDate(table, after)].find(date => isLocked(date, through)) ?? null;
+
+// `date` is the entry date that falls inside a closed period.
+export const lockedMessage = (date: string) =>
+  `Tanggal ${formatDate(date)} termasuk periode yang sudah ditutup. Koreksi dicatat sebagai jurnal penyesuaian di tab Tutup Buku.`;
+
+export interface Ledger {
+  // Without the trash.
+  receivables: Receivable[];
+  payments: Payment[];
+  // Without the trash.
+  revenues: Revenue[];
+  payables: Payable[];
+  payablePayments: PayablePayment[];
+  expenses: Expense[];
+}
+
+// Payable balances at the end of the range: what was booked by then less what was paid
+// by then, at the booking rate.
+const payablesOutstandingAt = (
+  convert: Converter,
+  documents: Payable[],
+  payments: { parentId: string; amount: number; paid_at: string; voided_at: string | null }[],
+  to: string,
+) => {
+  const paid = new Map<string, number>();
+  payments.forEach(p => {
+    if (!p.voided_at && p.paid_at <= to) paid.set(p.parentId, (paid.get(p.parentId) ?? 0) + p.amount);
+  });
+  return documents
+    .filter(d => bookingDate(d) <= to)
+    .reduce((sum, d) => sum + Math.max(0, carryingAmount(convert, d, d.total_amount - (paid.get(d.id) ?? 0)) ?? 0), 0);
+};
+
+// Receivable balances at the end of the range come from `balanceOf`, late fees included.
+export const buildPeriodSnapshot = (
+  convert: Converter,
+  balanceOf: BalanceOf,
+  baseCurrency: string,
+  ledger: Ledger,
+  range: PeriodRange,
+): PeriodSnapshot => {
+  const { receivables, payments, revenues, payables, payablePayments, expenses } = ledger;
+  const report = buildProfitLoss(convert, receivables, payments, balanceOf, revenues, payables, payablePayments, expenses, range, range.to);
+  const within = (date: string | null) => !!date && date >= range.from && date <= range.to;
+  const issued = (documents: (Receivable | Payable)[]) => documents
+    .filter(d => within(bookingDate(d)))
+    .reduce((sum, d) => sum + (carryingAmount(convert, d, d.total_amount) ?? 0), 0);
+
+  return {
+    base_currency: baseCurrency,
+    revenue: report.revenue,
+    expenses: report.expenses,
+    profit: report.profit,
+    cash_in: report.cashIn,
+    cash_out: report.cashOut,
+    receivables_issued: issued(receivables),
+    payables_issued: issued(payables),
+    receivables_outstanding: receivables
+      .filter(r => bookingDate(r) <= range.to)
+      .reduce((sum, r) => sum + (carryingAmount(convert, r, balanceOf(r, range.to).outstanding) ?? 0), 0),
+    payables_outstanding: payablesOutstandingAt(convert, payables, payablePayments.map(p => ({ ...p, parentId: p.payable_id })), range.to),
+    entry_count: [
+      ...receivables.map(bookingDate), ...payments.map(p => p.paid_at), ...revenues.map(r => r.date),
+      ...payables.map(bookingDate), ...payablePayments.map(p => p.paid_at), ...expenses.map(e => e.date),
+    ].filter(within).length,
+    missing_currencies: report.missingCurrencies,
+  };
+};
@@ -0,0 +1,93 @@
+import { ShareLink } from './types';
+import { PortalData, PortalPayment, PortalReceivable } from './repository';
+import { createBalanceOf } from './lateFees';
+import { DAY_MS } from './dates';
+
+// Share links and the read-only debtor portal they open. Amounts stay in each
+// receivable's own currency, since that is the currency the debtor pays in; late fees
+// follow the same rules as in the dashboard.
+
+// The app opens the portal instead of the dashboard when the URL carries this parameter.
+export const PORTAL_PARAM = 'portal';
+
+export const SHARE_LINK_DURATIONS: { days: number; label: string }[] = [
+  { days: 7, label: '7 hari' },
+  { days: 30, label: '30 hari' },
+  { days: 90, label: '90 hari' },
+];
+
+export const DEFAULT_SHARE_LINK_DAYS = 30;
+
+// 256 random bits, URL-safe, so links cannot be guessed or enumerated.
+export const generateShareToken = () =>
+  btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const shareLinkExpiry = (days: number, now = new Date()) => new Date(now.getTime() + days * DAY_MS).toISOString();
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export const SHARE_LINK_STATUS_LABELS: Record<ShareLinkStatus, string> = {
+  active: 'Aktif',
+  expired: 'Kedaluwarsa',
+  revoked: 'Dicabut',
+};
+
+// `now` is an ISO timestamp.
+export const shareLinkStatus = (link: Pick<ShareLink, 'expires_at' | 'revoked_at'>, now: string): ShareLinkStatus =>
+  link.revoked_at ? 'revoked' : link.expires_at <= now ? 'expired' : 'active';
+
+export interface PortalLine {
+  receivable: PortalReceivable;
+  paid: number;
+  outstandingFees: number;
+  // Principal and fees still owed.
+  outstanding: number;
+  status: 'paid' | 'overdue' | 'unpaid';
+}
+
+export interface PortalStatement {
+  // Open receivables by due date, then the settled ones.
+  lines: PortalLine[];
+  // Newest first.
+  payments: (PortalPayment & { description: string; currency: string })[];
+  // One total per currency still owed in.
+  balances: { currency: string; outstanding: number }[];
+  nextDueDate: string | null;
+}
+
+export const buildPortalStatement = (data: PortalData, today: string): PortalStatement => {
+  const byId = new Map(data.receivables.map(r => [r.id, r]));
+  const payments = data.payments.filter(p => byId.has(p.receivable_id));
+  const balanceOf = createBalanceOf(payments, data.defaultLateFeeRule);
+
+  const lines = data.receivables.map((receivable): PortalLine => {
+    const { paid, outstandingFees, outstanding } = balanceOf(receivable, today);
+    return {
+      receivable,
+      paid,
+      outstandingFees,
+      outstanding,
+      status: outstanding <= 0 ? 'paid' : receivable.due_date && receivable.due_date < today ? 'overdue' : 'unpaid',
+    };
+  });
+  lines.sort((a, b) =>
+    Number(a.status === 'paid') - Number(b.status === 'paid')
+    || (a.receivable.due_date ?? '').localeCompare(b.receivable.due_date ?? '')
+    || a.receivable.description.localeCompare(b.receivable.description, 'id'));
+
+  const balances = new Map<string, number>();
+  lines.forEach(line => {
+    if (line.outstanding > 0) balances.set(line.receivable.currency, (balances.get(line.receivable.currency) ?? 0) + line.outstanding);
+  });
+  const open = lines.filter(line => line.status !== 'paid' && line.receivable.due_date);
+
+  return {
+    lines,
+    payments: payments
+      .map(p => ({ ...p, description: byId.get(p.receivable_id)!.description, currency: byId.get(p.receivable_id)!.currency }))
+      .sort((a, b) => b.paid_at.localeCompare(a.paid_at) || a.id.localeCompare(b.id)),
+    balances: [...balances].map(([currency, outstanding]) => ({ currency, outstanding })).sort((a, b) => a.currency.localeCompare(b.currency)),
+    nextDueDate: open.length > 0 ? open.map(line => line.receivable.due_date).sort()[0] : null,
+  };
+};
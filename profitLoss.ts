@@ -0,0 +1,124 @@
+import { Expense, Payable, PayablePayment, Payment, Receivable, Revenue } from './types';
+import { Converter, bookingDate, carryingAmount, missingRates } from './currency';
+import { PeriodRange, monthsIn } from './analytics';
+import { BalanceOf } from './lateFees';
+
+// Profit and loss and the cash position, in the base currency. Profit is revenue minus
+// expenses on the date each was recorded, converted at that date. Cash only counts money
+// that moved: receivable and payable payments at the rate of the day they were made, plus
+// revenues and expenses entered directly. Entries posted from a payment stay out of the
+// cash figures, because the payment itself is already counted there.
+
+export interface ProfitLossMonth {
+  // 'YYYY-MM'
+  month: string;
+  revenue: number;
+  expenses: number;
+  profit: number;
+  cashIn: number;
+  cashOut: number;
+  netCash: number;
+  // Net cash from the start of the range up to the end of this month.
+  cumulativeCash: number;
+}
+
+export interface ProfitLossReport {
+  months: ProfitLossMonth[];
+  revenue: number;
+  expenses: number;
+  profit: number;
+  cashIn: number;
+  cashOut: number;
+  netCash: number;
+  // Still to be collected and still to be paid, at the rates they were booked at.
+  receivablesOutstanding: number;
+  payablesOutstanding: number;
+  // Currencies without a rate on some entry's date; those entries are left out.
+  missingCurrencies: string[];
+}
+
+interface Flow {
+  date: string;
+  currency: string;
+  amount: number;
+  field: 'revenue' | 'expenses' | 'cashIn' | 'cashOut';
+}
+
+const inRange = (date: string, range: PeriodRange) => date >= range.from && date <= range.to;
+
+const paidTotals = (payments: { parentId: string; amount: number; voided_at: string | null }[]) => {
+  const totals = new Map<string, number>();
+  payments.forEach(p => {
+    if (!p.voided_at) totals.set(p.parentId, (totals.get(p.parentId) ?? 0) + p.amount);
+  });
+  return totals;
+};
+
+// `receivables` and `revenues` exclude the trash. Outstanding receivables are as of
+// `today`, late fees included.
+export const buildProfitLoss = (
+  convert: Converter,
+  receivables: Receivable[],
+  payments: Payment[],
+  balanceOf: BalanceOf,
+  revenues: Revenue[],
+  payables: Payable[],
+  payablePayments: PayablePayment[],
+  expenses: Expense[],
+  range: PeriodRange,
+  today: string,
+): ProfitLossReport => {
+  const receivableIds = new Set(receivables.map(r => r.id));
+  const payableIds = new Set(payables.map(p => p.id));
+  const flows: Flow[] = [
+    ...revenues.map(r => ({ date: r.date, currency: r.currency, amount: r.amount, field: 'revenue' as const })),
+    ...expenses.map(e => ({ date: e.date, currency: e.currency, amount: e.amount, field: 'expenses' as const })),
+    ...payments
+      .filter(p => !p.voided_at && receivableIds.has(p.receivable_id))
+      .map(p => ({ date: p.paid_at, currency: p.currency, amount: p.amount, field: 'cashIn' as const })),
+    ...revenues
+      .filter(r => !r.payment_id)
+      .map(r => ({ date: r.date, currency: r.currency, amount: r.amount, field: 'cashIn' as const })),
+    ...payablePayments
+      .filter(p => !p.voided_at && payableIds.has(p.payable_id))
+      .map(p => ({ date: p.paid_at, currency: p.currency, amount: p.amount, field: 'cashOut' as const })),
+    ...expenses
+      .filter(e => !e.payable_payment_id)
+      .map(e => ({ date: e.date, currency: e.currency, amount: e.amount, field: 'cashOut' as const })),
+  ].filter(flow => inRange(flow.date, range));
+
+  const months = new Map(monthsIn(range).map(month => [month, {
+    month, revenue: 0, expenses: 0, profit: 0, cashIn: 0, cashOut: 0, netCash: 0, cumulativeCash: 0,
+  }]));
+  flows.forEach(flow => {
+    const amount = convert(flow.amount, flow.currency, flow.date);
+    const point = months.get(flow.date.slice(0, 7));
+    if (point && amount !== null) point[flow.field] += amount;
+  });
+  let cumulativeCash = 0;
+  const series = [...months.values()].map(point => {
+    const netCash = point.cashIn - point.cashOut;
+    cumulativeCash += netCash;
+    return { ...point, profit: point.revenue - point.expenses, netCash, cumulativeCash };
+  });
+  const total = (field: keyof Omit<ProfitLossMonth, 'month' | 'cumulativeCash'>) => series.reduce((sum, point) => sum + point[field], 0);
+
+  const payablePaid = paidTotals(payablePayments.map(p => ({ ...p, parentId: p.payable_id })));
+
+  return {
+    months: series,
+    revenue: total('revenue'),
+    expenses: total('expenses'),
+    profit: total('profit'),
+    cashIn: total('cashIn'),
+    cashOut: total('cashOut'),
+    netCash: total('netCash'),
+    receivablesOutstanding: receivables.reduce((sum, r) => sum + (carryingAmount(convert, r, balanceOf(r, today).outstanding) ?? 0), 0),
+    payablesOutstanding: payables.reduce((sum, p) =>
+      sum + Math.max(0, carryingAmount(convert, p, p.total_amount - (payablePaid.get(p.id) ?? 0)) ?? 0), 0),
+    missingCurrencies: missingRates(convert, [
+      ...flows,
+      ...[...receivables, ...payables].map(d => ({ currency: d.currency, date: bookingDate(d) })),
+    ]),
+  };
+};
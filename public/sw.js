@@ -0,0 +1,41 @@
+// Caches the app shell and its static dependencies so the installed app opens offline.
+// Ledger data is not cached here: the app keeps it in IndexedDB and queues its own writes.
+
+const CACHE_NAME = 'piutang-shell-v1';
+// Built assets have hashed names, so they are cached as they are first requested.
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.hostname.endsWith('.supabase.co') || url.protocol === 'ws:' || url.protocol === 'wss:') return;
+
+  // Pages: always try the network first so a new deployment is picked up immediately.
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => caches.match('/index.html')));
+    return;
+  }
+
+  // Everything else (built assets, fonts, CDN modules): serve from cache, refresh in the background.
+  event.respondWith(caches.open(CACHE_NAME).then(async cache => {
+    const cached = await cache.match(request);
+    const network = fetch(request).then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    }).catch(error => cached ?? Promise.reject(error));
+    return cached ?? network;
+  }));
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIDENT_SCORE, MatchableLine, OpenReceivable, keywords, proposeMatches, scoreMatch, suggestMatches } from './reconciliation';
+import { Receivable } from './types';
+import { receivable } from './testFixtures';
+
+const open = (id: string, outstanding: number, fields: Partial<Receivable> = {}, customerName: string | null = 'PT Maju Jaya'): OpenReceivable => ({
+  receivable: receivable({
+    id, description: 'Sewa gudang Agustus', total_amount: outstanding, issue_date: '2025-08-01', due_date: '2025-08-15', ...fields,
+  }),
+  outstanding,
+  customerName,
+});
+
+const line = (id: string, amount: number, fields: Partial<MatchableLine> = {}): MatchableLine => ({
+  id, date: '2025-08-16', description: 'TRSF E-BANKING CR PT MAJU JAYA', currency: 'IDR', amount, ...fields,
+});
+
+describe('keywords', () => {
+  it('drops short words and banking noise', () => {
+    expect([...keywords('TRSF E-BANKING CR 1708 dari PT MAJU JAYA')]).toEqual(['1708', 'maju', 'jaya']);
+  });
+});
+
+describe('scoreMatch', () => {
+  it('scores an exact amount near the due date from the named customer highest', () => {
+    expect(scoreMatch(line('l1', 1500000), open('r1', 1500000))).toEqual({
+      receivableId: 'r1',
+      score: 90,
+      reasons: ['Jumlah sama dengan sisa tagihan', 'Tanggal 1 hari dari jatuh tempo', 'Nama pelanggan disebut'],
+    });
+  });
+
+  it('treats a smaller line as a possible partial payment', () => {
+    expect(scoreMatch(line('l1', 500000), open('r1', 1500000))?.reasons[0]).toBe('Mungkin pembayaran sebagian');
+  });
+
+  it('never matches more than the balance, another currency or a settled receivable', () => {
+    expect(scoreMatch(line('l1', 1500001), open('r1', 1500000))).toBeNull();
+    expect(scoreMatch(line('l1', 100, { currency: 'USD' }), open('r1', 100))).toBeNull();
+    expect(scoreMatch(line('l1', 0), open('r1', 0))).toBeNull();
+  });
+
+  it('counts description keywords', () => {
+    const match = scoreMatch(line('l1', 100, { description: 'SEWA GUDANG', date: '2025-10-01' }), open('r1', 100, {}, null));
+    expect(match).toEqual({ receivableId: 'r1', score: 60, reasons: ['Jumlah sama dengan sisa tagihan', 'Kata kunci keterangan cocok'] });
+  });
+});
+
+describe('suggestMatches', () => {
+  it('keeps candidates above the threshold, strongest first', () => {
+    const suggestions = suggestMatches(line('l1', 1500000), [
+      open('weak', 3000000, { due_date: '2025-12-01' }, 'CV Lain'),
+      open('partial', 2000000),
+      open('exact', 1500000),
+    ]);
+    expect(suggestions.map(s => s.receivableId)).toEqual(['exact', 'partial']);
+  });
+});
+
+describe('proposeMatches', () => {
+  it('pairs each line once and never lets lines together exceed a balance', () => {
+    const proposed = proposeMatches(
+      [line('l1', 1500000), line('l2', 1500000, { date: '2025-08-17' })],
+      [open('r1', 1500000)],
+    );
+    expect([...proposed.keys()]).toEqual(['l1']);
+    expect(proposed.get('l1')!.score).toBeGreaterThanOrEqual(CONFIDENT_SCORE);
+  });
+
+  it('spreads identical lines over identical receivables', () => {
+    const proposed = proposeMatches(
+      [line('l1', 1500000), line('l2', 1500000)],
+      [open('r1', 1500000), open('r2', 1500000)],
+    );
+    expect(new Set([...proposed.values()].map(m => m.receivableId))).toEqual(new Set(['r1', 'r2']));
+  });
+});
@@ -0,0 +1,115 @@
+import { BankLine, Receivable } from './types';
+import { daysBetween } from './dates';
+
+// Suggesting which outstanding receivable a bank line pays. Three signals add up to a
+// score out of 100:
+// - amount (up to 50): the line equals what is still owed; a smaller line may be a
+//   partial payment and scores less. A line larger than the balance never matches;
+// - date (up to 20): how close the transfer came to the due date;
+// - keywords (up to 30): words of the customer's name and of the receivable's
+//   description found in the bank's narrative.
+// Receivables only match lines in their own currency.
+
+export interface OpenReceivable {
+  receivable: Receivable;
+  // Principal and any late fees still owed.
+  outstanding: number;
+  customerName: string | null;
+}
+
+export interface MatchSuggestion {
+  receivableId: string;
+  score: number;
+  reasons: string[];
+}
+
+export type MatchableLine = Pick<BankLine, 'id' | 'date' | 'description' | 'currency' | 'amount'>;
+
+// Below this a receivable is not suggested at all.
+export const MATCH_THRESHOLD = 40;
+// At or above this a suggestion is preselected for bulk confirmation.
+export const CONFIDENT_SCORE = 70;
+export const MAX_SUGGESTIONS = 3;
+
+// Words banks put in every narrative, which say nothing about who paid.
+const STOPWORDS = new Set([
+  'trsf', 'transfer', 'trf', 'tranfer', 'ebanking', 'banking', 'mbanking', 'ibank', 'internet', 'setoran', 'kliring',
+  'dari', 'untuk', 'dan', 'the', 'from', 'pembayaran', 'bayar', 'byr', 'pelunasan', 'tagihan', 'invoice', 'inv',
+  'bca', 'mandiri', 'bri', 'bni', 'cimb', 'bank', 'rtgs', 'skn', 'bifast', 'bi', 'fast', 'online', 'mcm',
+  'bapak', 'ibu', 'sdr', 'pt', 'cv', 'tbk', 'toko',
+]);
+
+// Lower-cased words of three or more letters or digits, without the stopwords.
+export const keywords = (text: string) => new Set(
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length >= 3 && !STOPWORDS.has(word)),
+);
+
+const sameAmount = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+const daysApart = (a: string, b: string) => Math.abs(daysBetween(a, b));
+
+const dateScore = (lineDate: string, dueDate: string) => {
+  const days = daysApart(lineDate, dueDate);
+  return days <= 3 ? 20 : days <= 7 ? 15 : days <= 30 ? 8 : 0;
+};
+
+export const scoreMatch = (line: MatchableLine, open: OpenReceivable): MatchSuggestion | null => {
+  const { receivable, outstanding, customerName } = open;
+  if (line.currency !== receivable.currency || outstanding <= 0 || line.amount > outstanding + 0.005) return null;
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (sameAmount(line.amount, outstanding)) {
+    score += 50;
+    reasons.push('Jumlah sama dengan sisa tagihan');
+  } else {
+    score += 15;
+    reasons.push('Mungkin pembayaran sebagian');
+  }
+
+  const days = dateScore(line.date, receivable.due_date);
+  if (days > 0) {
+    score += days;
+    reasons.push(`Tanggal ${daysApart(line.date, receivable.due_date)} hari dari jatuh tempo`);
+  }
+
+  const words = keywords(line.description);
+  const nameWords = [...keywords(customerName ?? '')];
+  const nameHits = nameWords.filter(word => words.has(word)).length;
+  if (nameHits > 0) {
+    score += Math.round(20 * nameHits / nameWords.length);
+    reasons.push('Nama pelanggan disebut');
+  }
+  if ([...keywords(receivable.description)].some(word => words.has(word))) {
+    score += 10;
+    reasons.push('Kata kunci keterangan cocok');
+  }
+  return { receivableId: receivable.id, score, reasons };
+};
+
+// The best candidates for one line, strongest first.
+export const suggestMatches = (line: MatchableLine, open: OpenReceivable[], limit = MAX_SUGGESTIONS): MatchSuggestion[] =>
+  open
+    .map(candidate => scoreMatch(line, candidate))
+    .filter((match): match is MatchSuggestion => match !== null && match.score >= MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score || a.receivableId.localeCompare(b.receivableId))
+    .slice(0, limit);
+
+// One confident match per line for bulk confirmation, strongest pairs first, without
+// letting several lines together pay more than a receivable's balance.
+export const proposeMatches = (lines: MatchableLine[], open: OpenReceivable[]): Map<string, MatchSuggestion> => {
+  const pairs = lines.flatMap(line => open
+    .map(candidate => ({ line, match: scoreMatch(line, candidate) }))
+    .filter((pair): pair is { line: MatchableLine; match: MatchSuggestion } => !!pair.match && pair.match.score >= CONFIDENT_SCORE));
+  pairs.sort((a, b) => b.match.score - a.match.score || a.line.date.localeCompare(b.line.date) || a.line.id.localeCompare(b.line.id));
+
+  const remaining = new Map(open.map(o => [o.receivable.id, o.outstanding]));
+  const proposed = new Map<string, MatchSuggestion>();
+  pairs.forEach(({ line, match }) => {
+    const balance = remaining.get(match.receivableId) ?? 0;
+    if (proposed.has(line.id) || line.amount > balance + 0.005) return;
+    proposed.set(line.id, match);
+    remaining.set(match.receivableId, balance - line.amount);
+  });
+  return proposed;
+};
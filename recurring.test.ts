@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { occurrenceFor, occurrenceRow, pendingOccurrences, upcomingOccurrences, withOverride } from './recurring';
+import { OccurrenceOverride, RecurringTemplate } from './types';
+
+const template = (fields: Partial<RecurringTemplate> = {}): RecurringTemplate => ({
+  id: 't1', target: 'receivable', customer_id: 'c1', description: 'Sewa', currency: 'IDR', amount: 1000,
+  unit: 'month', interval: 1, start_date: '2025-01-10', end_date: null, max_occurrences: null,
+  due_after_days: 14, overrides: [], generated_through: null,
+  ...fields,
+});
+
+const override = (fields: Partial<OccurrenceOverride>): OccurrenceOverride => ({
+  date: '2025-02-10', skip: false, moved_to: null, amount: null, ...fields,
+});
+
+describe('occurrenceFor', () => {
+  it('applies the override for its scheduled date', () => {
+    const t = template({ overrides: [override({ moved_to: '2025-02-12', amount: 1500 })] });
+    expect(occurrenceFor(t, '2025-02-10')).toMatchObject({ scheduled: '2025-02-10', date: '2025-02-12', amount: 1500, skipped: false, adjusted: true });
+    expect(occurrenceFor(t, '2025-03-10')).toMatchObject({ date: '2025-03-10', amount: 1000, adjusted: false });
+  });
+});
+
+describe('pendingOccurrences', () => {
+  it('returns everything due by today and advances generated_through', () => {
+    const { ready, generatedThrough } = pendingOccurrences(template(), '2025-03-15');
+    expect(ready.map(o => o.date)).toEqual(['2025-01-10', '2025-02-10', '2025-03-10']);
+    expect(generatedThrough).toBe('2025-03-10');
+  });
+
+  it('starts after generated_through', () => {
+    const { ready } = pendingOccurrences(template({ generated_through: '2025-02-10' }), '2025-03-15');
+    expect(ready.map(o => o.date)).toEqual(['2025-03-10']);
+  });
+
+  it('skips skipped occurrences but still moves past them', () => {
+    const t = template({ overrides: [override({ skip: true })] });
+    const { ready, generatedThrough } = pendingOccurrences(t, '2025-02-20');
+    expect(ready.map(o => o.scheduled)).toEqual(['2025-01-10']);
+    expect(generatedThrough).toBe('2025-02-10');
+  });
+
+  it('holds generated_through before an occurrence moved into the future', () => {
+    const t = template({ overrides: [override({ moved_to: '2025-04-01' })] });
+    const { ready, generatedThrough } = pendingOccurrences(t, '2025-03-15');
+    expect(ready.map(o => o.scheduled)).toEqual(['2025-01-10', '2025-03-10']);
+    expect(generatedThrough).toBe('2025-01-10');
+  });
+
+  it('picks up an occurrence moved earlier than its scheduled date', () => {
+    const t = template({ generated_through: '2025-01-10', overrides: [override({ date: '2025-04-10', moved_to: '2025-02-01' })] });
+    expect(pendingOccurrences(t, '2025-02-05').ready.map(o => o.scheduled)).toEqual(['2025-04-10']);
+  });
+});
+
+describe('upcomingOccurrences', () => {
+  it('lists ungenerated occurrences of every template by date', () => {
+    const upcoming = upcomingOccurrences([
+      template({ generated_through: '2025-02-10' }),
+      template({ id: 't2', description: 'Iuran', start_date: '2025-03-01', unit: 'week', interval: 2 }),
+    ], '2025-03-20');
+    expect(upcoming.map(o => [o.template.id, o.date])).toEqual([
+      ['t2', '2025-03-01'], ['t1', '2025-03-10'], ['t2', '2025-03-15'],
+    ]);
+  });
+});
+
+describe('occurrenceRow', () => {
+  it('builds a receivable due a fixed number of days after the occurrence', () => {
+    const row = occurrenceRow(occurrenceFor(template(), '2025-01-10'));
+    expect(row).toMatchObject({
+      description: 'Sewa (10 Januari 2025)', customer_id: 'c1', total_amount: 1000, issue_date: '2025-01-10',
+      due_date: '2025-01-24', recurring_id: 't1', occurrence_date: '2025-01-10',
+    });
+  });
+
+  it('builds a revenue on the adjusted date', () => {
+    const t = template({ target: 'revenue', overrides: [override({ moved_to: '2025-02-11' })] });
+    expect(occurrenceRow(occurrenceFor(t, '2025-02-10'))).toMatchObject({ amount: 1000, date: '2025-02-11', occurrence_date: '2025-02-10' });
+  });
+});
+
+describe('withOverride', () => {
+  it('replaces the override for the same date and drops ones that change nothing', () => {
+    const t = template({ overrides: [override({ amount: 5 }), override({ date: '2025-01-10', skip: true })] });
+    expect(withOverride(t, override({ amount: 7 }))).toEqual([override({ date: '2025-01-10', skip: true }), override({ amount: 7 })]);
+    expect(withOverride(t, override({}))).toEqual([override({ date: '2025-01-10', skip: true })]);
+  });
+});
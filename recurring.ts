@@ -0,0 +1,97 @@
+import { OccurrenceOverride, RecurringTemplate } from './types';
+import { addDays } from './dates';
+import { occurrencesBetween } from './schedule';
+import { formatDate } from './formatters';
+
+// Recurring templates on top of schedule.ts: which occurrences are coming up, which are
+// due to be generated, and the receivable or revenue rows they turn into. Generated rows
+// carry (recurring_id, occurrence_date), which is unique, so two clients generating the
+// same occurrence at once still produce a single row.
+
+// How far ahead the upcoming list looks.
+export const UPCOMING_WINDOW_DAYS = 60;
+
+export interface Occurrence {
+  template: RecurringTemplate;
+  // The date the schedule gives; identifies the occurrence even after it is moved.
+  scheduled: string;
+  // The date the entry is recorded on, after any adjustment.
+  date: string;
+  amount: number;
+  skipped: boolean;
+  adjusted: boolean;
+}
+
+export const occurrenceFor = (template: RecurringTemplate, scheduled: string): Occurrence => {
+  const override = template.overrides.find(o => o.date === scheduled);
+  return {
+    template,
+    scheduled,
+    date: override?.moved_to ?? scheduled,
+    amount: override?.amount ?? template.amount,
+    skipped: !!override?.skip,
+    adjusted: !!override && (override.moved_to !== null || override.amount !== null),
+  };
+};
+
+// The first scheduled date that has not been generated yet.
+const firstPending = (template: RecurringTemplate) =>
+  template.generated_through ? addDays(template.generated_through, 1) : template.start_date;
+
+// Occurrences across all templates that have not been generated yet and are scheduled
+// on or before `to`, by date. Skipped ones are included so they can be restored.
+export const upcomingOccurrences = (templates: RecurringTemplate[], to: string) =>
+  templates
+    .flatMap(template => occurrencesBetween(template, firstPending(template), to).map(({ date }) => occurrenceFor(template, date)))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.template.description.localeCompare(b.template.description, 'id'));
+
+// The occurrences that should exist by `today` but have not been generated yet, and how
+// far `generated_through` can move afterwards: up to the last scheduled date before the
+// first occurrence that is still in the future (one moved later than planned, say).
+export const pendingOccurrences = (template: RecurringTemplate, today: string) => {
+  // An occurrence moved earlier can fall due before its scheduled date.
+  const horizon = template.overrides.reduce((latest, o) => o.date > latest ? o.date : latest, today);
+  const ready: Occurrence[] = [];
+  let generatedThrough = template.generated_through;
+  let blocked = false;
+
+  occurrencesBetween(template, firstPending(template), horizon).forEach(({ date }) => {
+    const occurrence = occurrenceFor(template, date);
+    const done = occurrence.skipped || occurrence.date <= today;
+    if (!occurrence.skipped && occurrence.date <= today) ready.push(occurrence);
+    if (!done) blocked = true;
+    if (done && !blocked) generatedThrough = date;
+  });
+  return { ready, generatedThrough };
+};
+
+// The row to insert for an occurrence, without workspace or user columns.
+export const occurrenceRow = (occurrence: Occurrence) => {
+  const { template } = occurrence;
+  const common = {
+    id: crypto.randomUUID(),
+    description: `${template.description} (${formatDate(occurrence.scheduled)})`,
+    currency: template.currency,
+    deleted_at: null,
+    recurring_id: template.id,
+    occurrence_date: occurrence.scheduled,
+  };
+  return template.target === 'receivable'
+    ? {
+        ...common,
+        customer_id: template.customer_id,
+        total_amount: occurrence.amount,
+        paid_amount: 0,
+        issue_date: occurrence.date,
+        due_date: addDays(occurrence.date, template.due_after_days),
+      }
+    : { ...common, amount: occurrence.amount, date: occurrence.date, receivable_id: null, payment_id: null };
+};
+
+// The template's overrides with the one for `override.date` replaced. An override that
+// changes nothing is dropped.
+export const withOverride = (template: RecurringTemplate, override: OccurrenceOverride) => {
+  const others = template.overrides.filter(o => o.date !== override.date);
+  const changesSomething = override.skip || override.moved_to !== null || override.amount !== null;
+  return changesSomething ? [...others, override].sort((a, b) => a.date.localeCompare(b.date)) : others;
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REMINDER_RULES, describeRule, evaluateReminders, latestTriggerDate, reminderMessage, reminderTitle, whatsappLink } from './reminders';
+import { createBalanceOf } from './lateFees';
+import { Payment, Receivable, ReminderRule } from './types';
+import * as fixtures from './testFixtures';
+
+const receivable = (fields: Partial<Receivable>) =>
+  fixtures.receivable({ total_amount: 1500000, issue_date: '2025-08-01', due_date: '2025-08-17', ...fields });
+
+const payment = (fields: Partial<Payment>) => fixtures.payment({ amount: 500000, paid_at: '2025-08-10', ...fields });
+
+const rule = (id: string, offset_days: number, repeat_every_days: number | null = null): ReminderRule => ({ id, offset_days, repeat_every_days });
+
+describe('latestTriggerDate', () => {
+  it('fires once on its offset from the due date', () => {
+    expect(latestTriggerDate(rule('a', -3), '2025-08-17', '2025-08-13')).toBeNull();
+    expect(latestTriggerDate(rule('a', -3), '2025-08-17', '2025-08-14')).toBe('2025-08-14');
+    expect(latestTriggerDate(rule('a', -3), '2025-08-17', '2025-09-30')).toBe('2025-08-14');
+  });
+
+  it('returns the latest repetition', () => {
+    expect(latestTriggerDate(rule('a', 7, 7), '2025-08-17', '2025-09-06')).toBe('2025-08-31');
+  });
+});
+
+describe('describeRule', () => {
+  it('describes the offset and the repetition', () => {
+    expect(DEFAULT_REMINDER_RULES.map(describeRule)).toEqual([
+      '3 hari sebelum jatuh tempo',
+      'Pada tanggal jatuh tempo',
+      '7 hari setelah jatuh tempo, diulang setiap 7 hari',
+    ]);
+  });
+});
+
+describe('evaluateReminders', () => {
+  const today = '2025-08-27';
+
+  it('returns the most recent occurrence per open receivable, most overdue first', () => {
+    const reminders = evaluateReminders([
+      receivable({ id: 'soon', due_date: '2025-08-29' }),
+      receivable({ id: 'late', due_date: '2025-08-10' }),
+      receivable({ id: 'later', due_date: '2025-09-30' }),
+    ], createBalanceOf([], null), DEFAULT_REMINDER_RULES, today);
+    expect(reminders.map(r => [r.id, r.daysFromDue])).toEqual([
+      ['late:default-overdue:2025-08-24', 17],
+      ['soon:default-before:2025-08-26', -2],
+    ]);
+  });
+
+  it('reports what is still owed and skips settled receivables', () => {
+    const balanceOf = createBalanceOf([
+      payment({ receivable_id: 'part' }),
+      payment({ id: 'p2', receivable_id: 'paid', amount: 1500000 }),
+    ], null);
+    const reminders = evaluateReminders([receivable({ id: 'part' }), receivable({ id: 'paid' })], balanceOf, DEFAULT_REMINDER_RULES, today);
+    expect(reminders.map(r => [r.receivable.id, r.outstanding])).toEqual([['part', 1000000]]);
+  });
+
+  it('counts payments that went to late fees as unpaid principal', () => {
+    const flatFee = { kind: 'flat' as const, rate: 100000, grace_days: 0, cap_percent: null };
+    const balanceOf = createBalanceOf([payment({ amount: 1500000, paid_at: '2025-08-20' })], flatFee);
+    const [reminder] = evaluateReminders([receivable({})], balanceOf, DEFAULT_REMINDER_RULES, today);
+    expect(reminder.outstanding).toBe(100000);
+  });
+});
+
+describe('reminderMessage', () => {
+  it('writes a polite message with the amount and the due date', () => {
+    const [reminder] = evaluateReminders([receivable({})], createBalanceOf([], null), DEFAULT_REMINDER_RULES, '2025-08-17');
+    expect(reminderTitle(reminder)).toBe('Jatuh tempo hari ini');
+    const message = reminderMessage(reminder, { id: 'c1', name: 'PT Maju', phone: null, email: null, address: null, notes: null }, 'Toko Kami');
+    expect(message.split('\n')[0]).toBe('Yth. PT Maju,');
+    expect(message).toContain('"Sewa gudang"');
+    expect(message).toContain('jatuh tempo hari ini');
+    expect(message.endsWith('Toko Kami')).toBe(true);
+  });
+});
+
+describe('whatsappLink', () => {
+  it('turns a local number into the international form', () => {
+    expect(whatsappLink('0812-3456-789', 'Halo')).toBe('https://wa.me/628123456789?text=Halo');
+  });
+});
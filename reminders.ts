@@ -0,0 +1,105 @@
+import { Customer, Receivable, ReminderRule } from './types';
+import { formatCurrency, formatDate } from './formatters';
+import { BalanceOf } from './lateFees';
+import { addDays, daysBetween } from './dates';
+
+// Due-date reminder evaluation. Everything takes "today" as an argument so the result
+// depends only on the data passed in.
+
+export const DEFAULT_REMINDER_RULES: ReminderRule[] = [
+  { id: 'default-before', offset_days: -3, repeat_every_days: null },
+  { id: 'default-due', offset_days: 0, repeat_every_days: null },
+  { id: 'default-overdue', offset_days: 7, repeat_every_days: 7 },
+];
+
+export interface Reminder {
+  // Stable per occurrence, so a dismissed reminder stays dismissed until the next one fires.
+  id: string;
+  receivable: Receivable;
+  rule: ReminderRule;
+  triggerDate: string;
+  daysFromDue: number;
+  // Principal and late fees owed today.
+  outstanding: number;
+}
+
+export const describeRule = (rule: ReminderRule) => {
+  const base = rule.offset_days < 0
+    ? `${-rule.offset_days} hari sebelum jatuh tempo`
+    : rule.offset_days === 0
+      ? 'Pada tanggal jatuh tempo'
+      : `${rule.offset_days} hari setelah jatuh tempo`;
+  return rule.repeat_every_days ? `${base}, diulang setiap ${rule.repeat_every_days} hari` : base;
+};
+
+// The most recent date on or before `today` at which the rule fired for this due date,
+// or null if it has not fired yet.
+export const latestTriggerDate = (rule: ReminderRule, dueDate: string, today: string): string | null => {
+  const first = addDays(dueDate, rule.offset_days);
+  const elapsed = daysBetween(first, today);
+  if (elapsed < 0) return null;
+  if (!rule.repeat_every_days || rule.repeat_every_days <= 0) return first;
+  return addDays(first, elapsed - (elapsed % rule.repeat_every_days));
+};
+
+// For every unpaid receivable, returns at most one reminder: the rule occurrence that
+// fired most recently.
+export const evaluateReminders = (receivables: Receivable[], balanceOf: BalanceOf, rules: ReminderRule[], today: string): Reminder[] => {
+  const reminders: Reminder[] = [];
+  receivables.forEach(receivable => {
+    const { outstanding } = balanceOf(receivable, today);
+    if (outstanding <= 0 || !receivable.due_date) return;
+
+    let latest: { rule: ReminderRule; triggerDate: string } | null = null;
+    for (const rule of rules) {
+      const triggerDate = latestTriggerDate(rule, receivable.due_date, today);
+      if (triggerDate && (!latest || triggerDate > latest.triggerDate)) latest = { rule, triggerDate };
+    }
+    if (!latest) return;
+
+    const { rule, triggerDate } = latest;
+    reminders.push({
+      id: `${receivable.id}:${rule.id}:${triggerDate}`,
+      receivable,
+      rule,
+      triggerDate,
+      daysFromDue: daysBetween(receivable.due_date, today),
+      outstanding,
+    });
+  });
+  return reminders.sort((a, b) => b.daysFromDue - a.daysFromDue);
+};
+
+export const reminderTitle = (reminder: Reminder) => {
+  if (reminder.daysFromDue < 0) return `Jatuh tempo dalam ${-reminder.daysFromDue} hari`;
+  if (reminder.daysFromDue === 0) return 'Jatuh tempo hari ini';
+  return `Terlambat ${reminder.daysFromDue} hari`;
+};
+
+export const reminderMessage = (reminder: Reminder, customer: Customer | null, businessName: string) => {
+  const greeting = customer ? `Yth. ${customer.name},` : 'Yth. Bapak/Ibu,';
+  const { receivable, outstanding, daysFromDue } = reminder;
+  const status = daysFromDue < 0
+    ? `akan jatuh tempo pada ${formatDate(receivable.due_date)}`
+    : daysFromDue === 0
+      ? `jatuh tempo hari ini, ${formatDate(receivable.due_date)}`
+      : `telah melewati jatuh tempo ${daysFromDue} hari (jatuh tempo ${formatDate(receivable.due_date)})`;
+  return [
+    greeting,
+    '',
+    `Kami ingin mengingatkan bahwa tagihan "${receivable.description}" sebesar ${formatCurrency(outstanding, receivable.currency)} ${status}.`,
+    'Mohon dapat segera melakukan pembayaran. Abaikan pesan ini apabila pembayaran sudah dilakukan.',
+    '',
+    'Terima kasih,',
+    businessName || 'Kami',
+  ].join('\n');
+};
+
+// wa.me expects the international number without '+' or leading zero: 0812... -> 62812...
+export const whatsappLink = (phone: string, text: string) => {
+  const digits = phone.replace(/\D/g, '').replace(/^0/, '62');
+  return `https://wa.me/${digits}?text=${encodeURIComponent(text)}`;
+};
+
+export const mailtoLink = (email: string, subject: string, body: string) =>
+  `mailto:${encodeURIComponent(email)}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
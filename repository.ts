@@ -0,0 +1,235 @@
+import { BusinessProfile, DocumentType, IssuedDocument, LateFeeRule, Payment, Receivable, Revenue, ShareLink } from './types';
+import { ReceivableFilters, RevenueFilters } from './filters';
+
+// The data-access layer. Components read and write through these interfaces only; which
+// backend sits behind them (Supabase, or the browser's own storage for demos and tests)
+// is chosen once from the environment, see backend.ts.
+
+export type TableName =
+  | 'receivables' | 'revenues' | 'payments' | 'customers' | 'payables' | 'payable_payments' | 'expenses'
+  | 'business_profiles' | 'documents' | 'reminder_rules'
+  | 'workspaces' | 'workspace_members' | 'workspace_invitations' | 'exchange_rates' | 'recurring_templates' | 'categories' | 'bank_lines'
+  | 'share_links' | 'share_link_access' | 'period_closes' | 'audit_log' | 'deleted_rows';
+
+export type BackendKind = 'supabase' | 'local' | 'memory';
+
+export interface DataError {
+  message: string;
+}
+
+export type DataResult<T> = { data: T; error: null } | { data: null; error: DataError };
+
+export type ColumnValue = string | number | boolean | null;
+
+// Every condition has to hold. Bounds compare as text, which orders ISO dates and
+// timestamps correctly.
+export interface Query {
+  // A null value matches a missing value (IS NULL); an array matches any of its values.
+  where?: Record<string, ColumnValue | ColumnValue[]>;
+  // At least one of these columns has to equal its value.
+  either?: Record<string, ColumnValue>;
+  atLeast?: Record<string, string>;
+  before?: Record<string, string>;
+  startsWith?: Record<string, string>;
+  order?: [column: string, direction: 'asc' | 'desc'][];
+  // Inclusive row offsets, like Array.prototype.slice(from, to + 1).
+  range?: [from: number, to: number];
+}
+
+// Like Supabase, writes only send rows back when asked to: the policies that allow a
+// write do not always allow reading the row afterwards.
+export interface WriteOptions {
+  returning?: boolean;
+}
+
+export interface UpsertOptions extends WriteOptions {
+  // Comma-separated columns that identify an existing row.
+  onConflict: string;
+  // Keep the existing row instead of overwriting it.
+  ignoreDuplicates?: boolean;
+}
+
+export type RowChange<T> = { type: 'upsert'; row: T } | { type: 'delete'; id: string };
+
+// The database stamps updated_at on every write to the synced tables and leaves one of
+// these behind for every row deleted from them, so a client holding an older copy can
+// catch up on what changed instead of loading the whole table again.
+export interface DeletedRow {
+  table_name: TableName;
+  row_id: string;
+  deleted_at: string;
+}
+
+export interface TableRepository<T> {
+  list(query?: Query): Promise<DataResult<T[]>>;
+  // The first row matching the query, or null when there is none.
+  find(query: Query): Promise<DataResult<T | null>>;
+  insert(rows: object | object[], options?: WriteOptions): Promise<DataResult<T[]>>;
+  upsert(rows: object | object[], options: UpsertOptions): Promise<DataResult<T[]>>;
+  update(where: NonNullable<Query['where']>, values: object, options?: WriteOptions): Promise<DataResult<T[]>>;
+  remove(where: NonNullable<Query['where']>): Promise<{ error: DataError | null }>;
+  // Changes other clients make to the workspace's rows. Returns the unsubscribe function.
+  subscribe(workspaceId: string, onChange: (change: RowChange<T>) => void, onError?: (error: unknown) => void): () => void;
+}
+
+export interface ReceivableSummary {
+  total: number;
+  remaining: number;
+}
+
+export interface RevenueSummary {
+  total: number;
+}
+
+// One page of a filtered table and the number of rows on all pages together.
+export interface Page<T> {
+  rows: T[];
+  total: number;
+}
+
+// Both summaries cover the filtered rows of one workspace, leaving out the trash, in
+// the base currency: each row is converted as currency.ts does, at its own date's rate
+// (a receivable's booking date), and rows without a rate are left out. Pages cover the
+// same rows in the order filters.ts sorts them; `range` is inclusive, as in Query.
+export interface ReceivableRepository extends TableRepository<Receivable> {
+  summarize(workspaceId: string, filters: ReceivableFilters, today: string, baseCurrency: string): Promise<DataResult<ReceivableSummary>>;
+  page(workspaceId: string, filters: ReceivableFilters, today: string, range: [from: number, to: number]): Promise<DataResult<Page<Receivable>>>;
+}
+
+export interface RevenueRepository extends TableRepository<Revenue> {
+  summarize(workspaceId: string, filters: RevenueFilters, baseCurrency: string): Promise<DataResult<RevenueSummary>>;
+  page(workspaceId: string, filters: RevenueFilters, range: [from: number, to: number]): Promise<DataResult<Page<Revenue>>>;
+}
+
+export interface AuthUser {
+  id: string;
+  email?: string;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+}
+
+// Why the session changed. 'passwordRecovery' means the user arrived through a reset
+// link and should choose a new password before anything else.
+export type AuthEvent = 'signedIn' | 'signedOut' | 'passwordRecovery' | 'userUpdated' | 'mfaVerified' | 'other';
+
+// 'aal1' is a sign in with a password or an emailed link; 'aal2' adds a second factor.
+export type AssuranceLevel = 'aal1' | 'aal2';
+
+export interface MfaFactor {
+  id: string;
+  friendlyName: string | null;
+  // Unverified factors are enrollments that were started but never confirmed with a code.
+  verified: boolean;
+  createdAt: string;
+}
+
+export interface TotpEnrollment {
+  factorId: string;
+  // The otpauth:// URI authenticator apps read, and the secret inside it for typing in.
+  uri: string;
+  secret: string;
+  // An image source with the URI as a QR code, where the backend renders one.
+  qrCode: string | null;
+}
+
+export interface MfaRepository {
+  listFactors(): Promise<DataResult<MfaFactor[]>>;
+  enrollTotp(friendlyName: string): Promise<DataResult<TotpEnrollment>>;
+  // Checks a code from the authenticator app. The first success confirms the enrollment;
+  // every success raises the session to 'aal2'.
+  verify(factorId: string, code: string): Promise<{ error: DataError | null }>;
+  unenroll(factorId: string): Promise<{ error: DataError | null }>;
+  // The session still owes a second factor while `current` is below `next`.
+  assuranceLevel(): Promise<DataResult<{ current: AssuranceLevel; next: AssuranceLevel }>>;
+}
+
+export interface AuthRepository {
+  getSession(): Promise<AuthSession | null>;
+  // Called on every sign in, sign out and change to the user. Returns the unsubscribe function.
+  onSessionChange(listener: (session: AuthSession | null, event: AuthEvent) => void): () => void;
+  signIn(email: string, password: string): Promise<{ error: DataError | null }>;
+  // `needsConfirmation` is set when the account only works after the emailed link is followed.
+  signUp(email: string, password: string): Promise<{ error: DataError | null; needsConfirmation: boolean }>;
+  signOut(): Promise<void>;
+  // Emails a link to an existing account that signs in without a password. Both links
+  // lead back to `redirectTo`.
+  sendMagicLink(email: string, redirectTo: string): Promise<{ error: DataError | null }>;
+  requestPasswordReset(email: string, redirectTo: string): Promise<{ error: DataError | null }>;
+  // For the signed-in user, including one who arrived through a reset link.
+  updatePassword(password: string): Promise<{ error: DataError | null }>;
+  // `needsConfirmation` is set when the new address only applies after the emailed link is followed.
+  updateEmail(email: string, redirectTo: string): Promise<{ error: DataError | null; needsConfirmation: boolean }>;
+  mfa: MfaRepository;
+}
+
+// What a share link shows, down to the columns a debtor may see: no notes, tags or
+// categories, and nothing of any other debtor.
+export type PortalReceivable = Pick<Receivable, 'id' | 'description' | 'currency' | 'total_amount' | 'issue_date' | 'due_date' | 'late_fee_rule'>;
+export type PortalPayment = Pick<Payment, 'id' | 'receivable_id' | 'amount' | 'paid_at' | 'method'>;
+
+export interface PortalData {
+  link: Pick<ShareLink, 'scope' | 'expires_at'>;
+  business: BusinessProfile | null;
+  customerName: string | null;
+  // Without the trash.
+  receivables: PortalReceivable[];
+  // Without voided payments.
+  payments: PortalPayment[];
+  defaultLateFeeRule: LateFeeRule | null;
+}
+
+// Read without signing in. Opening a link that is valid records the access; the same
+// error covers links that never existed, expired or were revoked, so none can be told apart.
+export interface PortalRepository {
+  open(token: string, userAgent: string | null): Promise<DataResult<PortalData>>;
+}
+
+export const PORTAL_LINK_INVALID = 'Tautan ini tidak berlaku lagi. Silakan minta tautan baru kepada kami.';
+
+// Members are never written directly: the member row and its role come from the server,
+// taking the user from the session and the role from the invitation.
+export interface WorkspaceRepository {
+  // Makes the signed-in user the owner of a new workspace. With `adoptLegacyRows`, the
+  // user's first workspace takes over the rows they wrote before workspaces existed.
+  // Returns the workspace id.
+  create(name: string, adoptLegacyRows: boolean): Promise<DataResult<string>>;
+  // Joins the workspace of an open invitation addressed to the signed-in user's email,
+  // in the role it names. Returns the workspace id.
+  acceptInvitation(invitationId: string): Promise<DataResult<string>>;
+}
+
+// Numbers are handed out by the backend, one at a time, so members printing at the same
+// moment never share one (issue_document in supabase/migrations/0005_document_numbers.sql).
+export interface DocumentRepository {
+  // Returns the document already issued for the receivable (an invoice) or the payment
+  // (a receipt), so reprints keep their number, or issues the next number of the year
+  // of `issuedAt`.
+  issue(workspaceId: string, type: DocumentType, receivableId: string, paymentId: string | null, issuedAt: string): Promise<DataResult<IssuedDocument>>;
+}
+
+export const ACCESS_DENIED = 'Anda tidak memiliki akses untuk perubahan ini.';
+
+export interface Backend {
+  kind: BackendKind;
+  auth: AuthRepository;
+  portal: PortalRepository;
+  workspaces: WorkspaceRepository;
+  documents: DocumentRepository;
+  receivables: ReceivableRepository;
+  revenues: RevenueRepository;
+  // Any table by name; 'receivables' and 'revenues' return the repositories above. Rows of
+  // the ledger tables are checked on the way out (validatedTable in validation.ts).
+  table<T = Record<string, unknown>>(name: TableName): TableRepository<T>;
+}
+
+// Errors arrive as Error instances, as PostgREST and auth error objects, or as plain
+// messages; anything carrying a text message counts as a DataError.
+export const isDataError = (error: unknown): error is DataError =>
+  typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string';
+
+export const failed = (error: unknown): { data: null; error: DataError } => ({
+  data: null,
+  error: { message: isDataError(error) ? error.message : String(error) },
+});
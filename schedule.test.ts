@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Recurrence, describeRecurrence, nextOccurrenceAfter, nthOccurrence, occurrencesBetween } from './schedule';
+
+const monthly = (fields: Partial<Recurrence> = {}): Recurrence => ({
+  unit: 'month', interval: 1, start_date: '2024-01-31', end_date: null, max_occurrences: null, ...fields,
+});
+
+describe('nthOccurrence', () => {
+  it('counts from the start date so month-end schedules do not drift', () => {
+    expect([0, 1, 2, 3].map(n => nthOccurrence(monthly(), n))).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+  });
+
+  it('handles every unit and interval', () => {
+    expect(nthOccurrence({ unit: 'day', interval: 10, start_date: '2024-01-01' }, 2)).toBe('2024-01-21');
+    expect(nthOccurrence({ unit: 'week', interval: 2, start_date: '2024-01-01' }, 1)).toBe('2024-01-15');
+    expect(nthOccurrence({ unit: 'month', interval: 3, start_date: '2024-01-15' }, 2)).toBe('2024-07-15');
+    expect(nthOccurrence({ unit: 'year', interval: 1, start_date: '2024-02-29' }, 1)).toBe('2025-02-28');
+  });
+});
+
+describe('occurrencesBetween', () => {
+  it('returns the occurrences inside the range with their index', () => {
+    expect(occurrencesBetween(monthly(), '2024-03-01', '2024-05-31')).toEqual([
+      { index: 2, date: '2024-03-31' }, { index: 3, date: '2024-04-30' }, { index: 4, date: '2024-05-31' },
+    ]);
+  });
+
+  it('stops at the end date and the occurrence count', () => {
+    expect(occurrencesBetween(monthly({ end_date: '2024-03-30' }), '2024-01-01', '2024-12-31').map(o => o.date))
+      .toEqual(['2024-01-31', '2024-02-29']);
+    expect(occurrencesBetween(monthly({ max_occurrences: 1 }), '2024-01-01', '2024-12-31')).toHaveLength(1);
+  });
+
+  it('caps open-ended schedules', () => {
+    expect(occurrencesBetween({ ...monthly(), unit: 'day' }, '2024-01-01', '2030-01-01', 5)).toHaveLength(5);
+  });
+});
+
+describe('nextOccurrenceAfter', () => {
+  it('finds the next date strictly after the given one', () => {
+    expect(nextOccurrenceAfter(monthly(), '2024-02-29')).toBe('2024-03-31');
+    expect(nextOccurrenceAfter(monthly(), '2024-01-01')).toBe('2024-01-31');
+  });
+
+  it('returns null once the schedule has ended', () => {
+    expect(nextOccurrenceAfter(monthly({ max_occurrences: 2 }), '2024-02-29')).toBeNull();
+    expect(nextOccurrenceAfter(monthly({ end_date: '2024-03-01' }), '2024-02-29')).toBeNull();
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('names the interval and the end', () => {
+    expect(describeRecurrence(monthly())).toBe('Setiap bulan');
+    expect(describeRecurrence(monthly({ interval: 3, max_occurrences: 4 }))).toBe('Setiap 3 bulan, 4 kali');
+  });
+});
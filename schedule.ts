@@ -0,0 +1,73 @@
+import { RecurrenceUnit } from './types';
+import { formatDate } from './formatters';
+import { addDays, addMonths } from './dates';
+
+// Schedules for recurring entries. Every date is a 'YYYY-MM-DD' string handled in UTC
+// (dates.ts), so no timezone or daylight-saving shift can move an occurrence to another day.
+//
+// The n-th occurrence is always computed from the start date rather than from the
+// previous occurrence. A schedule starting on 31 January therefore runs 31 Jan, 28 Feb
+// (29 in leap years), 31 Mar, 30 Apr, ... instead of drifting to the 28th for good.
+
+export interface Recurrence {
+  unit: RecurrenceUnit;
+  // Every `interval` units, e.g. 3 months for a quarterly fee.
+  interval: number;
+  // The first occurrence.
+  start_date: string;
+  // Inclusive; null runs without an end date.
+  end_date: string | null;
+  // Total number of occurrences; null runs without a limit.
+  max_occurrences: number | null;
+}
+
+export const RECURRENCE_UNIT_LABELS: Record<RecurrenceUnit, string> = {
+  day: 'hari',
+  week: 'minggu',
+  month: 'bulan',
+  year: 'tahun',
+};
+
+// The occurrence with the given zero-based index, ignoring the end date and count.
+export const nthOccurrence = (recurrence: Pick<Recurrence, 'unit' | 'interval' | 'start_date'>, n: number) => {
+  const steps = n * Math.max(1, Math.floor(recurrence.interval));
+  switch (recurrence.unit) {
+    case 'day': return addDays(recurrence.start_date, steps);
+    case 'week': return addDays(recurrence.start_date, steps * 7);
+    case 'month': return addMonths(recurrence.start_date, steps);
+    case 'year': return addMonths(recurrence.start_date, steps * 12);
+  }
+};
+
+// Occurrences within [from, to] (inclusive), in order, as { index, date }. At most
+// `limit` are returned so an open-ended daily schedule cannot run away.
+export const occurrencesBetween = (recurrence: Recurrence, from: string, to: string, limit = 500) => {
+  const occurrences: { index: number; date: string }[] = [];
+  for (let index = 0; occurrences.length < limit; index++) {
+    if (recurrence.max_occurrences !== null && index >= recurrence.max_occurrences) break;
+    const date = nthOccurrence(recurrence, index);
+    if (date > to || (recurrence.end_date && date > recurrence.end_date)) break;
+    if (date >= from) occurrences.push({ index, date });
+  }
+  return occurrences;
+};
+
+// The first occurrence strictly after `date`, or null when the schedule has ended.
+export const nextOccurrenceAfter = (recurrence: Recurrence, date: string) => {
+  for (let index = 0; ; index++) {
+    if (recurrence.max_occurrences !== null && index >= recurrence.max_occurrences) return null;
+    const occurrence = nthOccurrence(recurrence, index);
+    if (recurrence.end_date && occurrence > recurrence.end_date) return null;
+    if (occurrence > date) return occurrence;
+  }
+};
+
+export const describeRecurrence = (recurrence: Recurrence) => {
+  const every = recurrence.interval > 1
+    ? `Setiap ${recurrence.interval} ${RECURRENCE_UNIT_LABELS[recurrence.unit]}`
+    : `Setiap ${RECURRENCE_UNIT_LABELS[recurrence.unit]}`;
+  const end = recurrence.max_occurrences !== null
+    ? `, ${recurrence.max_occurrences} kali`
+    : recurrence.end_date ? `, sampai ${formatDate(recurrence.end_date)}` : '';
+  return `${every}${end}`;
+};
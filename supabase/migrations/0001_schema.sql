@@ -0,0 +1,406 @@
+-- The tables behind supabaseBackend.ts. Column names and types follow types.ts; every
+-- ledger row belongs to a workspace. Rows written before workspaces existed were scoped
+-- by user_id alone and keep a null workspace_id until their owner creates a workspace.
+--
+-- The project predates this file: the first receivables and revenues tables, and the
+-- tables added with each feature since, were created by hand and may lack any column
+-- that came later. So every table is created with its key alone when it is missing, and
+-- every column, constraint and index is added only when it is not there yet; functions
+-- and triggers are replaced. Columns that already exist are left as they are. Running
+-- this file twice changes nothing.
+--
+-- Row level security is switched on for every table at the end with no policies yet, so
+-- nothing is reachable through the API until the access migration adds them.
+
+create extension if not exists pgcrypto;
+
+-- Stamps updated_at on every write, which is what incremental loading reads from.
+create or replace function public.touch_updated_at() returns trigger
+language plpgsql as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+-- Workspaces and their members ---------------------------------------------------------
+
+create table if not exists public.workspaces (id uuid primary key default gen_random_uuid());
+alter table public.workspaces
+  add column if not exists name text not null check (length(trim(name)) > 0),
+  add column if not exists created_by uuid not null references auth.users (id),
+  add column if not exists trash_retention_days integer check (trash_retention_days > 0),
+  add column if not exists base_currency text check (base_currency ~ '^[A-Z]{3}$'),
+  add column if not exists late_fee_rule jsonb,
+  add column if not exists created_at timestamptz not null default now();
+
+create table if not exists public.workspace_members (id uuid primary key default gen_random_uuid());
+alter table public.workspace_members
+  add column if not exists workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid not null references auth.users (id) on delete cascade,
+  add column if not exists email text not null,
+  add column if not exists role text not null check (role in ('owner', 'admin', 'collector', 'viewer')),
+  add column if not exists created_at timestamptz not null default now();
+create index if not exists workspace_members_user_id_idx on public.workspace_members (user_id);
+
+create table if not exists public.workspace_invitations (id uuid primary key default gen_random_uuid());
+alter table public.workspace_invitations
+  add column if not exists workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  add column if not exists email text not null check (email = lower(trim(email))),
+  add column if not exists role text not null check (role in ('owner', 'admin', 'collector', 'viewer')),
+  add column if not exists invited_by uuid not null references auth.users (id),
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists accepted_at timestamptz;
+create index if not exists workspace_invitations_email_idx on public.workspace_invitations (email) where accepted_at is null;
+
+-- Settings ---------------------------------------------------------------------------
+
+create table if not exists public.business_profiles (id uuid primary key default gen_random_uuid());
+alter table public.business_profiles
+  add column if not exists workspace_id uuid references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists business_name text not null default '',
+  add column if not exists address text,
+  add column if not exists city text,
+  add column if not exists phone text,
+  add column if not exists email text,
+  add column if not exists payment_instructions text,
+  add column if not exists signatory text,
+  add column if not exists created_at timestamptz not null default now();
+
+create table if not exists public.reminder_rules (id uuid primary key default gen_random_uuid());
+alter table public.reminder_rules
+  add column if not exists workspace_id uuid references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists offset_days integer not null,
+  add column if not exists repeat_every_days integer check (repeat_every_days > 0),
+  add column if not exists created_at timestamptz not null default now();
+
+create table if not exists public.exchange_rates (id uuid primary key default gen_random_uuid());
+alter table public.exchange_rates
+  add column if not exists workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists currency text not null check (currency ~ '^[A-Z]{3}$'),
+  add column if not exists base_currency text not null check (base_currency ~ '^[A-Z]{3}$'),
+  add column if not exists rate_date date not null,
+  add column if not exists rate numeric not null check (rate > 0),
+  add column if not exists created_at timestamptz not null default now();
+
+create table if not exists public.categories (id uuid primary key default gen_random_uuid());
+alter table public.categories
+  add column if not exists workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists name text not null,
+  add column if not exists account_code text,
+  add column if not exists created_at timestamptz not null default now();
+
+-- The ledger -------------------------------------------------------------------------
+
+create table if not exists public.customers (id uuid primary key default gen_random_uuid());
+alter table public.customers
+  add column if not exists workspace_id uuid references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists name text not null,
+  add column if not exists phone text,
+  add column if not exists email text,
+  add column if not exists address text,
+  add column if not exists notes text,
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists updated_at timestamptz not null default now();
+
+create table if not exists public.recurring_templates (id uuid primary key default gen_random_uuid());
+alter table public.recurring_templates
+  add column if not exists workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists target text not null check (target in ('receivable', 'revenue')),
+  add column if not exists customer_id uuid references public.customers (id) on delete set null,
+  add column if not exists description text not null,
+  add column if not exists currency text not null check (currency ~ '^[A-Z]{3}$'),
+  add column if not exists amount numeric not null check (amount > 0),
+  add column if not exists unit text not null check (unit in ('day', 'week', 'month', 'year')),
+  add column if not exists interval integer not null check (interval > 0),
+  add column if not exists start_date date not null,
+  add column if not exists end_date date,
+  add column if not exists max_occurrences integer check (max_occurrences > 0),
+  add column if not exists due_after_days integer not null default 0,
+  add column if not exists overrides jsonb not null default '[]',
+  add column if not exists generated_through date,
+  add column if not exists created_at timestamptz not null default now();
+
+-- paid_amount predates the payments table and is no longer read; see 0008.
+create table if not exists public.receivables (id uuid primary key default gen_random_uuid());
+alter table public.receivables
+  add column if not exists workspace_id uuid references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists customer_id uuid references public.customers (id) on delete set null,
+  add column if not exists description text not null,
+  add column if not exists currency text not null default 'IDR' check (currency ~ '^[A-Z]{3}$'),
+  add column if not exists total_amount numeric not null check (total_amount >= 0),
+  add column if not exists paid_amount numeric not null default 0,
+  add column if not exists issue_date date,
+  add column if not exists due_date date not null,
+  add column if not exists deleted_at timestamptz,
+  add column if not exists recurring_id uuid references public.recurring_templates (id) on delete set null,
+  add column if not exists occurrence_date date,
+  add column if not exists category_id uuid references public.categories (id) on delete set null,
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists late_fee_rule jsonb,
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists updated_at timestamptz not null default now();
+create index if not exists receivables_workspace_due_idx on public.receivables (workspace_id, due_date, id);
+create index if not exists receivables_workspace_updated_idx on public.receivables (workspace_id, updated_at);
+
+create table if not exists public.payments (id uuid primary key default gen_random_uuid());
+alter table public.payments
+  add column if not exists workspace_id uuid references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists receivable_id uuid not null references public.receivables (id) on delete cascade,
+  add column if not exists currency text not null default 'IDR' check (currency ~ '^[A-Z]{3}$'),
+  add column if not exists amount numeric not null check (amount > 0),
+  add column if not exists paid_at date not null,
+  add column if not exists method text not null default 'other' check (method in ('cash', 'transfer', 'qris', 'other')),
+  add column if not exists note text,
+  add column if not exists voided_at timestamptz,
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists updated_at timestamptz not null default now();
+create index if not exists payments_receivable_idx on public.payments (receivable_id) where voided_at is null;
+create index if not exists payments_workspace_updated_idx on public.payments (workspace_id, updated_at);
+
+-- Adjusting entries may be negative, so revenue and expense amounts are not checked.
+create table if not exists public.revenues (id uuid primary key default gen_random_uuid());
+alter table public.revenues
+  add column if not exists workspace_id uuid references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists description text not null,
+  add column if not exists currency text not null default 'IDR' check (currency ~ '^[A-Z]{3}$'),
+  add column if not exists amount numeric not null,
+  add column if not exists date date not null,
+  add column if not exists receivable_id uuid references public.receivables (id) on delete set null,
+  add column if not exists payment_id uuid references public.payments (id) on delete set null,
+  add column if not exists deleted_at timestamptz,
+  add column if not exists recurring_id uuid references public.recurring_templates (id) on delete set null,
+  add column if not exists occurrence_date date,
+  add column if not exists category_id uuid references public.categories (id) on delete set null,
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists adjustment_reason text,
+  add column if not exists adjusts_id uuid references public.revenues (id) on delete set null,
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists updated_at timestamptz not null default now();
+create index if not exists revenues_workspace_date_idx on public.revenues (workspace_id, date desc, id);
+create index if not exists revenues_workspace_updated_idx on public.revenues (workspace_id, updated_at);
+
+create table if not exists public.payables (id uuid primary key default gen_random_uuid());
+alter table public.payables
+  add column if not exists workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists supplier text,
+  add column if not exists description text not null,
+  add column if not exists currency text not null check (currency ~ '^[A-Z]{3}$'),
+  add column if not exists total_amount numeric not null check (total_amount >= 0),
+  add column if not exists issue_date date not null,
+  add column if not exists due_date date not null,
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists updated_at timestamptz not null default now();
+
+create table if not exists public.payable_payments (id uuid primary key default gen_random_uuid());
+alter table public.payable_payments
+  add column if not exists workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists payable_id uuid not null references public.payables (id) on delete cascade,
+  add column if not exists currency text not null check (currency ~ '^[A-Z]{3}$'),
+  add column if not exists amount numeric not null check (amount > 0),
+  add column if not exists paid_at date not null,
+  add column if not exists method text not null default 'other' check (method in ('cash', 'transfer', 'qris', 'other')),
+  add column if not exists note text,
+  add column if not exists voided_at timestamptz,
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists updated_at timestamptz not null default now();
+
+create table if not exists public.expenses (id uuid primary key default gen_random_uuid());
+alter table public.expenses
+  add column if not exists workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists description text not null,
+  add column if not exists currency text not null check (currency ~ '^[A-Z]{3}$'),
+  add column if not exists amount numeric not null,
+  add column if not exists date date not null,
+  add column if not exists payable_id uuid references public.payables (id) on delete set null,
+  add column if not exists payable_payment_id uuid references public.payable_payments (id) on delete set null,
+  add column if not exists adjustment_reason text,
+  add column if not exists adjusts_id uuid references public.expenses (id) on delete set null,
+  add column if not exists created_at timestamptz not null default now(),
+  add column if not exists updated_at timestamptz not null default now();
+
+-- Documents, bank statements, sharing and closing --------------------------------------
+
+create table if not exists public.documents (id uuid primary key default gen_random_uuid());
+alter table public.documents
+  add column if not exists workspace_id uuid references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists type text not null check (type in ('invoice', 'receipt')),
+  add column if not exists number text not null,
+  add column if not exists receivable_id uuid not null references public.receivables (id) on delete cascade,
+  add column if not exists payment_id uuid references public.payments (id) on delete cascade,
+  add column if not exists issued_at date not null,
+  add column if not exists created_at timestamptz not null default now();
+
+create table if not exists public.bank_lines (id uuid primary key default gen_random_uuid());
+alter table public.bank_lines
+  add column if not exists workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists date date not null,
+  add column if not exists description text not null,
+  add column if not exists reference text,
+  add column if not exists currency text not null check (currency ~ '^[A-Z]{3}$'),
+  add column if not exists amount numeric not null,
+  add column if not exists fingerprint text not null,
+  add column if not exists status text not null default 'unmatched' check (status in ('unmatched', 'matched', 'ignored')),
+  add column if not exists receivable_id uuid references public.receivables (id) on delete set null,
+  add column if not exists payment_id uuid references public.payments (id) on delete set null,
+  add column if not exists created_at timestamptz not null default now();
+
+create table if not exists public.share_links (id uuid primary key default gen_random_uuid());
+alter table public.share_links
+  add column if not exists workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists token text not null,
+  add column if not exists scope text not null check (scope in ('receivable', 'customer')),
+  add column if not exists receivable_id uuid references public.receivables (id) on delete cascade,
+  add column if not exists customer_id uuid references public.customers (id) on delete cascade,
+  add column if not exists expires_at timestamptz not null,
+  add column if not exists revoked_at timestamptz,
+  add column if not exists created_at timestamptz not null default now();
+
+create table if not exists public.share_link_access (id uuid primary key default gen_random_uuid());
+alter table public.share_link_access
+  add column if not exists workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  add column if not exists link_id uuid not null references public.share_links (id) on delete cascade,
+  add column if not exists accessed_at timestamptz not null default now(),
+  add column if not exists user_agent text;
+
+create table if not exists public.period_closes (id uuid primary key default gen_random_uuid());
+alter table public.period_closes
+  add column if not exists workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  add column if not exists user_id uuid references auth.users (id),
+  add column if not exists kind text not null check (kind in ('month', 'year')),
+  add column if not exists period_start date not null,
+  add column if not exists period_end date not null,
+  add column if not exists snapshot jsonb not null,
+  add column if not exists closed_at timestamptz not null default now(),
+  add column if not exists closed_by_email text not null,
+  add column if not exists reopened_at timestamptz,
+  add column if not exists reopened_by_email text,
+  add column if not exists reopen_reason text,
+  add column if not exists created_at timestamptz not null default now();
+
+create table if not exists public.audit_log (id uuid primary key default gen_random_uuid());
+alter table public.audit_log
+  add column if not exists workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  add column if not exists actor_id uuid not null references auth.users (id),
+  add column if not exists actor_email text not null,
+  add column if not exists entity text not null,
+  add column if not exists entity_id uuid not null,
+  add column if not exists parent_id uuid,
+  add column if not exists action text not null,
+  add column if not exists summary text not null,
+  add column if not exists before jsonb,
+  add column if not exists after jsonb,
+  add column if not exists occurred_at timestamptz not null,
+  add column if not exists created_at timestamptz not null default now();
+create index if not exists audit_log_workspace_idx on public.audit_log (workspace_id, occurred_at desc);
+create index if not exists audit_log_entity_idx on public.audit_log (entity_id);
+create index if not exists audit_log_parent_idx on public.audit_log (parent_id) where parent_id is not null;
+
+-- Constraints over more than one column. One that is already there under another name
+-- counts when its definition matches.
+do $$
+declare
+  constraint_row record;
+begin
+  for constraint_row in select * from (values
+    ('workspace_members', 'workspace_members_workspace_id_user_id_key', 'unique (workspace_id, user_id)'),
+    ('business_profiles', 'business_profiles_workspace_id_key', 'unique (workspace_id)'),
+    ('exchange_rates', 'exchange_rates_rate_key', 'unique (workspace_id, currency, base_currency, rate_date)'),
+    ('receivables', 'receivables_recurring_id_occurrence_date_key', 'unique (recurring_id, occurrence_date)'),
+    ('revenues', 'revenues_recurring_id_occurrence_date_key', 'unique (recurring_id, occurrence_date)'),
+    ('bank_lines', 'bank_lines_workspace_id_fingerprint_key', 'unique (workspace_id, fingerprint)'),
+    ('share_links', 'share_links_token_key', 'unique (token)'),
+    ('share_links', 'share_links_scope_target_check',
+      'check ((scope = ''receivable'') = (receivable_id is not null) and (scope = ''customer'') = (customer_id is not null))'),
+    ('period_closes', 'period_closes_period_check', 'check (period_end >= period_start)')
+  ) as t (table_name, constraint_name, definition) loop
+    if not exists (
+      select 1 from pg_constraint
+      where conrelid = format('public.%I', constraint_row.table_name)::regclass
+        and (conname = constraint_row.constraint_name or lower(pg_get_constraintdef(oid)) = lower(constraint_row.definition))
+    ) then
+      execute format('alter table public.%I add constraint %I %s',
+        constraint_row.table_name, constraint_row.constraint_name, constraint_row.definition);
+    end if;
+  end loop;
+end;
+$$;
+
+-- Incremental loading ------------------------------------------------------------------
+-- The dashboard keeps the synced tables in IndexedDB and, after the first load, only asks
+-- for rows whose updated_at moved and for the ids deleted since (see liveData.ts).
+
+create table if not exists public.deleted_rows (
+  id bigint generated always as identity primary key,
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  table_name text not null,
+  row_id uuid not null,
+  deleted_at timestamptz not null default now()
+);
+create index if not exists deleted_rows_workspace_idx on public.deleted_rows (workspace_id, table_name, deleted_at);
+
+create or replace function public.record_deleted_row() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if old.workspace_id is not null then
+    insert into public.deleted_rows (workspace_id, table_name, row_id) values (old.workspace_id, tg_table_name, old.id);
+  end if;
+  return old;
+end;
+$$;
+
+do $$
+declare
+  synced text;
+begin
+  foreach synced in array array['receivables', 'revenues', 'payments', 'customers', 'payables', 'payable_payments', 'expenses'] loop
+    execute format('create or replace trigger touch_updated_at before update on public.%I for each row execute function public.touch_updated_at()', synced);
+    execute format('create or replace trigger record_deleted_row after delete on public.%I for each row execute function public.record_deleted_row()', synced);
+    -- Realtime filters deletes by workspace_id, which needs the whole old row.
+    execute format('alter table public.%I replica identity full', synced);
+    if not exists (
+      select 1 from pg_publication_tables where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = synced
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', synced);
+    end if;
+  end loop;
+end;
+$$;
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.workspace_invitations enable row level security;
+alter table public.business_profiles enable row level security;
+alter table public.reminder_rules enable row level security;
+alter table public.exchange_rates enable row level security;
+alter table public.categories enable row level security;
+alter table public.recurring_templates enable row level security;
+alter table public.customers enable row level security;
+alter table public.receivables enable row level security;
+alter table public.payments enable row level security;
+alter table public.revenues enable row level security;
+alter table public.payables enable row level security;
+alter table public.payable_payments enable row level security;
+alter table public.expenses enable row level security;
+alter table public.documents enable row level security;
+alter table public.bank_lines enable row level security;
+alter table public.share_links enable row level security;
+alter table public.share_link_access enable row level security;
+alter table public.period_closes enable row level security;
+alter table public.audit_log enable row level security;
+alter table public.deleted_rows enable row level security;
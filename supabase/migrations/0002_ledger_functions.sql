@@ -0,0 +1,313 @@
+-- The server side of the receivable and revenue tables: balances with late fees,
+-- conversion to the base currency, and the filtered, sorted pages and totals the
+-- dashboard asks for instead of loading every row. Each function mirrors a TypeScript
+-- module, which stays the reference: lateFees.ts, currency.ts and filters.ts.
+--
+-- All of them run as the caller, so row level security decides what they can see.
+
+-- calculateLateFees and receivableBalance in lateFees.ts: fees accrue from the day after
+-- the grace period while principal is outstanding, and every payment settles the fees
+-- accrued up to its own day before the principal. Amounts are rounded to the cent at the
+-- same steps as in TypeScript.
+create or replace function public.receivable_balance(
+  p_receivable_id uuid,
+  p_total numeric,
+  p_due date,
+  p_rule jsonb,
+  p_as_of date
+) returns table (paid numeric, outstanding_principal numeric, outstanding_fees numeric, outstanding numeric)
+language plpgsql stable as $$
+declare
+  v_kind text := coalesce(p_rule->>'kind', 'none');
+  v_rate numeric := coalesce((p_rule->>'rate')::numeric, 0);
+  v_cap numeric := case when p_rule->>'cap_percent' is null then null else p_total * (p_rule->>'cap_percent')::numeric / 100 end;
+  v_first_charge date;
+  v_accrued_through date;
+  v_month_index integer := 0;
+  v_next date;
+  v_fees_accrued numeric := 0;
+  v_fees_paid numeric := 0;
+  v_principal_paid numeric := 0;
+  v_charge numeric;
+  v_to_fees numeric;
+  v_event record;
+begin
+  if p_due is not null and v_kind <> 'none' and v_rate > 0 then
+    v_first_charge := p_due + coalesce((p_rule->>'grace_days')::integer, 0) + 1;
+    v_accrued_through := v_first_charge - 1;
+  end if;
+
+  -- Every live payment up to the as-of date in order, then the as-of date itself.
+  for v_event in
+    select id::text as id, amount, paid_at as day, false as final
+      from public.payments
+     where receivable_id = p_receivable_id and voided_at is null and paid_at <= p_as_of
+    union all
+    select null, 0, p_as_of, true
+    order by final, day, id
+  loop
+    -- Charge what accrued up to and including this day.
+    if v_first_charge is not null then
+      if v_kind = 'daily' then
+        if v_event.day > v_accrued_through then
+          if p_total - v_principal_paid > 0 then
+            v_charge := (p_total - v_principal_paid) * v_rate / 100 * (v_event.day - v_accrued_through);
+            v_fees_accrued := round(least(coalesce(v_cap, v_fees_accrued + v_charge), v_fees_accrued + v_charge), 2);
+          end if;
+          v_accrued_through := v_event.day;
+        end if;
+      elsif v_kind = 'flat' then
+        if v_month_index = 0 and v_first_charge <= v_event.day then
+          v_month_index := 1;
+          if p_total - v_principal_paid > 0 then
+            v_fees_accrued := round(least(coalesce(v_cap, v_fees_accrued + v_rate), v_fees_accrued + v_rate), 2);
+          end if;
+        end if;
+      else
+        -- Adding months clamps to the end of shorter months, like addMonths in schedule.ts.
+        loop
+          v_next := (v_first_charge + make_interval(months => v_month_index))::date;
+          exit when v_next > v_event.day;
+          v_month_index := v_month_index + 1;
+          if p_total - v_principal_paid > 0 then
+            v_charge := (p_total - v_principal_paid) * v_rate / 100;
+            v_fees_accrued := round(least(coalesce(v_cap, v_fees_accrued + v_charge), v_fees_accrued + v_charge), 2);
+          end if;
+        end loop;
+      end if;
+    end if;
+
+    if not v_event.final then
+      v_to_fees := round(least(greatest(0, v_event.amount), v_fees_accrued - v_fees_paid), 2);
+      v_fees_paid := round(v_fees_paid + v_to_fees, 2);
+      v_principal_paid := round(v_principal_paid + round(v_event.amount - v_to_fees, 2), 2);
+    end if;
+  end loop;
+
+  paid := round(v_fees_paid + v_principal_paid, 2);
+  outstanding_principal := round(p_total - v_principal_paid, 2);
+  outstanding_fees := round(v_fees_accrued - v_fees_paid, 2);
+  outstanding := round(greatest(0, outstanding_principal) + outstanding_fees, 2);
+  return next;
+end;
+$$;
+
+-- rateOn and createConverter in currency.ts: the latest rate on or before the date, or
+-- the inverse of the opposite pair. Null when the workspace has no rate for it.
+create or replace function public.convert_amount(
+  p_workspace_id uuid,
+  p_amount numeric,
+  p_currency text,
+  p_base_currency text,
+  p_date date
+) returns numeric
+language sql stable as $$
+  select case when p_currency = p_base_currency then p_amount else p_amount * (
+    select rate from (
+      select rate_date, rate from public.exchange_rates
+       where workspace_id = p_workspace_id and currency = p_currency and base_currency = p_base_currency and rate_date <= p_date
+      union all
+      select rate_date, 1 / rate from public.exchange_rates
+       where workspace_id = p_workspace_id and currency = p_base_currency and base_currency = p_currency and rate_date <= p_date
+    ) rates
+    order by rate_date desc
+    limit 1
+  ) end;
+$$;
+
+-- filterReceivables in filters.ts, without the sorting: the receivables outside the
+-- trash that match the filters, with the balance the status and sorts are based on.
+-- Texts match case-insensitively anywhere in the description or customer name.
+create or replace function public.filtered_receivables(
+  p_workspace_id uuid,
+  p_query text,
+  p_category text,
+  p_tag text,
+  p_status text,
+  p_due_from date,
+  p_due_to date,
+  p_min_amount numeric,
+  p_max_amount numeric,
+  p_today date
+) returns table (receivable public.receivables, customer_name text, outstanding numeric, outstanding_principal numeric, status text)
+language sql stable as $$
+  with balanced as (
+    select r as receivable, coalesce(c.name, '') as customer_name, b.outstanding, b.outstanding_principal,
+           case when b.outstanding <= 0 then 'paid' when r.due_date < p_today then 'overdue' else 'unpaid' end as status
+      from public.receivables r
+      join public.workspaces w on w.id = r.workspace_id
+      left join public.customers c on c.id = r.customer_id
+      cross join lateral public.receivable_balance(r.id, r.total_amount, r.due_date, coalesce(r.late_fee_rule, w.late_fee_rule), p_today) b
+     where r.workspace_id = p_workspace_id
+       and r.deleted_at is null
+       and (p_query is null or strpos(lower(r.description), lower(p_query)) > 0 or strpos(lower(coalesce(c.name, '')), lower(p_query)) > 0)
+       and (p_category is null or (case when p_category = 'none' then r.category_id is null else r.category_id::text = p_category end))
+       and (p_tag is null or exists (select 1 from unnest(r.tags) t where lower(trim(t)) = lower(trim(p_tag))))
+       and (p_due_from is null or r.due_date >= p_due_from)
+       and (p_due_to is null or r.due_date <= p_due_to)
+       and (p_min_amount is null or r.total_amount >= p_min_amount)
+       and (p_max_amount is null or r.total_amount <= p_max_amount)
+  )
+  select * from balanced
+   where p_status = 'all'
+      or (p_status = 'paid' and status = 'paid')
+      or (p_status = 'unpaid' and status <> 'paid')
+      or (p_status = 'overdue' and status = 'overdue');
+$$;
+
+create or replace function public.receivables_summary(
+  p_workspace_id uuid,
+  p_base_currency text,
+  p_query text,
+  p_category text,
+  p_tag text,
+  p_status text,
+  p_due_from date,
+  p_due_to date,
+  p_min_amount numeric,
+  p_max_amount numeric,
+  p_today date
+) returns table (total numeric, remaining numeric)
+language sql stable as $$
+  select
+    coalesce(sum(public.convert_amount(p_workspace_id, (f.receivable).total_amount, (f.receivable).currency, p_base_currency,
+      coalesce((f.receivable).issue_date, (f.receivable).due_date))), 0),
+    coalesce(sum(public.convert_amount(p_workspace_id, f.outstanding, (f.receivable).currency, p_base_currency,
+      coalesce((f.receivable).issue_date, (f.receivable).due_date))), 0)
+  from public.filtered_receivables(p_workspace_id, p_query, p_category, p_tag, p_status, p_due_from, p_due_to,
+    p_min_amount, p_max_amount, p_today) f;
+$$;
+
+-- One page of the receivables table in the order filterReceivables gives, with the
+-- number of matching rows: { "rows": [...], "total": n }.
+create or replace function public.receivables_page(
+  p_workspace_id uuid,
+  p_query text,
+  p_category text,
+  p_tag text,
+  p_status text,
+  p_due_from date,
+  p_due_to date,
+  p_min_amount numeric,
+  p_max_amount numeric,
+  p_today date,
+  p_sort text,
+  p_dir text,
+  p_offset integer,
+  p_limit integer
+) returns jsonb
+language sql stable as $$
+  with matching as (
+    select f.*,
+           case p_sort
+             when 'customer' then f.customer_name
+             when 'description' then (f.receivable).description
+             when 'due_date' then (f.receivable).due_date::text
+             when 'status' then f.status
+           end as text_key,
+           case p_sort
+             when 'total_amount' then (f.receivable).total_amount
+             when 'remaining' then f.outstanding_principal
+           end as number_key
+      from public.filtered_receivables(p_workspace_id, p_query, p_category, p_tag, p_status, p_due_from, p_due_to,
+        p_min_amount, p_max_amount, p_today) f
+  ),
+  page as (
+    select receivable, row_number() over (order by
+             -- The default order: open receivables first, then by due date.
+             case when p_sort = 'default' then outstanding > 0 end desc,
+             case when p_sort = 'default' then (receivable).due_date end,
+             case when p_dir = 'asc' then text_key end,
+             case when p_dir = 'desc' then text_key end desc,
+             case when p_dir = 'asc' then number_key end,
+             case when p_dir = 'desc' then number_key end desc,
+             (receivable).id) as row_order
+      from matching
+     order by row_order
+    offset p_offset limit p_limit
+  )
+  select jsonb_build_object(
+    'rows', coalesce((select jsonb_agg(to_jsonb(receivable) order by row_order) from page), '[]'::jsonb),
+    'total', (select count(*) from matching)
+  );
+$$;
+
+-- filterRevenues in filters.ts.
+create or replace function public.filtered_revenues(
+  p_workspace_id uuid,
+  p_query text,
+  p_category text,
+  p_tag text,
+  p_date_from date,
+  p_date_to date,
+  p_min_amount numeric,
+  p_max_amount numeric
+) returns setof public.revenues
+language sql stable as $$
+  select r.* from public.revenues r
+   where r.workspace_id = p_workspace_id
+     and r.deleted_at is null
+     and (p_query is null or strpos(lower(r.description), lower(p_query)) > 0)
+     and (p_category is null or (case when p_category = 'none' then r.category_id is null else r.category_id::text = p_category end))
+     and (p_tag is null or exists (select 1 from unnest(r.tags) t where lower(trim(t)) = lower(trim(p_tag))))
+     and (p_date_from is null or r.date >= p_date_from)
+     and (p_date_to is null or r.date <= p_date_to)
+     and (p_min_amount is null or r.amount >= p_min_amount)
+     and (p_max_amount is null or r.amount <= p_max_amount);
+$$;
+
+create or replace function public.revenues_summary(
+  p_workspace_id uuid,
+  p_base_currency text,
+  p_query text,
+  p_category text,
+  p_tag text,
+  p_date_from date,
+  p_date_to date,
+  p_min_amount numeric,
+  p_max_amount numeric
+) returns table (total numeric)
+language sql stable as $$
+  select coalesce(sum(public.convert_amount(p_workspace_id, r.amount, r.currency, p_base_currency, r.date)), 0)
+    from public.filtered_revenues(p_workspace_id, p_query, p_category, p_tag, p_date_from, p_date_to, p_min_amount, p_max_amount) r;
+$$;
+
+-- The default order is newest first, whatever the direction says.
+create or replace function public.revenues_page(
+  p_workspace_id uuid,
+  p_query text,
+  p_category text,
+  p_tag text,
+  p_date_from date,
+  p_date_to date,
+  p_min_amount numeric,
+  p_max_amount numeric,
+  p_sort text,
+  p_dir text,
+  p_offset integer,
+  p_limit integer
+) returns jsonb
+language sql stable as $$
+  with matching as (
+    select r as revenue,
+           case when p_sort = 'description' then r.description else r.date::text end as text_key,
+           case when p_sort = 'amount' then r.amount end as number_key,
+           case when p_sort = 'default' then 'desc' else p_dir end as direction
+      from public.filtered_revenues(p_workspace_id, p_query, p_category, p_tag, p_date_from, p_date_to, p_min_amount, p_max_amount) r
+  ),
+  page as (
+    select revenue, row_number() over (order by
+             case when direction = 'asc' then number_key end,
+             case when direction = 'desc' then number_key end desc,
+             case when direction = 'asc' then text_key end,
+             case when direction = 'desc' then text_key end desc,
+             (revenue).id) as row_order
+      from matching
+     order by row_order
+    offset p_offset limit p_limit
+  )
+  select jsonb_build_object(
+    'rows', coalesce((select jsonb_agg(to_jsonb(revenue) order by row_order) from page), '[]'::jsonb),
+    'total', (select count(*) from matching)
+  );
+$$;
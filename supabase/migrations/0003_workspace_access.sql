@@ -0,0 +1,237 @@
+-- Who may read and write what. Every workspace row is visible to the workspace's
+-- members; writes follow the roles in workspaces.ts, which only decides what the
+-- interface offers:
+--
+--   owner      everything, including settings, members and reopening closed periods
+--   admin      entries, imports, payments, documents, share links, closing periods
+--   collector  recording payments (and their revenue), documents, share links
+--   viewer     nothing
+--
+-- Members are never inserted through the API. Creating a workspace and accepting an
+-- invitation go through the functions at the end, which take the user from auth.uid()
+-- and the role from the invitation.
+--
+-- An account with a verified authenticator reaches nothing until the session has given
+-- the second factor (aal2): a restrictive policy on every table and a check in each of
+-- those functions refuse a password-only (aal1) session.
+
+-- Whether the signed-in session is as strong as the account requires.
+create or replace function public.meets_assurance() returns boolean
+language sql stable security definer set search_path = public as $$
+  select coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    or not exists (select 1 from auth.mfa_factors where user_id = auth.uid() and status = 'verified');
+$$;
+
+-- Security definer, so the policies on workspace_members do not call back into themselves.
+create or replace function public.workspace_role(p_workspace_id uuid) returns text
+language sql stable security definer set search_path = public as $$
+  select role from public.workspace_members where workspace_id = p_workspace_id and user_id = auth.uid();
+$$;
+
+create or replace function public.has_workspace_role(p_workspace_id uuid, p_roles text[]) returns boolean
+language sql stable security definer set search_path = public as $$
+  select coalesce(public.workspace_role(p_workspace_id) = any (p_roles), false);
+$$;
+
+create or replace function public.is_workspace_member(p_workspace_id uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select public.workspace_role(p_workspace_id) is not null;
+$$;
+
+-- The roles behind each action in workspaces.ts.
+create or replace function public.can(p_workspace_id uuid, p_action text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select public.has_workspace_role(p_workspace_id, case p_action
+    when 'manageEntries' then array['owner', 'admin']
+    when 'importData' then array['owner', 'admin']
+    when 'recordPayments' then array['owner', 'admin', 'collector']
+    when 'managePayments' then array['owner', 'admin']
+    when 'issueDocuments' then array['owner', 'admin', 'collector']
+    when 'shareStatements' then array['owner', 'admin', 'collector']
+    when 'closePeriods' then array['owner', 'admin']
+    when 'reopenPeriods' then array['owner']
+    when 'manageSettings' then array['owner']
+    when 'manageMembers' then array['owner']
+    else array[]::text[]
+  end);
+$$;
+
+-- Workspaces and members ---------------------------------------------------------------
+
+create policy "members read their workspaces" on public.workspaces for select
+  using (public.is_workspace_member(id));
+create policy "invitees read the workspace they are invited to" on public.workspaces for select
+  using (exists (
+    select 1 from public.workspace_invitations i
+    where i.workspace_id = workspaces.id and i.accepted_at is null and i.email = lower(auth.jwt() ->> 'email')
+  ));
+create policy "owners change settings" on public.workspaces for update
+  using (public.can(id, 'manageSettings')) with check (public.can(id, 'manageSettings'));
+
+create policy "members read the member list" on public.workspace_members for select
+  using (public.is_workspace_member(workspace_id));
+create policy "owners change roles" on public.workspace_members for update
+  using (public.can(workspace_id, 'manageMembers')) with check (public.can(workspace_id, 'manageMembers'));
+create policy "owners remove members" on public.workspace_members for delete
+  using (public.can(workspace_id, 'manageMembers'));
+
+-- The last owner can be neither demoted nor removed, or nobody could manage the workspace.
+-- Deletes cascading from the workspace itself are let through.
+create or replace function public.keep_an_owner() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if old.role = 'owner'
+    and (tg_op = 'DELETE' or new.role <> 'owner')
+    and exists (select 1 from public.workspaces where id = old.workspace_id)
+    and not exists (
+      select 1 from public.workspace_members
+      where workspace_id = old.workspace_id and role = 'owner' and id <> old.id
+    ) then
+    raise exception 'Ruang kerja harus memiliki setidaknya satu pemilik.';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+create trigger keep_an_owner before update or delete on public.workspace_members
+  for each row execute function public.keep_an_owner();
+
+create policy "owners and the invitee read invitations" on public.workspace_invitations for select
+  using (public.can(workspace_id, 'manageMembers') or email = lower(auth.jwt() ->> 'email'));
+create policy "owners invite" on public.workspace_invitations for insert
+  with check (public.can(workspace_id, 'manageMembers') and invited_by = auth.uid() and accepted_at is null);
+create policy "owners revoke and invitees decline" on public.workspace_invitations for delete
+  using (public.can(workspace_id, 'manageMembers') or (email = lower(auth.jwt() ->> 'email') and accepted_at is null));
+
+-- The ledger and settings --------------------------------------------------------------
+
+do $$
+declare
+  access record;
+begin
+  -- table, action for insert, action for update, action for delete
+  for access in select * from (values
+    ('customers', 'manageEntries', 'manageEntries', 'manageEntries'),
+    ('receivables', 'manageEntries', 'manageEntries', 'manageEntries'),
+    ('payables', 'manageEntries', 'manageEntries', 'manageEntries'),
+    ('expenses', 'manageEntries', 'manageEntries', 'manageEntries'),
+    ('recurring_templates', 'manageEntries', 'manageEntries', 'manageEntries'),
+    ('payments', 'recordPayments', 'managePayments', 'managePayments'),
+    ('payable_payments', 'manageEntries', 'managePayments', 'managePayments'),
+    ('documents', 'issueDocuments', 'manageEntries', 'manageEntries'),
+    ('bank_lines', 'importData', 'recordPayments', 'importData'),
+    ('share_links', 'shareStatements', 'shareStatements', 'shareStatements'),
+    ('period_closes', 'closePeriods', 'reopenPeriods', null),
+    ('business_profiles', 'manageSettings', 'manageSettings', 'manageSettings'),
+    ('reminder_rules', 'manageSettings', 'manageSettings', 'manageSettings'),
+    ('exchange_rates', 'manageSettings', 'manageSettings', 'manageSettings'),
+    ('categories', 'manageSettings', 'manageSettings', 'manageSettings')
+  ) as t (table_name, insert_action, update_action, delete_action) loop
+    execute format('create policy "members read" on public.%I for select using (public.is_workspace_member(workspace_id))',
+      access.table_name);
+    execute format('create policy "%s inserts" on public.%I for insert with check (public.can(workspace_id, %L))',
+      access.insert_action, access.table_name, access.insert_action);
+    execute format('create policy "%s updates" on public.%I for update using (public.can(workspace_id, %L)) with check (public.can(workspace_id, %L))',
+      access.update_action, access.table_name, access.update_action, access.update_action);
+    if access.delete_action is not null then
+      execute format('create policy "%s deletes" on public.%I for delete using (public.can(workspace_id, %L))',
+        access.delete_action, access.table_name, access.delete_action);
+    end if;
+  end loop;
+end;
+$$;
+
+-- Revenues are entries, except that recording a payment may post its revenue too.
+create policy "members read" on public.revenues for select
+  using (public.is_workspace_member(workspace_id));
+create policy "manageEntries inserts" on public.revenues for insert
+  with check (public.can(workspace_id, 'manageEntries') or (payment_id is not null and public.can(workspace_id, 'recordPayments')));
+create policy "manageEntries updates" on public.revenues for update
+  using (public.can(workspace_id, 'manageEntries')) with check (public.can(workspace_id, 'manageEntries'));
+create policy "manageEntries deletes" on public.revenues for delete
+  using (public.can(workspace_id, 'manageEntries'));
+
+-- Entries are appended by members in their own name and never changed; there is no
+-- update or delete policy.
+create policy "members read" on public.audit_log for select
+  using (public.is_workspace_member(workspace_id));
+create policy "members append in their own name" on public.audit_log for insert
+  with check (public.is_workspace_member(workspace_id) and actor_id = auth.uid());
+create policy "members read" on public.share_link_access for select
+  using (public.is_workspace_member(workspace_id));
+create policy "members read" on public.deleted_rows for select
+  using (public.is_workspace_member(workspace_id));
+
+-- Restrictive, so it holds on top of whichever policy lets a row through.
+do $$
+declare
+  secured text;
+begin
+  for secured in select tablename from pg_tables where schemaname = 'public' and rowsecurity loop
+    execute format('create policy "second factor given" on public.%I as restrictive for all to authenticated using (public.meets_assurance()) with check (public.meets_assurance())',
+      secured);
+  end loop;
+end;
+$$;
+
+-- Joining and creating workspaces ------------------------------------------------------
+
+-- Rows written before workspaces existed, scoped by user_id alone.
+create or replace function public.create_workspace(p_name text, p_adopt_legacy_rows boolean) returns uuid
+language plpgsql security definer set search_path = public as $$
+declare
+  v_user uuid := auth.uid();
+  v_workspace uuid;
+  v_table text;
+begin
+  if v_user is null then
+    raise exception 'Silakan masuk terlebih dahulu.';
+  end if;
+  if not public.meets_assurance() then
+    raise exception 'Masukkan kode dari aplikasi autentikator terlebih dahulu.';
+  end if;
+  insert into public.workspaces (name, created_by) values (p_name, v_user) returning id into v_workspace;
+  insert into public.workspace_members (workspace_id, user_id, email, role)
+    values (v_workspace, v_user, lower(coalesce(auth.jwt() ->> 'email', '')), 'owner');
+  -- Only into the user's first workspace, so the existing ledger carries on unchanged.
+  if p_adopt_legacy_rows and not exists (
+    select 1 from public.workspace_members where user_id = v_user and workspace_id <> v_workspace
+  ) then
+    foreach v_table in array array['customers', 'receivables', 'payments', 'revenues', 'business_profiles', 'documents', 'reminder_rules'] loop
+      execute format('update public.%I set workspace_id = $1 where user_id = $2 and workspace_id is null', v_table)
+        using v_workspace, v_user;
+    end loop;
+  end if;
+  return v_workspace;
+end;
+$$;
+
+-- The member row gets the role the owner put on the invitation; the invitation must be
+-- addressed to the signed-in user's email and not yet accepted.
+create or replace function public.accept_invitation(p_invitation_id uuid) returns uuid
+language plpgsql security definer set search_path = public as $$
+declare
+  v_user uuid := auth.uid();
+  v_email text := lower(auth.jwt() ->> 'email');
+  v_invitation public.workspace_invitations;
+begin
+  if not public.meets_assurance() then
+    raise exception 'Masukkan kode dari aplikasi autentikator terlebih dahulu.';
+  end if;
+  select * into v_invitation from public.workspace_invitations
+    where id = p_invitation_id and email = v_email and accepted_at is null
+    for update;
+  if v_user is null or not found then
+    raise exception 'Undangan tidak ditemukan atau sudah digunakan.';
+  end if;
+  insert into public.workspace_members (workspace_id, user_id, email, role)
+    values (v_invitation.workspace_id, v_user, v_email, v_invitation.role)
+    on conflict (workspace_id, user_id) do nothing;
+  update public.workspace_invitations set accepted_at = now() where id = p_invitation_id;
+  return v_invitation.workspace_id;
+end;
+$$;
+
+revoke execute on function public.create_workspace(text, boolean) from public, anon;
+revoke execute on function public.accept_invitation(uuid) from public, anon;
+grant execute on function public.create_workspace(text, boolean) to authenticated;
+grant execute on function public.accept_invitation(uuid) to authenticated;
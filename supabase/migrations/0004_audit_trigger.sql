@@ -0,0 +1,94 @@
+-- The activity log is written by the database: every insert, update and delete on the
+-- audited tables leaves an entry in the same transaction, in the name of auth.uid().
+-- Clients can read the log but neither write nor change it. auditEntryFor in audit.ts
+-- builds the same entries for the local backend.
+
+drop policy "members append in their own name" on public.audit_log;
+revoke insert, update, delete, truncate on public.audit_log from anon, authenticated;
+
+-- Changes made without a signed-in user (maintenance under the service role) have no actor.
+alter table public.audit_log alter column actor_id drop not null;
+alter table public.audit_log alter column occurred_at set default now();
+
+-- describePeriod in periods.ts.
+create or replace function public.describe_period(p_kind text, p_start date) returns text
+language sql immutable as $$
+  select case p_kind
+    when 'year' then 'Tahun ' || extract(year from p_start)::text
+    else (array['Januari', 'Februari', 'Maret', 'April', 'Mei', 'Juni', 'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember'])
+      [extract(month from p_start)::int] || ' ' || extract(year from p_start)::text
+  end;
+$$;
+
+create or replace function public.record_audit_entry() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  v_before jsonb := case when tg_op = 'INSERT' then null else to_jsonb(old) end;
+  v_after jsonb := case when tg_op = 'DELETE' then null else to_jsonb(new) end;
+  v_row jsonb := coalesce(v_after, v_before);
+  v_action text;
+  v_summary text;
+begin
+  if tg_op = 'UPDATE' and (v_before - 'updated_at') = (v_after - 'updated_at') then
+    return null;
+  end if;
+  -- Rows from before workspaces have nowhere to be logged.
+  if v_row ->> 'workspace_id' is null then
+    return null;
+  end if;
+
+  v_action := case
+    when tg_op = 'INSERT' and tg_table_name = 'period_closes' then 'close'
+    when tg_op = 'INSERT' then 'create'
+    when tg_op = 'DELETE' then 'delete'
+    when v_before ->> 'voided_at' is null and v_after ->> 'voided_at' is not null then 'void'
+    when v_before ->> 'deleted_at' is null and v_after ->> 'deleted_at' is not null then 'trash'
+    when v_before ->> 'deleted_at' is not null and v_after ->> 'deleted_at' is null then 'restore'
+    when v_before ->> 'reopened_at' is null and v_after ->> 'reopened_at' is not null then 'reopen'
+    else 'update'
+  end;
+
+  v_summary := case tg_table_name
+    when 'period_closes' then public.describe_period(v_row ->> 'kind', (v_row ->> 'period_start')::date)
+    when 'payments' then
+      '"' || coalesce((select description from public.receivables where id = (v_row ->> 'receivable_id')::uuid), '') || '"'
+    when 'payable_payments' then
+      '"' || coalesce((select description from public.payables where id = (v_row ->> 'payable_id')::uuid), '') || '"'
+    else '"' || coalesce(v_row ->> 'description', v_row ->> 'name', '') || '"'
+  end;
+
+  insert into public.audit_log (workspace_id, actor_id, actor_email, entity, entity_id, parent_id, action, summary, before, after)
+  values (
+    (v_row ->> 'workspace_id')::uuid,
+    auth.uid(),
+    coalesce(auth.jwt() ->> 'email', ''),
+    case tg_table_name
+      when 'receivables' then 'receivable'
+      when 'revenues' then 'revenue'
+      when 'payments' then 'payment'
+      when 'customers' then 'customer'
+      when 'payables' then 'payable'
+      when 'payable_payments' then 'payable_payment'
+      when 'expenses' then 'expense'
+      when 'period_closes' then 'period'
+    end,
+    (v_row ->> 'id')::uuid,
+    coalesce(v_row ->> 'receivable_id', v_row ->> 'payable_id')::uuid,
+    v_action,
+    v_summary,
+    v_before,
+    v_after
+  );
+  return null;
+end;
+$$;
+
+do $$
+declare
+  audited text;
+begin
+  foreach audited in array array['receivables', 'revenues', 'payments', 'customers', 'payables', 'payable_payments', 'expenses', 'period_closes'] loop
+    execute format('create trigger record_audit_entry after insert or update or delete on public.%I for each row execute function public.record_audit_entry()', audited);
+  end loop;
+end;
+$$;
@@ -0,0 +1,50 @@
+-- Invoice and receipt numbers are handed out by the database, one at a time per
+-- workspace, type and year, so two members printing at once never share a number.
+-- The indexes hold even for writes that bypass issue_document: a number is issued once,
+-- and a receivable has one invoice and a payment one receipt, which reprints keep.
+-- Creating them fails if a workspace already holds duplicates; those have to be
+-- renumbered or removed by hand first.
+
+create unique index documents_number_key on public.documents (workspace_id, type, number);
+create unique index documents_invoice_key on public.documents (receivable_id)
+  where type = 'invoice' and payment_id is null;
+create unique index documents_receipt_key on public.documents (payment_id)
+  where type = 'receipt';
+
+-- Returns the document already issued for the receivable or payment, or issues the next
+-- number in the yearly sequence (nextDocumentNumber in documents.ts). Runs with the
+-- caller's rights, so the documents policies still decide who may issue.
+create or replace function public.issue_document(
+  p_workspace_id uuid, p_type text, p_receivable_id uuid, p_payment_id uuid, p_issued_at date
+) returns public.documents
+language plpgsql set search_path = public as $$
+declare
+  v_prefix text := case p_type when 'invoice' then 'INV' when 'receipt' then 'KW' end
+    || '/' || extract(year from p_issued_at)::text || '/';
+  v_document public.documents;
+  v_next text;
+begin
+  -- Held until the transaction ends; everyone else numbering this sequence waits here.
+  perform pg_advisory_xact_lock(hashtext(p_workspace_id::text || ':' || v_prefix));
+
+  select * into v_document from public.documents
+    where workspace_id = p_workspace_id and type = p_type
+      and receivable_id = p_receivable_id and payment_id is not distinct from p_payment_id;
+  if found then
+    return v_document;
+  end if;
+
+  select (coalesce(max(substring(number from length(v_prefix) + 1)::int), 0) + 1)::text into v_next
+    from public.documents
+    where workspace_id = p_workspace_id and type = p_type
+      and starts_with(number, v_prefix) and substring(number from length(v_prefix) + 1) ~ '^[0-9]+$';
+
+  insert into public.documents (workspace_id, user_id, type, number, receivable_id, payment_id, issued_at)
+    values (p_workspace_id, auth.uid(), p_type, v_prefix || lpad(v_next, greatest(length(v_next), 4), '0'), p_receivable_id, p_payment_id, p_issued_at)
+    returning * into v_document;
+  return v_document;
+end;
+$$;
+
+revoke execute on function public.issue_document(uuid, text, uuid, uuid, date) from public, anon;
+grant execute on function public.issue_document(uuid, text, uuid, uuid, date) to authenticated;
@@ -0,0 +1,65 @@
+-- The debtor portal, opened by a share link without signing in. Anonymous visitors get no
+-- table access at all (0003_workspace_access.sql); this function is their only way in. It
+-- returns the PortalData of repository.ts, down to the columns a debtor may see, or null
+-- for links that never existed, expired or were revoked, so none can be told apart.
+-- Opening a valid link records the access.
+
+create or replace function public.open_share_link(p_token text, p_user_agent text) returns jsonb
+language plpgsql volatile security definer set search_path = public as $$
+declare
+  v_link public.share_links;
+  v_customer_id uuid;
+  v_receivables jsonb;
+  v_payments jsonb;
+begin
+  select * into v_link from public.share_links
+    where token = p_token and revoked_at is null and expires_at > now();
+  if not found then
+    return null;
+  end if;
+
+  insert into public.share_link_access (workspace_id, link_id, user_agent)
+    values (v_link.workspace_id, v_link.id, left(p_user_agent, 500));
+
+  -- Without the trash.
+  select coalesce(jsonb_agg(jsonb_build_object(
+      'id', r.id, 'description', r.description, 'currency', r.currency, 'total_amount', r.total_amount,
+      'issue_date', r.issue_date, 'due_date', r.due_date, 'late_fee_rule', r.late_fee_rule
+    ) order by r.due_date, r.id), '[]'::jsonb),
+    (array_agg(r.customer_id order by r.due_date, r.id))[1]
+    into v_receivables, v_customer_id
+    from public.receivables r
+    where r.workspace_id = v_link.workspace_id and r.deleted_at is null
+      and case v_link.scope when 'receivable' then r.id = v_link.receivable_id else r.customer_id = v_link.customer_id end;
+
+  -- Without voided payments.
+  select coalesce(jsonb_agg(jsonb_build_object(
+      'id', p.id, 'receivable_id', p.receivable_id, 'amount', p.amount, 'paid_at', p.paid_at, 'method', p.method
+    ) order by p.paid_at, p.id), '[]'::jsonb)
+    into v_payments
+    from public.payments p
+    where p.workspace_id = v_link.workspace_id and p.voided_at is null
+      and p.receivable_id in (select (value ->> 'id')::uuid from jsonb_array_elements(v_receivables));
+
+  return jsonb_build_object(
+    'link', jsonb_build_object('scope', v_link.scope, 'expires_at', v_link.expires_at),
+    'business', (
+      select jsonb_build_object(
+        'business_name', b.business_name, 'address', b.address, 'city', b.city, 'phone', b.phone,
+        'email', b.email, 'payment_instructions', b.payment_instructions, 'signatory', b.signatory
+      )
+      from public.business_profiles b where b.workspace_id = v_link.workspace_id
+    ),
+    'customerName', (
+      select c.name from public.customers c
+      where c.workspace_id = v_link.workspace_id and c.id = coalesce(v_link.customer_id, v_customer_id)
+    ),
+    'receivables', v_receivables,
+    'payments', v_payments,
+    'defaultLateFeeRule', (select w.late_fee_rule from public.workspaces w where w.id = v_link.workspace_id)
+  );
+end;
+$$;
+
+revoke execute on function public.open_share_link(text, text) from public;
+grant execute on function public.open_share_link(text, text) to anon, authenticated;
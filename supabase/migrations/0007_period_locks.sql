@@ -0,0 +1,79 @@
+-- Closed periods are enforced by the database, for every client and every write path:
+-- a ledger entry dated on or before the lock date can be neither added, changed nor
+-- removed, and no change may move an entry into the locked range (lockedChange in
+-- periods.ts). The lock date is the end of the latest close that has not been reopened.
+-- Closes themselves follow the same order as the app: a new close must end after the
+-- lock date, and only the close that sets it can be reopened.
+
+create or replace function public.books_locked_through(p_workspace_id uuid) returns date
+language sql stable security definer set search_path = public as $$
+  select max(period_end) from public.period_closes where workspace_id = p_workspace_id and reopened_at is null;
+$$;
+
+-- entryDate in periods.ts.
+create or replace function public.ledger_entry_date(p_table text, p_row jsonb) returns date
+language sql immutable as $$
+  select case p_table
+    when 'receivables' then coalesce(p_row ->> 'issue_date', p_row ->> 'due_date')
+    when 'payables' then coalesce(p_row ->> 'issue_date', p_row ->> 'due_date')
+    when 'payments' then p_row ->> 'paid_at'
+    when 'payable_payments' then p_row ->> 'paid_at'
+    else p_row ->> 'date'
+  end::date;
+$$;
+
+create or replace function public.enforce_period_lock() returns trigger
+language plpgsql set search_path = public as $$
+declare
+  v_before jsonb := case when tg_op = 'INSERT' then null else to_jsonb(old) end;
+  v_after jsonb := case when tg_op = 'DELETE' then null else to_jsonb(new) end;
+  v_workspace_id uuid := coalesce(v_after, v_before) ->> 'workspace_id';
+  v_through date;
+  v_date date;
+begin
+  -- Rows from before workspaces have no books to close, and deletes cascading from the
+  -- workspace itself are let through.
+  if v_workspace_id is null or not exists (select 1 from public.workspaces where id = v_workspace_id) then
+    return coalesce(new, old);
+  end if;
+  v_through := public.books_locked_through(v_workspace_id);
+  if v_through is not null then
+    foreach v_date in array array[public.ledger_entry_date(tg_table_name, v_before), public.ledger_entry_date(tg_table_name, v_after)] loop
+      if v_date <= v_through then
+        raise exception 'Tanggal % termasuk periode yang sudah ditutup. Koreksi dicatat sebagai jurnal penyesuaian di tab Tutup Buku.',
+          to_char(v_date, 'DD-MM-YYYY');
+      end if;
+    end loop;
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+do $$
+declare
+  locked text;
+begin
+  foreach locked in array array['receivables', 'revenues', 'payments', 'payables', 'payable_payments', 'expenses'] loop
+    execute format('create trigger enforce_period_lock before insert or update or delete on public.%I for each row execute function public.enforce_period_lock()', locked);
+  end loop;
+end;
+$$;
+
+-- closingProblem and reopenableClose in periods.ts.
+create or replace function public.enforce_close_order() returns trigger
+language plpgsql set search_path = public as $$
+declare
+  v_through date := public.books_locked_through(new.workspace_id);
+begin
+  if tg_op = 'INSERT' and v_through is not null and new.period_end <= v_through then
+    raise exception 'Periode ini sudah termasuk buku yang ditutup.';
+  end if;
+  if tg_op = 'UPDATE' and old.reopened_at is null and new.reopened_at is not null and old.period_end <> v_through then
+    raise exception 'Hanya periode terakhir yang ditutup yang dapat dibuka kembali.';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger enforce_close_order before insert or update on public.period_closes
+  for each row execute function public.enforce_close_order();
@@ -0,0 +1,23 @@
+-- Before the payments ledger, a receivable kept what had been paid in paid_amount. Each
+-- such amount becomes an opening payment sharing the receivable's id, dated on the
+-- receivable's booking date, and paid_amount is zeroed so no balance counts it twice.
+-- moveLegacyPaidAmounts in localBackend.ts does the same for the local backend. Running
+-- this again books nothing twice.
+--
+-- Balances do not change, so closed periods stay true to their snapshots; the period
+-- lock (0007_period_locks.sql) is lifted for the move alone. The activity log records
+-- the move without an actor.
+
+alter table public.payments disable trigger enforce_period_lock;
+alter table public.receivables disable trigger enforce_period_lock;
+
+insert into public.payments (id, workspace_id, user_id, receivable_id, currency, amount, paid_at, method, note)
+select id, workspace_id, user_id, id, currency, paid_amount, coalesce(issue_date, due_date), 'other', 'Saldo awal pembayaran'
+  from public.receivables
+  where paid_amount > 0
+on conflict (id) do nothing;
+
+update public.receivables set paid_amount = 0 where paid_amount > 0;
+
+alter table public.payments enable trigger enforce_period_lock;
+alter table public.receivables enable trigger enforce_period_lock;
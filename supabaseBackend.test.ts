@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { eitherFilter, likePrefix } from './supabaseBackend';
+
+describe('eitherFilter', () => {
+  it('quotes every value so it cannot add conditions of its own', () => {
+    expect(eitherFilter({ entity_id: 'a,id.neq.0', parent_id: 'say "hi" \\o/' }))
+      .toBe('entity_id.eq."a,id.neq.0",parent_id.eq."say \\"hi\\" \\\\o/"');
+  });
+
+  it('matches null with IS NULL', () => {
+    expect(eitherFilter({ deleted_at: null, amount: 5 })).toBe('deleted_at.is.null,amount.eq."5"');
+  });
+});
+
+describe('likePrefix', () => {
+  it('escapes wildcards in the prefix', () => {
+    expect(likePrefix('INV_10%')).toBe('INV\\_10\\%%');
+  });
+});
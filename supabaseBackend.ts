@@ -0,0 +1,273 @@
+import { AuthChangeEvent, SupabaseClient, createClient } from '@supabase/supabase-js';
+import { IssuedDocument, Receivable, Revenue } from './types';
+import {
+  ReceivableFilters, RevenueFilters, receivablePageArgs, receivableSummaryArgs, revenuePageArgs, revenueSummaryArgs,
+} from './filters';
+import {
+  AssuranceLevel, AuthEvent, AuthRepository, Backend, ColumnValue, DataResult, DocumentRepository, MfaRepository, PORTAL_LINK_INVALID, PortalData, PortalRepository,
+  Query, TableName, TableRepository, WorkspaceRepository, failed,
+} from './repository';
+import { parsePage, parseReceivable, parseRevenue, validatedTable, withValidation } from './validation';
+
+// The production backend: PostgREST queries, row level security and realtime channels.
+
+// The calls applyQuery makes, as every PostgREST filter builder offers them; each returns
+// the builder it was called on. The builders' own generic types are too deep for the
+// compiler to compare against this, so applyQuery takes and returns the caller's type.
+interface FilterBuilder {
+  is(column: string, value: null): FilterBuilder;
+  in(column: string, values: ColumnValue[]): FilterBuilder;
+  eq(column: string, value: ColumnValue): FilterBuilder;
+  or(filters: string): FilterBuilder;
+  gte(column: string, value: string): FilterBuilder;
+  lt(column: string, value: string): FilterBuilder;
+  like(column: string, pattern: string): FilterBuilder;
+  order(column: string, options: { ascending: boolean }): FilterBuilder;
+  range(from: number, to: number): FilterBuilder;
+}
+
+// PostgREST parses commas, dots and parentheses inside an or() filter as syntax, so
+// every value is double-quoted with its quotes and backslashes escaped.
+const quoteFilterValue = (value: string | number | boolean) => `"${String(value).replace(/["\\]/g, char => `\\${char}`)}"`;
+
+export const eitherFilter = (either: Record<string, ColumnValue>) =>
+  Object.entries(either)
+    .map(([column, value]) => value === null ? `${column}.is.null` : `${column}.eq.${quoteFilterValue(value)}`)
+    .join(',');
+
+// like() treats % and _ in the prefix as wildcards unless they are escaped.
+export const likePrefix = (prefix: string) => `${prefix.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+
+const applyQuery = <B>(request: B, query: Query = {}): B => {
+  let builder = request as unknown as FilterBuilder;
+  Object.entries(query.where ?? {}).forEach(([column, value]) => {
+    if (value === null) builder = builder.is(column, null);
+    else if (Array.isArray(value)) builder = builder.in(column, value);
+    else builder = builder.eq(column, value);
+  });
+  if (query.either && Object.keys(query.either).length > 0) builder = builder.or(eitherFilter(query.either));
+  Object.entries(query.atLeast ?? {}).forEach(([column, value]) => { builder = builder.gte(column, value); });
+  Object.entries(query.before ?? {}).forEach(([column, value]) => { builder = builder.lt(column, value); });
+  Object.entries(query.startsWith ?? {}).forEach(([column, value]) => { builder = builder.like(column, likePrefix(value)); });
+  (query.order ?? []).forEach(([column, direction]) => { builder = builder.order(column, { ascending: direction === 'asc' }); });
+  if (query.range) builder = builder.range(query.range[0], query.range[1]);
+  return builder as unknown as B;
+};
+
+const result = <T>({ data, error }: { data: unknown; error: { message: string } | null }): DataResult<T> =>
+  error ? failed(error) : { data: data as T, error: null };
+
+const rowsResult = <T>(response: { data: unknown; error: { message: string } | null }): DataResult<T[]> =>
+  response.error ? failed(response.error) : { data: (response.data ?? []) as T[], error: null };
+
+const createTable = <T>(client: SupabaseClient, table: TableName): TableRepository<T> => ({
+  list: async query => rowsResult<T>(await applyQuery(client.from(table).select('*'), query)),
+  find: async query => result<T | null>(await applyQuery(client.from(table).select('*'), query).limit(1).maybeSingle()),
+  insert: async (rows, options) => {
+    const request = client.from(table).insert(rows);
+    return rowsResult<T>(await (options?.returning ? request.select() : request));
+  },
+  upsert: async (rows, { returning, ...options }) => {
+    const request = client.from(table).upsert(rows, options);
+    return rowsResult<T>(await (returning ? request.select() : request));
+  },
+  update: async (where, values, options) => {
+    const request = applyQuery(client.from(table).update(values), { where });
+    return rowsResult<T>(await (options?.returning ? request.select() : request));
+  },
+  remove: async where => {
+    const { error } = await applyQuery(client.from(table).delete(), { where });
+    return { error: error ? failed(error).error : null };
+  },
+  subscribe: (workspaceId, onChange, onError) => {
+    const channel = client.channel(`${table}:${workspaceId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table, filter: `workspace_id=eq.${workspaceId}` }, payload => {
+        if (payload.eventType !== 'DELETE') onChange({ type: 'upsert', row: payload.new as T });
+        else if (payload.old.id) onChange({ type: 'delete', id: payload.old.id });
+      })
+      .subscribe((status, err) => {
+        if (status === 'SUBSCRIBED') console.log(`Realtime channel for ${table} subscribed.`);
+        if (status === 'CHANNEL_ERROR') {
+          console.error(`Realtime channel error (${table}):`, err);
+          onError?.(err);
+        }
+        if (status === 'TIMED_OUT') console.warn(`Realtime subscription for ${table} timed out.`);
+      });
+    return () => {
+      client.removeChannel(channel);
+    };
+  },
+});
+
+const AUTH_EVENTS: Partial<Record<AuthChangeEvent, AuthEvent>> = {
+  SIGNED_IN: 'signedIn',
+  SIGNED_OUT: 'signedOut',
+  PASSWORD_RECOVERY: 'passwordRecovery',
+  USER_UPDATED: 'userUpdated',
+  MFA_CHALLENGE_VERIFIED: 'mfaVerified',
+};
+
+// Levels beyond 'aal2' do not exist yet; a missing level means there is no session.
+const assurance = (level: string | null): AssuranceLevel => level === 'aal2' ? 'aal2' : 'aal1';
+
+const createMfa = (client: SupabaseClient): MfaRepository => ({
+  listFactors: async () => {
+    const { data, error } = await client.auth.mfa.listFactors();
+    if (error) return failed(error);
+    return {
+      data: data.all.filter(factor => factor.factor_type === 'totp').map(factor => ({
+        id: factor.id, friendlyName: factor.friendly_name ?? null, verified: factor.status === 'verified', createdAt: factor.created_at,
+      })),
+      error: null,
+    };
+  },
+  enrollTotp: async friendlyName => {
+    const { data, error } = await client.auth.mfa.enroll({ factorType: 'totp', friendlyName });
+    return error
+      ? failed(error)
+      : { data: { factorId: data.id, uri: data.totp.uri, secret: data.totp.secret, qrCode: data.totp.qr_code }, error: null };
+  },
+  verify: async (factorId, code) => {
+    const { error } = await client.auth.mfa.challengeAndVerify({ factorId, code });
+    return { error };
+  },
+  unenroll: async factorId => {
+    const { error } = await client.auth.mfa.unenroll({ factorId });
+    return { error };
+  },
+  assuranceLevel: async () => {
+    const { data, error } = await client.auth.mfa.getAuthenticatorAssuranceLevel();
+    return error ? failed(error) : { data: { current: assurance(data.currentLevel), next: assurance(data.nextLevel) }, error: null };
+  },
+});
+
+const createAuth = (client: SupabaseClient): AuthRepository => ({
+  getSession: async () => (await client.auth.getSession()).data.session,
+  onSessionChange: listener => {
+    const { data: { subscription } } = client.auth.onAuthStateChange((event, session) => listener(session, AUTH_EVENTS[event] ?? 'other'));
+    return () => subscription.unsubscribe();
+  },
+  signIn: async (email, password) => {
+    const { error } = await client.auth.signInWithPassword({ email, password });
+    return { error };
+  },
+  signUp: async (email, password) => {
+    const { data, error } = await client.auth.signUp({ email, password });
+    return { error, needsConfirmation: !error && !data.session };
+  },
+  signOut: async () => {
+    const { error } = await client.auth.signOut();
+    if (error) console.error('Error signing out:', error);
+  },
+  // Only existing accounts get a link; signing up still goes through signUp.
+  sendMagicLink: async (email, redirectTo) => {
+    const { error } = await client.auth.signInWithOtp({ email, options: { emailRedirectTo: redirectTo, shouldCreateUser: false } });
+    return { error };
+  },
+  requestPasswordReset: async (email, redirectTo) => {
+    const { error } = await client.auth.resetPasswordForEmail(email, { redirectTo });
+    return { error };
+  },
+  updatePassword: async password => {
+    const { error } = await client.auth.updateUser({ password });
+    return { error };
+  },
+  updateEmail: async (email, redirectTo) => {
+    const { data, error } = await client.auth.updateUser({ email }, { emailRedirectTo: redirectTo });
+    return { error, needsConfirmation: !error && data.user.email !== email };
+  },
+  mfa: createMfa(client),
+});
+
+// The anonymous role cannot read any table, so the portal goes through a security definer
+// function. It checks the token, records the access and returns only the rows the link
+// covers, or null for a link that is unknown, expired or revoked (0006_share_link_portal.sql).
+const createPortal = (client: SupabaseClient): PortalRepository => ({
+  open: async (token, userAgent) => {
+    const { data, error } = await client.rpc('open_share_link', { p_token: token, p_user_agent: userAgent });
+    if (error) return failed(error);
+    return data ? { data: data as PortalData, error: null } : failed(PORTAL_LINK_INVALID);
+  },
+});
+
+// Both run as security definer functions (0003_workspace_access.sql): no policy lets a
+// client insert a member row itself.
+const createWorkspaces = (client: SupabaseClient): WorkspaceRepository => ({
+  create: async (name, adoptLegacyRows) => {
+    const { data, error } = await client.rpc('create_workspace', { p_name: name, p_adopt_legacy_rows: adoptLegacyRows });
+    return error ? failed(error) : { data: data as string, error: null };
+  },
+  acceptInvitation: async invitationId => {
+    const { data, error } = await client.rpc('accept_invitation', { p_invitation_id: invitationId });
+    return error ? failed(error) : { data: data as string, error: null };
+  },
+});
+
+const createDocuments = (client: SupabaseClient): DocumentRepository => ({
+  issue: async (workspaceId, type, receivableId, paymentId, issuedAt) => {
+    const { data, error } = await client.rpc('issue_document', {
+      p_workspace_id: workspaceId, p_type: type, p_receivable_id: receivableId, p_payment_id: paymentId, p_issued_at: issuedAt,
+    });
+    return error ? failed(error) : { data: data as IssuedDocument, error: null };
+  },
+});
+
+export const createSupabaseBackend = (url: string, anonKey: string): Backend => {
+  const client = createClient(url, anonKey);
+  const tables = new Map<TableName, TableRepository<unknown>>();
+
+  const receivables = {
+    ...withValidation(createTable(client, 'receivables'), parseReceivable),
+    summarize: async (workspaceId: string, filters: ReceivableFilters, today: string, baseCurrency: string) => {
+      const response = await client
+        .rpc('receivables_summary', { p_workspace_id: workspaceId, p_base_currency: baseCurrency, ...receivableSummaryArgs(filters, today) })
+        .single<{ total: number | string; remaining: number | string }>();
+      return response.error
+        ? failed(response.error)
+        : { data: { total: Number(response.data.total), remaining: Number(response.data.remaining) }, error: null };
+    },
+    page: async (workspaceId: string, filters: ReceivableFilters, today: string, range: [number, number]) => {
+      const { data, error } = await client.rpc('receivables_page', { p_workspace_id: workspaceId, ...receivablePageArgs(filters, today, range) });
+      if (error) return failed(error);
+      try {
+        return { data: parsePage(data, parseReceivable), error: null };
+      } catch (parseError) {
+        return failed(parseError);
+      }
+    },
+  };
+  const revenues = {
+    ...withValidation(createTable(client, 'revenues'), parseRevenue),
+    summarize: async (workspaceId: string, filters: RevenueFilters, baseCurrency: string) => {
+      const response = await client
+        .rpc('revenues_summary', { p_workspace_id: workspaceId, p_base_currency: baseCurrency, ...revenueSummaryArgs(filters) })
+        .single<{ total: number | string }>();
+      return response.error ? failed(response.error) : { data: { total: Number(response.data.total) }, error: null };
+    },
+    page: async (workspaceId: string, filters: RevenueFilters, range: [number, number]) => {
+      const { data, error } = await client.rpc('revenues_page', { p_workspace_id: workspaceId, ...revenuePageArgs(filters, range) });
+      if (error) return failed(error);
+      try {
+        return { data: parsePage(data, parseRevenue), error: null };
+      } catch (parseError) {
+        return failed(parseError);
+      }
+    },
+  };
+  tables.set('receivables', receivables as TableRepository<Receivable>);
+  tables.set('revenues', revenues as TableRepository<Revenue>);
+
+  return {
+    kind: 'supabase',
+    auth: createAuth(client),
+    portal: createPortal(client),
+    workspaces: createWorkspaces(client),
+    documents: createDocuments(client),
+    receivables,
+    revenues,
+    table: <T>(name: TableName) => {
+      if (!tables.has(name)) tables.set(name, validatedTable(name, createTable(client, name)));
+      return tables.get(name) as TableRepository<T>;
+    },
+  };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { QueuedMutation, applyPendingMutations, conflictingFields, createMutation, mustWaitInQueue, retryDelay } from './syncQueue';
+
+const mutation = (fields: Partial<QueuedMutation>): QueuedMutation => ({
+  ...createMutation({ table: 'receivables', op: 'update', rowId: 'r1', values: { description: 'Baru' }, base: { description: 'Lama' }, label: 'Ubah' }),
+  ...fields,
+});
+
+describe('mustWaitInQueue', () => {
+  it('waits behind pending changes', () => {
+    expect(mustWaitInQueue([], { table: 'receivables', rowId: 'r2' })).toBe(false);
+    expect(mustWaitInQueue([mutation({})], { table: 'receivables', rowId: 'r2' })).toBe(true);
+  });
+
+  it('lets a parked conflict hold back only its own row', () => {
+    const queue = [mutation({ status: 'conflict' })];
+    expect(mustWaitInQueue(queue, { table: 'receivables', rowId: 'r2' })).toBe(false);
+    expect(mustWaitInQueue(queue, { table: 'payments', rowId: 'r1' })).toBe(false);
+    expect(mustWaitInQueue(queue, { table: 'receivables', rowId: 'r1' })).toBe(true);
+  });
+});
+
+describe('retryDelay', () => {
+  it('doubles after every failure up to a ceiling', () => {
+    expect([1, 2, 3, 4].map(retryDelay)).toEqual([2000, 4000, 8000, 16000]);
+    expect(retryDelay(20)).toBe(300000);
+  });
+});
+
+describe('conflictingFields', () => {
+  it('ignores columns the server left alone or already changed to our value', () => {
+    const base = { description: 'Lama', total_amount: 100, due_date: '2025-01-31' };
+    const server = { description: 'Lain', total_amount: '100', due_date: '2025-02-28' };
+    expect(conflictingFields(base, server, { description: 'Baru', due_date: '2025-02-28' })).toEqual(['description']);
+  });
+});
+
+describe('applyPendingMutations', () => {
+  it('lays queued changes of the table over the server rows in order', () => {
+    const rows = [{ id: 'r1', description: 'Lama' }];
+    const queue = [
+      mutation({}),
+      mutation({ op: 'insert', rowId: 'r2', values: { id: 'r2', description: 'Tambah' } }),
+      mutation({ table: 'payments', op: 'delete', rowId: 'r1' }),
+    ];
+    expect(applyPendingMutations(rows, 'receivables', queue)).toEqual([
+      { id: 'r1', description: 'Baru' }, { id: 'r2', description: 'Tambah' },
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+import { CachedTable } from './offlineStore';
+import { removeRows, upsertRows } from './liveData';
+import { Backend } from './repository';
+
+// The offline mutation queue. Every write is described as a QueuedMutation so it can be
+// applied to local state immediately, persisted while the device is offline, and replayed
+// against the server later in the order it was made.
+
+export type MutationOp = 'insert' | 'update' | 'delete';
+
+type Row = Record<string, unknown>;
+
+export interface MutationConflict {
+  reason: string;
+  // The row currently on the server, or null when it no longer exists (or never did).
+  server: Row | null;
+  fields: string[];
+  // False when keeping the local version is impossible, e.g. editing a row that is gone.
+  retryable: boolean;
+}
+
+export interface QueuedMutation {
+  id: string;
+  queuedAt: number;
+  table: CachedTable;
+  op: MutationOp;
+  rowId: string;
+  // Inserts carry the whole row, including its client-generated id; updates only the
+  // changed columns; deletes nothing.
+  values: Row;
+  // The same columns as this device saw them before the change, used on replay to tell
+  // whether someone else changed the row in the meantime.
+  base: Row | null;
+  label: string;
+  status: 'pending' | 'conflict';
+  conflict?: MutationConflict;
+  // Set when the user chose to keep their version of a conflicting change.
+  force?: boolean;
+}
+
+export type MutationInput = Pick<QueuedMutation, 'table' | 'op' | 'rowId' | 'values' | 'base' | 'label'>;
+
+export type SendResult =
+  | { status: 'synced'; rows: Row[] }
+  | { status: 'offline' }
+  | { status: 'rejected'; message: string }
+  | { status: 'conflict'; conflict: MutationConflict };
+
+const CONFLICT_MESSAGES = {
+  deletedRemotely: 'Data ini sudah dihapus di perangkat lain.',
+  changedRemotely: 'Data ini sudah diubah di perangkat lain.',
+};
+
+let lastQueuedAt = 0;
+
+export const createMutation = (input: MutationInput): QueuedMutation => {
+  // Strictly increasing even when several mutations are created in the same millisecond.
+  lastQueuedAt = Math.max(Date.now(), lastQueuedAt + 1);
+  return { ...input, id: crypto.randomUUID(), queuedAt: lastQueuedAt, status: 'pending' };
+};
+
+// A new write has to wait behind anything still pending, so the server sees changes in
+// order. Parked conflicts only hold back later changes to their own row: the rest of the
+// workspace keeps saving while the user decides.
+export const mustWaitInQueue = (queue: QueuedMutation[], mutation: Pick<QueuedMutation, 'table' | 'rowId'>) =>
+  queue.some(queued => queued.status === 'pending' || (queued.table === mutation.table && queued.rowId === mutation.rowId));
+
+// How long to wait before the next attempt after `failures` failed ones while the device
+// was online: the server or the connection to it is having trouble, so back off.
+const FIRST_RETRY_MS = 2_000;
+const LAST_RETRY_MS = 5 * 60_000;
+export const retryDelay = (failures: number) => Math.min(LAST_RETRY_MS, FIRST_RETRY_MS * 2 ** Math.max(0, failures - 1));
+
+export const pickColumns = (row: object, columns: string[]): Row =>
+  Object.fromEntries(columns.map(column => [column, (row as Row)[column] ?? null]));
+
+export const applyMutation = <T extends { id: string }>(rows: T[], mutation: QueuedMutation): T[] => {
+  switch (mutation.op) {
+    case 'insert': return upsertRows(rows, [mutation.values as unknown as T]);
+    case 'update': return rows.map(row => row.id === mutation.rowId ? { ...row, ...mutation.values } : row);
+    case 'delete': return removeRows(rows, [mutation.rowId]);
+  }
+};
+
+// Server rows are replaced wholesale on load and by realtime events, so changes that
+// have not been uploaded yet are laid back on top to keep them visible.
+export const applyPendingMutations = <T extends { id: string }>(rows: T[], table: CachedTable, queue: QueuedMutation[]) =>
+  queue.filter(mutation => mutation.table === table).reduce(applyMutation, rows);
+
+// Numeric columns may come back as strings, so values are compared by their text form;
+// JSON columns compare by content.
+const textForm = (value: unknown) => typeof value === 'object' ? JSON.stringify(value) : String(value);
+const sameValue = (a: unknown, b: unknown) => a === b || (a != null && b != null && textForm(a) === textForm(b));
+
+// A column conflicts when the server moved away from what we started from and did not
+// happen to land on the value we are writing.
+export const conflictingFields = (base: Row, server: Row, values: Row) =>
+  Object.keys(base).filter(column => !sameValue(server[column], base[column]) && !sameValue(server[column], values[column]));
+
+export const isNetworkError = (error: { message: string }) =>
+  !navigator.onLine || /failed to fetch|networkerror|load failed|network request failed/i.test(error.message);
+
+const failure = (error: { message: string }): SendResult =>
+  isNetworkError(error) ? { status: 'offline' } : { status: 'rejected', message: error.message };
+
+// Sends one mutation; the database logs it in the activity log. Unless `checkConflicts`
+// is off (or the user forced it), updates and deletes first compare the server row with
+// the base.
+export const sendMutation = async (backend: Backend, mutation: QueuedMutation, checkConflicts: boolean): Promise<SendResult> => {
+  const table = backend.table<Row>(mutation.table);
+
+  if (mutation.op === 'insert') {
+    // Ignoring duplicates makes a replay harmless when the first attempt reached the
+    // server but its response never came back.
+    const { data, error } = await table.upsert(mutation.values, { onConflict: 'id', ignoreDuplicates: true, returning: true });
+    return error ? failure(error) : { status: 'synced', rows: data };
+  }
+
+  if (checkConflicts && !mutation.force && mutation.base) {
+    const { data: server, error } = await table.find({ where: { id: mutation.rowId } });
+    if (error) return failure(error);
+    if (!server) {
+      return mutation.op === 'delete'
+        ? { status: 'synced', rows: [] }
+        : { status: 'conflict', conflict: { reason: CONFLICT_MESSAGES.deletedRemotely, server: null, fields: [], retryable: false } };
+    }
+    // For a delete every column we saw counts: removing a row someone just edited is a conflict.
+    const fields = conflictingFields(mutation.base, server, mutation.op === 'update' ? mutation.values : {});
+    if (fields.length > 0) {
+      return { status: 'conflict', conflict: { reason: CONFLICT_MESSAGES.changedRemotely, server, fields, retryable: true } };
+    }
+  }
+
+  if (mutation.op === 'update') {
+    const { data, error } = await table.update({ id: mutation.rowId }, mutation.values, { returning: true });
+    return error ? failure(error) : { status: 'synced', rows: data };
+  }
+  const { error } = await table.remove({ id: mutation.rowId });
+  return error ? failure(error) : { status: 'synced', rows: [] };
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { terbilang, terbilangCurrency, terbilangRupiah } from './terbilang';
+
+describe('terbilang', () => {
+  it.each([
+    [0, 'nol'],
+    [1, 'satu'],
+    [11, 'sebelas'],
+    [12, 'dua belas'],
+    [20, 'dua puluh'],
+    [100, 'seratus'],
+    [115, 'seratus lima belas'],
+    [1000, 'seribu'],
+    [1500000, 'satu juta lima ratus ribu'],
+    [2001, 'dua ribu satu'],
+    [1000000000, 'satu miliar'],
+    [3000000000000, 'tiga triliun'],
+    [-250, 'minus dua ratus lima puluh'],
+  ])('spells %d', (value, expected) => {
+    expect(terbilang(value)).toBe(expected);
+  });
+
+  it('rounds fractions to the nearest whole number', () => {
+    expect(terbilang(1499.6)).toBe('seribu lima ratus');
+  });
+
+  it('refuses numbers it cannot spell', () => {
+    expect(() => terbilang(1e15)).toThrow(RangeError);
+    expect(() => terbilang(NaN)).toThrow(RangeError);
+  });
+});
+
+describe('terbilangRupiah', () => {
+  it('appends the currency', () => {
+    expect(terbilangRupiah(2500)).toBe('dua ribu lima ratus rupiah');
+  });
+});
+
+describe('terbilangCurrency', () => {
+  it('writes cents as sen', () => {
+    expect(terbilangCurrency(12.5, 'Dolar Amerika')).toBe('dua belas dolar amerika lima puluh sen');
+  });
+
+  it('omits sen for whole amounts', () => {
+    expect(terbilangCurrency(100, 'euro')).toBe('seratus euro');
+  });
+
+  it('carries cents that round up into the whole amount', () => {
+    expect(terbilangCurrency(12.995, 'dolar')).toBe('tiga belas dolar');
+    expect(terbilangCurrency(0.999, 'dolar')).toBe('satu dolar');
+  });
+
+  it('keeps the sign of amounts below one', () => {
+    expect(terbilangCurrency(-0.5, 'dolar')).toBe('minus nol dolar lima puluh sen');
+    expect(terbilangCurrency(-12.25, 'dolar')).toBe('minus dua belas dolar dua puluh lima sen');
+  });
+});
@@ -0,0 +1,51 @@
+// Spells out a number in Indonesian words ("terbilang"), as written on invoices and
+// receipts: 1500000 -> "satu juta lima ratus ribu".
+
+const UNITS = ['', 'satu', 'dua', 'tiga', 'empat', 'lima', 'enam', 'tujuh', 'delapan', 'sembilan', 'sepuluh', 'sebelas'];
+
+const SCALES: [number, string][] = [
+  [1e12, 'triliun'],
+  [1e9, 'miliar'],
+  [1e6, 'juta'],
+];
+
+const spell = (n: number): string => {
+  if (n < 12) return UNITS[n];
+  if (n < 20) return `${spell(n - 10)} belas`;
+  if (n < 100) return `${spell(Math.floor(n / 10))} puluh ${spell(n % 10)}`;
+  // 100-199 and 1000-1999 use the "se-" prefix: seratus, seribu.
+  if (n < 200) return `seratus ${spell(n - 100)}`;
+  if (n < 1000) return `${spell(Math.floor(n / 100))} ratus ${spell(n % 100)}`;
+  if (n < 2000) return `seribu ${spell(n - 1000)}`;
+  if (n < 1e6) return `${spell(Math.floor(n / 1000))} ribu ${spell(n % 1000)}`;
+  for (const [scale, word] of SCALES) {
+    if (n >= scale) return `${spell(Math.floor(n / scale))} ${word} ${spell(n % scale)}`;
+  }
+  return '';
+};
+
+// Whole numbers only; fractions are rounded because rupiah amounts are written
+// without sen on Indonesian business documents.
+export const terbilang = (value: number): string => {
+  if (!Number.isFinite(value)) throw new RangeError(`Tidak dapat mengeja ${value}`);
+  const n = Math.round(Math.abs(value));
+  if (n >= 1e15) throw new RangeError(`Angka terlalu besar untuk dieja: ${value}`);
+  if (n === 0) return 'nol';
+  const words = spell(n).replace(/\s+/g, ' ').trim();
+  return value < 0 ? `minus ${words}` : words;
+};
+
+export const terbilangRupiah = (value: number): string => `${terbilang(value)} rupiah`;
+
+// Other currencies are written with their name and the cents, if any, as "sen":
+// 12.5 dollars -> "dua belas dolar amerika lima puluh sen".
+// Rounds to whole cents before splitting, so 12.995 is written as thirteen, not twelve
+// with a hundred sen.
+export const terbilangCurrency = (value: number, currencyName: string): string => {
+  if (!Number.isFinite(value)) throw new RangeError(`Tidak dapat mengeja ${value}`);
+  const totalCents = Math.round(Math.abs(value) * 100);
+  const cents = totalCents % 100;
+  const whole = terbilang((totalCents - cents) / 100);
+  const sign = value < 0 && totalCents > 0 ? 'minus ' : '';
+  return `${sign}${whole} ${currencyName.toLowerCase()}${cents ? ` ${terbilang(cents)} sen` : ''}`;
+};
@@ -0,0 +1,17 @@
+import { Payment, Receivable } from './types';
+
+// Complete rows for the tests, down to the last column, so each test spells out only the
+// fields it is about.
+
+export const receivable = (fields: Partial<Receivable> = {}): Receivable => ({
+  id: 'r1', customer_id: 'c1', description: 'Sewa gudang', currency: 'IDR', total_amount: 1000, paid_amount: 0,
+  issue_date: '2025-01-01', due_date: '2025-01-31', deleted_at: null, recurring_id: null, occurrence_date: null,
+  category_id: null, tags: [], late_fee_rule: null,
+  ...fields,
+});
+
+export const payment = (fields: Partial<Payment> = {}): Payment => ({
+  id: 'p1', receivable_id: 'r1', currency: 'IDR', amount: 100, paid_at: '2025-02-01', method: 'transfer',
+  note: null, voided_at: null,
+  ...fields,
+});
@@ -0,0 +1,73 @@
+// Time-based one-time passwords (RFC 6238) as authenticator apps compute them: HMAC-SHA1
+// over 30-second steps, six digits. Supabase checks codes on its own servers; this is for
+// the local backend, which has to check them in the browser.
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from one step either side are accepted, for clocks that drift a little.
+const DRIFT_STEPS = 1;
+
+export const base32Encode = (bytes: Uint8Array) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  bytes.forEach(byte => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) output += ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+export const base32Decode = (text: string) => {
+  const clean = text.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Karakter "${char}" tidak valid dalam kunci rahasia.`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+// 160 random bits, the key length RFC 4226 recommends for HMAC-SHA1.
+export const generateSecret = () => base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+
+export const otpauthUri = (issuer: string, account: string, secret: string) =>
+  `otpauth://totp/${encodeURIComponent(`${issuer}:${account}`)}?secret=${secret}&issuer=${encodeURIComponent(issuer)}`
+  + `&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+
+const hotp = async (secret: string, counter: number) => {
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer));
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+export const totpCode = (secret: string, now = Date.now()) => hotp(secret, Math.floor(now / 1000 / STEP_SECONDS));
+
+export const verifyTotp = async (secret: string, code: string, now = Date.now()) => {
+  const clean = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(clean)) return false;
+  const step = Math.floor(now / 1000 / STEP_SECONDS);
+  for (let drift = -DRIFT_STEPS; drift <= DRIFT_STEPS; drift++) {
+    if (await hotp(secret, step + drift) === clean) return true;
+  }
+  return false;
+};
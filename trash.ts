@@ -0,0 +1,19 @@
+import { DAY_MS } from './dates';
+
+// Soft delete: receivables and revenues are moved to the trash by stamping deleted_at,
+// and are only removed for good once they have been there longer than the workspace's
+// retention period.
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const isTrashed = (row: { deleted_at: string | null }): boolean => !!row.deleted_at;
+
+export const purgeAt = (deletedAt: string, retentionDays: number) =>
+  new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS);
+
+// Whole days left before the row is purged, never below zero.
+export const daysUntilPurge = (deletedAt: string, retentionDays: number, now: Date) =>
+  Math.max(0, Math.ceil((purgeAt(deletedAt, retentionDays).getTime() - now.getTime()) / DAY_MS));
+
+export const expiredTrash = <T extends { deleted_at: string | null }>(rows: T[], retentionDays: number, now: Date): T[] =>
+  rows.filter(row => row.deleted_at && purgeAt(row.deleted_at, retentionDays) <= now);
@@ -0,0 +1,331 @@
+// Shared domain types mirroring the Supabase tables.
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  notes: string | null;
+}
+
+export interface Receivable {
+  id: string;
+  customer_id: string | null;
+  description: string;
+  // ISO 4217 code; every amount on the receivable and its payments is in this currency.
+  currency: string;
+  total_amount: number;
+  paid_amount: number;
+  // The transaction date its exchange rate is taken from; null on older rows.
+  issue_date: string | null;
+  due_date: string;
+  // Set while the receivable sits in the trash.
+  deleted_at: string | null;
+  // Set on rows generated from a recurring template: the template and the scheduled
+  // date of the occurrence (before any adjustment), which together identify the row.
+  recurring_id: string | null;
+  occurrence_date: string | null;
+  category_id: string | null;
+  // Free-form labels, see categories.ts.
+  tags: string[];
+  // Overrides the workspace's default late-fee rule; null follows the default.
+  late_fee_rule: LateFeeRule | null;
+}
+
+export type PaymentMethod = 'cash' | 'transfer' | 'qris' | 'other';
+
+export interface Payment {
+  id: string;
+  receivable_id: string;
+  // Always the currency of the receivable it pays.
+  currency: string;
+  amount: number;
+  paid_at: string;
+  method: PaymentMethod;
+  note: string | null;
+  voided_at: string | null;
+}
+
+export interface Revenue {
+  id: string;
+  description: string;
+  currency: string;
+  amount: number;
+  date: string;
+  // Set when the revenue was posted automatically from a receivable payment.
+  receivable_id: string | null;
+  payment_id: string | null;
+  deleted_at: string | null;
+  recurring_id: string | null;
+  occurrence_date: string | null;
+  category_id: string | null;
+  tags: string[];
+  // Set on adjusting entries, which correct the books of a closed period from an open one:
+  // why, and the corrected entry when there is a single one.
+  adjustment_reason: string | null;
+  adjusts_id: string | null;
+}
+
+// What the business owes a supplier. Mirrors Receivable: the amount paid is the sum of
+// the payable's non-voided payments, never a stored column.
+export interface Payable {
+  id: string;
+  supplier: string | null;
+  description: string;
+  // Every amount on the payable and its payments is in this currency.
+  currency: string;
+  total_amount: number;
+  issue_date: string;
+  due_date: string;
+}
+
+export interface PayablePayment {
+  id: string;
+  payable_id: string;
+  currency: string;
+  amount: number;
+  paid_at: string;
+  method: PaymentMethod;
+  note: string | null;
+  voided_at: string | null;
+}
+
+export interface Expense {
+  id: string;
+  description: string;
+  currency: string;
+  amount: number;
+  date: string;
+  // Set when the expense was posted automatically from a payable payment.
+  payable_id: string | null;
+  payable_payment_id: string | null;
+  // See Revenue.
+  adjustment_reason: string | null;
+  adjusts_id: string | null;
+}
+
+export type BankLineStatus = 'unmatched' | 'matched' | 'ignored';
+
+// An incoming transfer from an imported bank statement. Unmatched lines form the
+// reconciliation queue; a matched line points at the payment recorded from it.
+export interface BankLine {
+  id: string;
+  date: string;
+  description: string;
+  reference: string | null;
+  currency: string;
+  amount: number;
+  // Unique per workspace, see bankStatement.ts.
+  fingerprint: string;
+  status: BankLineStatus;
+  receivable_id: string | null;
+  payment_id: string | null;
+}
+
+export type PeriodKind = 'month' | 'year';
+
+// Period totals in the base currency, frozen when the period is closed.
+export interface PeriodSnapshot {
+  base_currency: string;
+  revenue: number;
+  expenses: number;
+  profit: number;
+  cash_in: number;
+  cash_out: number;
+  receivables_issued: number;
+  payables_issued: number;
+  // Still to be collected and to be paid at the end of the period.
+  receivables_outstanding: number;
+  payables_outstanding: number;
+  // Receivables, payments, revenues, payables, supplier payments and expenses dated in the period.
+  entry_count: number;
+  // Currencies without a rate on some entry's date; those entries are left out of the totals.
+  missing_currencies: string[];
+}
+
+// A closed month or year. Entries dated up to the end of the latest period that has not
+// been reopened can no longer be created, edited or deleted. Reopening keeps the row,
+// so the history of closes stays complete.
+export interface PeriodClose {
+  id: string;
+  kind: PeriodKind;
+  period_start: string;
+  period_end: string;
+  snapshot: PeriodSnapshot;
+  closed_at: string;
+  closed_by_email: string;
+  reopened_at: string | null;
+  reopened_by_email: string | null;
+  reopen_reason: string | null;
+}
+
+export type ShareScope = 'receivable' | 'customer';
+
+// A link to the read-only debtor portal, for one receivable or for every receivable of
+// one customer. The token is the secret in the URL; the link stops working once it
+// expires or is revoked.
+export interface ShareLink {
+  id: string;
+  token: string;
+  scope: ShareScope;
+  receivable_id: string | null;
+  customer_id: string | null;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// One opening of the portal through a share link.
+export interface ShareLinkAccess {
+  id: string;
+  link_id: string;
+  accessed_at: string;
+  user_agent: string | null;
+}
+
+// A user-defined grouping for receivables and revenues, e.g. product sales or rental
+// income. The account code lets exports line up with the accountant's chart of accounts.
+export interface Category {
+  id: string;
+  name: string;
+  account_code: string | null;
+}
+
+// Letterhead and payment instructions printed on invoices and receipts; one row per workspace.
+export interface BusinessProfile {
+  business_name: string;
+  address: string | null;
+  city: string | null;
+  phone: string | null;
+  email: string | null;
+  payment_instructions: string | null;
+  signatory: string | null;
+}
+
+export type DocumentType = 'invoice' | 'receipt';
+
+export interface IssuedDocument {
+  id: string;
+  type: DocumentType;
+  number: string;
+  receivable_id: string;
+  payment_id: string | null;
+  issued_at: string;
+}
+
+// A reminder fires `offset_days` after the due date (negative = before it) and, when
+// `repeat_every_days` is set, again every that many days afterwards.
+export interface ReminderRule {
+  id: string;
+  offset_days: number;
+  repeat_every_days: number | null;
+}
+
+export type RecurrenceUnit = 'day' | 'week' | 'month' | 'year';
+
+// A change to one occurrence of a recurring template, keyed by its scheduled date.
+export interface OccurrenceOverride {
+  date: string;
+  skip: boolean;
+  // Adjusted date and amount; null keeps the scheduled value.
+  moved_to: string | null;
+  amount: number | null;
+}
+
+// Generates a receivable or revenue on every occurrence of its schedule.
+export interface RecurringTemplate {
+  id: string;
+  target: 'receivable' | 'revenue';
+  customer_id: string | null;
+  description: string;
+  currency: string;
+  amount: number;
+  unit: RecurrenceUnit;
+  interval: number;
+  start_date: string;
+  end_date: string | null;
+  max_occurrences: number | null;
+  // Receivables only: days from the occurrence to its due date.
+  due_after_days: number;
+  overrides: OccurrenceOverride[];
+  // Every occurrence up to this scheduled date has been generated or skipped.
+  generated_through: string | null;
+}
+
+// A shared set of books. Every ledger row carries the workspace_id it belongs to.
+export interface Workspace {
+  id: string;
+  name: string;
+  created_by: string;
+  // How long trashed rows are kept before they are purged; null means the default.
+  trash_retention_days: number | null;
+  // The currency summaries and reports are converted to; null means IDR.
+  base_currency: string | null;
+  // Applies to receivables without a rule of their own; null charges no late fees.
+  late_fee_rule: LateFeeRule | null;
+}
+
+export type LateFeeKind = 'none' | 'flat' | 'monthly' | 'daily';
+
+// See lateFees.ts for how each kind accrues.
+export interface LateFeeRule {
+  kind: LateFeeKind;
+  // The amount for 'flat', a percentage for 'monthly' and 'daily'.
+  rate: number;
+  grace_days: number;
+  // Total fees never exceed this percentage of the principal; null for no cap.
+  cap_percent: number | null;
+}
+
+// "1 `currency` = `rate` `base_currency`" from `rate_date` until the next rate for the pair.
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  base_currency: string;
+  rate_date: string;
+  rate: number;
+}
+
+export type WorkspaceRole = 'owner' | 'admin' | 'collector' | 'viewer';
+
+export interface WorkspaceMember {
+  id: string;
+  workspace_id: string;
+  user_id: string;
+  email: string;
+  role: WorkspaceRole;
+}
+
+// Pending until the invited email signs in and accepts it.
+export interface WorkspaceInvitation {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: WorkspaceRole;
+  invited_by: string;
+  created_at: string;
+  accepted_at: string | null;
+}
+
+export type AuditEntity = 'receivable' | 'revenue' | 'payment' | 'customer' | 'payable' | 'payable_payment' | 'expense' | 'period';
+export type AuditAction = 'create' | 'update' | 'delete' | 'void' | 'trash' | 'restore' | 'close' | 'reopen';
+
+// One row of the activity log. The database writes it alongside the change itself and
+// grants clients no insert, update or delete on it (0004_audit_trigger.sql).
+export interface AuditEntry {
+  id: string;
+  workspace_id: string;
+  // Null for changes made outside any user's session.
+  actor_id: string | null;
+  actor_email: string;
+  entity: AuditEntity;
+  entity_id: string;
+  // The receivable a payment or posted revenue belongs to, so its history can include them.
+  parent_id: string | null;
+  action: AuditAction;
+  summary: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  // When the change reached the database; a change made offline is logged when it syncs.
+  occurred_at: string;
+}
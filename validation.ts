@@ -0,0 +1,212 @@
+import { Customer, Expense, Payable, PayablePayment, Payment, PaymentMethod, Receivable, Revenue } from './types';
+import { DataResult, Page, TableName, TableRepository, failed } from './repository';
+import { DEFAULT_BASE_CURRENCY, isCurrencyCode } from './currency';
+
+// Runtime checks for rows coming out of a backend. The compiler only knows what we told
+// it the tables look like; a renamed column or a text amount would otherwise surface
+// much later as NaN totals or blank cells.
+
+type FieldType = 'string' | 'number' | 'nullableString' | 'currency' | 'tags' | 'nullableObject' | 'paymentMethod';
+
+type Schema<T> = { [K in keyof T]-?: FieldType };
+
+const RECEIVABLE_SCHEMA: Schema<Receivable> = {
+  id: 'string',
+  customer_id: 'nullableString',
+  description: 'string',
+  currency: 'currency',
+  total_amount: 'number',
+  paid_amount: 'number',
+  issue_date: 'nullableString',
+  due_date: 'string',
+  deleted_at: 'nullableString',
+  recurring_id: 'nullableString',
+  occurrence_date: 'nullableString',
+  category_id: 'nullableString',
+  tags: 'tags',
+  late_fee_rule: 'nullableObject',
+};
+
+const REVENUE_SCHEMA: Schema<Revenue> = {
+  id: 'string',
+  description: 'string',
+  currency: 'currency',
+  amount: 'number',
+  date: 'string',
+  receivable_id: 'nullableString',
+  payment_id: 'nullableString',
+  deleted_at: 'nullableString',
+  recurring_id: 'nullableString',
+  occurrence_date: 'nullableString',
+  category_id: 'nullableString',
+  tags: 'tags',
+  adjustment_reason: 'nullableString',
+  adjusts_id: 'nullableString',
+};
+
+const CUSTOMER_SCHEMA: Schema<Customer> = {
+  id: 'string',
+  name: 'string',
+  phone: 'nullableString',
+  email: 'nullableString',
+  address: 'nullableString',
+  notes: 'nullableString',
+};
+
+const PAYMENT_SCHEMA: Schema<Payment> = {
+  id: 'string',
+  receivable_id: 'string',
+  currency: 'currency',
+  amount: 'number',
+  paid_at: 'string',
+  method: 'paymentMethod',
+  note: 'nullableString',
+  voided_at: 'nullableString',
+};
+
+const PAYABLE_SCHEMA: Schema<Payable> = {
+  id: 'string',
+  supplier: 'nullableString',
+  description: 'string',
+  currency: 'currency',
+  total_amount: 'number',
+  issue_date: 'string',
+  due_date: 'string',
+};
+
+const PAYABLE_PAYMENT_SCHEMA: Schema<PayablePayment> = {
+  id: 'string',
+  payable_id: 'string',
+  currency: 'currency',
+  amount: 'number',
+  paid_at: 'string',
+  method: 'paymentMethod',
+  note: 'nullableString',
+  voided_at: 'nullableString',
+};
+
+const EXPENSE_SCHEMA: Schema<Expense> = {
+  id: 'string',
+  description: 'string',
+  currency: 'currency',
+  amount: 'number',
+  date: 'string',
+  payable_id: 'nullableString',
+  payable_payment_id: 'nullableString',
+  adjustment_reason: 'nullableString',
+  adjusts_id: 'nullableString',
+};
+
+const PAYMENT_METHODS: readonly string[] = ['cash', 'transfer', 'qris', 'other'] satisfies PaymentMethod[];
+
+const describe = (value: unknown) => value === undefined ? 'kosong' : JSON.stringify(value);
+
+const parseField = (entity: string, field: string, type: FieldType, value: unknown) => {
+  const invalid = (expected: string) =>
+    new Error(`Data ${entity} tidak valid: kolom "${field}" harus berupa ${expected} (diterima ${describe(value)}).`);
+
+  switch (type) {
+    case 'string':
+      if (typeof value !== 'string') throw invalid('teks');
+      return value;
+    case 'nullableString':
+      if (value != null && typeof value !== 'string') throw invalid('teks atau kosong');
+      return value ?? null;
+    // Rows written before currencies were introduced are in rupiah.
+    case 'currency':
+      if (value == null) return DEFAULT_BASE_CURRENCY;
+      if (typeof value !== 'string' || !isCurrencyCode(value)) throw invalid('kode mata uang');
+      return value;
+    // Rows written before tags were introduced have none.
+    case 'tags':
+      if (value == null) return [];
+      if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) throw invalid('daftar teks');
+      return value;
+    case 'paymentMethod':
+      if (typeof value !== 'string' || !PAYMENT_METHODS.includes(value)) throw invalid(PAYMENT_METHODS.join(', '));
+      return value;
+    // JSON columns; their shape is the reading module's concern.
+    case 'nullableObject':
+      if (value != null && (typeof value !== 'object' || Array.isArray(value))) throw invalid('objek atau kosong');
+      return value ?? null;
+    case 'number': {
+      // Numeric columns may arrive as strings; anything that is not a finite number is rejected.
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) throw invalid('angka');
+      return number;
+    }
+  }
+};
+
+// Columns outside the schema (workspace_id, user_id, ...) are passed through untouched.
+const parseRow = <T>(entity: string, schema: Schema<T>, value: unknown): T => {
+  if (typeof value !== 'object' || value === null) throw new Error(`Data ${entity} tidak valid: baris kosong.`);
+  const row: Record<string, unknown> = { ...value };
+  (Object.keys(schema) as (keyof T & string)[]).forEach(field => {
+    row[field] = parseField(entity, field, schema[field], row[field]);
+  });
+  return row as T;
+};
+
+export const parseReceivable = (value: unknown) => parseRow('piutang', RECEIVABLE_SCHEMA, value);
+
+export const parseRevenue = (value: unknown) => parseRow('pendapatan', REVENUE_SCHEMA, value);
+
+// The tables whose rows feed the ledger and the reports.
+const TABLE_PARSERS: Partial<Record<TableName, (value: unknown) => unknown>> = {
+  receivables: parseReceivable,
+  revenues: parseRevenue,
+  customers: value => parseRow('pelanggan', CUSTOMER_SCHEMA, value),
+  payments: value => parseRow('pembayaran', PAYMENT_SCHEMA, value),
+  payables: value => parseRow('utang', PAYABLE_SCHEMA, value),
+  payable_payments: value => parseRow('pembayaran utang', PAYABLE_PAYMENT_SCHEMA, value),
+  expenses: value => parseRow('biaya', EXPENSE_SCHEMA, value),
+};
+
+// A page from a database function: its rows are checked like the rows of a list.
+export const parsePage = <T>(value: unknown, parse: (value: unknown) => T): Page<T> => {
+  const page = value as { rows?: unknown; total?: unknown } | null;
+  if (!page || !Array.isArray(page.rows)) throw new Error('Data halaman tidak valid.');
+  return { rows: page.rows.map(parse), total: Number(page.total) };
+};
+
+const parseResult = <T, R>(result: DataResult<R>, parse: (data: R) => T): DataResult<T> => {
+  if (result.error) return { data: null, error: result.error };
+  try {
+    return { data: parse(result.data), error: null };
+  } catch (error) {
+    return failed(error);
+  }
+};
+
+// Wraps a repository so every row it hands out has been checked. A row that fails turns
+// the whole result into an error; a bad realtime row is logged and dropped.
+export const withValidation = <T>(repository: TableRepository<unknown>, parse: (value: unknown) => T): TableRepository<T> => {
+  const parseRows = (rows: unknown[]) => rows.map(parse);
+  return {
+    list: async query => parseResult(await repository.list(query), parseRows),
+    find: async query => parseResult(await repository.find(query), row => row === null ? null : parse(row)),
+    insert: async (rows, options) => parseResult(await repository.insert(rows, options), parseRows),
+    upsert: async (rows, options) => parseResult(await repository.upsert(rows, options), parseRows),
+    update: async (where, values, options) => parseResult(await repository.update(where, values, options), parseRows),
+    remove: where => repository.remove(where),
+    subscribe: (workspaceId, onChange, onError) => repository.subscribe(workspaceId, change => {
+      if (change.type === 'delete') {
+        onChange(change);
+        return;
+      }
+      try {
+        onChange({ type: 'upsert', row: parse(change.row) });
+      } catch (error) {
+        console.error('Ignoring invalid realtime row:', error);
+      }
+    }, onError),
+  };
+};
+
+// What both backends hand out for `table(name)`: checked rows for the TABLE_PARSERS
+// tables, the repository as it is for the rest.
+export const validatedTable = (name: TableName, repository: TableRepository<unknown>): TableRepository<unknown> => {
+  const parse = TABLE_PARSERS[name];
+  return parse ? withValidation(repository, parse) : repository;
+};
@@ -0,0 +1,56 @@
+import { WorkspaceRole } from './types';
+import { TableName } from './repository';
+
+// Team roles and what each may do. The database enforces the same rules through row
+// level security (supabase/migrations/0003_workspace_access.sql) and the local backend
+// through its own checks; these only decide which actions the interface offers.
+
+export type WorkspaceAction =
+  | 'manageEntries'     // create, edit and delete receivables, revenues, payables, expenses and customers; pay suppliers
+  | 'importData'
+  | 'recordPayments'
+  | 'managePayments'    // edit or void payments already recorded, incoming or outgoing
+  | 'issueDocuments'    // number and print invoices and receipts
+  | 'shareStatements'   // create and revoke links to the debtor portal
+  | 'closePeriods'      // close a month or year of the books
+  | 'reopenPeriods'     // reopen a closed period, owners only
+  | 'manageSettings'    // letterhead and reminder rules
+  | 'manageMembers';
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Pemilik',
+  admin: 'Admin',
+  collector: 'Penagih',
+  viewer: 'Hanya Lihat',
+};
+
+export const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: 'Semua akses, termasuk pengaturan, anggota dan membuka kembali buku yang sudah ditutup.',
+  admin: 'Mengelola piutang, hutang, pendapatan, biaya, pelanggan dan pembayaran, serta menutup buku.',
+  collector: 'Hanya mencatat pembayaran, mencetak kwitansi dan membagikan tautan tagihan.',
+  viewer: 'Hanya melihat data dan laporan.',
+};
+
+const PERMISSIONS: Record<WorkspaceRole, WorkspaceAction[]> = {
+  owner: [
+    'manageEntries', 'importData', 'recordPayments', 'managePayments', 'issueDocuments', 'shareStatements',
+    'closePeriods', 'reopenPeriods', 'manageSettings', 'manageMembers',
+  ],
+  admin: ['manageEntries', 'importData', 'recordPayments', 'managePayments', 'issueDocuments', 'shareStatements', 'closePeriods'],
+  collector: ['recordPayments', 'issueDocuments', 'shareStatements'],
+  viewer: [],
+};
+
+export const can = (role: WorkspaceRole, action: WorkspaceAction) => PERMISSIONS[role].includes(action);
+
+// Roles an inviter may hand out: owners can appoint other owners, nobody else invites.
+export const assignableRoles = (role: WorkspaceRole): WorkspaceRole[] =>
+  can(role, 'manageMembers') ? ['owner', 'admin', 'collector', 'viewer'] : [];
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Tables whose rows predate workspaces and were scoped by user_id alone. A user's first
+// workspace takes them over.
+export const LEGACY_WORKSPACE_TABLES: TableName[] = [
+  'customers', 'receivables', 'payments', 'revenues', 'business_profiles', 'documents', 'reminder_rules',
+];